@@ -4,15 +4,15 @@
  * This handler:
  * - Validates the transfer ID
  * - Retrieves the transfer record from DynamoDB
- * - Stops the Step Functions execution
- * - Stops any running ECS tasks
- * - Marks the transfer as cancelled in DynamoDB
+ * - Marks the transfer as cancelled in DynamoDB, which the worker picks up to
+ *   stop the transfer and abort its multipart upload
+ * - Stops the ECS task running this transfer, leaving other transfers' tasks alone
  */
 
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import { SFNClient, StopExecutionCommand } from '@aws-sdk/client-sfn';
-import { ECSClient, StopTaskCommand, ListTasksCommand } from '@aws-sdk/client-ecs';
 import { DynamoDBService } from '../services/DynamoDBService.js';
+import { EcsTaskService } from '../services/EcsTaskService.js';
+import { IllegalTransitionError } from '../utils/errorHandler.js';
 
 // Environment variables
 const DYNAMODB_TABLE_NAME = process.env.DYNAMODB_TABLE_NAME || 'TransferTable';
@@ -21,8 +21,7 @@ const ECS_CLUSTER_NAME = process.env.ECS_CLUSTER_NAME || 'S3ZipDownloaderCluster
 
 // Initialize services
 const dynamoDBService = new DynamoDBService(DYNAMODB_TABLE_NAME, AWS_REGION);
-const sfnClient = new SFNClient({ region: AWS_REGION });
-const ecsClient = new ECSClient({ region: AWS_REGION });
+const ecsTaskService = new EcsTaskService(ECS_CLUSTER_NAME, AWS_REGION);
 
 /**
  * Lambda handler for cancelling transfers
@@ -54,76 +53,31 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
 
     console.log(`Transfer status: ${transferRecord.status}`);
 
-    // Stop Step Functions execution if execution ARN exists
-    if (transferRecord.executionArn) {
-      try {
-        console.log(`Stopping Step Functions execution: ${transferRecord.executionArn}`);
-        await sfnClient.send(
-          new StopExecutionCommand({
-            executionArn: transferRecord.executionArn,
-            error: 'UserCancelled',
-            cause: 'Transfer cancelled by user',
-          })
-        );
-        console.log('Step Functions execution stopped successfully');
-      } catch (sfnError: any) {
-        // Log error but continue - execution might already be stopped
-        console.error('Failed to stop Step Functions execution:', sfnError);
-        if (sfnError.name !== 'ExecutionDoesNotExist') {
-          // Only log as warning if execution doesn't exist
-          console.warn('Step Functions execution may already be stopped');
-        }
-      }
-    }
-
-    // Find and stop any running ECS tasks for this transfer
-    try {
-      console.log(`Looking for ECS tasks in cluster: ${ECS_CLUSTER_NAME}`);
-      const listTasksResult = await ecsClient.send(
-        new ListTasksCommand({
-          cluster: ECS_CLUSTER_NAME,
-          desiredStatus: 'RUNNING',
-        })
-      );
-
-      if (listTasksResult.taskArns && listTasksResult.taskArns.length > 0) {
-        console.log(`Found ${listTasksResult.taskArns.length} running tasks`);
-        
-        // Stop all running tasks (we could filter by transfer ID if we had task metadata)
-        // For now, we'll stop all tasks since Step Functions should handle task lifecycle
-        for (const taskArn of listTasksResult.taskArns) {
-          try {
-            console.log(`Stopping ECS task: ${taskArn}`);
-            await ecsClient.send(
-              new StopTaskCommand({
-                cluster: ECS_CLUSTER_NAME,
-                task: taskArn,
-                reason: 'Transfer cancelled by user',
-              })
-            );
-            console.log(`ECS task stopped: ${taskArn}`);
-          } catch (ecsError) {
-            console.error(`Failed to stop ECS task ${taskArn}:`, ecsError);
-            // Continue with other tasks
-          }
-        }
-      } else {
-        console.log('No running ECS tasks found');
-      }
-    } catch (ecsError) {
-      console.error('Failed to list/stop ECS tasks:', ecsError);
-      // Continue - this is not critical
-    }
-
     // Mark transfer as cancelled in DynamoDB
+    // The worker polls its record, so it stops reading, drains its part uploads and aborts
+    // the multipart upload itself. A worker that hasn't started yet sees the cancel when it
+    // loads the record and exits right away.
     try {
       await dynamoDBService.markTransferCancelled(transferId);
       console.log('Transfer marked as cancelled in DynamoDB');
     } catch (dbError) {
+      // Finished between the status check above and the write
+      if (dbError instanceof IllegalTransitionError) {
+        return createErrorResponse(400, 'TRANSFER_NOT_ACTIVE', `Transfer is already ${dbError.from}`);
+      }
       console.error('Failed to mark transfer as cancelled in DynamoDB:', dbError);
       return createErrorResponse(500, 'DATABASE_ERROR', 'Failed to update transfer status');
     }
 
+    // Stop this transfer's task so it doesn't wait for its next poll
+    // The record is marked first: the worker checks it on SIGTERM and cleans up before exiting
+    try {
+      await ecsTaskService.stopTransferTask(transferId, transferRecord.fargateTaskArn, 'Transfer cancelled by user');
+    } catch (ecsError) {
+      // Not critical - the worker still sees the cancel on its next poll
+      console.error(`Failed to stop ECS task for transfer ${transferId}:`, ecsError);
+    }
+
     return {
       statusCode: 200,
       headers: {
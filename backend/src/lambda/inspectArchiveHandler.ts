@@ -0,0 +1,132 @@
+/**
+ * Lambda handler for inspecting a remote ZIP archive
+ *
+ * This handler:
+ * - Validates the source URL like a transfer's (HTTPS only)
+ * - Reads the archive's central directory with HTTP Range requests
+ * - Returns entry names, sizes, compression methods, CRCs and timestamps
+ *   without downloading the entries' data
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { ValidationService } from '../services/ValidationService.js';
+import { UrlService } from '../services/UrlService.js';
+import { CentralDirectoryEntry, RemoteZipReader } from '../services/RemoteZipReader.js';
+import { compressionMethodName } from '../services/ZipFormat.js';
+import { ArchiveEntryInfo, ArchiveInspection } from '../types/api.js';
+import { ArchiveError, ClassifiedError } from '../utils/errorHandler.js';
+
+const DEFAULT_ENTRY_LIMIT = 1000;
+const MAX_ENTRY_LIMIT = 10000; // Keeps the response within the 6MB Lambda payload limit
+
+// Initialize services
+const urlService = new UrlService();
+
+/**
+ * Lambda handler for archive inspection
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  console.log('Archive inspection request received:', JSON.stringify(event, null, 2));
+
+  const sourceUrl = event.queryStringParameters?.url;
+  if (!sourceUrl) {
+    return createErrorResponse(400, 'MISSING_SOURCE_URL', 'url query parameter is required');
+  }
+
+  const sanitizedUrl = ValidationService.sanitizeInput(sourceUrl);
+  const urlValidation = ValidationService.validateUrl(sanitizedUrl);
+  if (!urlValidation.isValid) {
+    return createErrorResponse(400, 'INVALID_URL', urlValidation.error || 'Invalid source URL');
+  }
+
+  let limit = DEFAULT_ENTRY_LIMIT;
+  const limitParameter = event.queryStringParameters?.limit;
+  if (limitParameter !== undefined) {
+    limit = Number(limitParameter);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ENTRY_LIMIT) {
+      return createErrorResponse(400, 'INVALID_LIMIT', `limit must be an integer between 1 and ${MAX_ENTRY_LIMIT}`);
+    }
+  }
+
+  try {
+    const directory = await new RemoteZipReader(sanitizedUrl, urlService).readDirectory();
+    console.log(`Read ${directory.entries.length} entries from the central directory of ${sanitizedUrl}`);
+
+    const response: ArchiveInspection = {
+      success: true,
+      sourceUrl: sanitizedUrl,
+      archiveSize: directory.archiveSize,
+      zip64: directory.zip64,
+      comment: directory.comment,
+      entryCount: directory.entries.length,
+      uncompressedBytes: directory.entries.reduce((total, entry) => total + entry.uncompressedSize, 0),
+      entries: directory.entries.slice(0, limit).map(formatEntry),
+      truncated: directory.entries.length > limit,
+    };
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*', // CORS
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      },
+      body: JSON.stringify(response),
+    };
+  } catch (error) {
+    console.error('Error inspecting archive:', error);
+
+    // Not a readable archive: 422. The source refused or failed the requests: 502.
+    if (error instanceof ClassifiedError) {
+      return createErrorResponse(error instanceof ArchiveError ? 422 : 502, error.code, error.message, error.retryable);
+    }
+
+    // Generic error
+    return createErrorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
+
+/**
+ * Formats a central directory entry for the response
+ */
+function formatEntry(entry: CentralDirectoryEntry): ArchiveEntryInfo {
+  return {
+    name: entry.name,
+    compressedSize: entry.compressedSize,
+    uncompressedSize: entry.uncompressedSize,
+    compressionMethod: compressionMethodName(entry.method),
+    crc32: entry.crc32.toString(16).padStart(8, '0'),
+    lastModified: entry.lastModified.toISOString(),
+    isDirectory: entry.isDirectory,
+    encrypted: entry.encrypted,
+  };
+}
+
+/**
+ * Helper function to create error responses
+ */
+function createErrorResponse(
+  statusCode: number,
+  code: string,
+  message: string,
+  retryable = statusCode >= 500 // Server errors are retryable
+): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    },
+    body: JSON.stringify({
+      success: false,
+      error: {
+        code,
+        message,
+        retryable,
+      },
+    }),
+  };
+}
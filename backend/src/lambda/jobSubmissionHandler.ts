@@ -4,7 +4,7 @@
  * 
  * This handler:
  * - Parses and validates incoming requests
- * - Validates source URL and bucket name
+ * - Validates source URL, bucket name and the optional expected checksum
  * - Generates unique transfer ID
  * - Creates transfer record in DynamoDB with "pending" status
  * - Starts Step Functions workflow with transfer parameters
@@ -16,13 +16,15 @@ import { SFNClient, StartExecutionCommand } from '@aws-sdk/client-sfn';
 import { DynamoDBService } from '../services/DynamoDBService.js';
 import { ValidationService } from '../services/ValidationService.js';
 import { UrlService } from '../services/UrlService.js';
-import { DownloadRequest, DownloadResponse } from '../types/api.js';
+import { selectsEntries } from '../services/EntryFilter.js';
+import { DownloadRequest, DownloadResponse, ExpectedChecksum } from '../types/api.js';
 import { randomUUID } from 'crypto';
 
 // Environment variables
 const DYNAMODB_TABLE_NAME = process.env.DYNAMODB_TABLE_NAME || 'TransferTable';
 const STATE_MACHINE_ARN = process.env.STATE_MACHINE_ARN;
 const AWS_REGION = process.env.AWS_REGION || 'us-east-1';
+const ARCHIVE_PASSWORD_SECRET_PREFIX = process.env.ARCHIVE_PASSWORD_SECRET_PREFIX || 's3-zip-downloader/archive-passwords/';
 
 // Initialize services
 const dynamoDBService = new DynamoDBService(DYNAMODB_TABLE_NAME, AWS_REGION);
@@ -82,6 +84,44 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
       }
     }
 
+    // Validate expected checksum if provided
+    let expectedChecksum: ExpectedChecksum | undefined;
+    if (request.expectedChecksum !== undefined) {
+      const checksumValidation = ValidationService.validateExpectedChecksum(request.expectedChecksum);
+      if (!checksumValidation.isValid) {
+        return createErrorResponse(400, 'INVALID_EXPECTED_CHECKSUM', checksumValidation.error || 'Invalid expected checksum');
+      }
+      expectedChecksum = {
+        algorithm: request.expectedChecksum.algorithm,
+        value: request.expectedChecksum.value.trim().toLowerCase(),
+        source: 'request',
+      };
+    }
+
+    if (request.discoverChecksum !== undefined && typeof request.discoverChecksum !== 'boolean') {
+      return createErrorResponse(400, 'INVALID_DISCOVER_CHECKSUM', 'discoverChecksum must be a boolean');
+    }
+
+    // Validate bandwidth limit if provided
+    if (request.maxBytesPerSecond !== undefined) {
+      const rateValidation = ValidationService.validateMaxBytesPerSecond(request.maxBytesPerSecond);
+      if (!rateValidation.isValid) {
+        return createErrorResponse(400, 'INVALID_MAX_BYTES_PER_SECOND', rateValidation.error || 'Invalid bandwidth limit');
+      }
+    }
+
+    // Validate extraction options if provided
+    if (request.extract !== undefined) {
+      const extractValidation = ValidationService.validateExtractOptions(request.extract, ARCHIVE_PASSWORD_SECRET_PREFIX);
+      if (!extractValidation.isValid) {
+        return createErrorResponse(400, 'INVALID_EXTRACT', extractValidation.error || 'Invalid extraction options');
+      }
+      // Selected entries are read on their own, so no digest of the whole archive is ever computed
+      if (selectsEntries(request.extract) && expectedChecksum) {
+        return createErrorResponse(400, 'INVALID_EXTRACT', 'expectedChecksum can\'t be verified when include or exclude patterns select entries');
+      }
+    }
+
     // Extract filename from URL
     const filename = urlService.extractFilename(sanitizedUrl);
 
@@ -112,7 +152,22 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
       sanitizedUrl,
       sanitizedBucket,
       s3Key,
-      sanitizedPrefix
+      sanitizedPrefix,
+      {
+        expectedChecksum,
+        // Only stored when turned off, discovery is the default
+        discoverChecksum: request.discoverChecksum === false ? false : undefined,
+        maxBytesPerSecond: request.maxBytesPerSecond,
+        extract: request.extract
+          ? {
+              keepArchive: request.extract.keepArchive === true,
+              include: request.extract.include?.length ? request.extract.include : undefined,
+              exclude: request.extract.exclude?.length ? request.extract.exclude : undefined,
+              // The secret's name only, the password never reaches the record
+              passwordSecret: request.extract.passwordSecret,
+            }
+          : undefined,
+      }
     );
 
     console.log(`Transfer record created: ${transferId}`, transferRecord);
@@ -158,7 +213,13 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
       try {
         await dynamoDBService.markTransferFailed(
           transferId,
-          `Failed to start transfer workflow: ${sfnError instanceof Error ? sfnError.message : String(sfnError)}`
+          `Failed to start transfer workflow: ${sfnError instanceof Error ? sfnError.message : String(sfnError)}`,
+          {
+            code: 'WORKFLOW_START_FAILED',
+            category: 'internal',
+            retryable: true,
+            remediation: 'Submit the transfer again',
+          }
         );
       } catch (dbError) {
         console.error('Failed to update DynamoDB with workflow start failure:', dbError);
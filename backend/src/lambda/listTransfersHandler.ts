@@ -61,6 +61,8 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
         bytesTransferred: item.bytesTransferred || 0,
         totalBytes: item.totalBytes || 0,
         percentage: item.percentage || 0,
+        indeterminate: item.totalBytes < 0,
+        maxBytesPerSecond: item.activeMaxBytesPerSecond,
       },
       metadata: {
         sourceUrl: item.sourceUrl,
@@ -73,6 +75,15 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
         lastUpdateTime: item.lastUpdateTime,
       },
       error: item.error,
+      errorCode: item.errorCode,
+      errorDetails: item.errorCode && item.errorCategory
+        ? {
+            code: item.errorCode,
+            category: item.errorCategory,
+            retryable: item.errorRetryable ?? false,
+            remediation: item.errorRemediation ?? '',
+          }
+        : undefined,
       };
     });
 
@@ -0,0 +1,55 @@
+/**
+ * Lambda handler for aborting orphaned multipart uploads
+ *
+ * This handler runs on a schedule and:
+ * - Lists the multipart uploads in every bucket transfers have written to
+ * - Matches them to transfer records by bucket, key and upload ID
+ * - Aborts the uploads whose transfer is finished or unknown and that are older than
+ *   ORPHANED_UPLOAD_MAX_AGE_HOURS
+ * - Returns a report with the reclaimed bytes
+ *
+ * Invoke it with {"dryRun": true} to only report what would be aborted.
+ */
+
+import { DynamoDBService } from '../services/DynamoDBService.js';
+import { S3Service } from '../services/S3Service.js';
+import { JanitorReport, MultipartUploadJanitor } from '../services/MultipartUploadJanitor.js';
+
+// Environment variables
+const DYNAMODB_TABLE_NAME = process.env.DYNAMODB_TABLE_NAME || 'TransferTable';
+const AWS_REGION = process.env.AWS_REGION || 'us-east-1';
+// No transfer attempt runs longer than the 48 hour Step Functions timeout
+const ORPHANED_UPLOAD_MAX_AGE_HOURS = parseInt(process.env.ORPHANED_UPLOAD_MAX_AGE_HOURS || '48', 10);
+const MULTIPART_JANITOR_DRY_RUN = process.env.MULTIPART_JANITOR_DRY_RUN === 'true';
+// Comma-separated buckets to scan in addition to the ones transfer records point to
+const MULTIPART_JANITOR_BUCKETS = (process.env.MULTIPART_JANITOR_BUCKETS || '')
+  .split(',')
+  .map(bucket => bucket.trim())
+  .filter(Boolean);
+
+// Initialize services
+const janitor = new MultipartUploadJanitor(
+  new DynamoDBService(DYNAMODB_TABLE_NAME, AWS_REGION),
+  new S3Service(AWS_REGION)
+);
+
+export interface JanitorEvent {
+  dryRun?: boolean; // Overrides MULTIPART_JANITOR_DRY_RUN for a manual run
+}
+
+/**
+ * Lambda handler for the scheduled or manual janitor run
+ */
+export async function handler(event: JanitorEvent = {}): Promise<JanitorReport> {
+  const dryRun = typeof event.dryRun === 'boolean' ? event.dryRun : MULTIPART_JANITOR_DRY_RUN;
+  console.log(`Multipart upload janitor started${dryRun ? ' (dry run)' : ''}`);
+
+  const report = await janitor.run({
+    maxAgeMs: ORPHANED_UPLOAD_MAX_AGE_HOURS * 60 * 60 * 1000,
+    dryRun,
+    buckets: MULTIPART_JANITOR_BUCKETS,
+  });
+  console.log('Janitor report:', JSON.stringify(report));
+
+  return report;
+}
@@ -89,6 +89,10 @@ function formatTransferResponse(record: TransferRecord) {
       bytesTransferred: record.bytesTransferred,
       totalBytes: record.totalBytes,
       percentage: record.percentage,
+      // The source didn't report a size, so there is no percentage to show
+      indeterminate: record.totalBytes < 0,
+      // Bandwidth limit the worker applies, absent when unlimited
+      maxBytesPerSecond: record.activeMaxBytesPerSecond,
     },
     metadata: {
       sourceUrl: record.sourceUrl,
@@ -96,12 +100,32 @@ function formatTransferResponse(record: TransferRecord) {
       keyPrefix: record.keyPrefix,
       s3Key: record.s3Key,
       s3Location: record.s3Location,
+      // JSON receipt written next to the object once the transfer completed
+      receiptLocation: record.receiptLocation,
+      // Prefix, entry count and size of what an extracting transfer wrote
+      extraction: record.extraction,
       startTime: record.startTime,
       endTime: record.endTime,
       lastUpdateTime: record.lastUpdateTime,
+      heartbeatTime: record.heartbeatTime,
       fargateTaskArn: record.fargateTaskArn,
+      nextAttemptTime: record.nextAttemptTime,
     },
+    // Failed attempts, oldest first; the transfer is retried while it stays active
+    attempts: record.attempts || [],
+    checksums: record.checksums,
+    expectedChecksum: record.expectedChecksum,
     error: record.error,
+    errorCode: record.errorCode,
+    // Absent for transfers that failed before errors were classified
+    errorDetails: record.errorCode && record.errorCategory
+      ? {
+          code: record.errorCode,
+          category: record.errorCategory,
+          retryable: record.errorRetryable ?? false,
+          remediation: record.errorRemediation ?? '',
+        }
+      : undefined,
   };
 }
 
@@ -0,0 +1,39 @@
+/**
+ * Lambda handler for failing stalled transfers
+ *
+ * This handler runs on a schedule and:
+ * - Finds active transfers whose worker sent no heartbeat within STALE_TRANSFER_MINUTES
+ * - Marks them failed with TRANSFER_STALLED
+ * - Stops their Step Functions execution and aborts their multipart upload
+ */
+
+import { ScheduledEvent } from 'aws-lambda';
+import { DynamoDBService } from '../services/DynamoDBService.js';
+import { S3Service } from '../services/S3Service.js';
+import { ReapResult, StaleTransferReaper } from '../services/StaleTransferReaper.js';
+
+// Environment variables
+const DYNAMODB_TABLE_NAME = process.env.DYNAMODB_TABLE_NAME || 'TransferTable';
+const AWS_REGION = process.env.AWS_REGION || 'us-east-1';
+const STALE_TRANSFER_MINUTES = parseInt(process.env.STALE_TRANSFER_MINUTES || '15', 10);
+
+// Initialize services
+const reaper = new StaleTransferReaper(
+  new DynamoDBService(DYNAMODB_TABLE_NAME, AWS_REGION),
+  new S3Service(AWS_REGION),
+  AWS_REGION
+);
+
+/**
+ * Lambda handler for the scheduled reaper run
+ */
+export async function handler(event: ScheduledEvent): Promise<ReapResult> {
+  console.log('Stale transfer reaper triggered:', event.time);
+
+  const result = await reaper.reap(STALE_TRANSFER_MINUTES * 60 * 1000);
+  console.log(
+    `Reaped ${result.reaped.length} stalled transfers, skipped ${result.skipped.length}, failed ${result.failed.length}`
+  );
+
+  return result;
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AdaptiveConcurrency } from './AdaptiveConcurrency.js';
+import { StreamingService } from './StreamingService.js';
+import { S3Error } from '../utils/errorHandler.js';
+
+/**
+ * Tests for the adaptive upload concurrency controller
+ *
+ * Validates that:
+ * - A window of parts without congestion raises the limit by one, up to the maximum
+ * - Throttling halves the limit once per decrease, down to the minimum
+ * - Parts much slower than the best rate seen lower the limit
+ * - Part uploads report their timing and S3 throttling errors to the controller
+ */
+describe('AdaptiveConcurrency', () => {
+  const MB = 1024 * 1024;
+
+  const createClock = () => {
+    let time = 0;
+    return { now: () => time, advance: (ms: number) => { time += ms; } };
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should raise the limit by one after each window of healthy parts', () => {
+    const clock = createClock();
+    const concurrency = new AdaptiveConcurrency({ initial: 2, min: 1, max: 4 }, clock.now);
+
+    // Window of 2 parts, then a window of 3, then 4 more parts at the maximum
+    for (let i = 0; i < 9; i++) {
+      clock.advance(100);
+      concurrency.recordPart(10 * MB, 1000);
+    }
+
+    expect(concurrency.limit).toBe(4);
+    expect(concurrency.decisions.map(d => [d.from, d.to, d.reason])).toEqual([
+      [2, 3, 'increase'],
+      [3, 4, 'increase'],
+    ]);
+  });
+
+  it('should halve the limit on throttling and ignore requests sent before the decrease', () => {
+    const clock = createClock();
+    const concurrency = new AdaptiveConcurrency({ initial: 8, min: 3, max: 20 }, clock.now);
+
+    const sentBefore = clock.now();
+    clock.advance(100);
+    concurrency.recordThrottle(sentBefore);
+    concurrency.recordThrottle(sentBefore);
+    expect(concurrency.limit).toBe(4);
+
+    clock.advance(100);
+    concurrency.recordThrottle(clock.now());
+    expect(concurrency.limit).toBe(3); // Not below the minimum
+    expect(concurrency.decisions.map(d => d.reason)).toEqual(['throttled', 'throttled']);
+  });
+
+  it('should lower the limit when parts slow down against the best rate seen', () => {
+    const clock = createClock();
+    const concurrency = new AdaptiveConcurrency({ initial: 2, min: 1, max: 20 }, clock.now);
+
+    // Healthy window at 10MB/s per part
+    concurrency.recordPart(10 * MB, 1000);
+    concurrency.recordPart(10 * MB, 1000);
+    expect(concurrency.limit).toBe(3);
+
+    // Parts now take four times as long
+    for (let i = 0; i < 3; i++) {
+      concurrency.recordPart(10 * MB, 4000);
+    }
+
+    expect(concurrency.limit).toBe(1);
+    const decision = concurrency.decisions[concurrency.decisions.length - 1];
+    expect(decision).toMatchObject({ from: 3, to: 1, reason: 'latency', partMBps: 2.5 });
+  });
+
+  it('should keep a fixed limit when the bounds are equal', () => {
+    const concurrency = new AdaptiveConcurrency({ initial: 10, min: 6, max: 6 });
+
+    concurrency.recordThrottle(Date.now());
+    for (let i = 0; i < 12; i++) {
+      concurrency.recordPart(MB, 100);
+    }
+
+    expect(concurrency.isAdaptive).toBe(false);
+    expect(concurrency.limit).toBe(6);
+    expect(concurrency.decisions).toHaveLength(0);
+  });
+
+  it('should report part timings and SlowDown errors from part uploads', async () => {
+    vi.useFakeTimers();
+    const streamingService = new StreamingService();
+    const slowDown = Object.assign(new Error('Please reduce your request rate.'), {
+      name: 'SlowDown',
+      $metadata: { httpStatusCode: 503 },
+    });
+    const uploadPart = vi.fn()
+      .mockRejectedValueOnce(new S3Error('S3 operation failed: Please reduce your request rate.', slowDown))
+      .mockResolvedValueOnce('etag-1');
+    (streamingService as any).s3Service = { uploadPart };
+
+    const concurrency = new AdaptiveConcurrency({ initial: 10, min: 1, max: 20 });
+    const recordPart = vi.spyOn(concurrency, 'recordPart');
+
+    const upload = (streamingService as any).uploadPartWithRetry(
+      'test-bucket', 'archive.zip', 'upload-id', 1, Buffer.alloc(MB), undefined, concurrency
+    );
+    await vi.runAllTimersAsync();
+
+    await expect(upload).resolves.toBe('etag-1');
+    expect(concurrency.limit).toBe(5);
+    expect(concurrency.decisions[0].reason).toBe('throttled');
+    expect(recordPart).toHaveBeenCalledWith(MB, expect.any(Number));
+  });
+});
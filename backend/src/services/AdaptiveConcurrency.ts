@@ -0,0 +1,166 @@
+/**
+ * Why the upload concurrency changed
+ * - increase: a full window of parts uploaded without signs of congestion
+ * - latency: parts took much longer than at the best rate seen, S3 or the link is saturated
+ * - throttled: S3 answered with SlowDown or another throttling error
+ * - memory: the part buffers no longer fit the memory budget at this concurrency
+ */
+export type ConcurrencyDecisionReason = 'increase' | 'latency' | 'throttled' | 'memory';
+
+/**
+ * One change of the concurrency limit, kept for the transfer's metrics
+ */
+export interface ConcurrencyDecision {
+  timestamp: string; // ISO timestamp
+  from: number;
+  to: number;
+  reason: ConcurrencyDecisionReason;
+  aggregateMBps: number; // All parts of the window together
+  partMBps: number; // Average of the window's parts on their own
+}
+
+export interface AdaptiveConcurrencyOptions {
+  initial: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * AIMD controller for the number of concurrent part uploads
+ *
+ * Works in windows of as many parts as the current limit. A window without
+ * congestion raises the limit by one (additive increase). Throttling errors, or
+ * parts uploading at less than LATENCY_DECREASE_RATIO of the best per-part rate
+ * seen, halve it (multiplicative decrease). Each decision starts a new window, and
+ * throttling of requests sent before a decrease doesn't trigger a second one.
+ */
+export class AdaptiveConcurrency {
+  private readonly DECREASE_FACTOR = 0.5; // Multiplicative decrease on congestion
+  private readonly LATENCY_DECREASE_RATIO = 0.5; // Per-part rate below half the best seen counts as congestion
+
+  private min: number;
+  private max: number;
+  private readonly now: () => number;
+  private current: number;
+  private readonly history: ConcurrencyDecision[] = [];
+
+  // Current window
+  private windowStart: number;
+  private windowParts = 0;
+  private windowBytes = 0;
+  private windowPartRateSum = 0; // Sum of per-part rates in bytes/ms
+  private bestPartRate = 0; // Best window average of per-part rates in bytes/ms
+  private lastDecreaseAt = -Infinity;
+
+  constructor(options: AdaptiveConcurrencyOptions, now: () => number = Date.now) {
+    this.min = Math.max(1, options.min);
+    this.max = Math.max(this.min, options.max);
+    this.current = Math.min(this.max, Math.max(this.min, options.initial));
+    this.now = now;
+    this.windowStart = now();
+  }
+
+  /**
+   * Number of part uploads allowed in flight
+   */
+  get limit(): number {
+    return this.current;
+  }
+
+  /**
+   * Whether the limit can change at all
+   */
+  get isAdaptive(): boolean {
+    return this.min < this.max;
+  }
+
+  /**
+   * Every change of the limit so far, oldest first
+   */
+  get decisions(): readonly ConcurrencyDecision[] {
+    return this.history;
+  }
+
+  /**
+   * Records a part that S3 accepted and how long its UploadPart request took
+   */
+  recordPart(bytes: number, durationMs: number): void {
+    this.windowParts++;
+    this.windowBytes += bytes;
+    this.windowPartRateSum += bytes / Math.max(durationMs, 1);
+
+    if (this.windowParts < this.current) {
+      return;
+    }
+
+    const partRate = this.windowPartRateSum / this.windowParts;
+    if (this.bestPartRate > 0 && partRate < this.bestPartRate * this.LATENCY_DECREASE_RATIO) {
+      this.decide(this.decreased(), 'latency');
+    } else {
+      this.bestPartRate = Math.max(this.bestPartRate, partRate);
+      this.decide(Math.min(this.max, this.current + 1), 'increase');
+    }
+  }
+
+  /**
+   * Records a throttling error from S3 for a request sent at startedAt
+   * Requests sent before the last decrease were sent under the old limit and are ignored
+   */
+  recordThrottle(startedAt: number): void {
+    if (startedAt < this.lastDecreaseAt) {
+      return;
+    }
+    this.decide(this.decreased(), 'throttled');
+  }
+
+  /**
+   * Lowers the upper bound, e.g. when larger parts leave room for fewer buffers
+   */
+  constrain(max: number): void {
+    this.max = Math.max(1, Math.min(this.max, max));
+    this.min = Math.min(this.min, this.max);
+    if (this.current > this.max) {
+      this.decide(this.max, 'memory');
+    }
+  }
+
+  private decreased(): number {
+    return Math.max(this.min, Math.floor(this.current * this.DECREASE_FACTOR));
+  }
+
+  private decide(to: number, reason: ConcurrencyDecisionReason): void {
+    const now = this.now();
+    const elapsedMs = Math.max(now - this.windowStart, 1);
+    const from = this.current;
+
+    if (reason === 'latency' || reason === 'throttled') {
+      this.lastDecreaseAt = now;
+    }
+
+    if (to !== from) {
+      const decision: ConcurrencyDecision = {
+        timestamp: new Date(now).toISOString(),
+        from,
+        to,
+        reason,
+        aggregateMBps: this.toMBps(this.windowBytes / elapsedMs),
+        partMBps: this.windowParts > 0 ? this.toMBps(this.windowPartRateSum / this.windowParts) : 0,
+      };
+      this.history.push(decision);
+      this.current = to;
+      console.log(
+        `[Concurrency] ${from} -> ${to} (${reason}): aggregate ${decision.aggregateMBps} MB/s, ` +
+        `per part ${decision.partMBps} MB/s over ${this.windowParts} parts`
+      );
+    }
+
+    this.windowStart = now;
+    this.windowParts = 0;
+    this.windowBytes = 0;
+    this.windowPartRateSum = 0;
+  }
+
+  private toMBps(bytesPerMs: number): number {
+    return Math.round((bytesPerMs * 1000 / (1024 * 1024)) * 100) / 100;
+  }
+}
@@ -0,0 +1,293 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import { StreamingService } from './StreamingService.js';
+import { DynamoDBService } from './DynamoDBService.js';
+import { buildZip } from '../test/zipBuilder.js';
+import http from 'http';
+import { createHash } from 'crypto';
+
+/**
+ * Tests for extracting ZIP archives into individual objects
+ *
+ * Validates that:
+ * - Each file entry is written under <key without .zip>/ and directory entries are skipped
+ * - Entries larger than a part are written with a multipart upload
+ * - The archive is only written when it is kept
+ * - The receipt of an extraction lists the entry prefix, entry count and uncompressed bytes
+ * - An archive that doesn't match its expected checksum has its entries deleted
+ * - Corrupt archives fail with an archive error and the unfinished upload is aborted
+ * - Archives that break the extraction limits fail with the policy's error
+ * - Encrypted entries are decrypted with the archive password, and a wrong one writes nothing
+ * - The extraction summary is stored on the transfer record
+ */
+describe('StreamingService - Archive Extraction', () => {
+  const MB = 1024 * 1024;
+  const PART_SIZE = 5 * MB;
+
+  let streamingService: StreamingService;
+  let mockServer: http.Server;
+  let archive: Buffer;
+  let chunked: boolean; // Serve without Content-Length
+
+  const readme = Buffer.from('Read me first.\n'.repeat(100));
+  // Pseudo-random, so it deflates about as well as real data and stays within the compression ratio limit
+  const large = Buffer.alloc(12 * MB);
+  let seed = 1;
+  for (let i = 0; i < large.length; i++) {
+    seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+    large[i] = seed >>> 24;
+  }
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    streamingService = new StreamingService();
+    vi.spyOn(streamingService as any, 'calculateOptimalPartSize').mockReturnValue(PART_SIZE);
+    chunked = false;
+
+    mockServer = http.createServer((req, res) => {
+      const headers: Record<string, string> = { 'Content-Type': 'application/zip' };
+      if (chunked) {
+        headers['Transfer-Encoding'] = 'chunked';
+      } else {
+        headers['Content-Length'] = archive.length.toString();
+      }
+      res.writeHead(200, headers);
+      res.end(req.method === 'HEAD' ? undefined : archive);
+    });
+
+    await new Promise<void>((resolve) => mockServer.listen(0, () => resolve()));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise<void>((resolve) => mockServer.close(() => resolve()));
+  });
+
+  const sourceUrl = () => {
+    const address = mockServer.address() as { port: number };
+    return `http://localhost:${address.port}/data.zip`;
+  };
+
+  const createMockS3Service = () => {
+    const parts = new Map<string, Buffer[]>();
+    return {
+      parts,
+      validateBucketAccess: vi.fn().mockResolvedValue(true),
+      putObject: vi.fn().mockImplementation(async (bucket: string, key: string) => `s3://${bucket}/${key}`),
+      createMultipartUpload: vi.fn().mockImplementation(async (_b: string, key: string) => `upload-${key}`),
+      uploadPart: vi.fn().mockImplementation(async (_b: string, key: string, _u: string, partNumber: number, data: Buffer) => {
+        const keyParts = parts.get(key) ?? [];
+        keyParts[partNumber - 1] = Buffer.from(data);
+        parts.set(key, keyParts);
+        return `etag-${partNumber}`;
+      }),
+      completeUpload: vi.fn().mockImplementation(async (bucket: string, key: string) => `s3://${bucket}/${key}`),
+      headObject: vi.fn().mockResolvedValue({}),
+      abortUpload: vi.fn().mockResolvedValue(true),
+      deleteObjects: vi.fn().mockImplementation(async (_b: string, keys: string[]) => keys.length),
+    };
+  };
+
+  const putBody = (mockS3Service: ReturnType<typeof createMockS3Service>, key: string): Buffer | undefined =>
+    mockS3Service.putObject.mock.calls.find(([, k]: any[]) => k === key)?.[2];
+
+  it('should write each file entry under the archive name', async () => {
+    archive = buildZip([
+      { name: 'README.txt', data: readme },
+      { name: 'images/', method: 'stored' },
+      { name: 'images/logo.png', data: Buffer.from([0x89, 0x50, 0x4e, 0x47]), method: 'stored' },
+    ]);
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', 'downloads', undefined, undefined, {
+      extract: {},
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.s3Location).toBe('s3://test-bucket/downloads/data/');
+    expect(result.bytesTransferred).toBe(archive.length);
+    expect(result.checksums?.sha256).toBe(createHash('sha256').update(archive).digest('hex'));
+    expect(result.extraction).toEqual({
+      prefix: 'downloads/data/',
+      entryCount: 2,
+      uncompressedBytes: readme.length + 4,
+      archiveLocation: undefined,
+    });
+
+    expect(mockS3Service.putObject.mock.calls.map(([, key]: any[]) => key)).toEqual([
+      'downloads/data/README.txt',
+      'downloads/data/images/logo.png',
+    ]);
+    expect(putBody(mockS3Service, 'downloads/data/README.txt')!.equals(readme)).toBe(true);
+    expect(mockS3Service.createMultipartUpload).not.toHaveBeenCalled();
+  });
+
+  it('should write entries larger than a part with a multipart upload', async () => {
+    archive = buildZip([{ name: 'big.bin', data: large, dataDescriptor: true }, { name: 'README.txt', data: readme }]);
+    chunked = true;
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      extract: {},
+    });
+
+    expect(result.success).toBe(true);
+    expect(mockS3Service.createMultipartUpload).toHaveBeenCalledWith('test-bucket', 'data/big.bin');
+    const [, , uploadId, parts] = mockS3Service.completeUpload.mock.calls[0];
+    expect(uploadId).toBe('upload-data/big.bin');
+    expect(parts.map((part: any) => part.PartNumber)).toEqual([1, 2, 3]);
+    expect(parts.every((part: any) => typeof part.ChecksumCRC32C === 'string')).toBe(true);
+    expect(Buffer.concat(mockS3Service.parts.get('data/big.bin')!).equals(large)).toBe(true);
+    expect(putBody(mockS3Service, 'data/README.txt')!.equals(readme)).toBe(true);
+  });
+
+  it('should also write the archive when it is kept', async () => {
+    archive = buildZip([{ name: 'README.txt', data: readme }]);
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      extract: { keepArchive: true },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.extraction?.archiveLocation).toBe('s3://test-bucket/data.zip');
+    expect(putBody(mockS3Service, 'data.zip')!.equals(archive)).toBe(true);
+  });
+
+  it('should write a receipt with the extraction summary', async () => {
+    archive = buildZip([{ name: 'README.txt', data: readme }]);
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', 'downloads', undefined, undefined, {
+      extract: {},
+      receipt: { workerVersion: '1.2.3' },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.receiptLocation).toBe('s3://test-bucket/downloads/data.zip.transfer.json');
+
+    const receipt = JSON.parse(putBody(mockS3Service, 'downloads/data.zip.transfer.json')!.toString());
+    expect(receipt.object).toEqual({ bucket: 'test-bucket', key: 'downloads/data.zip', location: 's3://test-bucket/downloads/data/', size: archive.length });
+    expect(receipt.checksums.sha256).toBe(createHash('sha256').update(archive).digest('hex'));
+    expect(receipt.extraction).toEqual({ prefix: 'downloads/data/', entryCount: 1, uncompressedBytes: readme.length });
+    expect(receipt.upload).toBeUndefined();
+  });
+
+  it('should delete the entries of an archive that does not match its expected checksum', async () => {
+    archive = buildZip([{ name: 'README.txt', data: readme }, { name: 'big.bin', data: large }]);
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      extract: { keepArchive: true },
+      expectedChecksum: { algorithm: 'sha256', value: '0'.repeat(64) },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatchObject({ code: 'CHECKSUM_MISMATCH' });
+    expect(mockS3Service.deleteObjects).toHaveBeenCalledWith('test-bucket', ['data/README.txt', 'data/big.bin']);
+    // The kept archive was never completed
+    expect(mockS3Service.abortUpload).toHaveBeenCalledWith('test-bucket', 'data.zip', 'upload-data.zip');
+    expect(mockS3Service.completeUpload.mock.calls.map(([, key]: any[]) => key)).toEqual(['data/big.bin']);
+  });
+
+  it('should fail on a corrupt entry and abort its upload', async () => {
+    archive = buildZip([{ name: 'big.bin', data: large, method: 'stored' }]);
+    archive[archive.length - 200] ^= 0xff; // Last bytes of the entry's data
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      extract: {},
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatchObject({ code: 'ARCHIVE_CRC_MISMATCH', category: 'integrity', entry: 'big.bin' });
+    expect(mockS3Service.completeUpload).not.toHaveBeenCalled();
+    expect(mockS3Service.abortUpload).toHaveBeenCalledWith('test-bucket', 'data/big.bin', 'upload-data/big.bin');
+    expect((streamingService as any).progressStore.getProgress(result.transferId).status).toBe('failed');
+  });
+
+  it('should fail an archive that breaks the extraction limits', async () => {
+    archive = buildZip([{ name: 'a.txt', data: readme }, { name: 'b.txt', data: readme }, { name: 'c.txt', data: readme }]);
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      extract: {},
+      extractionLimits: { maxTotalBytes: 10 * MB, maxEntries: 2, maxCompressionRatio: 100, maxDepth: 8 },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatchObject({ code: 'ARCHIVE_TOO_MANY_ENTRIES', retryable: false, entry: 'c.txt' });
+    expect(mockS3Service.putObject).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail a source that is not a ZIP archive', async () => {
+    archive = Buffer.from('<html><body>Download moved</body></html>');
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      extract: {},
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatchObject({ code: 'INVALID_ARCHIVE', retryable: false });
+    expect(mockS3Service.putObject).not.toHaveBeenCalled();
+  });
+
+  it('should decrypt encrypted entries with the archive password', async () => {
+    archive = buildZip([
+      { name: 'README.txt', data: readme, encryption: { password: 'correct horse', method: 'zipcrypto' } },
+      { name: 'big.bin', data: large, dataDescriptor: true, encryption: { password: 'correct horse', method: 'aes-256' } },
+    ]);
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      extract: {},
+      archivePassword: 'correct horse',
+    });
+
+    expect(result.success).toBe(true);
+    expect(putBody(mockS3Service, 'data/README.txt')!.equals(readme)).toBe(true);
+    expect(Buffer.concat(mockS3Service.parts.get('data/big.bin')!).equals(large)).toBe(true);
+  });
+
+  it('should fail with a wrong archive password without writing anything', async () => {
+    archive = buildZip([{ name: 'big.bin', data: large, encryption: { password: 'correct horse', method: 'aes-128' } }]);
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      extract: {},
+      archivePassword: 'battery staple',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatchObject({ code: 'INVALID_ARCHIVE_PASSWORD', category: 'source', retryable: false, entry: 'big.bin' });
+    expect(mockS3Service.createMultipartUpload).not.toHaveBeenCalled();
+    expect(mockS3Service.putObject).not.toHaveBeenCalled();
+  });
+
+  it('should store the extraction summary on the transfer record', async () => {
+    const service = new DynamoDBService('TransferTable', 'us-east-1');
+    const send = vi.fn().mockResolvedValue({});
+    (service as any).client = { send };
+
+    const extraction = { prefix: 'downloads/data/', entryCount: 2, uncompressedBytes: 1504 };
+    await service.markTransferComplete('transfer-1', 's3://bucket/downloads/data/', undefined, 10, undefined, extraction);
+
+    const input = send.mock.calls[0][0].input;
+    expect(input.UpdateExpression).toContain('extraction = :extraction');
+    expect(unmarshall(input.ExpressionAttributeValues)[':extraction']).toEqual(extraction);
+  });
+});
@@ -0,0 +1,213 @@
+import { CompletedPart } from '@aws-sdk/client-s3';
+import { S3Service } from './S3Service.js';
+import { ChecksumService } from './ChecksumService.js';
+import { ExtractionPolicy } from './ExtractionPolicy.js';
+import { ZipEntry, ZipEntryHandler } from './ZipStreamParser.js';
+
+/**
+ * Uploads one part of a multipart upload and returns its ETag
+ */
+export type PartUploader = (
+  bucket: string,
+  key: string,
+  uploadId: string,
+  partNumber: number,
+  data: Buffer,
+  checksumCRC32C: string
+) => Promise<string>;
+
+export interface ObjectWriterOptions {
+  partSize: (partNumber: number) => number; // An object smaller than its first part is written with PutObject
+  maxConcurrentUploads: number;
+  uploadPart: PartUploader; // Retries are up to the caller
+}
+
+/**
+ * Writes an object of unknown size to S3 as its bytes arrive
+ *
+ * Buffers up to a part before uploading it, so objects smaller than the first part
+ * are written with a single PutObject and larger ones with a multipart upload
+ * whose parts carry their CRC32C.
+ */
+export class S3ObjectWriter {
+  private chunks: Buffer[] = [];
+  private buffered = 0;
+  private uploadId?: string;
+  private nextPartNumber = 1;
+  private parts: CompletedPart[] = [];
+  private pending = new Set<Promise<void>>();
+  private failure?: unknown;
+  private completed = false;
+  private bytesWritten = 0;
+  private objectLocation?: string;
+
+  constructor(
+    private readonly s3Service: S3Service,
+    readonly bucket: string,
+    readonly key: string,
+    private readonly options: ObjectWriterOptions
+  ) {}
+
+  /**
+   * Bytes written so far
+   */
+  get size(): number {
+    return this.bytesWritten;
+  }
+
+  /**
+   * S3 location of the object, once end() has resolved
+   */
+  get location(): string | undefined {
+    return this.objectLocation;
+  }
+
+  async write(data: Buffer): Promise<void> {
+    this.throwIfFailed();
+    this.chunks.push(data);
+    this.buffered += data.length;
+    this.bytesWritten += data.length;
+
+    let partSize = this.options.partSize(this.nextPartNumber);
+    while (this.buffered >= partSize) {
+      await this.startPart(this.takeBuffered(partSize));
+      partSize = this.options.partSize(this.nextPartNumber);
+    }
+  }
+
+  /**
+   * Writes what is left and completes the object
+   */
+  async end(): Promise<void> {
+    this.throwIfFailed();
+    if (!this.uploadId) {
+      const data = this.takeBuffered(this.buffered);
+      const crc32c = ChecksumService.crc32cToBuffer(ChecksumService.crc32c(data)).toString('base64');
+      this.objectLocation = await this.s3Service.putObject(this.bucket, this.key, data, crc32c);
+      this.completed = true;
+      return;
+    }
+
+    if (this.buffered > 0) {
+      await this.startPart(this.takeBuffered(this.buffered));
+    }
+    await Promise.all(this.pending);
+    this.throwIfFailed();
+
+    const parts = [...this.parts].sort((a, b) => a.PartNumber! - b.PartNumber!);
+    this.objectLocation = await this.s3Service.completeUpload(this.bucket, this.key, this.uploadId, parts);
+    this.completed = true;
+  }
+
+  /**
+   * Aborts the multipart upload of an object that won't be completed
+   */
+  async abort(): Promise<void> {
+    await Promise.allSettled(this.pending);
+    if (this.uploadId && !this.completed) {
+      await this.s3Service.abortUpload(this.bucket, this.key, this.uploadId);
+    }
+  }
+
+  private takeBuffered(length: number): Buffer {
+    const data = this.chunks.length === 1 ? this.chunks[0] : Buffer.concat(this.chunks, this.buffered);
+    const rest = data.subarray(length);
+    this.chunks = rest.length > 0 ? [rest] : [];
+    this.buffered = rest.length;
+    return data.subarray(0, length);
+  }
+
+  private async startPart(data: Buffer): Promise<void> {
+    if (!this.uploadId) {
+      this.uploadId = await this.s3Service.createMultipartUpload(this.bucket, this.key);
+    }
+
+    const partNumber = this.nextPartNumber++;
+    const crc32c = ChecksumService.crc32cToBuffer(ChecksumService.crc32c(data)).toString('base64');
+    const upload: Promise<void> = this.options.uploadPart(this.bucket, this.key, this.uploadId, partNumber, data, crc32c)
+      .then(
+        (etag) => {
+          this.parts.push({ PartNumber: partNumber, ETag: etag, ChecksumCRC32C: crc32c });
+        },
+        (error) => {
+          this.failure ??= error;
+        }
+      )
+      .finally(() => this.pending.delete(upload));
+    this.pending.add(upload);
+
+    // Bounds the parts held in memory
+    while (this.pending.size >= this.options.maxConcurrentUploads) {
+      await Promise.race(this.pending);
+    }
+    this.throwIfFailed();
+  }
+
+  private throwIfFailed(): void {
+    if (this.failure) {
+      throw this.failure;
+    }
+  }
+}
+
+/**
+ * An archive entry written to the bucket
+ */
+export interface ExtractedEntry {
+  name: string; // As named in the archive
+  key: string;
+  size: number;
+}
+
+/**
+ * Writes each file entry of an archive to <prefix><entry name>
+ * Entry names and sizes are held to the extraction policy, which also turns the names
+ * into keys. Directory entries are skipped; the keys of the files in them imply them.
+ */
+export class ArchiveExtractor {
+  readonly entries: ExtractedEntry[] = [];
+  private openWriter?: S3ObjectWriter;
+
+  constructor(
+    private readonly prefix: string,
+    private readonly policy: ExtractionPolicy,
+    private readonly createWriter: (key: string, entry: ZipEntry) => S3ObjectWriter
+  ) {}
+
+  /**
+   * Uncompressed bytes of the entries written so far
+   */
+  get uncompressedBytes(): number {
+    return this.entries.reduce((total, entry) => total + entry.size, 0);
+  }
+
+  readonly handleEntry: ZipEntryHandler = async (entry) => {
+    const key = this.policy.admitEntry(this.prefix, entry);
+    if (entry.isDirectory) {
+      return undefined;
+    }
+
+    const writer = this.createWriter(key, entry);
+    this.openWriter = writer;
+    return {
+      write: (data: Buffer, compressedBytesRead: number) => {
+        this.policy.recordBytes(entry, data.length, compressedBytesRead);
+        return writer.write(data);
+      },
+      end: async () => {
+        await writer.end();
+        this.openWriter = undefined;
+        this.entries.push({ name: entry.name, key, size: writer.size });
+      },
+    };
+  };
+
+  /**
+   * Aborts the upload of the entry being written
+   * Entries already written are complete objects and are left in place.
+   */
+  async abort(): Promise<void> {
+    await this.openWriter?.abort();
+    this.openWriter = undefined;
+  }
+}
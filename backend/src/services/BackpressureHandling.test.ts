@@ -97,6 +97,7 @@ describe('StreamingService - Backpressure Handling', () => {
         return 'test-etag';
       }),
       completeUpload: vi.fn().mockResolvedValue('s3://test-bucket/test.zip'),
+      headObject: vi.fn().mockImplementation(async () => ({ ContentLength: dataSize })),
       abortUpload: vi.fn().mockResolvedValue(undefined),
     };
 
@@ -146,6 +147,7 @@ describe('StreamingService - Backpressure Handling', () => {
         return 'test-etag';
       }),
       completeUpload: vi.fn().mockResolvedValue('s3://test-bucket/test.zip'),
+      headObject: vi.fn().mockImplementation(async () => ({ ContentLength: dataSize })),
       abortUpload: vi.fn().mockResolvedValue(undefined),
     };
 
@@ -189,6 +191,7 @@ describe('StreamingService - Backpressure Handling', () => {
         return 'test-etag';
       }),
       completeUpload: vi.fn().mockResolvedValue('s3://test-bucket/test.zip'),
+      headObject: vi.fn().mockImplementation(async () => ({ ContentLength: dataSize })),
       abortUpload: vi.fn().mockResolvedValue(undefined),
     };
 
@@ -238,6 +241,7 @@ describe('StreamingService - Backpressure Handling', () => {
         return 'test-etag';
       }),
       completeUpload: vi.fn().mockResolvedValue('s3://test-bucket/test.zip'),
+      headObject: vi.fn().mockImplementation(async () => ({ ContentLength: dataSize })),
       abortUpload: vi.fn().mockResolvedValue(undefined),
     };
 
@@ -284,6 +288,7 @@ describe('StreamingService - Backpressure Handling', () => {
         return 'test-etag';
       }),
       completeUpload: vi.fn().mockResolvedValue('s3://test-bucket/test.zip'),
+      headObject: vi.fn().mockImplementation(async () => ({ ContentLength: dataSize })),
       abortUpload: vi.fn().mockResolvedValue(undefined),
     };
 
@@ -322,6 +327,7 @@ describe('StreamingService - Backpressure Handling', () => {
         return 'test-etag';
       }),
       completeUpload: vi.fn().mockResolvedValue('s3://test-bucket/test.zip'),
+      headObject: vi.fn().mockImplementation(async () => ({ ContentLength: dataSize })),
       abortUpload: vi.fn().mockResolvedValue(undefined),
     };
 
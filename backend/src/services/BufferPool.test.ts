@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import os from 'os';
+import { BufferPool, readContainerMemoryLimit } from './BufferPool.js';
+
+/**
+ * Tests for the part buffer pool and the container memory limit
+ *
+ * Validates that:
+ * - Released buffers (or views of them) are handed out again instead of allocating
+ * - The pool reports how many buffers are left and counts allocations beyond capacity
+ * - Resizing drops buffers of the old size
+ * - The memory limit is read from cgroup v2 or v1, falling back to the host memory
+ */
+describe('BufferPool', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should reuse released buffers', () => {
+    const pool = new BufferPool(1024, 2);
+
+    const first = pool.acquire();
+    const second = pool.acquire();
+    expect(pool.available).toBe(0);
+
+    // Parts are released as views of their buffer
+    pool.release(first.subarray(0, 100));
+    expect(pool.available).toBe(1);
+    const third = pool.acquire();
+
+    expect(third.buffer).toBe(first.buffer);
+    expect(third.length).toBe(1024);
+    expect(second.buffer).not.toBe(first.buffer);
+    expect(pool.stats).toEqual({ allocations: 2, reuses: 1, overflows: 0 });
+  });
+
+  it('should count buffers handed out beyond capacity and not keep them', () => {
+    const pool = new BufferPool(1024, 1);
+
+    const first = pool.acquire();
+    const extra = pool.acquire();
+    expect(pool.stats.overflows).toBe(1);
+
+    pool.release(extra);
+    pool.release(first);
+    pool.acquire();
+    pool.acquire();
+
+    expect(pool.stats).toEqual({ allocations: 3, reuses: 1, overflows: 2 });
+  });
+
+  it('should drop buffers of the old size after a resize', () => {
+    const pool = new BufferPool(1024, 4);
+    const small = pool.acquire();
+    pool.release(pool.acquire());
+
+    pool.resize(4096, 2);
+    pool.release(small);
+    const large = pool.acquire();
+
+    expect(large.length).toBe(4096);
+    expect(pool.capacity).toBe(2);
+    expect(pool.stats.reuses).toBe(0);
+  });
+
+  describe('readContainerMemoryLimit', () => {
+    const GB = 1024 * 1024 * 1024;
+
+    const files = (entries: Record<string, string>) => (path: string): string => {
+      if (!(path in entries)) {
+        throw new Error(`ENOENT: ${path}`);
+      }
+      return entries[path];
+    };
+
+    beforeEach(() => {
+      vi.spyOn(os, 'totalmem').mockReturnValue(64 * GB);
+    });
+
+    it('should read the cgroup v2 limit', () => {
+      expect(readContainerMemoryLimit(files({ '/sys/fs/cgroup/memory.max': `${16 * GB}\n` }))).toBe(16 * GB);
+    });
+
+    it('should read the cgroup v1 limit', () => {
+      expect(readContainerMemoryLimit(files({ '/sys/fs/cgroup/memory/memory.limit_in_bytes': `${4 * GB}\n` }))).toBe(4 * GB);
+    });
+
+    it('should fall back to the host memory when the cgroup is unlimited or missing', () => {
+      expect(readContainerMemoryLimit(files({ '/sys/fs/cgroup/memory.max': 'max\n' }))).toBe(64 * GB);
+      expect(readContainerMemoryLimit(files({ '/sys/fs/cgroup/memory/memory.limit_in_bytes': '9223372036854771712\n' }))).toBe(64 * GB);
+      expect(readContainerMemoryLimit(files({}))).toBe(64 * GB);
+    });
+  });
+});
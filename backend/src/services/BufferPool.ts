@@ -0,0 +1,127 @@
+import { readFileSync } from 'fs';
+import os from 'os';
+
+/**
+ * cgroup files holding the container's memory limit
+ * v2 writes "max" and v1 a huge number when the cgroup is unlimited
+ */
+const CGROUP_V2_MEMORY_MAX = '/sys/fs/cgroup/memory.max';
+const CGROUP_V1_MEMORY_LIMIT = '/sys/fs/cgroup/memory/memory.limit_in_bytes';
+const CGROUP_V1_UNLIMITED = 2 ** 60; // v1 reports about 2^63 rounded down to the page size
+
+/**
+ * Reads the memory limit of the container from its cgroup
+ * Falls back to the host memory when no limit is set or the files can't be read
+ */
+export function readContainerMemoryLimit(
+  readFile: (path: string) => string = (path) => readFileSync(path, 'utf8')
+): number {
+  const hostMemory = os.totalmem();
+
+  for (const path of [CGROUP_V2_MEMORY_MAX, CGROUP_V1_MEMORY_LIMIT]) {
+    let content: string;
+    try {
+      content = readFile(path).trim();
+    } catch {
+      continue;
+    }
+
+    const limit = Number(content);
+    if (content === 'max' || !Number.isFinite(limit) || limit <= 0 || limit >= CGROUP_V1_UNLIMITED) {
+      return hostMemory;
+    }
+    return Math.min(limit, hostMemory);
+  }
+
+  return hostMemory;
+}
+
+/**
+ * Bounded pool of equally sized part buffers
+ *
+ * Buffers are allocated on first use, up to capacity, and handed out again once
+ * released, so a transfer never holds more than capacity * bufferSize bytes of
+ * part data. Resizing (part sizes grow for sources without a size) drops the idle
+ * buffers, and buffers of the old size are dropped as they come back.
+ */
+export class BufferPool {
+  private size: number;
+  private maxBuffers: number;
+  private readonly idle: Buffer[] = [];
+  private inUse = 0;
+  private allocations = 0;
+  private reuses = 0;
+  private overflows = 0;
+
+  constructor(bufferSize: number, capacity: number) {
+    this.size = bufferSize;
+    this.maxBuffers = Math.max(1, capacity);
+  }
+
+  get bufferSize(): number {
+    return this.size;
+  }
+
+  get capacity(): number {
+    return this.maxBuffers;
+  }
+
+  /**
+   * Buffers that can still be acquired without going over capacity
+   */
+  get available(): number {
+    return Math.max(0, this.maxBuffers - this.inUse);
+  }
+
+  get stats(): { allocations: number; reuses: number; overflows: number } {
+    return { allocations: this.allocations, reuses: this.reuses, overflows: this.overflows };
+  }
+
+  /**
+   * Hands out a buffer of bufferSize bytes
+   * Callers keep the pool from running dry through backpressure; if it does, a buffer
+   * is allocated beyond capacity and counted as an overflow rather than losing data
+   */
+  acquire(): Buffer {
+    if (this.inUse >= this.maxBuffers) {
+      this.overflows++;
+      console.warn(`[BufferPool] All ${this.maxBuffers} part buffers in use, allocating beyond the memory budget`);
+    }
+    this.inUse++;
+
+    const buffer = this.idle.pop();
+    if (buffer) {
+      this.reuses++;
+      return buffer;
+    }
+    this.allocations++;
+    // Unpooled by Node, so a view handed back can be matched to its whole buffer
+    return Buffer.allocUnsafeSlow(this.size);
+  }
+
+  /**
+   * Returns a buffer (or a view of one) handed out by acquire
+   */
+  release(buffer: Buffer): void {
+    this.inUse = Math.max(0, this.inUse - 1);
+
+    const whole = buffer.byteOffset === 0 && buffer.buffer.byteLength === this.size
+      ? Buffer.from(buffer.buffer, 0, this.size)
+      : undefined;
+    if (whole && this.idle.length + this.inUse < this.maxBuffers) {
+      this.idle.push(whole);
+    }
+  }
+
+  /**
+   * Switches to a new buffer size and capacity, dropping idle buffers of the old size
+   */
+  resize(bufferSize: number, capacity: number): void {
+    if (bufferSize !== this.size) {
+      this.idle.length = 0;
+    }
+    this.size = bufferSize;
+    this.maxBuffers = Math.max(1, capacity);
+    this.idle.length = Math.min(this.idle.length, this.available);
+  }
+}
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StreamingService } from './StreamingService.js';
+import { TransferCancelledError, TransferInterruptedError } from '../utils/errorHandler.js';
+import http from 'http';
+
+/**
+ * Tests for cancelling a running transfer through its AbortSignal
+ *
+ * Validates that:
+ * - A cancel stops reading the source and aborts the multipart upload
+ * - Part uploads in flight finish before the upload is aborted
+ * - The result carries TransferCancelledError and the bytes read so far
+ * - Single PutObject and ranged transfers stop without writing to the bucket
+ * - An interruption (abort reason TransferInterruptedError) keeps the multipart upload to resume
+ */
+describe('StreamingService - Cancellation', () => {
+  const MB = 1024 * 1024;
+  const FILE_SIZE = 24 * MB;
+
+  let streamingService: StreamingService;
+  let mockServer: http.Server;
+  let content: Buffer;
+  let originalSourceConnections: string | undefined;
+
+  beforeEach(async () => {
+    originalSourceConnections = process.env.SOURCE_CONNECTIONS;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    streamingService = new StreamingService();
+    vi.spyOn(streamingService as any, 'calculateOptimalPartSize').mockReturnValue(5 * MB);
+    content = Buffer.alloc(FILE_SIZE, 7);
+
+    // Sends the body (or the requested range) 1MB at a time so a cancel lands mid-stream
+    mockServer = http.createServer((req, res) => {
+      const range = req.headers['range']?.match(/^bytes=(\d+)-(\d+)$/);
+      const start = range ? parseInt(range[1], 10) : 0;
+      const end = range ? parseInt(range[2], 10) + 1 : content.length;
+      res.writeHead(range ? 206 : 200, {
+        'Content-Type': 'application/zip',
+        'Content-Length': (end - start).toString(),
+        'Accept-Ranges': 'bytes',
+        'ETag': '"cancel-test"',
+      });
+      if (req.method === 'HEAD') {
+        res.end();
+        return;
+      }
+
+      let offset = start;
+      const sendChunk = () => {
+        if (res.destroyed) {
+          return;
+        }
+        if (offset >= end) {
+          res.end();
+          return;
+        }
+        const next = Math.min(offset + MB, end);
+        res.write(content.subarray(offset, next));
+        offset = next;
+        setTimeout(sendChunk, 10);
+      };
+      sendChunk();
+    });
+    await new Promise<void>((resolve) => mockServer.listen(0, () => resolve()));
+  });
+
+  afterEach(async () => {
+    if (originalSourceConnections === undefined) {
+      delete process.env.SOURCE_CONNECTIONS;
+    } else {
+      process.env.SOURCE_CONNECTIONS = originalSourceConnections;
+    }
+    vi.restoreAllMocks();
+    mockServer.closeAllConnections();
+    await new Promise<void>((resolve) => mockServer.close(() => resolve()));
+  });
+
+  const sourceUrl = () => {
+    const address = mockServer.address() as { port: number };
+    return `http://localhost:${address.port}/archive.zip`;
+  };
+
+  /**
+   * S3 mock whose part uploads take a while and that records what was in flight on abort
+   */
+  const createMockS3Service = (onUploadPart?: () => void) => {
+    let inFlight = 0;
+    const mock = {
+      inFlightAtAbort: -1,
+      validateBucketAccess: vi.fn().mockResolvedValue(true),
+      putObject: vi.fn().mockResolvedValue('s3://test-bucket/archive.zip'),
+      createMultipartUpload: vi.fn().mockResolvedValue('test-upload-id'),
+      uploadPart: vi.fn().mockImplementation(async (_b: string, _k: string, _u: string, partNumber: number) => {
+        inFlight++;
+        onUploadPart?.();
+        await new Promise(resolve => setTimeout(resolve, 100));
+        inFlight--;
+        return `etag-${partNumber}`;
+      }),
+      completeUpload: vi.fn().mockResolvedValue('s3://test-bucket/archive.zip'),
+      abortUpload: vi.fn().mockImplementation(async () => {
+        mock.inFlightAtAbort = inFlight;
+      }),
+    };
+    return mock;
+  };
+
+  it('should stop streaming, drain part uploads and abort the multipart upload', async () => {
+    (streamingService as any).LARGE_FILE_THRESHOLD = 0;
+    const controller = new AbortController();
+    // Cancel while the first part is uploading
+    const mockS3Service = createMockS3Service(() => setImmediate(() => controller.abort()));
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      signal: controller.signal,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(TransferCancelledError);
+    expect(result.bytesTransferred).toBeGreaterThanOrEqual(5 * MB);
+    expect(result.bytesTransferred).toBeLessThan(FILE_SIZE);
+    expect(mockS3Service.uploadPart).toHaveBeenCalledTimes(1);
+    expect(mockS3Service.completeUpload).not.toHaveBeenCalled();
+    expect(mockS3Service.abortUpload).toHaveBeenCalledWith('test-bucket', 'archive.zip', 'test-upload-id');
+    expect(mockS3Service.inFlightAtAbort).toBe(0);
+  });
+
+  it('should not start a multipart upload when cancelled before streaming', async () => {
+    (streamingService as any).LARGE_FILE_THRESHOLD = 0;
+    const controller = new AbortController();
+    controller.abort();
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      signal: controller.signal,
+    });
+
+    expect(result.error).toBeInstanceOf(TransferCancelledError);
+    expect(mockS3Service.createMultipartUpload).not.toHaveBeenCalled();
+  });
+
+  it('should not write a single PutObject transfer that was cancelled', async () => {
+    const controller = new AbortController();
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+    // Cancel once the first bytes have been read
+    const onProgress = (bytes: number) => {
+      if (bytes > 0 && !controller.signal.aborted) {
+        controller.abort();
+      }
+    };
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, onProgress, undefined, {
+      signal: controller.signal,
+    });
+
+    expect(result.error).toBeInstanceOf(TransferCancelledError);
+    expect(result.bytesTransferred).toBeGreaterThan(0);
+    expect(result.bytesTransferred).toBeLessThan(FILE_SIZE);
+    expect(mockS3Service.putObject).not.toHaveBeenCalled();
+  });
+
+  it('should stop ranged downloads and abort the multipart upload', async () => {
+    process.env.SOURCE_CONNECTIONS = '2';
+    streamingService = new StreamingService();
+    (streamingService as any).LARGE_FILE_THRESHOLD = 0;
+    vi.spyOn(streamingService as any, 'calculateOptimalPartSize').mockReturnValue(5 * MB);
+    const controller = new AbortController();
+    // Cancel while the first part is uploading
+    const mockS3Service = createMockS3Service(() => setImmediate(() => controller.abort()));
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      signal: controller.signal,
+    });
+
+    expect(result.error).toBeInstanceOf(TransferCancelledError);
+    expect(mockS3Service.uploadPart.mock.calls.length).toBeLessThan(Math.ceil(FILE_SIZE / (5 * MB)));
+    expect(mockS3Service.completeUpload).not.toHaveBeenCalled();
+    expect(mockS3Service.abortUpload).toHaveBeenCalled();
+    expect(mockS3Service.inFlightAtAbort).toBe(0);
+  });
+
+  it('should keep the multipart upload when the transfer is interrupted', async () => {
+    const mockDynamoDBService = {
+      saveUploadCheckpoint: vi.fn().mockResolvedValue(undefined),
+      recordCompletedPart: vi.fn().mockResolvedValue(undefined),
+      updateTransferProgress: vi.fn().mockResolvedValue(null),
+    };
+    streamingService = new StreamingService(mockDynamoDBService as any);
+    (streamingService as any).LARGE_FILE_THRESHOLD = 0;
+    vi.spyOn(streamingService as any, 'calculateOptimalPartSize').mockReturnValue(5 * MB);
+    const controller = new AbortController();
+    // Shut down while the first part is uploading
+    const mockS3Service = createMockS3Service(() => setImmediate(() => controller.abort(new TransferInterruptedError())));
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, 'transfer-1', {
+      signal: controller.signal,
+    });
+
+    expect(result.error).toBeInstanceOf(TransferInterruptedError);
+    expect(result.bytesTransferred).toBeGreaterThanOrEqual(5 * MB);
+    expect(mockS3Service.completeUpload).not.toHaveBeenCalled();
+    expect(mockS3Service.abortUpload).not.toHaveBeenCalled();
+    // The part in flight finished and is in the checkpoint for the retry
+    expect(mockDynamoDBService.recordCompletedPart).toHaveBeenCalledWith('transfer-1', 1);
+  });
+});
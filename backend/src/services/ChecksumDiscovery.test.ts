@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { UrlService } from './UrlService.js';
+import http from 'http';
+
+/**
+ * Tests for discovering checksums published next to the source
+ *
+ * Validates that:
+ * - Digest headers and sidecar files (.sha256, SHA256SUMS, .md5) are found and parsed
+ * - SHA-256 is preferred over MD5
+ * - Checksum lists only match the entry for the source file
+ * - Nothing is returned when the publisher offers no checksum
+ */
+describe('UrlService - Checksum Discovery', () => {
+  const SHA256 = 'a'.repeat(64);
+  const OTHER_SHA256 = 'b'.repeat(64);
+  const MD5 = 'c'.repeat(32);
+
+  let urlService: UrlService;
+  let mockServer: http.Server;
+  let files: Record<string, string>;
+  let headers: Record<string, string>;
+
+  beforeEach(async () => {
+    urlService = new UrlService();
+    files = {};
+    headers = {};
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    mockServer = http.createServer((req, res) => {
+      const path = (req.url || '').split('?')[0];
+      if (path === '/releases/tool.zip') {
+        res.writeHead(200, { 'Content-Type': 'application/zip', 'Content-Length': '0', ...headers });
+        res.end();
+        return;
+      }
+      if (files[path] !== undefined) {
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end(files[path]);
+        return;
+      }
+      res.writeHead(404);
+      res.end();
+    });
+    await new Promise<void>((resolve) => mockServer.listen(0, () => resolve()));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise<void>((resolve) => mockServer.close(() => resolve()));
+  });
+
+  const baseUrl = () => `http://localhost:${(mockServer.address() as { port: number }).port}`;
+  const sourceUrl = () => `${baseUrl()}/releases/tool.zip?token=abc`;
+
+  it('should read a single-file .sha256 sidecar', async () => {
+    files['/releases/tool.zip.sha256'] = `${SHA256.toUpperCase()}  tool.zip\n`;
+
+    const checksum = await urlService.discoverChecksum(sourceUrl());
+
+    expect(checksum).toEqual({ algorithm: 'sha256', value: SHA256, source: `${baseUrl()}/releases/tool.zip.sha256` });
+  });
+
+  it('should accept a bare digest in a single-file sidecar', async () => {
+    files['/releases/tool.zip.sha256'] = SHA256;
+
+    const checksum = await urlService.discoverChecksum(sourceUrl());
+
+    expect(checksum?.value).toBe(SHA256);
+  });
+
+  it('should pick the matching entry from SHA256SUMS', async () => {
+    files['/releases/SHA256SUMS'] = [
+      `${OTHER_SHA256}  tool-src.zip`,
+      `${SHA256} *tool.zip`,
+    ].join('\n');
+
+    const checksum = await urlService.discoverChecksum(sourceUrl());
+
+    expect(checksum).toEqual({ algorithm: 'sha256', value: SHA256, source: `${baseUrl()}/releases/SHA256SUMS` });
+  });
+
+  it('should understand BSD-style checksum lines', async () => {
+    files['/releases/SHA256SUMS'] = `SHA256 (tool-src.zip) = ${OTHER_SHA256}\nSHA256 (tool.zip) = ${SHA256}\n`;
+
+    const checksum = await urlService.discoverChecksum(sourceUrl());
+
+    expect(checksum?.value).toBe(SHA256);
+  });
+
+  it('should ignore checksum lists without an entry for the file', async () => {
+    files['/releases/SHA256SUMS'] = `${OTHER_SHA256}  tool-src.zip\n${OTHER_SHA256}\n`;
+
+    const checksum = await urlService.discoverChecksum(sourceUrl());
+
+    expect(checksum).toBeNull();
+  });
+
+  it('should prefer SHA-256 over MD5', async () => {
+    files['/releases/tool.zip.md5'] = `${MD5}  tool.zip`;
+    files['/releases/SHA256SUMS'] = `${SHA256}  tool.zip`;
+
+    const checksum = await urlService.discoverChecksum(sourceUrl());
+
+    expect(checksum?.algorithm).toBe('sha256');
+  });
+
+  it('should fall back to an .md5 sidecar', async () => {
+    files['/releases/tool.zip.md5'] = `${MD5}  tool.zip`;
+
+    const checksum = await urlService.discoverChecksum(sourceUrl());
+
+    expect(checksum).toEqual({ algorithm: 'md5', value: MD5, source: `${baseUrl()}/releases/tool.zip.md5` });
+  });
+
+  it('should read Digest and Content-MD5 headers', async () => {
+    headers['Digest'] = `SHA-256=${Buffer.from(SHA256, 'hex').toString('base64')}`;
+    expect(await urlService.discoverChecksum(sourceUrl())).toEqual({
+      algorithm: 'sha256',
+      value: SHA256,
+      source: 'header:Digest',
+    });
+
+    headers = { 'Content-MD5': Buffer.from(MD5, 'hex').toString('base64') };
+    expect(await urlService.discoverChecksum(sourceUrl())).toEqual({
+      algorithm: 'md5',
+      value: MD5,
+      source: 'header:Content-MD5',
+    });
+  });
+
+  it('should read the Repr-Digest header', async () => {
+    headers['Repr-Digest'] = `sha-256=:${Buffer.from(SHA256, 'hex').toString('base64')}:`;
+
+    const checksum = await urlService.discoverChecksum(sourceUrl());
+
+    expect(checksum).toEqual({ algorithm: 'sha256', value: SHA256, source: 'header:Repr-Digest' });
+  });
+
+  it('should ignore digest headers for content-encoded responses', async () => {
+    headers['Digest'] = `SHA-256=${Buffer.from(SHA256, 'hex').toString('base64')}`;
+    headers['Content-Encoding'] = 'gzip';
+
+    const checksum = await urlService.discoverChecksum(sourceUrl());
+
+    expect(checksum).toBeNull();
+  });
+
+  it('should return null when nothing is published', async () => {
+    const checksum = await urlService.discoverChecksum(sourceUrl());
+
+    expect(checksum).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { ChecksumService, ChecksumAccumulator } from './ChecksumService.js';
+import { createHash } from 'crypto';
+
+/**
+ * Tests for checksum computation
+ *
+ * Validates that:
+ * - CRC32C and CRC-32 match the published check values and are incremental
+ * - Part checksums use the base64 encoding S3 expects
+ * - Whole-object digests don't depend on how the data was chunked
+ * - CRC32Cs of adjacent blocks combine into the CRC32C of both, also over skipped bytes
+ */
+describe('ChecksumService', () => {
+  it('should compute the CRC32C check value', () => {
+    // Standard check value for CRC-32C (Castagnoli)
+    expect(ChecksumService.crc32c(Buffer.from('123456789'))).toBe(0xe3069283);
+    expect(ChecksumService.crc32c(Buffer.alloc(0))).toBe(0);
+  });
+
+  it('should continue a CRC32C across chunks', () => {
+    const data = Buffer.from('The quick brown fox jumps over the lazy dog, twice over.');
+    for (const split of [1, 7, 8, 9, 30]) {
+      const first = ChecksumService.crc32c(data.subarray(0, split));
+      expect(ChecksumService.crc32c(data.subarray(split), first)).toBe(ChecksumService.crc32c(data));
+    }
+  });
+
+  it('should compute the CRC-32 check value ZIP archives use', () => {
+    // Standard check value for CRC-32 (IEEE)
+    expect(ChecksumService.crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    const data = Buffer.from('The quick brown fox jumps over the lazy dog, twice over.');
+    expect(ChecksumService.crc32(data.subarray(13), ChecksumService.crc32(data.subarray(0, 13)))).toBe(ChecksumService.crc32(data));
+  });
+
+  it('should encode part checksums in base64', () => {
+    const data = Buffer.from('123456789');
+    const checksum = ChecksumService.computePartChecksum(3, data);
+
+    expect(checksum.partNumber).toBe(3);
+    expect(checksum.size).toBe(9);
+    expect(checksum.crc32c).toBe(Buffer.from('e3069283', 'hex').toString('base64'));
+    expect(checksum.sha256).toBe(createHash('sha256').update(data).digest('base64'));
+  });
+
+  it('should produce the same object digests regardless of chunking', () => {
+    const data = Buffer.alloc(100000);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = (i * 31) % 256;
+    }
+
+    const whole = new ChecksumAccumulator();
+    whole.update(data);
+
+    const chunked = new ChecksumAccumulator();
+    for (let offset = 0; offset < data.length; offset += 4099) {
+      chunked.update(data.subarray(offset, offset + 4099));
+    }
+
+    expect(chunked.bytesHashed).toBe(data.length);
+    expect(chunked.digest()).toEqual(whole.digest());
+    expect(new ChecksumAccumulator().digest().sha256).toBe(createHash('sha256').digest('hex'));
+  });
+
+  it('should combine the CRC32Cs of adjacent blocks', () => {
+    const data = Buffer.from('The quick brown fox jumps over the lazy dog, twice over.');
+    for (const split of [0, 1, 7, 8, 9, 30, data.length]) {
+      const first = ChecksumService.crc32c(data.subarray(0, split));
+      const second = ChecksumService.crc32c(data.subarray(split));
+      expect(ChecksumService.combineCrc32c(first, second, data.length - split)).toBe(ChecksumService.crc32c(data));
+    }
+
+    // Lengths past 32 bits: combining over 3GB twice is combining over 6GB once
+    const GB = 1024 * 1024 * 1024;
+    const [a, b, c] = [0x12345678, 0x9abcdef0, 0x0fedcba9];
+    expect(ChecksumService.combineCrc32c(ChecksumService.combineCrc32c(a, b, 3 * GB), c, 3 * GB))
+      .toBe(ChecksumService.combineCrc32c(a, ChecksumService.combineCrc32c(b, c, 3 * GB), 6 * GB));
+    const viaBlocks = [1, 4, 16, 64].reduce((crc, mb) => ChecksumService.combineCrc32c(crc, ChecksumService.crc32c(Buffer.alloc(mb)), mb), 0);
+    expect(viaBlocks).toBe(ChecksumService.crc32c(Buffer.alloc(85)));
+  });
+
+  it('should continue the object CRC32C over skipped bytes without their other digests', () => {
+    const data = Buffer.alloc(100000);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = (i * 31) % 256;
+    }
+    const whole = new ChecksumAccumulator({ md5: true });
+    whole.update(data);
+
+    const resumed = new ChecksumAccumulator({ md5: true });
+    resumed.skip(ChecksumService.crc32c(data.subarray(0, 40000)), 40000);
+    resumed.update(data.subarray(40000));
+
+    expect(resumed.bytesHashed).toBe(data.length);
+    expect(resumed.digest()).toEqual({ crc32c: whole.digest().crc32c });
+  });
+});
@@ -0,0 +1,253 @@
+import { createHash, Hash } from 'crypto';
+import { ChecksumMismatchError } from '../utils/errorHandler.js';
+import { ObjectChecksums, PartChecksum, ExpectedChecksum } from '../types/api.js';
+
+/**
+ * CRC lookup tables for slicing-by-8
+ * Table 0 is the classic byte-at-a-time table; tables 1-7 let the inner loop
+ * consume eight bytes per iteration.
+ */
+function buildCrcTables(polynomial: number): Uint32Array[] {
+  const tables = Array.from({ length: 8 }, () => new Uint32Array(256));
+  for (let n = 0; n < 256; n++) {
+    let crc = n;
+    for (let k = 0; k < 8; k++) {
+      crc = crc & 1 ? (crc >>> 1) ^ polynomial : crc >>> 1;
+    }
+    tables[0][n] = crc >>> 0;
+  }
+  for (let n = 0; n < 256; n++) {
+    let crc = tables[0][n];
+    for (let t = 1; t < 8; t++) {
+      crc = tables[0][crc & 0xff] ^ (crc >>> 8);
+      tables[t][n] = crc >>> 0;
+    }
+  }
+  return tables;
+}
+
+const CRC32C_TABLES = buildCrcTables(0x82f63b78); // Reversed Castagnoli polynomial, used by S3
+const CRC32_TABLES = buildCrcTables(0xedb88320); // Reversed IEEE polynomial, used by ZIP
+
+/**
+ * Updates a reflected 32-bit CRC with data, continuing from a previous CRC value
+ */
+function updateCrc(t: Uint32Array[], data: Buffer, previous: number): number {
+  let crc = ~previous >>> 0;
+  let i = 0;
+
+  // Eight bytes per iteration
+  const fastEnd = data.length - (data.length % 8);
+  while (i < fastEnd) {
+    const a = (data[i] | (data[i + 1] << 8) | (data[i + 2] << 16) | (data[i + 3] << 24)) ^ crc;
+    crc =
+      t[7][a & 0xff] ^
+      t[6][(a >>> 8) & 0xff] ^
+      t[5][(a >>> 16) & 0xff] ^
+      t[4][a >>> 24] ^
+      t[3][data[i + 4]] ^
+      t[2][data[i + 5]] ^
+      t[1][data[i + 6]] ^
+      t[0][data[i + 7]];
+    i += 8;
+  }
+
+  while (i < data.length) {
+    crc = t[0][(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    i++;
+  }
+
+  return ~crc >>> 0;
+}
+
+/**
+ * Multiplies a GF(2) 32x32 matrix, one column per row entry, with a vector
+ */
+function gf2MatrixTimes(matrix: number[], vector: number): number {
+  let sum = 0;
+  for (let i = 0; vector !== 0; i++, vector >>>= 1) {
+    if (vector & 1) {
+      sum ^= matrix[i];
+    }
+  }
+  return sum >>> 0;
+}
+
+function gf2MatrixSquare(matrix: number[]): number[] {
+  return matrix.map(column => gf2MatrixTimes(matrix, column));
+}
+
+/**
+ * Combines the CRCs of two adjacent blocks into the CRC of both, as zlib's crc32_combine
+ * The first CRC is advanced over secondLength zero bytes by repeated squaring of the
+ * one-zero-bit operator, so the cost grows with log2(secondLength), not the length.
+ */
+function combineCrc(polynomial: number, first: number, second: number, secondLength: number): number {
+  if (secondLength <= 0) {
+    return first;
+  }
+
+  // Operator for one zero bit, then two, then four
+  let odd = [polynomial, ...Array.from({ length: 31 }, (_, n) => (1 << n) >>> 0)];
+  let even = gf2MatrixSquare(odd);
+  odd = gf2MatrixSquare(even);
+
+  let crc = first >>> 0;
+  let remaining = secondLength;
+  while (remaining > 0) {
+    // Each operator applies twice as many zero bits as the one before: a byte, two, four...
+    even = gf2MatrixSquare(odd);
+    if (remaining % 2 === 1) {
+      crc = gf2MatrixTimes(even, crc);
+    }
+    remaining = Math.floor(remaining / 2);
+    if (remaining === 0) {
+      break;
+    }
+    odd = gf2MatrixSquare(even);
+    if (remaining % 2 === 1) {
+      crc = gf2MatrixTimes(odd, crc);
+    }
+    remaining = Math.floor(remaining / 2);
+  }
+  return (crc ^ second) >>> 0;
+}
+
+/**
+ * Accumulates whole-object digests over data fed in source order
+ * MD5 is only computed on request, it is needed just to check vendor-published digests
+ */
+export class ChecksumAccumulator {
+  private sha256?: Hash = createHash('sha256');
+  private md5?: Hash;
+  private crc32c = 0;
+  private bytes = 0;
+
+  constructor(options: { md5?: boolean } = {}) {
+    if (options.md5) {
+      this.md5 = createHash('md5');
+    }
+  }
+
+  /**
+   * Continues from the CRC32C of bytes that won't be fed, e.g. parts a previous attempt uploaded
+   * Their SHA-256 and MD5 can't be continued without the bytes, so the digest leaves them out.
+   */
+  skip(crc32c: number, bytes: number): void {
+    this.sha256 = undefined;
+    this.md5 = undefined;
+    this.crc32c = ChecksumService.combineCrc32c(this.crc32c, crc32c, bytes);
+    this.bytes += bytes;
+  }
+
+  update(data: Buffer): void {
+    this.sha256?.update(data);
+    this.md5?.update(data);
+    this.crc32c = ChecksumService.crc32c(data, this.crc32c);
+    this.bytes += data.length;
+  }
+
+  /**
+   * Number of bytes hashed so far
+   */
+  get bytesHashed(): number {
+    return this.bytes;
+  }
+
+  /**
+   * Finalises the digests; the accumulator can't be updated afterwards
+   */
+  digest(): ObjectChecksums {
+    const checksums: ObjectChecksums = {
+      crc32c: ChecksumService.crc32cToBuffer(this.crc32c).toString('hex'),
+    };
+    if (this.sha256) {
+      checksums.sha256 = this.sha256.digest('hex');
+    }
+    if (this.md5) {
+      checksums.md5 = this.md5.digest('hex');
+    }
+    return checksums;
+  }
+}
+
+/**
+ * Checksum helpers for verifying transferred bytes
+ *
+ * Per-part checksums are base64 encoded, the format S3 additional checksums use.
+ * Whole-object checksums are hex encoded, the format sha256sum and vendors publish.
+ */
+export class ChecksumService {
+  /**
+   * Computes CRC32C over data, continuing from a previous CRC value
+   */
+  static crc32c(data: Buffer, previous: number = 0): number {
+    return updateCrc(CRC32C_TABLES, data, previous);
+  }
+
+  /**
+   * Computes CRC-32 (the checksum ZIP archives store per entry) over data, continuing from a previous CRC value
+   */
+  static crc32(data: Buffer, previous: number = 0): number {
+    return updateCrc(CRC32_TABLES, data, previous);
+  }
+
+  /**
+   * Computes the CRC32C of two adjacent blocks from their CRC32Cs and the second block's length
+   */
+  static combineCrc32c(first: number, second: number, secondLength: number): number {
+    return combineCrc(0x82f63b78, first, second, secondLength);
+  }
+
+  /**
+   * Encodes a CRC32C value as 4 big-endian bytes (the byte order S3 uses)
+   */
+  static crc32cToBuffer(crc: number): Buffer {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32BE(crc >>> 0, 0);
+    return buffer;
+  }
+
+  /**
+   * Computes the CRC32C S3 reports for a multipart object with composite checksums
+   * That is the CRC32C of the concatenated part CRC32Cs, suffixed with the part count
+   * Parts must be sorted by part number
+   */
+  static compositeCrc32c(parts: PartChecksum[]): string {
+    const partCrcs = Buffer.concat(parts.map(part => Buffer.from(part.crc32c, 'base64')));
+    return `${ChecksumService.crc32cToBuffer(ChecksumService.crc32c(partCrcs)).toString('base64')}-${parts.length}`;
+  }
+
+  /**
+   * Checks whole-object digests against an expected checksum
+   * Throws ChecksumMismatchError when they differ
+   */
+  static verifyExpectedChecksum(checksums: ObjectChecksums, expected: ExpectedChecksum): void {
+    const actual = checksums[expected.algorithm];
+    if (!actual) {
+      throw new Error(`No ${expected.algorithm} digest was computed for this transfer`);
+    }
+
+    const expectedValue = expected.value.trim().toLowerCase();
+    if (actual !== expectedValue) {
+      throw new ChecksumMismatchError(
+        `Checksum mismatch: expected ${expected.algorithm} ${expectedValue} but the transferred bytes have ${actual}`,
+        expected.algorithm,
+        expectedValue,
+        actual
+      );
+    }
+  }
+
+  /**
+   * Computes the SHA-256 and CRC32C checksums for one multipart upload part
+   */
+  static computePartChecksum(partNumber: number, data: Buffer): PartChecksum {
+    return {
+      partNumber,
+      size: data.length,
+      sha256: createHash('sha256').update(data).digest('base64'),
+      crc32c: ChecksumService.crc32cToBuffer(ChecksumService.crc32c(data)).toString('base64'),
+    };
+  }
+}
@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ConditionalCheckFailedException, PutItemCommand, UpdateItemCommand } from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { DynamoDBService, TransferStatus, canTransition } from './DynamoDBService.js';
+import { IllegalTransitionError } from '../utils/errorHandler.js';
+
+/**
+ * Tests for the transfer record state machine
+ *
+ * Validates that:
+ * - The transition table allows pending -> starting -> in-progress -> completed, failing or
+ *   cancelling any active transfer, and nothing out of completed or failed
+ * - Every mutation is conditional on the current status and increments the version
+ * - A rejected write raises IllegalTransitionError naming the current and requested status
+ */
+describe('DynamoDBService - Transfer State Machine', () => {
+  let service: DynamoDBService;
+  let send: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    service = new DynamoDBService('TransferTable', 'us-east-1');
+    send = vi.fn().mockResolvedValue({});
+    (service as any).client = { send };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * Statuses the last update's condition allows, and its expression and values
+   */
+  const lastUpdate = () => {
+    const command = send.mock.calls[send.mock.calls.length - 1][0];
+    expect(command).toBeInstanceOf(UpdateItemCommand);
+    const input = command.input;
+    const values = unmarshall(input.ExpressionAttributeValues);
+    const allowedFrom = input.ConditionExpression
+      .match(/^#status IN \((.*)\)$/)[1]
+      .split(', ')
+      .map((name: string) => values[name]);
+    return { input, values, allowedFrom };
+  };
+
+  const attempt = {
+    attempt: 1,
+    startTime: '2026-10-19T11:00:00.000Z',
+    endTime: '2026-10-19T12:00:00.000Z',
+    error: 'Connection reset by source server',
+    errorCode: 'SOURCE_CONNECTION_RESET',
+    retryable: true,
+    retryDelayMs: 60000,
+  };
+
+  const conditionFailed = (status?: TransferStatus) =>
+    new ConditionalCheckFailedException({
+      message: 'The conditional request failed',
+      $metadata: {},
+      Item: status ? marshall({ transferId: 'transfer-1', status }) : undefined,
+    });
+
+  describe('canTransition', () => {
+    it('should allow the forward transitions', () => {
+      expect(canTransition(TransferStatus.PENDING, TransferStatus.STARTING)).toBe(true);
+      expect(canTransition(TransferStatus.STARTING, TransferStatus.IN_PROGRESS)).toBe(true);
+      expect(canTransition(TransferStatus.IN_PROGRESS, TransferStatus.COMPLETED)).toBe(true);
+      expect(canTransition(TransferStatus.IN_PROGRESS, TransferStatus.FAILED)).toBe(true);
+      expect(canTransition(TransferStatus.IN_PROGRESS, TransferStatus.CANCELLED)).toBe(true);
+      expect(canTransition(TransferStatus.PENDING, TransferStatus.FAILED)).toBe(true);
+      expect(canTransition(TransferStatus.STARTING, TransferStatus.COMPLETED)).toBe(true);
+    });
+
+    it('should reject skipping starting', () => {
+      expect(canTransition(TransferStatus.PENDING, TransferStatus.IN_PROGRESS)).toBe(false);
+      expect(canTransition(TransferStatus.PENDING, TransferStatus.COMPLETED)).toBe(false);
+    });
+
+    it('should reject moving backwards or out of a final status', () => {
+      expect(canTransition(TransferStatus.IN_PROGRESS, TransferStatus.PENDING)).toBe(false);
+      expect(canTransition(TransferStatus.IN_PROGRESS, TransferStatus.STARTING)).toBe(false);
+      expect(canTransition(TransferStatus.CANCELLED, TransferStatus.IN_PROGRESS)).toBe(false);
+      expect(canTransition(TransferStatus.FAILED, TransferStatus.IN_PROGRESS)).toBe(false);
+      expect(canTransition(TransferStatus.FAILED, TransferStatus.COMPLETED)).toBe(false);
+      expect(canTransition(TransferStatus.COMPLETED, TransferStatus.FAILED)).toBe(false);
+      expect(canTransition(TransferStatus.CANCELLED, TransferStatus.COMPLETED)).toBe(false);
+    });
+
+    it('should allow rewriting the status only while active or cancelled', () => {
+      expect(canTransition(TransferStatus.IN_PROGRESS, TransferStatus.IN_PROGRESS)).toBe(true);
+      expect(canTransition(TransferStatus.CANCELLED, TransferStatus.CANCELLED)).toBe(true);
+      expect(canTransition(TransferStatus.COMPLETED, TransferStatus.COMPLETED)).toBe(false);
+      expect(canTransition(TransferStatus.FAILED, TransferStatus.FAILED)).toBe(false);
+    });
+  });
+
+  it('should only record progress for transfers a worker has started', async () => {
+    await service.updateTransferProgress('transfer-1', 512, 1024);
+
+    const { input, values, allowedFrom } = lastUpdate();
+    expect(allowedFrom.sort()).toEqual([TransferStatus.IN_PROGRESS, TransferStatus.STARTING].sort());
+    expect(values[':status']).toBe(TransferStatus.IN_PROGRESS);
+    expect(input.UpdateExpression).toContain('ADD version :one');
+    expect(values[':one']).toBe(1);
+  });
+
+  it('should condition and version every mutation', async () => {
+    const mutations: [string, () => Promise<unknown>, TransferStatus[]][] = [
+      ['markTransferStarting', () => service.markTransferStarting('transfer-1'),
+        [TransferStatus.PENDING, TransferStatus.STARTING]],
+      ['markTransferComplete', () => service.markTransferComplete('transfer-1', 's3://bucket/key'),
+        [TransferStatus.STARTING, TransferStatus.IN_PROGRESS]],
+      ['markTransferFailed', () => service.markTransferFailed('transfer-1', 'boom'),
+        [TransferStatus.PENDING, TransferStatus.STARTING, TransferStatus.IN_PROGRESS]],
+      ['markTransferCancelled', () => service.markTransferCancelled('transfer-1', 10),
+        [TransferStatus.PENDING, TransferStatus.STARTING, TransferStatus.IN_PROGRESS, TransferStatus.CANCELLED]],
+      ['markTransferInterrupted', () => service.markTransferInterrupted('transfer-1', 10),
+        [TransferStatus.PENDING, TransferStatus.STARTING, TransferStatus.IN_PROGRESS]],
+      ['saveUploadCheckpoint', () => service.saveUploadCheckpoint('transfer-1', { uploadId: 'upload-1', partSize: 5 }),
+        [TransferStatus.PENDING, TransferStatus.STARTING, TransferStatus.IN_PROGRESS]],
+      ['recordCompletedPart', () => service.recordCompletedPart('transfer-1', 3),
+        [TransferStatus.PENDING, TransferStatus.STARTING, TransferStatus.IN_PROGRESS]],
+      ['saveExpectedChecksum', () => service.saveExpectedChecksum('transfer-1', { algorithm: 'sha256', value: 'ab' }),
+        [TransferStatus.PENDING, TransferStatus.STARTING, TransferStatus.IN_PROGRESS]],
+      ['saveActiveRateLimit', () => service.saveActiveRateLimit('transfer-1', 1000),
+        [TransferStatus.PENDING, TransferStatus.STARTING, TransferStatus.IN_PROGRESS]],
+      ['updateExecutionArn', () => service.updateExecutionArn('transfer-1', 'arn:execution'),
+        [TransferStatus.PENDING, TransferStatus.STARTING, TransferStatus.IN_PROGRESS]],
+      ['updateFargateTaskArn', () => service.updateFargateTaskArn('transfer-1', 'arn:task'),
+        [TransferStatus.PENDING, TransferStatus.STARTING, TransferStatus.IN_PROGRESS]],
+      ['recordHeartbeat', () => service.recordHeartbeat('transfer-1'),
+        [TransferStatus.PENDING, TransferStatus.STARTING, TransferStatus.IN_PROGRESS]],
+      ['scheduleRetry', () => service.scheduleRetry('transfer-1', attempt, '2026-10-19T12:01:00.000Z'),
+        [TransferStatus.PENDING, TransferStatus.STARTING, TransferStatus.IN_PROGRESS]],
+    ];
+
+    for (const [name, mutate, expectedFrom] of mutations) {
+      await mutate();
+      const { input, allowedFrom } = lastUpdate();
+      expect(allowedFrom.sort(), name).toEqual([...expectedFrom].sort());
+      expect(input.UpdateExpression, name).toMatch(/ADD (.*, )?version :one$/);
+      expect(input.ConditionExpression, name).not.toContain('version'); // Informational only
+      expect(input.ReturnValuesOnConditionCheckFailure, name).toBe('ALL_OLD');
+    }
+  });
+
+  it('should keep the completed part set and the version in one ADD clause', async () => {
+    await service.recordCompletedPart('transfer-1', 3);
+
+    expect(lastUpdate().input.UpdateExpression).toBe('ADD completedParts :part, version :one');
+  });
+
+  it('should create records at version 1 without replacing an existing one', async () => {
+    const record = await service.createTransferRecord('transfer-1', 'https://example.com/a.zip', 'bucket', 'a.zip');
+
+    const command = send.mock.calls[0][0];
+    expect(command).toBeInstanceOf(PutItemCommand);
+    expect(command.input.ConditionExpression).toBe('attribute_not_exists(transferId)');
+    expect(record.version).toBe(1);
+    expect(unmarshall(command.input.Item).version).toBe(1);
+  });
+
+  it('should raise IllegalTransitionError when a progress update lands after a cancel', async () => {
+    send.mockRejectedValue(conditionFailed(TransferStatus.CANCELLED));
+
+    const error = await service.updateTransferProgress('transfer-1', 512, 1024).catch(e => e);
+
+    expect(error).toBeInstanceOf(IllegalTransitionError);
+    expect(error.from).toBe(TransferStatus.CANCELLED);
+    expect(error.to).toBe(TransferStatus.IN_PROGRESS);
+    expect(error.message).toBe('Transfer transfer-1 cannot move from cancelled to in-progress');
+  });
+
+  it('should raise IllegalTransitionError when completing a failed transfer', async () => {
+    send.mockRejectedValue(conditionFailed(TransferStatus.FAILED));
+
+    await expect(service.markTransferComplete('transfer-1', 's3://bucket/key')).rejects.toMatchObject({
+      name: 'IllegalTransitionError',
+      code: 'ILLEGAL_TRANSITION',
+      from: TransferStatus.FAILED,
+      to: TransferStatus.COMPLETED,
+    });
+  });
+
+  it('should raise IllegalTransitionError for writes to a finished or missing record', async () => {
+    send.mockRejectedValueOnce(conditionFailed(TransferStatus.COMPLETED));
+    await expect(service.recordCompletedPart('transfer-1', 3)).rejects.toThrow(
+      'Transfer transfer-1 is completed and can no longer be updated'
+    );
+
+    send.mockRejectedValueOnce(conditionFailed());
+    await expect(service.updateExecutionArn('transfer-1', 'arn:execution')).rejects.toThrow(
+      'Transfer transfer-1 does not exist'
+    );
+  });
+
+  it('should only fail a stalled transfer while its heartbeat is still stale', async () => {
+    await service.markTransferStalled('transfer-1', '2026-10-19T11:45:00.000Z', 'Transfer stalled');
+
+    const command = send.mock.calls[0][0];
+    const values = unmarshall(command.input.ExpressionAttributeValues);
+    expect(command.input.ConditionExpression).toMatch(/^#status IN \(.*\) AND \(heartbeatTime < :staleBefore OR /);
+    expect(values[':staleBefore']).toBe('2026-10-19T11:45:00.000Z');
+    expect(values[':status']).toBe(TransferStatus.FAILED);
+    expect(values[':errorCode']).toBe('TRANSFER_STALLED');
+    // The reaper aborts the upload, so only a new submission can run it again
+    expect(values[':errorRetryable']).toBe(false);
+    expect(values[':errorRemediation']).toContain('submit the transfer again, it restarts from the beginning');
+  });
+
+  it('should not consider a transfer stalled while its retry is scheduled', async () => {
+    await service.markTransferStalled('transfer-1', '2026-10-19T11:45:00.000Z', 'Transfer stalled');
+
+    expect(send.mock.calls[0][0].input.ConditionExpression).toContain(
+      '(attribute_not_exists(nextAttemptTime) OR nextAttemptTime < :staleBefore)'
+    );
+  });
+
+  it('should append the failed attempt and schedule the next one without changing the status', async () => {
+    await service.scheduleRetry('transfer-1', attempt, '2026-10-19T12:01:00.000Z');
+
+    const { input, values } = lastUpdate();
+    expect(input.UpdateExpression).toContain('attempts = list_append(if_not_exists(attempts, :noAttempts), :attempt)');
+    expect(input.UpdateExpression).not.toContain('#status = :status');
+    expect(values[':attempt']).toEqual([attempt]);
+    expect(values[':noAttempts']).toEqual([]);
+    expect(values[':nextAttemptTime']).toBe('2026-10-19T12:01:00.000Z');
+  });
+
+  it('should add the last attempt when failing a transfer', async () => {
+    const { retryDelayMs, ...finalAttempt } = attempt;
+    await service.markTransferFailed('transfer-1', 'boom', undefined, finalAttempt);
+
+    const { input, values } = lastUpdate();
+    expect(input.UpdateExpression).toContain('attempts = list_append(');
+    expect(values[':attempt']).toEqual([finalAttempt]);
+    expect(values[':status']).toBe(TransferStatus.FAILED);
+  });
+
+  it('should page through the table when finding stalled transfers', async () => {
+    send
+      .mockResolvedValueOnce({
+        Items: [marshall({ transferId: 'transfer-1', status: TransferStatus.IN_PROGRESS })],
+        LastEvaluatedKey: marshall({ transferId: 'transfer-1' }),
+      })
+      .mockResolvedValueOnce({
+        Items: [marshall({ transferId: 'transfer-2', status: TransferStatus.PENDING })],
+      });
+
+    const stalled = await service.findStalledTransfers('2026-10-19T11:45:00.000Z');
+
+    expect(stalled.map(record => record.transferId)).toEqual(['transfer-1', 'transfer-2']);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[1][0].input.ExclusiveStartKey).toEqual(marshall({ transferId: 'transfer-1' }));
+    expect(send.mock.calls[0][0].input.FilterExpression).toContain('heartbeatTime < :staleBefore');
+  });
+
+  it('should wrap other DynamoDB errors', async () => {
+    send.mockRejectedValue(new Error('ProvisionedThroughputExceededException'));
+
+    await expect(service.updateTransferProgress('transfer-1', 512, 1024)).rejects.toThrow(
+      'Failed to update transfer progress: ProvisionedThroughputExceededException'
+    );
+  });
+});
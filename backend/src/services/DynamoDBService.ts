@@ -8,11 +8,26 @@ import {
   PutItemCommand,
   GetItemCommand,
   UpdateItemCommand,
+  ScanCommand,
   PutItemCommandInput,
   GetItemCommandInput,
   UpdateItemCommandInput,
+  ScanCommandInput,
+  ConditionalCheckFailedException,
 } from '@aws-sdk/client-dynamodb';
 import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import {
+  UploadCheckpoint,
+  ObjectChecksums,
+  ExpectedChecksum,
+  ShutdownReason,
+  ErrorCategory,
+  ErrorDetails,
+  TransferAttempt,
+  ExtractOptions,
+  ExtractionSummary,
+} from '../types/api.js';
+import { IllegalTransitionError } from '../utils/errorHandler.js';
 
 export enum TransferStatus {
   PENDING = 'pending',
@@ -23,6 +38,73 @@ export enum TransferStatus {
   CANCELLED = 'cancelled',
 }
 
+/**
+ * Status changes a transfer record allows
+ * pending -> starting -> in-progress -> completed. The worker writes starting when it picks
+ * the record up, and in-progress with its first progress update. Any active transfer may
+ * fail or be cancelled, and one that wrote no progress (e.g. an empty source) completes
+ * from starting. completed, failed and cancelled are final.
+ */
+export const TRANSFER_TRANSITIONS: Record<TransferStatus, TransferStatus[]> = {
+  [TransferStatus.PENDING]: [TransferStatus.STARTING, TransferStatus.FAILED, TransferStatus.CANCELLED],
+  [TransferStatus.STARTING]: [
+    TransferStatus.IN_PROGRESS,
+    TransferStatus.COMPLETED,
+    TransferStatus.FAILED,
+    TransferStatus.CANCELLED,
+  ],
+  [TransferStatus.IN_PROGRESS]: [TransferStatus.COMPLETED, TransferStatus.FAILED, TransferStatus.CANCELLED],
+  [TransferStatus.COMPLETED]: [],
+  [TransferStatus.FAILED]: [],
+  [TransferStatus.CANCELLED]: [],
+};
+
+/**
+ * Statuses whose records still take writes that keep the status (progress, checkpoints, ARNs)
+ */
+export const ACTIVE_TRANSFER_STATUSES: TransferStatus[] = [
+  TransferStatus.PENDING,
+  TransferStatus.STARTING,
+  TransferStatus.IN_PROGRESS,
+];
+
+/**
+ * Error code of transfers failed by the reaper because their worker stopped sending heartbeats
+ */
+export const TRANSFER_STALLED = 'TRANSFER_STALLED';
+
+/**
+ * No heartbeat since :staleBefore, or no update since then when the worker never sent one,
+ * and no retry scheduled after :staleBefore (Step Functions waits for it without a worker)
+ */
+const STALE_CONDITION =
+  '(heartbeatTime < :staleBefore OR (attribute_not_exists(heartbeatTime) AND lastUpdateTime < :staleBefore)) AND ' +
+  '(attribute_not_exists(nextAttemptTime) OR nextAttemptTime < :staleBefore)';
+
+/**
+ * Adds the SET clause and values appending attempt to the record's attempt history
+ */
+function appendAttempt(set: string[], values: Record<string, any>, attempt: TransferAttempt): void {
+  set.push('attempts = list_append(if_not_exists(attempts, :noAttempts), :attempt)');
+  values[':noAttempts'] = [];
+  values[':attempt'] = [{
+    ...attempt,
+    error: attempt.error.length > 1000 ? attempt.error.substring(0, 997) + '...' : attempt.error,
+  }];
+}
+
+/**
+ * Whether a record in status `from` may be written with status `to`
+ * Writing the same status is allowed while the transfer is active, and once it is
+ * cancelled so the worker that stopped can still record the bytes it read
+ */
+export function canTransition(from: TransferStatus, to: TransferStatus): boolean {
+  if (from === to) {
+    return ACTIVE_TRANSFER_STATUSES.includes(from) || from === TransferStatus.CANCELLED;
+  }
+  return TRANSFER_TRANSITIONS[from].includes(to);
+}
+
 export interface TransferRecord {
   transferId: string;
   sourceUrl: string;
@@ -30,17 +112,57 @@ export interface TransferRecord {
   keyPrefix?: string;
   s3Key: string;
   bytesTransferred: number;
-  totalBytes: number;
+  totalBytes: number; // -1 while streaming a source that did not report a size
   percentage: number;
   status: TransferStatus;
   startTime: string; // ISO timestamp
   endTime?: string; // ISO timestamp
   lastUpdateTime: string; // ISO timestamp
+  heartbeatTime?: string; // ISO timestamp, written by the worker on a fixed interval while it runs
   error?: string;
+  errorCode?: string; // Machine-readable failure reason (e.g. CHECKSUM_MISMATCH)
+  errorCategory?: ErrorCategory; // Which side of the transfer failed
+  errorRetryable?: boolean; // Whether running the transfer again can succeed
+  errorRemediation?: string; // What to do about the failure
+  attempts?: TransferAttempt[]; // Failed attempts, oldest first
+  nextAttemptTime?: string; // ISO timestamp Step Functions starts the scheduled retry at
   fargateTaskArn?: string;
   executionArn?: string; // Step Functions execution ARN
+  version?: number; // Count of writes, starting at 1; informational, no write is conditional on it
+  shutdownReason?: ShutdownReason; // Why the last worker stopped before finishing, if it did
   s3Location?: string; // S3 location after successful transfer
+  receiptLocation?: string; // S3 location of the transfer receipt written next to the object
+  checksums?: ObjectChecksums; // Whole-object digests computed while streaming
+  expectedChecksum?: ExpectedChecksum; // Digest supplied with the request or discovered next to the source
+  discoverChecksum?: boolean; // false when checksum discovery was turned off for this transfer
+  maxBytesPerSecond?: number; // Bandwidth limit requested for this transfer
+  extract?: ExtractOptions; // Extract the archive's entries instead of storing the archive
+  extraction?: ExtractionSummary; // What an extracting transfer wrote, set when it completes
+  activeMaxBytesPerSecond?: number; // Bandwidth limit the worker applies (request or worker default)
   ttl?: number; // Unix timestamp for TTL
+  // Resume checkpoint (written by the worker while the multipart upload is in flight)
+  uploadId?: string; // Multipart upload ID
+  partSize?: number; // Part size the upload was started with
+  completedParts?: Set<number>; // Part numbers confirmed uploaded
+  sourceEtag?: string; // Source ETag when the upload was started
+  sourceLastModified?: string; // Source Last-Modified when the upload was started
+}
+
+/**
+ * Where a transfer writes to, see DynamoDBService.listTransferUploads
+ */
+export type TransferUploadRef = Pick<TransferRecord, 'transferId' | 'bucketName' | 's3Key' | 'uploadId' | 'status'>;
+
+/**
+ * Clauses of an update to a transfer record, see DynamoDBService.updateTransfer
+ */
+interface TransferUpdate {
+  set?: string[]; // e.g. 'bytesTransferred = :bytes'
+  remove?: string[]; // Attribute names
+  add?: string[]; // e.g. 'completedParts :part'
+  names?: Record<string, string>;
+  values: Record<string, any>;
+  condition?: string; // Checked in addition to the status
 }
 
 export class DynamoDBService {
@@ -61,7 +183,8 @@ export class DynamoDBService {
     sourceUrl: string,
     bucketName: string,
     s3Key: string,
-    keyPrefix?: string
+    keyPrefix?: string,
+    options: Pick<TransferRecord, 'expectedChecksum' | 'discoverChecksum' | 'maxBytesPerSecond' | 'extract'> = {}
   ): Promise<TransferRecord> {
     const now = new Date().toISOString();
     const ttl = Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60; // 30 days from now
@@ -78,18 +201,26 @@ export class DynamoDBService {
       status: TransferStatus.PENDING,
       startTime: now,
       lastUpdateTime: now,
+      version: 1,
       ttl,
+      ...options,
     };
 
     const params: PutItemCommandInput = {
       TableName: this.tableName,
       Item: marshall(record, { removeUndefinedValues: true }),
+      // Never replace a transfer that is already running
+      ConditionExpression: 'attribute_not_exists(transferId)',
+      ReturnValuesOnConditionCheckFailure: 'ALL_OLD',
     };
 
     try {
       await this.client.send(new PutItemCommand(params));
       return record;
     } catch (error) {
+      if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+        throw new IllegalTransitionError(transferId, this.currentStatus(error), TransferStatus.PENDING);
+      }
       throw new Error(
         `Failed to create transfer record: ${error instanceof Error ? error.message : String(error)}`
       );
@@ -98,6 +229,8 @@ export class DynamoDBService {
 
   /**
    * Updates transfer progress in DynamoDB
+   * Throws IllegalTransitionError before the worker marked the transfer starting, and once it
+   * is completed, failed or cancelled, so a late progress update can't bring it back to in-progress
    * Requirements: 7.6, 8.7
    */
   async updateTransferProgress(
@@ -106,37 +239,29 @@ export class DynamoDBService {
     totalBytes: number
   ): Promise<TransferRecord | null> {
     const percentage = totalBytes > 0 ? Math.min(Math.floor((bytesTransferred / totalBytes) * 100), 100) : 0;
-    const now = new Date().toISOString();
 
-    const params: UpdateItemCommandInput = {
-      TableName: this.tableName,
-      Key: marshall({ transferId }),
-      UpdateExpression:
-        'SET bytesTransferred = :bytes, totalBytes = :total, percentage = :pct, #status = :status, lastUpdateTime = :updateTime',
-      ExpressionAttributeNames: {
-        '#status': 'status',
-      },
-      ExpressionAttributeValues: marshall({
+    return this.updateTransfer(transferId, TransferStatus.IN_PROGRESS, 'update transfer progress', {
+      set: ['bytesTransferred = :bytes', 'totalBytes = :total', 'percentage = :pct', 'lastUpdateTime = :updateTime'],
+      values: {
         ':bytes': bytesTransferred,
         ':total': totalBytes,
         ':pct': percentage,
-        ':status': TransferStatus.IN_PROGRESS,
-        ':updateTime': now,
-      }),
-      ReturnValues: 'ALL_NEW',
-    };
+        ':updateTime': new Date().toISOString(),
+      },
+    });
+  }
 
-    try {
-      const result = await this.client.send(new UpdateItemCommand(params));
-      if (result.Attributes) {
-        return unmarshall(result.Attributes) as TransferRecord;
-      }
-      return null;
-    } catch (error) {
-      throw new Error(
-        `Failed to update transfer progress: ${error instanceof Error ? error.message : String(error)}`
-      );
-    }
+  /**
+   * Marks a pending transfer as picked up by a worker
+   * Throws IllegalTransitionError when it is no longer pending or starting (e.g. cancelled)
+   */
+  async markTransferStarting(transferId: string): Promise<TransferRecord | null> {
+    return this.updateTransfer(transferId, TransferStatus.STARTING, 'mark transfer starting', {
+      set: ['lastUpdateTime = :updateTime'],
+      values: {
+        ':updateTime': new Date().toISOString(),
+      },
+    });
   }
 
   /**
@@ -164,47 +289,59 @@ export class DynamoDBService {
 
   /**
    * Marks transfer as completed in DynamoDB
+   * When bytesTransferred is given it also becomes the total size, which fills
+   * in the size of sources that didn't report one up front
    * Requirements: 7.6, 8.7
    */
-  async markTransferComplete(transferId: string, s3Location: string): Promise<TransferRecord | null> {
+  async markTransferComplete(
+    transferId: string,
+    s3Location: string,
+    checksums?: ObjectChecksums,
+    bytesTransferred?: number,
+    receiptLocation?: string,
+    extraction?: ExtractionSummary
+  ): Promise<TransferRecord | null> {
     const now = new Date().toISOString();
 
-    const params: UpdateItemCommandInput = {
-      TableName: this.tableName,
-      Key: marshall({ transferId }),
-      UpdateExpression:
-        'SET #status = :status, endTime = :endTime, lastUpdateTime = :updateTime, percentage = :pct, s3Location = :location',
-      ExpressionAttributeNames: {
-        '#status': 'status',
-      },
-      ExpressionAttributeValues: marshall({
-        ':status': TransferStatus.COMPLETED,
-        ':endTime': now,
-        ':updateTime': now,
-        ':pct': 100,
-        ':location': s3Location,
-      }),
-      ReturnValues: 'ALL_NEW',
+    const set = ['endTime = :endTime', 'lastUpdateTime = :updateTime', 'percentage = :pct', 's3Location = :location'];
+    const values: Record<string, any> = {
+      ':endTime': now,
+      ':updateTime': now,
+      ':pct': 100,
+      ':location': s3Location,
     };
-
-    try {
-      const result = await this.client.send(new UpdateItemCommand(params));
-      if (result.Attributes) {
-        return unmarshall(result.Attributes) as TransferRecord;
-      }
-      return null;
-    } catch (error) {
-      throw new Error(
-        `Failed to mark transfer complete: ${error instanceof Error ? error.message : String(error)}`
-      );
+    if (checksums) {
+      set.push('checksums = :checksums');
+      values[':checksums'] = checksums;
     }
+    if (bytesTransferred !== undefined) {
+      set.push('bytesTransferred = :bytes', 'totalBytes = :bytes');
+      values[':bytes'] = bytesTransferred;
+    }
+    if (receiptLocation) {
+      set.push('receiptLocation = :receiptLocation');
+      values[':receiptLocation'] = receiptLocation;
+    }
+    if (extraction) {
+      set.push('extraction = :extraction');
+      values[':extraction'] = extraction;
+    }
+
+    return this.updateTransfer(transferId, TransferStatus.COMPLETED, 'mark transfer complete', { set, values });
   }
 
   /**
    * Marks transfer as failed in DynamoDB
    * Requirements: 7.6, 8.7, 3.4, 3.5, 8.3, 8.4 - Update DynamoDB with error details
+   * details (see ErrorHandler.classify) are stored as errorCode, errorCategory, errorRetryable
+   * and errorRemediation, attempt is added to the attempt history
    */
-  async markTransferFailed(transferId: string, errorMessage: string): Promise<TransferRecord | null> {
+  async markTransferFailed(
+    transferId: string,
+    errorMessage: string,
+    details?: ErrorDetails,
+    attempt?: TransferAttempt
+  ): Promise<TransferRecord | null> {
     const now = new Date().toISOString();
 
     // Truncate error message if too long (DynamoDB has size limits)
@@ -212,93 +349,384 @@ export class DynamoDBService {
       ? errorMessage.substring(0, 997) + '...' 
       : errorMessage;
 
-    const params: UpdateItemCommandInput = {
-      TableName: this.tableName,
-      Key: marshall({ transferId }),
-      UpdateExpression:
-        'SET #status = :status, endTime = :endTime, lastUpdateTime = :updateTime, #error = :error',
-      ExpressionAttributeNames: {
-        '#status': 'status',
-        '#error': 'error',
-      },
-      ExpressionAttributeValues: marshall({
-        ':status': TransferStatus.FAILED,
-        ':endTime': now,
-        ':updateTime': now,
-        ':error': truncatedError,
-      }),
-      ReturnValues: 'ALL_NEW',
+    const set = ['endTime = :endTime', 'lastUpdateTime = :updateTime', '#error = :error'];
+    const values: Record<string, any> = {
+      ':endTime': now,
+      ':updateTime': now,
+      ':error': truncatedError,
     };
+    if (details) {
+      set.push(
+        'errorCode = :errorCode',
+        'errorCategory = :errorCategory',
+        'errorRetryable = :errorRetryable',
+        'errorRemediation = :errorRemediation'
+      );
+      values[':errorCode'] = details.code;
+      values[':errorCategory'] = details.category;
+      values[':errorRetryable'] = details.retryable;
+      values[':errorRemediation'] = details.remediation;
+    }
+    if (attempt) {
+      appendAttempt(set, values, attempt);
+    }
 
     try {
-      const result = await this.client.send(new UpdateItemCommand(params));
-      if (result.Attributes) {
-        return unmarshall(result.Attributes) as TransferRecord;
-      }
-      return null;
+      return await this.updateTransfer(transferId, TransferStatus.FAILED, 'mark transfer failed', {
+        set,
+        names: { '#error': 'error' },
+        values,
+      });
     } catch (error) {
       // Log the error but don't throw - we want to preserve the original error
       console.error('Failed to mark transfer as failed in DynamoDB:', error);
-      throw new Error(
-        `Failed to mark transfer failed: ${error instanceof Error ? error.message : String(error)}`
-      );
+      throw error;
     }
   }
 
   /**
    * Marks transfer as cancelled in DynamoDB
+   * The worker passes the bytes it had read when it stopped, the cancel request doesn't know them
    */
-  async markTransferCancelled(transferId: string): Promise<TransferRecord | null> {
+  async markTransferCancelled(transferId: string, bytesTransferred?: number): Promise<TransferRecord | null> {
     const now = new Date().toISOString();
 
-    const params: UpdateItemCommandInput = {
-      TableName: this.tableName,
-      Key: marshall({ transferId }),
-      UpdateExpression:
-        'SET #status = :status, endTime = :endTime, lastUpdateTime = :updateTime',
-      ExpressionAttributeNames: {
-        '#status': 'status',
+    const set = ['shutdownReason = :reason', 'endTime = :endTime', 'lastUpdateTime = :updateTime'];
+    const values: Record<string, any> = {
+      ':reason': 'cancelled',
+      ':endTime': now,
+      ':updateTime': now,
+    };
+    if (bytesTransferred !== undefined) {
+      set.push('bytesTransferred = :bytes');
+      values[':bytes'] = bytesTransferred;
+    }
+
+    return this.updateTransfer(transferId, TransferStatus.CANCELLED, 'mark transfer cancelled', { set, values });
+  }
+
+  /**
+   * Records that the worker was stopped before finishing, with the bytes it had read
+   * The status is left as it is: the transfer isn't over, a retry resumes it
+   * With retry, the interruption is added to the attempt history and the retry scheduled (see scheduleRetry)
+   * Throws IllegalTransitionError when the transfer was cancelled in the meantime
+   */
+  async markTransferInterrupted(
+    transferId: string,
+    bytesTransferred: number,
+    retry?: { attempt: TransferAttempt; nextAttemptTime: string }
+  ): Promise<TransferRecord | null> {
+    const set = ['shutdownReason = :reason', 'bytesTransferred = :bytes', 'lastUpdateTime = :updateTime'];
+    const values: Record<string, any> = {
+      ':reason': 'interrupted',
+      ':bytes': bytesTransferred,
+      ':updateTime': new Date().toISOString(),
+    };
+    if (retry) {
+      set.push('nextAttemptTime = :nextAttemptTime');
+      values[':nextAttemptTime'] = retry.nextAttemptTime;
+      appendAttempt(set, values, retry.attempt);
+    }
+
+    return this.updateTransfer(transferId, undefined, 'mark transfer interrupted', { set, values });
+  }
+
+  /**
+   * Records a failed attempt and when the next one starts
+   * The transfer stays active, Step Functions waits until nextAttemptTime and starts a new worker
+   */
+  async scheduleRetry(transferId: string, attempt: TransferAttempt, nextAttemptTime: string): Promise<TransferRecord | null> {
+    const set = ['nextAttemptTime = :nextAttemptTime', 'lastUpdateTime = :updateTime'];
+    const values: Record<string, any> = {
+      ':nextAttemptTime': nextAttemptTime,
+      ':updateTime': new Date().toISOString(),
+    };
+    appendAttempt(set, values, attempt);
+
+    return this.updateTransfer(transferId, undefined, 'schedule retry', { set, values });
+  }
+
+  /**
+   * Records that the worker running the transfer is still alive
+   * Written on its own interval, so a transfer that makes no progress still shows a live worker
+   */
+  async recordHeartbeat(transferId: string): Promise<void> {
+    await this.updateTransfer(transferId, undefined, 'record heartbeat', {
+      set: ['heartbeatTime = :heartbeat'],
+      values: {
+        ':heartbeat': new Date().toISOString(),
       },
-      ExpressionAttributeValues: marshall({
-        ':status': TransferStatus.CANCELLED,
+    });
+  }
+
+  /**
+   * Marks a transfer whose worker stopped sending heartbeats as failed
+   * Only applies when there was still no heartbeat (or, before the first one, no update)
+   * since staleBefore, so a worker that beats in the meantime keeps its transfer.
+   * Throws IllegalTransitionError otherwise.
+   */
+  async markTransferStalled(transferId: string, staleBefore: string, errorMessage: string): Promise<TransferRecord | null> {
+    const now = new Date().toISOString();
+
+    return this.updateTransfer(transferId, TransferStatus.FAILED, 'mark transfer stalled', {
+      set: [
+        'endTime = :endTime',
+        'lastUpdateTime = :updateTime',
+        '#error = :error',
+        'errorCode = :errorCode',
+        'errorCategory = :errorCategory',
+        'errorRetryable = :errorRetryable',
+        'errorRemediation = :errorRemediation',
+      ],
+      names: { '#error': 'error' },
+      values: {
         ':endTime': now,
         ':updateTime': now,
-      }),
-      ReturnValues: 'ALL_NEW',
-    };
+        ':error': errorMessage,
+        ':errorCode': TRANSFER_STALLED,
+        ':errorCategory': 'internal',
+        ':errorRetryable': false, // The reaper aborts the upload and no retry is scheduled
+        ':errorRemediation': 'The worker stopped reporting progress; submit the transfer again, it restarts from the beginning',
+        ':staleBefore': staleBefore,
+      },
+      condition: STALE_CONDITION,
+    });
+  }
 
+  /**
+   * Finds active transfers without a heartbeat since staleBefore (ISO timestamp)
+   * Transfers whose worker never sent one count from their last update instead
+   */
+  async findStalledTransfers(staleBefore: string): Promise<TransferRecord[]> {
+    const values: Record<string, any> = { ':staleBefore': staleBefore };
+    ACTIVE_TRANSFER_STATUSES.forEach((status, index) => {
+      values[`:active${index}`] = status;
+    });
+
+    const records: TransferRecord[] = [];
+    let exclusiveStartKey: ScanCommandInput['ExclusiveStartKey'];
     try {
-      const result = await this.client.send(new UpdateItemCommand(params));
-      if (result.Attributes) {
-        return unmarshall(result.Attributes) as TransferRecord;
-      }
-      return null;
+      do {
+        const result = await this.client.send(new ScanCommand({
+          TableName: this.tableName,
+          FilterExpression: `#status IN (${ACTIVE_TRANSFER_STATUSES.map((_, index) => `:active${index}`).join(', ')}) AND ${STALE_CONDITION}`,
+          ExpressionAttributeNames: { '#status': 'status' },
+          ExpressionAttributeValues: marshall(values),
+          ExclusiveStartKey: exclusiveStartKey,
+        }));
+        for (const item of result.Items || []) {
+          records.push(unmarshall(item) as TransferRecord);
+        }
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey);
     } catch (error) {
       throw new Error(
-        `Failed to mark transfer cancelled: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to find stalled transfers: ${error instanceof Error ? error.message : String(error)}`
       );
     }
+
+    return records;
+  }
+
+  /**
+   * Lists the destination and multipart upload of every transfer in the table
+   */
+  async listTransferUploads(): Promise<TransferUploadRef[]> {
+    const uploads: TransferUploadRef[] = [];
+    let exclusiveStartKey: ScanCommandInput['ExclusiveStartKey'];
+    try {
+      do {
+        const result = await this.client.send(new ScanCommand({
+          TableName: this.tableName,
+          ProjectionExpression: 'transferId, bucketName, s3Key, uploadId, #status',
+          ExpressionAttributeNames: { '#status': 'status' },
+          ExclusiveStartKey: exclusiveStartKey,
+        }));
+        for (const item of result.Items || []) {
+          uploads.push(unmarshall(item) as TransferUploadRef);
+        }
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+    } catch (error) {
+      throw new Error(
+        `Failed to list transfer uploads: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    return uploads;
+  }
+
+  /**
+   * Saves the multipart upload checkpoint for a transfer
+   * Starting a new multipart upload resets the set of completed parts
+   */
+  async saveUploadCheckpoint(
+    transferId: string,
+    checkpoint: Omit<UploadCheckpoint, 'completedPartNumbers' | 'totalBytes'>
+  ): Promise<void> {
+    const set = ['uploadId = :uploadId', 'partSize = :partSize'];
+    const remove = ['completedParts'];
+    const values: Record<string, any> = {
+      ':uploadId': checkpoint.uploadId,
+      ':partSize': checkpoint.partSize,
+    };
+
+    // Validators the source did not send must not survive from an earlier upload
+    if (checkpoint.sourceEtag) {
+      set.push('sourceEtag = :etag');
+      values[':etag'] = checkpoint.sourceEtag;
+    } else {
+      remove.push('sourceEtag');
+    }
+    if (checkpoint.sourceLastModified) {
+      set.push('sourceLastModified = :lastModified');
+      values[':lastModified'] = checkpoint.sourceLastModified;
+    } else {
+      remove.push('sourceLastModified');
+    }
+
+    await this.updateTransfer(transferId, undefined, 'save upload checkpoint', { set, remove, values });
+  }
+
+  /**
+   * Records a part as uploaded in the transfer's checkpoint
+   * Uses a number set so concurrent part completions never overwrite each other
+   */
+  async recordCompletedPart(transferId: string, partNumber: number): Promise<void> {
+    await this.updateTransfer(transferId, undefined, 'record completed part', {
+      add: ['completedParts :part'],
+      values: {
+        ':part': new Set([partNumber]),
+      },
+    });
+  }
+
+  /**
+   * Attaches an expected checksum found next to the source to the transfer
+   * Only sets it when none is present, so a digest supplied with the request always wins
+   */
+  async saveExpectedChecksum(transferId: string, expectedChecksum: ExpectedChecksum): Promise<void> {
+    await this.updateTransfer(transferId, undefined, 'save expected checksum', {
+      set: ['expectedChecksum = if_not_exists(expectedChecksum, :checksum)', 'lastUpdateTime = :updateTime'],
+      values: {
+        ':checksum': expectedChecksum,
+        ':updateTime': new Date().toISOString(),
+      },
+    });
+  }
+
+  /**
+   * Records the bandwidth limit the worker applies to the transfer
+   */
+  async saveActiveRateLimit(transferId: string, maxBytesPerSecond: number): Promise<void> {
+    await this.updateTransfer(transferId, undefined, 'save rate limit', {
+      set: ['activeMaxBytesPerSecond = :rate', 'lastUpdateTime = :updateTime'],
+      values: {
+        ':rate': maxBytesPerSecond,
+        ':updateTime': new Date().toISOString(),
+      },
+    });
   }
 
   /**
    * Updates the execution ARN for a transfer
    */
   async updateExecutionArn(transferId: string, executionArn: string): Promise<void> {
+    await this.updateTransfer(transferId, undefined, 'update execution ARN', {
+      set: ['executionArn = :arn'],
+      values: {
+        ':arn': executionArn,
+      },
+    });
+  }
+
+  /**
+   * Records the ECS task running the transfer, so a cancel stops only that task
+   */
+  async updateFargateTaskArn(transferId: string, taskArn: string): Promise<void> {
+    await this.updateTransfer(transferId, undefined, 'update task ARN', {
+      set: ['fargateTaskArn = :arn'],
+      values: {
+        ':arn': taskArn,
+      },
+    });
+  }
+
+  /**
+   * Applies an update to a transfer record if its current status allows it
+   * With a status, the record moves to it when TRANSFER_TRANSITIONS (see canTransition) allows
+   * the move; without one, the status is kept and the record must still be active.
+   * Every update increments the record's version. The version isn't part of the condition: the
+   * worker's heartbeat, part and progress writes race each other, so only the status guards writes.
+   * Throws IllegalTransitionError when the status doesn't allow the update or the record doesn't exist
+   */
+  private async updateTransfer(
+    transferId: string,
+    to: TransferStatus | undefined,
+    action: string,
+    update: TransferUpdate
+  ): Promise<TransferRecord | null> {
+    const allowedFrom = to === undefined
+      ? ACTIVE_TRANSFER_STATUSES
+      : Object.values(TransferStatus).filter(from => canTransition(from, to));
+
+    const values: Record<string, any> = { ...update.values, ':one': 1 };
+    allowedFrom.forEach((status, index) => {
+      values[`:from${index}`] = status;
+    });
+    const set = [...(update.set || [])];
+    if (to !== undefined) {
+      set.push('#status = :status');
+      values[':status'] = to;
+    }
+
+    const clauses: string[] = [];
+    if (set.length > 0) {
+      clauses.push(`SET ${set.join(', ')}`);
+    }
+    if (update.remove && update.remove.length > 0) {
+      clauses.push(`REMOVE ${update.remove.join(', ')}`);
+    }
+    clauses.push(`ADD ${[...(update.add || []), 'version :one'].join(', ')}`);
+
     const params: UpdateItemCommandInput = {
       TableName: this.tableName,
       Key: marshall({ transferId }),
-      UpdateExpression: 'SET executionArn = :arn',
-      ExpressionAttributeValues: marshall({
-        ':arn': executionArn,
-      }),
+      UpdateExpression: clauses.join(' '),
+      ConditionExpression: [
+        `#status IN (${allowedFrom.map((_, index) => `:from${index}`).join(', ')})`,
+        ...(update.condition ? [update.condition] : []),
+      ].join(' AND '),
+      ExpressionAttributeNames: {
+        '#status': 'status',
+        ...update.names,
+      },
+      ExpressionAttributeValues: marshall(values, { removeUndefinedValues: true }),
+      ReturnValues: 'ALL_NEW',
+      ReturnValuesOnConditionCheckFailure: 'ALL_OLD',
     };
 
     try {
-      await this.client.send(new UpdateItemCommand(params));
+      const result = await this.client.send(new UpdateItemCommand(params));
+      if (result.Attributes) {
+        return unmarshall(result.Attributes) as TransferRecord;
+      }
+      return null;
     } catch (error) {
+      if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+        throw new IllegalTransitionError(transferId, this.currentStatus(error), to);
+      }
       throw new Error(
-        `Failed to update execution ARN: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`
       );
     }
   }
+
+  /**
+   * Status of the record a conditional write was rejected for, undefined when there is none
+   */
+  private currentStatus(error: Error): TransferStatus | undefined {
+    const item = (error as ConditionalCheckFailedException).Item;
+    return item ? (unmarshall(item) as TransferRecord).status : undefined;
+  }
 }
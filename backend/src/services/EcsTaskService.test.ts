@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ECSClient, ListTasksCommand, DescribeTasksCommand, StopTaskCommand } from '@aws-sdk/client-ecs';
+import http from 'http';
+import { EcsTaskService, readCurrentTaskArn } from './EcsTaskService.js';
+import { DynamoDBService, TransferRecord, TransferStatus } from './DynamoDBService.js';
+import { handler } from '../lambda/cancelTransferHandler.js';
+import { IllegalTransitionError } from '../utils/errorHandler.js';
+
+/**
+ * Tests for stopping only the ECS task of a cancelled transfer
+ *
+ * Validates that:
+ * - With two transfers running, a cancel stops the cancelled transfer's task and no other
+ * - The recorded task ARN is used when the worker wrote it
+ * - Without a recorded ARN the task is found by the TRANSFER_ID it was started with
+ * - The worker reads its task ARN from the ECS task metadata endpoint
+ */
+describe('EcsTaskService', () => {
+  const TASK_A = 'arn:aws:ecs:us-east-1:123456789012:task/S3ZipDownloaderCluster/aaaa';
+  const TASK_B = 'arn:aws:ecs:us-east-1:123456789012:task/S3ZipDownloaderCluster/bbbb';
+
+  const runningTasks = [
+    { taskArn: TASK_A, transferId: 'transfer-a' },
+    { taskArn: TASK_B, transferId: 'transfer-b' },
+  ];
+
+  /**
+   * ECS client send() for a cluster running one task per transfer
+   */
+  const createEcsSend = () => vi.fn().mockImplementation(async (command: any) => {
+    if (command instanceof ListTasksCommand) {
+      return { taskArns: runningTasks.map(task => task.taskArn) };
+    }
+    if (command instanceof DescribeTasksCommand) {
+      return {
+        tasks: runningTasks
+          .filter(task => command.input.tasks!.includes(task.taskArn))
+          .map(task => ({
+            taskArn: task.taskArn,
+            overrides: {
+              containerOverrides: [{
+                name: 'WorkerContainer',
+                environment: [
+                  { name: 'TRANSFER_ID', value: task.transferId },
+                  { name: 'BUCKET', value: 'test-bucket' },
+                ],
+              }],
+            },
+          })),
+      };
+    }
+    if (command instanceof StopTaskCommand) {
+      return { task: { taskArn: command.input.task } };
+    }
+    throw new Error(`Unexpected command ${command.constructor.name}`);
+  });
+
+  const stoppedTasks = (send: ReturnType<typeof vi.fn>) =>
+    send.mock.calls
+      .map(([command]) => command)
+      .filter(command => command instanceof StopTaskCommand)
+      .map(command => command.input.task);
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should stop the recorded task without listing the cluster', async () => {
+    const service = new EcsTaskService('S3ZipDownloaderCluster', 'us-east-1');
+    const send = createEcsSend();
+    (service as any).client = { send };
+
+    const stopped = await service.stopTransferTask('transfer-b', TASK_B, 'Transfer cancelled by user');
+
+    expect(stopped).toBe(TASK_B);
+    expect(stoppedTasks(send)).toEqual([TASK_B]);
+    expect(send.mock.calls.some(([command]) => command instanceof ListTasksCommand)).toBe(false);
+  });
+
+  it('should find the task by its TRANSFER_ID when no ARN was recorded', async () => {
+    const service = new EcsTaskService('S3ZipDownloaderCluster', 'us-east-1');
+    const send = createEcsSend();
+    (service as any).client = { send };
+
+    const stopped = await service.stopTransferTask('transfer-a', undefined, 'Transfer cancelled by user');
+
+    expect(stopped).toBe(TASK_A);
+    expect(stoppedTasks(send)).toEqual([TASK_A]);
+  });
+
+  it('should stop nothing when the transfer has no running task', async () => {
+    const service = new EcsTaskService('S3ZipDownloaderCluster', 'us-east-1');
+    const send = createEcsSend();
+    (service as any).client = { send };
+
+    const stopped = await service.stopTransferTask('transfer-c', undefined, 'Transfer cancelled by user');
+
+    expect(stopped).toBeUndefined();
+    expect(stoppedTasks(send)).toEqual([]);
+  });
+
+  describe('cancelTransferHandler', () => {
+    const records: Record<string, TransferRecord> = {};
+
+    beforeEach(() => {
+      const now = new Date().toISOString();
+      for (const [transferId, taskArn] of [['transfer-a', TASK_A], ['transfer-b', undefined]] as const) {
+        records[transferId] = {
+          transferId,
+          sourceUrl: `https://example.com/${transferId}.zip`,
+          bucketName: 'test-bucket',
+          s3Key: `${transferId}.zip`,
+          bytesTransferred: 1024,
+          totalBytes: 4096,
+          percentage: 25,
+          status: TransferStatus.IN_PROGRESS,
+          startTime: now,
+          lastUpdateTime: now,
+          fargateTaskArn: taskArn,
+        };
+      }
+      vi.spyOn(DynamoDBService.prototype, 'getTransferStatus').mockImplementation(async (transferId: string) => records[transferId] || null);
+      vi.spyOn(DynamoDBService.prototype, 'markTransferCancelled').mockImplementation(async (transferId: string) => {
+        records[transferId].status = TransferStatus.CANCELLED;
+      });
+    });
+
+    const cancel = (transferId: string) => handler({ pathParameters: { transferId } } as any);
+
+    it('should stop only the task of the cancelled transfer', async () => {
+      const send = createEcsSend();
+      vi.spyOn(ECSClient.prototype, 'send').mockImplementation(send as any);
+
+      const response = await cancel('transfer-a');
+
+      expect(response.statusCode).toBe(200);
+      expect(stoppedTasks(send)).toEqual([TASK_A]);
+      expect(records['transfer-a'].status).toBe(TransferStatus.CANCELLED);
+      expect(records['transfer-b'].status).toBe(TransferStatus.IN_PROGRESS);
+    });
+
+    it('should stop only the matching task when the worker has not recorded its ARN', async () => {
+      const send = createEcsSend();
+      vi.spyOn(ECSClient.prototype, 'send').mockImplementation(send as any);
+
+      const response = await cancel('transfer-b');
+
+      expect(response.statusCode).toBe(200);
+      expect(stoppedTasks(send)).toEqual([TASK_B]);
+      expect(records['transfer-a'].status).toBe(TransferStatus.IN_PROGRESS);
+    });
+
+    it('should still report the cancel when the task cannot be stopped', async () => {
+      vi.spyOn(ECSClient.prototype, 'send').mockRejectedValue(new Error('AccessDeniedException') as never);
+
+      const response = await cancel('transfer-a');
+
+      expect(response.statusCode).toBe(200);
+      expect(records['transfer-a'].status).toBe(TransferStatus.CANCELLED);
+    });
+
+    it('should not stop the task when the transfer finished before the cancel was written', async () => {
+      const send = createEcsSend();
+      vi.spyOn(ECSClient.prototype, 'send').mockImplementation(send as any);
+      vi.mocked(DynamoDBService.prototype.markTransferCancelled).mockRejectedValueOnce(
+        new IllegalTransitionError('transfer-a', TransferStatus.COMPLETED, TransferStatus.CANCELLED)
+      );
+
+      const response = await cancel('transfer-a');
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error.code).toBe('TRANSFER_NOT_ACTIVE');
+      expect(stoppedTasks(send)).toEqual([]);
+    });
+  });
+
+  describe('readCurrentTaskArn', () => {
+    it('should read the task ARN from the metadata endpoint', async () => {
+      const server = http.createServer((req, res) => {
+        res.writeHead(req.url === '/v4/container-id/task' ? 200 : 404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ Cluster: 'S3ZipDownloaderCluster', TaskARN: TASK_A }));
+      });
+      await new Promise<void>((resolve) => server.listen(0, () => resolve()));
+      const address = server.address() as { port: number };
+
+      try {
+        expect(await readCurrentTaskArn(`http://localhost:${address.port}/v4/container-id`)).toBe(TASK_A);
+      } finally {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+      }
+    });
+
+    it('should return undefined outside ECS', async () => {
+      expect(await readCurrentTaskArn(undefined)).toBeUndefined();
+    });
+  });
+});
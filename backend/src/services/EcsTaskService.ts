@@ -0,0 +1,115 @@
+import {
+  ECSClient,
+  ListTasksCommand,
+  DescribeTasksCommand,
+  StopTaskCommand,
+  Task,
+} from '@aws-sdk/client-ecs';
+import axios from 'axios';
+
+/**
+ * Reads the ARN of the ECS task this process runs in from the task metadata endpoint
+ * Returns undefined outside ECS or when the endpoint doesn't answer
+ */
+export async function readCurrentTaskArn(
+  metadataUri: string | undefined = process.env.ECS_CONTAINER_METADATA_URI_V4
+): Promise<string | undefined> {
+  if (!metadataUri) {
+    return undefined;
+  }
+
+  try {
+    const response = await axios.get(`${metadataUri}/task`, { timeout: 5000 });
+    return typeof response.data?.TaskARN === 'string' ? response.data.TaskARN : undefined;
+  } catch (error: any) {
+    console.warn(`Failed to read ECS task metadata: ${error.message}`);
+    return undefined;
+  }
+}
+
+/**
+ * Service for finding and stopping the worker task of a transfer
+ */
+export class EcsTaskService {
+  private client: ECSClient;
+  private clusterName: string;
+
+  private readonly DESCRIBE_BATCH_SIZE = 100; // DescribeTasks accepts at most 100 tasks per call
+
+  constructor(clusterName: string, region?: string) {
+    this.client = new ECSClient({ region: region || process.env.AWS_REGION || 'us-east-1' });
+    this.clusterName = clusterName;
+  }
+
+  /**
+   * Stops the worker task of a transfer and no other task in the cluster
+   * Uses the task ARN the worker recorded, or looks the task up by the TRANSFER_ID
+   * it was started with when the worker hasn't recorded it yet
+   * Returns the ARN of the stopped task, or undefined when the transfer has no running task
+   */
+  async stopTransferTask(transferId: string, taskArn: string | undefined, reason: string): Promise<string | undefined> {
+    const target = taskArn || await this.findTransferTask(transferId);
+    if (!target) {
+      console.log(`No running ECS task found for transfer ${transferId}`);
+      return undefined;
+    }
+
+    console.log(`Stopping ECS task ${target} for transfer ${transferId}`);
+    await this.client.send(
+      new StopTaskCommand({
+        cluster: this.clusterName,
+        task: target,
+        reason,
+      })
+    );
+    return target;
+  }
+
+  /**
+   * Finds the running task that was started with the given TRANSFER_ID override
+   */
+  async findTransferTask(transferId: string): Promise<string | undefined> {
+    let nextToken: string | undefined;
+
+    do {
+      const listResult = await this.client.send(
+        new ListTasksCommand({
+          cluster: this.clusterName,
+          desiredStatus: 'RUNNING',
+          nextToken,
+        })
+      );
+      const taskArns = listResult.taskArns || [];
+
+      for (let i = 0; i < taskArns.length; i += this.DESCRIBE_BATCH_SIZE) {
+        const describeResult = await this.client.send(
+          new DescribeTasksCommand({
+            cluster: this.clusterName,
+            tasks: taskArns.slice(i, i + this.DESCRIBE_BATCH_SIZE),
+          })
+        );
+        const task = (describeResult.tasks || []).find(candidate => this.getTransferId(candidate) === transferId);
+        if (task?.taskArn) {
+          return task.taskArn;
+        }
+      }
+
+      nextToken = listResult.nextToken;
+    } while (nextToken);
+
+    return undefined;
+  }
+
+  /**
+   * TRANSFER_ID passed to the task's container by Step Functions
+   */
+  private getTransferId(task: Task): string | undefined {
+    for (const override of task.overrides?.containerOverrides || []) {
+      const variable = override.environment?.find(entry => entry.name === 'TRANSFER_ID');
+      if (variable?.value) {
+        return variable.value;
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { EntryFilter, selectsEntries } from './EntryFilter.js';
+
+/**
+ * Tests for selecting archive entries by glob patterns
+ *
+ * Validates that:
+ * - *, **, ? and character sets match as in common glob syntax
+ * - Entries must match an include pattern (when given) and no exclude pattern
+ * - Patterns match the whole path, and other characters match themselves
+ */
+describe('EntryFilter', () => {
+  const select = (include: string[], exclude: string[], names: string[]) => {
+    const filter = new EntryFilter(include, exclude);
+    return names.filter(name => filter.matches(name));
+  };
+
+  const names = [
+    'README.md',
+    'docs/guide.md',
+    'docs/api/index.md',
+    'docs/api/index.html',
+    'src/main.ts',
+    'src/main.test.ts',
+    'data/2024-01.csv',
+    'data/2024-10.csv',
+  ];
+
+  it('should select every entry without patterns', () => {
+    expect(select([], [], names)).toEqual(names);
+  });
+
+  it('should match * within a single directory', () => {
+    expect(select(['*.md'], [], names)).toEqual(['README.md']);
+    expect(select(['docs/*'], [], names)).toEqual(['docs/guide.md']);
+  });
+
+  it('should match ** across directories', () => {
+    expect(select(['docs/**'], [], names)).toEqual(['docs/guide.md', 'docs/api/index.md', 'docs/api/index.html']);
+    expect(select(['**/*.md'], [], names)).toEqual(['README.md', 'docs/guide.md', 'docs/api/index.md']);
+    expect(select(['docs/**/*.md'], [], names)).toEqual(['docs/guide.md', 'docs/api/index.md']);
+  });
+
+  it('should match ? and character sets against one character', () => {
+    expect(select(['data/2024-0?.csv'], [], names)).toEqual(['data/2024-01.csv']);
+    expect(select(['data/2024-[01]0.csv'], [], names)).toEqual(['data/2024-10.csv']);
+    expect(select(['data/2024-[!1]?.csv'], [], names)).toEqual(['data/2024-01.csv']);
+  });
+
+  it('should leave out entries that match an exclude pattern', () => {
+    expect(select(['src/**'], ['**/*.test.ts'], names)).toEqual(['src/main.ts']);
+    expect(select([], ['docs/**', 'data/**'], names)).toEqual(['README.md', 'src/main.ts', 'src/main.test.ts']);
+  });
+
+  it('should match other characters literally', () => {
+    const filter = new EntryFilter(['notes (v1.2)+[draft.txt']);
+    expect(filter.matches('notes (v1.2)+[draft.txt')).toBe(true);
+    expect(filter.matches('notes (v1x2)+[draft.txt')).toBe(false);
+    expect(new EntryFilter(['README']).matches('README.md')).toBe(false);
+  });
+
+  it('should tell when extraction options select entries', () => {
+    expect(selectsEntries(undefined)).toBe(false);
+    expect(selectsEntries({ keepArchive: true })).toBe(false);
+    expect(selectsEntries({ include: [], exclude: [] })).toBe(false);
+    expect(selectsEntries({ exclude: ['*.iso'] })).toBe(true);
+  });
+});
@@ -0,0 +1,67 @@
+import { ExtractOptions } from '../types/api.js';
+
+/**
+ * Whether extraction is limited to some entries, which reads them with range requests
+ */
+export function selectsEntries(extract: ExtractOptions | undefined): boolean {
+  return (extract?.include?.length ?? 0) > 0 || (extract?.exclude?.length ?? 0) > 0;
+}
+
+/**
+ * Selects archive entries by glob patterns over their paths
+ *
+ * An entry is selected when it matches one of the include patterns (or there are none)
+ * and none of the exclude patterns. Patterns match the whole path as the archive names it:
+ * - * matches any characters except /, ? a single one
+ * - ** matches any characters including /, and **\/ any number of leading directories
+ * - [abc], [a-z] and [!abc] match one character of (or not of) a set
+ * Everything else matches itself; an unterminated [ is a literal [.
+ */
+export class EntryFilter {
+  private readonly include: RegExp[];
+  private readonly exclude: RegExp[];
+
+  constructor(include: string[] = [], exclude: string[] = []) {
+    this.include = include.map(globToRegExp);
+    this.exclude = exclude.map(globToRegExp);
+  }
+
+  matches(name: string): boolean {
+    if (this.include.length > 0 && !this.include.some(pattern => pattern.test(name))) {
+      return false;
+    }
+    return !this.exclude.some(pattern => pattern.test(name));
+  }
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // **/ also matches no directory at all, so docs/**/*.md matches docs/a.md
+        const slash = glob[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i + 2);
+      if (close < 0) {
+        source += '\\[';
+        continue;
+      }
+      const negated = glob[i + 1] === '!';
+      const members = glob.slice(negated ? i + 2 : i + 1, close).replace(/[\\\]^]/g, '\\$&');
+      source += negated ? `[^/${members}]` : `[${members}]`;
+      i = close;
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import { DynamoDBService } from './DynamoDBService.js';
+import {
+  ChecksumMismatchError,
+  ErrorHandler,
+  S3Error,
+  StreamingError,
+  TransferInterruptedError,
+  UrlFetchError,
+} from '../utils/errorHandler.js';
+
+/**
+ * Tests for the transfer error taxonomy
+ *
+ * Validates that:
+ * - Source, S3 and streaming errors carry a stable code, category, retryable flag and remediation
+ * - ErrorHandler.isRetryable follows the flag instead of matching the message
+ * - classify covers the errors the worker raises itself and unknown errors
+ * - markTransferFailed stores the details on the transfer record
+ */
+describe('Error taxonomy', () => {
+  const httpError = (status: number) => Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status },
+  });
+  const awsError = (name: string, httpStatusCode?: number) => Object.assign(new Error(name), {
+    name,
+    $metadata: { httpStatusCode },
+  });
+
+  describe('handleUrlFetchError', () => {
+    it('should classify HTTP statuses of the source', () => {
+      expect(ErrorHandler.handleUrlFetchError(httpError(404)).details).toMatchObject({
+        code: 'SOURCE_NOT_FOUND',
+        category: 'source',
+        retryable: false,
+      });
+      expect(ErrorHandler.handleUrlFetchError(httpError(403))).toMatchObject({ code: 'SOURCE_FORBIDDEN', retryable: false });
+      expect(ErrorHandler.handleUrlFetchError(httpError(429))).toMatchObject({ code: 'SOURCE_RATE_LIMITED', retryable: true });
+      expect(ErrorHandler.handleUrlFetchError(httpError(502))).toMatchObject({ code: 'SOURCE_SERVER_ERROR', retryable: true });
+      expect(ErrorHandler.handleUrlFetchError(httpError(410))).toMatchObject({ code: 'SOURCE_CLIENT_ERROR', retryable: false });
+    });
+
+    it('should classify connection failures as network errors', () => {
+      const timeout = ErrorHandler.handleUrlFetchError(Object.assign(new Error('timeout'), { code: 'ETIMEDOUT' }));
+      expect(timeout).toMatchObject({ code: 'SOURCE_TIMEOUT', category: 'network', retryable: true });
+
+      const dns = ErrorHandler.handleUrlFetchError(Object.assign(new Error('getaddrinfo'), { code: 'ENOTFOUND' }));
+      expect(dns).toMatchObject({ code: 'SOURCE_DNS_FAILED', category: 'source', retryable: false });
+    });
+
+    it('should keep an error that is already classified', () => {
+      const error = new UrlFetchError('Source URL is not accessible', undefined, { code: 'SOURCE_NOT_ACCESSIBLE' });
+
+      expect(ErrorHandler.handleUrlFetchError(error)).toBe(error);
+    });
+
+    it('should give every classified error a remediation', () => {
+      expect(ErrorHandler.handleUrlFetchError(httpError(404)).remediation).toMatch(/source URL/);
+      expect(ErrorHandler.handleUrlFetchError(new Error('something odd')).remediation).not.toBe('');
+    });
+  });
+
+  describe('handleS3Error', () => {
+    it('should classify destination failures', () => {
+      expect(ErrorHandler.handleS3Error(awsError('NoSuchBucket', 404), 'bucket')).toMatchObject({
+        code: 'DESTINATION_BUCKET_NOT_FOUND',
+        category: 'destination',
+        retryable: false,
+      });
+      expect(ErrorHandler.handleS3Error(awsError('AccessDenied', 403))).toMatchObject({
+        code: 'DESTINATION_ACCESS_DENIED',
+        retryable: false,
+      });
+      expect(ErrorHandler.handleS3Error(awsError('InternalError', 500))).toMatchObject({
+        code: 'DESTINATION_INTERNAL_ERROR',
+        retryable: true,
+      });
+    });
+
+    it('should not mistake a missing upload for a missing bucket', () => {
+      expect(ErrorHandler.handleS3Error(awsError('NoSuchUpload', 404))).toMatchObject({
+        code: 'UPLOAD_NOT_FOUND',
+        message: 'Multipart upload does not exist or was aborted',
+      });
+    });
+
+    it('should classify SlowDown as throttling rather than an outage', () => {
+      expect(ErrorHandler.handleS3Error(awsError('SlowDown', 503))).toMatchObject({
+        code: 'DESTINATION_THROTTLED',
+        retryable: true,
+      });
+    });
+  });
+
+  describe('handleStreamingError', () => {
+    it('should classify interruptions as retryable network errors', () => {
+      const error = ErrorHandler.handleStreamingError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }), 50, 100);
+
+      expect(error).toMatchObject({ code: 'SOURCE_CONNECTION_RESET', category: 'network', retryable: true });
+      expect(error.message).toBe('Network interruption: 50 of 100 bytes transferred (50%)');
+    });
+
+    it('should classify integrity failures as not retryable', () => {
+      expect(ErrorHandler.handleStreamingError(new Error('checksum did not match'), 0, 100)).toMatchObject({
+        code: 'INTEGRITY_CHECK_FAILED',
+        category: 'integrity',
+        retryable: false,
+      });
+    });
+  });
+
+  describe('isRetryable', () => {
+    it('should follow the flag of a classified error', () => {
+      // The message names a retryable network error, the flag wins
+      const error = new StreamingError('ECONNRESET while reading', undefined, { retryable: false });
+
+      expect(ErrorHandler.isRetryable(error)).toBe(false);
+    });
+
+    it('should default the flag from the cause', () => {
+      const cause = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+
+      expect(new S3Error('Upload failed', cause).retryable).toBe(true);
+      expect(new S3Error('Upload failed', new Error('bad request')).retryable).toBe(false);
+    });
+
+    it('should still match unclassified errors by name and code', () => {
+      expect(ErrorHandler.isRetryable(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe(true);
+      expect(ErrorHandler.isRetryable(new Error('bad request'))).toBe(false);
+    });
+  });
+
+  describe('classify', () => {
+    it('should classify the errors the worker raises itself', () => {
+      expect(ErrorHandler.classify(new ChecksumMismatchError('sha256 mismatch', 'sha256', 'aa', 'bb'))).toMatchObject({
+        code: 'CHECKSUM_MISMATCH',
+        category: 'integrity',
+        retryable: false,
+      });
+      expect(ErrorHandler.classify(new TransferInterruptedError('Transfer interrupted'))).toMatchObject({
+        category: 'internal',
+        retryable: true,
+      });
+    });
+
+    it('should classify anything else as an internal error', () => {
+      expect(ErrorHandler.classify('boom')).toMatchObject({ code: 'UNKNOWN_ERROR', category: 'internal', retryable: false });
+    });
+
+    it('should put the code and flag in API error responses', () => {
+      expect(ErrorHandler.formatErrorResponse(ErrorHandler.handleUrlFetchError(httpError(404)))).toEqual({
+        code: 'SOURCE_NOT_FOUND',
+        message: 'Source file not found: HTTP 404',
+        retryable: false,
+      });
+    });
+  });
+
+  describe('markTransferFailed', () => {
+    let service: DynamoDBService;
+    let send: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      service = new DynamoDBService('TransferTable', 'us-east-1');
+      send = vi.fn().mockResolvedValue({});
+      (service as any).client = { send };
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should store the error details on the record', async () => {
+      const error = ErrorHandler.handleS3Error(awsError('AccessDenied', 403), 'bucket');
+
+      await service.markTransferFailed('transfer-1', error.message, ErrorHandler.classify(error));
+
+      const input = send.mock.calls[0][0].input;
+      const values = unmarshall(input.ExpressionAttributeValues);
+      expect(input.UpdateExpression).toContain('errorCategory = :errorCategory');
+      expect(values).toMatchObject({
+        ':error': "Insufficient permissions to write to bucket 'bucket'",
+        ':errorCode': 'DESTINATION_ACCESS_DENIED',
+        ':errorCategory': 'destination',
+        ':errorRetryable': false,
+      });
+      expect(values[':errorRemediation']).toMatch(/bucket policy/);
+    });
+
+    it('should only store the message without details', async () => {
+      await service.markTransferFailed('transfer-1', 'boom');
+
+      expect(send.mock.calls[0][0].input.UpdateExpression).not.toContain('errorCode');
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StreamingService } from './StreamingService.js';
+import { ChecksumMismatchError } from '../utils/errorHandler.js';
+import http from 'http';
+import { createHash } from 'crypto';
+
+/**
+ * Tests for verifying a transfer against a user-supplied checksum
+ *
+ * Validates that:
+ * - A matching SHA-256 or MD5 digest completes the upload
+ * - A differing digest fails with CHECKSUM_MISMATCH before anything is written to the bucket
+ */
+describe('StreamingService - Expected Checksum', () => {
+  const FILE_SIZE = 6 * 1024 * 1024;
+  const CONTENT = Buffer.alloc(FILE_SIZE, 'z');
+  const SHA256 = createHash('sha256').update(CONTENT).digest('hex');
+  const MD5 = createHash('md5').update(CONTENT).digest('hex');
+
+  let streamingService: StreamingService;
+  let mockServer: http.Server;
+
+  beforeEach(async () => {
+    streamingService = new StreamingService();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    mockServer = http.createServer((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/zip', 'Content-Length': FILE_SIZE.toString() });
+      res.end(_req.method === 'HEAD' ? undefined : CONTENT);
+    });
+    await new Promise<void>((resolve) => mockServer.listen(0, () => resolve()));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise<void>((resolve) => mockServer.close(() => resolve()));
+  });
+
+  const sourceUrl = () => {
+    const address = mockServer.address() as { port: number };
+    return `http://localhost:${address.port}/release.zip`;
+  };
+
+  const createMockS3Service = () => ({
+    validateBucketAccess: vi.fn().mockResolvedValue(true),
+    createMultipartUpload: vi.fn().mockResolvedValue('test-upload-id'),
+    uploadPart: vi.fn().mockResolvedValue('test-etag'),
+    putObject: vi.fn().mockResolvedValue('s3://test-bucket/release.zip'),
+    completeUpload: vi.fn().mockResolvedValue('s3://test-bucket/release.zip'),
+    headObject: vi.fn().mockImplementation(async () => ({ ContentLength: FILE_SIZE })),
+    abortUpload: vi.fn().mockResolvedValue(undefined),
+  });
+
+  it('should complete the upload when the SHA-256 digest matches', async () => {
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      expectedChecksum: { algorithm: 'sha256', value: SHA256.toUpperCase() },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.checksums?.sha256).toBe(SHA256);
+    expect(result.checksums?.md5).toBeUndefined();
+    expect(mockS3Service.putObject).toHaveBeenCalledTimes(1);
+  });
+
+  it('should compute MD5 only when an MD5 digest is expected', async () => {
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      expectedChecksum: { algorithm: 'md5', value: MD5 },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.checksums?.md5).toBe(MD5);
+  });
+
+  it('should not write the object when the digest differs', async () => {
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      expectedChecksum: { algorithm: 'sha256', value: '0'.repeat(64) },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(ChecksumMismatchError);
+    expect((result.error as ChecksumMismatchError).code).toBe('CHECKSUM_MISMATCH');
+    expect((result.error as ChecksumMismatchError).actual).toBe(SHA256);
+    expect(mockS3Service.putObject).not.toHaveBeenCalled();
+    expect(mockS3Service.createMultipartUpload).not.toHaveBeenCalled();
+  });
+});
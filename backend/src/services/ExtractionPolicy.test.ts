@@ -0,0 +1,228 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ExtractionPolicy, DEFAULT_EXTRACTION_LIMITS } from './ExtractionPolicy.js';
+import { ZipEntry, ZipStreamParser } from './ZipStreamParser.js';
+import { ArchiveExtractor, S3ObjectWriter } from './ArchiveExtractor.js';
+import { ArchiveError } from '../utils/errorHandler.js';
+import { buildZip } from '../test/zipBuilder.js';
+
+/**
+ * Tests for the archive extraction safety policy
+ *
+ * Validates that:
+ * - Entry names with .. segments or absolute paths are rejected
+ * - Other names are normalised into keys that pass validateS3Key
+ * - Entry count, depth, total uncompressed bytes and compression ratio are capped
+ * - Sizes understated by the local header are caught as the bytes inflate
+ * - Violations fail with a specific code and name the entry
+ */
+describe('ExtractionPolicy', () => {
+  const MB = 1024 * 1024;
+
+  const entry = (name: string, overrides: Partial<ZipEntry> = {}): ZipEntry => ({
+    name,
+    method: 8,
+    flags: 0,
+    crc32: 0,
+    compressedSize: 100,
+    uncompressedSize: 200,
+    lastModified: new Date(0),
+    zip64: false,
+    encrypted: false,
+    isDirectory: name.endsWith('/'),
+    headerOffset: 30 + name.length,
+    ...overrides,
+  });
+
+  const violation = (fn: () => unknown): ArchiveError => {
+    try {
+      fn();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ArchiveError);
+      return error as ArchiveError;
+    }
+    throw new Error('Expected a policy violation');
+  };
+
+  describe('entry names', () => {
+    it('should keep names that are already valid keys', () => {
+      const policy = new ExtractionPolicy();
+      expect(policy.admitEntry('data/', entry('docs/README.txt'))).toBe('data/docs/README.txt');
+      expect(policy.admitEntry('data/', entry('docs/'))).toBe('data/docs/');
+    });
+
+    it('should reject .. segments wherever they are', () => {
+      for (const name of ['../evil.sh', 'docs/../../evil.sh', 'docs\\..\\evil.sh', 'docs/..']) {
+        const error = violation(() => new ExtractionPolicy().admitEntry('data/', entry(name)));
+        expect(error).toMatchObject({ code: 'ARCHIVE_PATH_TRAVERSAL', category: 'source', retryable: false, entry: name });
+        expect(error.message).toContain(name);
+      }
+    });
+
+    it('should reject .. spelled with lookalike dots', () => {
+      const error = violation(() => new ExtractionPolicy().admitEntry('data/', entry('docs/\uff0e\uff0e/evil.sh')));
+      expect(error.code).toBe('ARCHIVE_PATH_TRAVERSAL');
+    });
+
+    it('should reject absolute paths', () => {
+      for (const name of ['/etc/passwd', '\\Windows\\system.ini', 'C:\\Windows\\system.ini', 'c:/temp/a.txt']) {
+        const error = violation(() => new ExtractionPolicy().admitEntry('data/', entry(name)));
+        expect(error).toMatchObject({ code: 'ARCHIVE_ABSOLUTE_PATH', entry: name });
+      }
+    });
+
+    it('should normalise names into valid keys', () => {
+      const policy = new ExtractionPolicy();
+      expect(policy.admitEntry('data/', entry('Reports/Q1 Résumé.pdf'))).toBe('data/Reports/Q1_Resume.pdf');
+      expect(policy.admitEntry('data/', entry('windows\\style\\path.txt'))).toBe('data/windows/style/path.txt');
+      expect(policy.admitEntry('data/', entry('./a//b/./c.txt'))).toBe('data/a/b/c.txt');
+      expect(policy.admitEntry('data/', entry('notes#1 & 2?.md'))).toBe('data/notes_1___2_.md');
+      expect(policy.admitEntry('data/', entry('数据.csv'))).toBe('data/__.csv');
+    });
+
+    it('should reject empty names and control characters', () => {
+      expect(violation(() => new ExtractionPolicy().admitEntry('data/', entry('./'))).code).toBe('INVALID_ENTRY_NAME');
+      expect(violation(() => new ExtractionPolicy().admitEntry('data/', entry('a\nb.txt'))).code).toBe('INVALID_ENTRY_NAME');
+    });
+
+    it('should reject names too long for a key', () => {
+      const error = violation(() => new ExtractionPolicy().admitEntry('data/', entry('a'.repeat(1100))));
+      expect(error.code).toBe('INVALID_ENTRY_NAME');
+      expect(error.message).toContain('1024');
+    });
+
+    it('should reject an entry whose key another entry was written to', () => {
+      const policy = new ExtractionPolicy();
+      policy.admitEntry('data/', entry('Résumé.pdf'));
+      const error = violation(() => policy.admitEntry('data/', entry('Resume.pdf')));
+      expect(error).toMatchObject({ code: 'ARCHIVE_DUPLICATE_ENTRY', entry: 'Resume.pdf' });
+    });
+
+    it('should cap the depth of entry names', () => {
+      const policy = new ExtractionPolicy({ ...DEFAULT_EXTRACTION_LIMITS, maxDepth: 3 });
+      expect(policy.admitEntry('data/', entry('a/b/c.txt'))).toBe('data/a/b/c.txt');
+      const error = violation(() => policy.admitEntry('data/', entry('a/b/c/d.txt')));
+      expect(error).toMatchObject({ code: 'ARCHIVE_TOO_DEEP', entry: 'a/b/c/d.txt' });
+    });
+  });
+
+  describe('limits', () => {
+    it('should cap the number of entries, directories included', () => {
+      const policy = new ExtractionPolicy({ ...DEFAULT_EXTRACTION_LIMITS, maxEntries: 2 });
+      policy.admitEntry('data/', entry('docs/'));
+      policy.admitEntry('data/', entry('docs/a.txt'));
+      const error = violation(() => policy.admitEntry('data/', entry('docs/b.txt')));
+      expect(error).toMatchObject({ code: 'ARCHIVE_TOO_MANY_ENTRIES', entry: 'docs/b.txt' });
+    });
+
+    it('should cap the total uncompressed size declared by local headers', () => {
+      const policy = new ExtractionPolicy({ ...DEFAULT_EXTRACTION_LIMITS, maxTotalBytes: 1000 });
+      const first = entry('a.bin', { uncompressedSize: 600, compressedSize: 600 });
+      policy.admitEntry('data/', first);
+      policy.recordBytes(first, 600, 600);
+
+      const error = violation(() => policy.admitEntry('data/', entry('b.bin', { uncompressedSize: 600, compressedSize: 600 })));
+      expect(error).toMatchObject({ code: 'ARCHIVE_TOO_LARGE', entry: 'b.bin' });
+    });
+
+    it('should count inflated bytes for entries whose sizes are deferred or understated', () => {
+      const policy = new ExtractionPolicy({ ...DEFAULT_EXTRACTION_LIMITS, maxTotalBytes: 1000 });
+      const deferred = entry('a.bin', { uncompressedSize: undefined, compressedSize: undefined });
+      policy.admitEntry('data/', deferred);
+      policy.recordBytes(deferred, 900, 900);
+
+      const error = violation(() => policy.recordBytes(deferred, 200, 1100));
+      expect(error).toMatchObject({ code: 'ARCHIVE_TOO_LARGE', entry: 'a.bin' });
+    });
+
+    it('should cap the compression ratio of entries over 1MB', () => {
+      const policy = new ExtractionPolicy({ ...DEFAULT_EXTRACTION_LIMITS, maxCompressionRatio: 10 });
+      // Small entries may compress as well as they like
+      policy.admitEntry('data/', entry('zeros.txt', { uncompressedSize: 64 * 1024, compressedSize: 100 }));
+
+      const declared = entry('bomb.bin', { uncompressedSize: 20 * MB, compressedSize: MB });
+      expect(violation(() => policy.admitEntry('data/', declared))).toMatchObject({
+        code: 'ARCHIVE_COMPRESSION_RATIO_EXCEEDED',
+        entry: 'bomb.bin',
+      });
+
+      const deferred = entry('later.bin', { uncompressedSize: undefined, compressedSize: undefined });
+      policy.admitEntry('data/', deferred);
+      policy.recordBytes(deferred, 2 * MB, MB);
+      expect(violation(() => policy.recordBytes(deferred, 9 * MB, MB))).toMatchObject({
+        code: 'ARCHIVE_COMPRESSION_RATIO_EXCEEDED',
+        entry: 'later.bin',
+      });
+    });
+  });
+
+  describe('extraction', () => {
+    const extract = async (archive: Buffer, policy: ExtractionPolicy, written = new Map<string, number>()) => {
+      const extractor = new ArchiveExtractor('data/', policy, (key) => {
+        let size = 0;
+        return {
+          write: async (data: Buffer) => {
+            size += data.length;
+            written.set(key, size);
+          },
+          end: async () => {
+            written.set(key, size);
+          },
+        } as unknown as S3ObjectWriter;
+      });
+      const parser = new ZipStreamParser(extractor.handleEntry);
+      await parser.write(archive);
+      await parser.end();
+      return written;
+    };
+
+    it('should stop a zip bomb while it inflates', async () => {
+      // 64MB of zeros deflates about 1000:1; the data descriptor hides the size until the end
+      const archive = buildZip([{ name: 'zeros.bin', data: Buffer.alloc(64 * MB), dataDescriptor: true }]);
+
+      const error = await extract(archive, new ExtractionPolicy()).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ArchiveError);
+      expect(error).toMatchObject({ code: 'ARCHIVE_COMPRESSION_RATIO_EXCEEDED', entry: 'zeros.bin' });
+    });
+
+    it('should stop a zip bomb that arrives in one chunk within the first slice it inflates', async () => {
+      // The local header understates the size, so the bomb is only caught as it inflates
+      const archive = buildZip([{ name: 'zeros.bin', data: Buffer.alloc(64 * MB) }]);
+      archive.writeUInt32LE(1000, 22);
+      const policy = new ExtractionPolicy();
+      const recordBytes = vi.spyOn(policy, 'recordBytes');
+
+      const written = new Map<string, number>();
+      const error = await extract(archive, policy, written).catch((e) => e);
+
+      expect(error).toMatchObject({ code: 'ARCHIVE_COMPRESSION_RATIO_EXCEEDED', entry: 'zeros.bin' });
+      // Stopped inside the first 16KB slice, at about the ratio times what it read
+      expect(Math.max(...recordBytes.mock.calls.map(([, , compressedBytesRead]) => compressedBytesRead))).toBe(16 * 1024);
+      expect(written.get('data/zeros.bin') ?? 0).toBeLessThan(2 * MB);
+    });
+
+    it('should stop at a traversal entry before anything of it is written', async () => {
+      const archive = buildZip([
+        { name: 'safe.txt', data: Buffer.from('fine') },
+        { name: '../../etc/cron.d/evil', data: Buffer.from('* * * * * root sh') },
+      ]);
+
+      const written = new Map<string, number>();
+      const error = await extract(archive, new ExtractionPolicy(), written).catch((e) => e);
+
+      expect(error).toMatchObject({ code: 'ARCHIVE_PATH_TRAVERSAL', entry: '../../etc/cron.d/evil' });
+      expect([...written.keys()]).toEqual(['data/safe.txt']);
+    });
+
+    it('should write entries under their normalised keys', async () => {
+      const archive = buildZip([
+        { name: 'My Docs/', method: 'stored' },
+        { name: 'My Docs/café.txt', data: Buffer.from('menu'), utf8: true },
+      ]);
+
+      const written = await extract(archive, new ExtractionPolicy());
+
+      expect([...written]).toEqual([['data/My_Docs/cafe.txt', 4]]);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { ExtractionLimits } from '../types/api.js';
+import { ValidationService } from './ValidationService.js';
+import { ZipEntry } from './ZipStreamParser.js';
+import { ArchiveError } from '../utils/errorHandler.js';
+
+/**
+ * Limits applied when the worker isn't configured otherwise (EXTRACT_MAX_* settings)
+ */
+export const DEFAULT_EXTRACTION_LIMITS: ExtractionLimits = {
+  // 1TB: room for archives of real data, while a bomb under the ratio limit can't write more than this.
+  // It caps the whole archive; S3 separately caps each entry's object at 5TB.
+  maxTotalBytes: 1024 * 1024 * 1024 * 1024,
+  maxEntries: 100000,
+  maxCompressionRatio: 100, // Deflate peaks around 1000:1, which only crafted or degenerate data reaches
+  maxDepth: 32,
+};
+
+// Entries are only held to the ratio past this size, so small runs of zeros don't trip it
+const RATIO_MIN_BYTES = 1024 * 1024;
+
+/**
+ * Guards archive extraction against zip bombs and hostile entry names
+ *
+ * Rejects entry names with .. segments or absolute paths, normalises the rest into keys
+ * that pass ValidationService.validateS3Key, and caps the number of entries, their
+ * directory depth, the total uncompressed bytes and the compression ratio of each entry.
+ * Violations throw an ArchiveError naming the entry. One policy covers one archive.
+ */
+export class ExtractionPolicy {
+  private entryCount = 0;
+  private totalBytes = 0;
+  private entryBytes = 0; // Uncompressed bytes of the current entry
+  private readonly keys = new Set<string>();
+
+  constructor(readonly limits: ExtractionLimits = DEFAULT_EXTRACTION_LIMITS) {}
+
+  /**
+   * Admits the next entry and returns the key it is written to under prefix
+   * Directory entries are checked too; their key ends in /.
+   */
+  admitEntry(prefix: string, entry: ZipEntry): string {
+    this.entryCount++;
+    this.entryBytes = 0;
+    if (this.entryCount > this.limits.maxEntries) {
+      throw this.violation(entry, 'ARCHIVE_TOO_MANY_ENTRIES', `Archive has more than ${this.limits.maxEntries} entries`);
+    }
+
+    // Sizes from the local header are checked up front; the bytes are counted again as they inflate
+    if (entry.uncompressedSize !== undefined) {
+      if (this.totalBytes + entry.uncompressedSize > this.limits.maxTotalBytes) {
+        throw this.tooLarge(entry);
+      }
+      if (entry.compressedSize !== undefined && this.exceedsRatio(entry.uncompressedSize, entry.compressedSize)) {
+        throw this.ratioExceeded(entry);
+      }
+    }
+
+    const key = prefix + this.normaliseName(entry);
+    const keyValidation = ValidationService.validateS3Key(key);
+    if (!keyValidation.isValid) {
+      throw this.violation(entry, 'INVALID_ENTRY_NAME', `Entry ${entry.name} can't be written as an S3 key: ${keyValidation.error}`);
+    }
+    if (!entry.isDirectory) {
+      if (this.keys.has(key)) {
+        throw this.violation(entry, 'ARCHIVE_DUPLICATE_ENTRY', `Entry ${entry.name} would overwrite another entry at ${key}`);
+      }
+      this.keys.add(key);
+    }
+    return key;
+  }
+
+  /**
+   * Counts bytes inflated for the current entry before they are written
+   * compressedBytesRead is how much of the entry's compressed data produced them.
+   */
+  recordBytes(entry: ZipEntry, length: number, compressedBytesRead: number): void {
+    this.entryBytes += length;
+    this.totalBytes += length;
+    if (this.totalBytes > this.limits.maxTotalBytes) {
+      throw this.tooLarge(entry);
+    }
+    if (this.exceedsRatio(this.entryBytes, compressedBytesRead)) {
+      throw this.ratioExceeded(entry);
+    }
+  }
+
+  /**
+   * Turns an entry name into a relative key: / separators, no empty or . segments, and
+   * only the characters S3 keys are validated for, with other characters replaced by _
+   */
+  private normaliseName(entry: ZipEntry): string {
+    // Decompose first, so accented letters keep their base letter and lookalike dots become dots
+    const name = entry.name.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/\\/g, '/');
+
+    if (name.startsWith('/') || /^[a-zA-Z]:/.test(name)) {
+      throw this.violation(entry, 'ARCHIVE_ABSOLUTE_PATH', `Entry ${entry.name} has an absolute path`);
+    }
+    if (/[\u0000-\u001f\u007f]/.test(name)) {
+      throw this.violation(entry, 'INVALID_ENTRY_NAME', `Entry ${entry.name} has control characters in its name`);
+    }
+
+    const segments = name.split('/').filter(segment => segment !== '' && segment !== '.');
+    if (segments.includes('..')) {
+      throw this.violation(entry, 'ARCHIVE_PATH_TRAVERSAL', `Entry ${entry.name} has a .. segment in its path`);
+    }
+    if (segments.length === 0) {
+      throw this.violation(entry, 'INVALID_ENTRY_NAME', `Entry ${entry.name} has an empty name`);
+    }
+    if (segments.length > this.limits.maxDepth) {
+      throw this.violation(entry, 'ARCHIVE_TOO_DEEP', `Entry ${entry.name} is nested more than ${this.limits.maxDepth} levels deep`);
+    }
+
+    const key = segments.map(segment => segment.replace(/[^a-zA-Z0-9!_.*'()-]/g, '_')).join('/');
+    return entry.isDirectory ? `${key}/` : key;
+  }
+
+  private exceedsRatio(uncompressedBytes: number, compressedBytes: number): boolean {
+    return uncompressedBytes > RATIO_MIN_BYTES && uncompressedBytes > compressedBytes * this.limits.maxCompressionRatio;
+  }
+
+  private tooLarge(entry: ZipEntry): ArchiveError {
+    return this.violation(
+      entry,
+      'ARCHIVE_TOO_LARGE',
+      `Archive expands to more than ${this.limits.maxTotalBytes} bytes at entry ${entry.name}`
+    );
+  }
+
+  private ratioExceeded(entry: ZipEntry): ArchiveError {
+    return this.violation(
+      entry,
+      'ARCHIVE_COMPRESSION_RATIO_EXCEEDED',
+      `Entry ${entry.name} expands more than ${this.limits.maxCompressionRatio} times its compressed size`
+    );
+  }
+
+  private violation(entry: ZipEntry, code: string, message: string): ArchiveError {
+    return new ArchiveError(message, entry.name, {
+      code,
+      remediation: 'The archive breaks the extraction safety policy; check it, or transfer it without extracting',
+    });
+  }
+}
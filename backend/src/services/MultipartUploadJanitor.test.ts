@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MultipartUpload } from '@aws-sdk/client-s3';
+import { MultipartUploadJanitor } from './MultipartUploadJanitor.js';
+import { DynamoDBService, TransferStatus, TransferUploadRef } from './DynamoDBService.js';
+import { S3Service } from './S3Service.js';
+import { S3Error } from '../utils/errorHandler.js';
+
+/**
+ * Tests for aborting orphaned multipart uploads
+ *
+ * Validates that:
+ * - Uploads are matched to transfer records by bucket, key and upload ID
+ * - Uploads of finished or unknown transfers older than the threshold are aborted
+ * - Uploads of active transfers and young uploads are kept
+ * - A dry run aborts nothing and reports the bytes it would reclaim
+ */
+describe('MultipartUploadJanitor', () => {
+  const NOW = Date.parse('2026-10-19T12:00:00.000Z');
+  const MAX_AGE_MS = 48 * 60 * 60 * 1000;
+  const OLD = new Date('2026-10-10T12:00:00.000Z');
+  const RECENT = new Date('2026-10-19T11:00:00.000Z');
+  const MB = 1024 * 1024;
+
+  let dynamoDBService: DynamoDBService;
+  let s3Service: S3Service;
+  let janitor: MultipartUploadJanitor;
+
+  const transfers: TransferUploadRef[] = [
+    { transferId: 'completed', bucketName: 'bucket-a', s3Key: 'done.zip', uploadId: 'upload-done', status: TransferStatus.COMPLETED },
+    { transferId: 'running', bucketName: 'bucket-a', s3Key: 'running.zip', uploadId: 'upload-running', status: TransferStatus.IN_PROGRESS },
+    { transferId: 'failed', bucketName: 'bucket-b', s3Key: 'failed.zip', uploadId: 'upload-failed', status: TransferStatus.FAILED },
+  ];
+
+  const uploads: Record<string, MultipartUpload[]> = {
+    'bucket-a': [
+      { Key: 'done.zip', UploadId: 'upload-done', Initiated: OLD },
+      { Key: 'running.zip', UploadId: 'upload-running', Initiated: OLD },
+      // An earlier attempt of the running transfer started this one
+      { Key: 'running.zip', UploadId: 'upload-replaced', Initiated: OLD },
+      { Key: 'unknown.zip', UploadId: 'upload-unknown', Initiated: OLD },
+      // Possibly a worker that hasn't saved its checkpoint yet
+      { Key: 'new.zip', UploadId: 'upload-new', Initiated: RECENT },
+    ],
+    'bucket-b': [
+      { Key: 'failed.zip', UploadId: 'upload-failed', Initiated: OLD },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    dynamoDBService = new DynamoDBService('TransferTable', 'us-east-1');
+    s3Service = new S3Service('us-east-1');
+    vi.spyOn(dynamoDBService, 'listTransferUploads').mockResolvedValue(transfers);
+    vi.spyOn(s3Service, 'listMultipartUploads').mockImplementation(async (bucket: string) => uploads[bucket] || []);
+    vi.spyOn(s3Service, 'listParts').mockResolvedValue([
+      { PartNumber: 1, Size: 8 * MB },
+      { PartNumber: 2, Size: 2 * MB },
+    ]);
+    vi.spyOn(s3Service, 'abortUpload').mockResolvedValue(true);
+
+    janitor = new MultipartUploadJanitor(dynamoDBService, s3Service);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const abortedUploads = () => vi.mocked(s3Service.abortUpload).mock.calls.map(([, , uploadId]) => uploadId).sort();
+
+  it('should abort old uploads of finished or unknown transfers', async () => {
+    const report = await janitor.run({ maxAgeMs: MAX_AGE_MS, dryRun: false }, NOW);
+
+    expect(abortedUploads()).toEqual(['upload-done', 'upload-failed', 'upload-replaced', 'upload-unknown']);
+    expect(report.bucketsScanned).toEqual(['bucket-a', 'bucket-b']);
+    expect(report.uploadsFound).toBe(6);
+    expect(report.uploadsKept).toBe(2);
+    expect(report.reclaimedBytes).toBe(4 * 10 * MB);
+    expect(report.orphaned.find(upload => upload.uploadId === 'upload-done')).toEqual({
+      bucket: 'bucket-a',
+      key: 'done.zip',
+      uploadId: 'upload-done',
+      initiated: OLD.toISOString(),
+      transferId: 'completed',
+      status: TransferStatus.COMPLETED,
+      bytes: 10 * MB,
+      aborted: true,
+    });
+    expect(report.orphaned.find(upload => upload.uploadId === 'upload-replaced')?.transferId).toBeUndefined();
+  });
+
+  it('should only report what it would abort in a dry run', async () => {
+    const report = await janitor.run({ maxAgeMs: MAX_AGE_MS, dryRun: true }, NOW);
+
+    expect(s3Service.abortUpload).not.toHaveBeenCalled();
+    expect(report.dryRun).toBe(true);
+    expect(report.orphaned).toHaveLength(4);
+    expect(report.orphaned.every(upload => !upload.aborted)).toBe(true);
+    expect(report.reclaimedBytes).toBe(4 * 10 * MB);
+  });
+
+  it('should not count uploads it failed to abort as reclaimed', async () => {
+    vi.mocked(s3Service.abortUpload).mockImplementation(async (_bucket, _key, uploadId) => uploadId !== 'upload-unknown');
+
+    const report = await janitor.run({ maxAgeMs: MAX_AGE_MS, dryRun: false }, NOW);
+
+    expect(report.orphaned.find(upload => upload.uploadId === 'upload-unknown')?.aborted).toBe(false);
+    expect(report.reclaimedBytes).toBe(3 * 10 * MB);
+  });
+
+  it('should skip uploads that disappear before they are sized', async () => {
+    vi.mocked(s3Service.listParts).mockImplementation(async (_bucket, _key, uploadId) => {
+      if (uploadId === 'upload-done') {
+        throw new S3Error('Upload not found', Object.assign(new Error('NoSuchUpload'), { name: 'NoSuchUpload' }));
+      }
+      return [{ PartNumber: 1, Size: MB }];
+    });
+
+    const report = await janitor.run({ maxAgeMs: MAX_AGE_MS, dryRun: false }, NOW);
+
+    expect(abortedUploads()).toEqual(['upload-failed', 'upload-replaced', 'upload-unknown']);
+    expect(report.reclaimedBytes).toBe(3 * MB);
+  });
+
+  it('should scan extra buckets and carry on past buckets it cannot list', async () => {
+    vi.mocked(s3Service.listMultipartUploads).mockImplementation(async (bucket: string) => {
+      if (bucket === 'bucket-a') {
+        throw new S3Error("Access denied to bucket 'bucket-a'");
+      }
+      return bucket === 'bucket-extra'
+        ? [{ Key: 'legacy.zip', UploadId: 'upload-legacy', Initiated: OLD }]
+        : uploads[bucket] || [];
+    });
+
+    const report = await janitor.run({ maxAgeMs: MAX_AGE_MS, dryRun: false, buckets: ['bucket-extra'] }, NOW);
+
+    expect(report.failedBuckets).toEqual(['bucket-a']);
+    expect(report.bucketsScanned).toEqual(['bucket-b', 'bucket-extra']);
+    expect(abortedUploads()).toEqual(['upload-failed', 'upload-legacy']);
+  });
+});
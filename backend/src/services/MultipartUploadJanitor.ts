@@ -0,0 +1,163 @@
+import { MultipartUpload } from '@aws-sdk/client-s3';
+import { ACTIVE_TRANSFER_STATUSES, DynamoDBService, TransferStatus, TransferUploadRef } from './DynamoDBService.js';
+import { S3Service } from './S3Service.js';
+
+export interface JanitorOptions {
+  maxAgeMs: number; // Uploads started more recently are never aborted
+  dryRun: boolean; // Report what would be aborted without aborting it
+  buckets?: string[]; // Scanned in addition to the buckets transfer records point to
+}
+
+export interface OrphanedUpload {
+  bucket: string;
+  key: string;
+  uploadId: string;
+  initiated?: string; // ISO timestamp
+  transferId?: string; // Absent when no transfer record holds the upload
+  status?: TransferStatus; // Status of that transfer
+  bytes: number; // Total size of the upload's parts
+  aborted: boolean; // Always false in a dry run
+}
+
+export interface JanitorReport {
+  dryRun: boolean;
+  bucketsScanned: string[];
+  failedBuckets: string[]; // Buckets whose uploads couldn't be listed
+  uploadsFound: number;
+  uploadsKept: number; // Held by an active transfer or younger than maxAgeMs
+  orphaned: OrphanedUpload[];
+  reclaimedBytes: number; // Bytes of the aborted uploads, or of the ones that would be in a dry run
+}
+
+/**
+ * Aborts multipart uploads that no running transfer will complete
+ *
+ * Workers killed mid-transfer, or whose abort failed, leave incomplete multipart uploads
+ * that are billed until they are aborted. The janitor lists the uploads in every bucket a
+ * transfer record points to and matches them to records by bucket, key and upload ID.
+ * An upload is orphaned when its transfer is completed, failed or cancelled, or when no
+ * record holds it (the record expired, or an earlier attempt started a new upload), and it
+ * is older than maxAgeMs. Uploads of active transfers are left to the stale transfer reaper.
+ */
+export class MultipartUploadJanitor {
+  private dynamoDBService: DynamoDBService;
+  private s3Service: S3Service;
+
+  constructor(dynamoDBService: DynamoDBService, s3Service: S3Service) {
+    this.dynamoDBService = dynamoDBService;
+    this.s3Service = s3Service;
+  }
+
+  /**
+   * Finds orphaned uploads in all destination buckets and aborts them unless dryRun is set
+   */
+  async run(options: JanitorOptions, now: number = Date.now()): Promise<JanitorReport> {
+    const transfers = await this.dynamoDBService.listTransferUploads();
+    const byUpload = new Map<string, TransferUploadRef>();
+    for (const transfer of transfers) {
+      if (transfer.uploadId) {
+        byUpload.set(this.uploadKey(transfer.bucketName, transfer.s3Key, transfer.uploadId), transfer);
+      }
+    }
+
+    const buckets = [...new Set([...transfers.map(transfer => transfer.bucketName), ...(options.buckets || [])])]
+      .filter(Boolean)
+      .sort();
+
+    const report: JanitorReport = {
+      dryRun: options.dryRun,
+      bucketsScanned: [],
+      failedBuckets: [],
+      uploadsFound: 0,
+      uploadsKept: 0,
+      orphaned: [],
+      reclaimedBytes: 0,
+    };
+
+    for (const bucket of buckets) {
+      let uploads: MultipartUpload[];
+      try {
+        uploads = await this.s3Service.listMultipartUploads(bucket);
+      } catch (error: any) {
+        // e.g. the bucket was deleted or the service lost access to it
+        console.error(`Skipping bucket ${bucket}:`, error.message || error);
+        report.failedBuckets.push(bucket);
+        continue;
+      }
+      report.bucketsScanned.push(bucket);
+      report.uploadsFound += uploads.length;
+
+      for (const upload of uploads) {
+        if (!upload.Key || !upload.UploadId) {
+          continue;
+        }
+        const transfer = byUpload.get(this.uploadKey(bucket, upload.Key, upload.UploadId));
+        const initiated = upload.Initiated?.getTime();
+
+        // A young upload may belong to a worker that hasn't saved its checkpoint yet
+        const isActive = transfer !== undefined && ACTIVE_TRANSFER_STATUSES.includes(transfer.status);
+        if (isActive || initiated === undefined || now - initiated < options.maxAgeMs) {
+          report.uploadsKept++;
+          continue;
+        }
+
+        const orphan = await this.cleanUp(bucket, upload.Key, upload.UploadId, options.dryRun);
+        if (!orphan) {
+          continue;
+        }
+        report.orphaned.push({
+          ...orphan,
+          initiated: upload.Initiated?.toISOString(),
+          transferId: transfer?.transferId,
+          status: transfer?.status,
+        });
+        if (orphan.aborted || options.dryRun) {
+          report.reclaimedBytes += orphan.bytes;
+        }
+      }
+    }
+
+    console.log(
+      `${options.dryRun ? '[dry run] ' : ''}Found ${report.orphaned.length} orphaned uploads of ` +
+      `${report.uploadsFound} in ${report.bucketsScanned.length} buckets, ` +
+      `${options.dryRun ? 'would reclaim' : 'reclaimed'} ${report.reclaimedBytes} bytes`
+    );
+
+    return report;
+  }
+
+  /**
+   * Sizes an orphaned upload and aborts it unless dryRun is set
+   * Returns undefined when the upload is gone by the time its parts are listed
+   */
+  private async cleanUp(
+    bucket: string,
+    key: string,
+    uploadId: string,
+    dryRun: boolean
+  ): Promise<Pick<OrphanedUpload, 'bucket' | 'key' | 'uploadId' | 'bytes' | 'aborted'> | undefined> {
+    let bytes = 0;
+    try {
+      const parts = await this.s3Service.listParts(bucket, key, uploadId);
+      bytes = parts.reduce((total, part) => total + (part.Size || 0), 0);
+    } catch (error: any) {
+      if (error.originalError?.name === 'NoSuchUpload') {
+        return undefined;
+      }
+      // Still worth aborting, the report just can't say how much it freed
+      console.error(`Failed to size upload ${uploadId} for ${bucket}/${key}:`, error.message || error);
+    }
+
+    if (dryRun) {
+      console.log(`[dry run] Would abort upload ${uploadId} for ${bucket}/${key} (${bytes} bytes)`);
+      return { bucket, key, uploadId, bytes, aborted: false };
+    }
+
+    const aborted = await this.s3Service.abortUpload(bucket, key, uploadId);
+    return { bucket, key, uploadId, bytes, aborted };
+  }
+
+  private uploadKey(bucket: string, key: string, uploadId: string): string {
+    return `${bucket}/${key}#${uploadId}`;
+  }
+}
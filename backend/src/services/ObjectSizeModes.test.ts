@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StreamingService } from './StreamingService.js';
+import { ChecksumService } from './ChecksumService.js';
+import http from 'http';
+import { createHash } from 'crypto';
+
+/**
+ * Tests for the upload mode picked from the source size
+ *
+ * Validates that:
+ * - Small files of known size go up with a single PutObject
+ * - Sources without a size stream through a multipart upload with growing parts
+ * - Growing parts fit the maximum file size into 10,000 parts
+ */
+describe('StreamingService - Object Size Modes', () => {
+  const MB = 1024 * 1024;
+
+  let streamingService: StreamingService;
+  let mockServer: http.Server;
+  let content: Buffer;
+  let reportSize: boolean;
+
+  beforeEach(async () => {
+    streamingService = new StreamingService();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    content = Buffer.alloc(6 * MB, 'q');
+    reportSize = true;
+
+    mockServer = http.createServer((req, res) => {
+      const headers: Record<string, string> = { 'Content-Type': 'application/zip' };
+      if (reportSize) {
+        headers['Content-Length'] = content.length.toString();
+      }
+      res.writeHead(200, headers);
+      if (req.method === 'HEAD') {
+        res.end();
+        return;
+      }
+
+      // Without a Content-Length the body is sent chunked
+      for (let offset = 0; offset < content.length; offset += MB) {
+        res.write(content.subarray(offset, offset + MB));
+      }
+      res.end();
+    });
+    await new Promise<void>((resolve) => mockServer.listen(0, () => resolve()));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise<void>((resolve) => mockServer.close(() => resolve()));
+  });
+
+  const sourceUrl = () => {
+    const address = mockServer.address() as { port: number };
+    return `http://localhost:${address.port}/archive.zip`;
+  };
+
+  const createMockS3Service = () => ({
+    validateBucketAccess: vi.fn().mockResolvedValue(true),
+    putObject: vi.fn().mockResolvedValue('s3://test-bucket/archive.zip'),
+    createMultipartUpload: vi.fn().mockResolvedValue('test-upload-id'),
+    uploadPart: vi.fn().mockImplementation(async (_b: string, _k: string, _u: string, partNumber: number) => `etag-${partNumber}`),
+    completeUpload: vi.fn().mockResolvedValue('s3://test-bucket/archive.zip'),
+    headObject: vi.fn().mockImplementation(async () => ({ ContentLength: content.length })),
+    abortUpload: vi.fn().mockResolvedValue(undefined),
+  });
+
+  it('should upload a small file with a single PutObject', async () => {
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket');
+
+    expect(result.success).toBe(true);
+    expect(result.s3Location).toBe('s3://test-bucket/archive.zip');
+    expect(result.bytesTransferred).toBe(content.length);
+    expect(mockS3Service.createMultipartUpload).not.toHaveBeenCalled();
+    expect(mockS3Service.putObject).toHaveBeenCalledTimes(1);
+
+    const [bucket, key, body, crc32c] = mockS3Service.putObject.mock.calls[0];
+    expect(bucket).toBe('test-bucket');
+    expect(key).toBe('archive.zip');
+    expect(Buffer.compare(body, content)).toBe(0);
+    expect(crc32c).toBe(ChecksumService.computePartChecksum(1, content).crc32c);
+    expect(result.checksums?.sha256).toBe(createHash('sha256').update(content).digest('hex'));
+  });
+
+  it('should stream a source without a size through a multipart upload with growing parts', async () => {
+    reportSize = false;
+    content = Buffer.alloc(30 * MB, 'u');
+    const mockS3Service = createMockS3Service();
+    const mockDynamoDBService = {
+      updateTransferProgress: vi.fn().mockResolvedValue(null),
+      saveUploadCheckpoint: vi.fn().mockResolvedValue(undefined),
+      recordCompletedPart: vi.fn().mockResolvedValue(undefined),
+    };
+    streamingService = new StreamingService(mockDynamoDBService);
+    (streamingService as any).s3Service = mockS3Service;
+
+    // 5MB parts doubling after every part: 5MB, 10MB, then the 15MB tail
+    vi.spyOn(streamingService as any, 'calculateOptimalPartSize').mockReturnValue(5 * MB);
+    (streamingService as any).UNKNOWN_SIZE_GROWTH_INTERVAL = 1;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket');
+
+    expect(result.success).toBe(true);
+    expect(result.bytesTransferred).toBe(30 * MB);
+    expect(mockS3Service.putObject).not.toHaveBeenCalled();
+    expect(mockS3Service.uploadPart.mock.calls.map((call: any[]) => [call[3], call[4].length])).toEqual([
+      [1, 5 * MB],
+      [2, 10 * MB],
+      [3, 15 * MB],
+    ]);
+    expect(result.checksums?.sha256).toBe(createHash('sha256').update(content).digest('hex'));
+
+    // The unknown size is recorded as -1 so the API can report indeterminate progress
+    expect(mockDynamoDBService.updateTransferProgress.mock.calls[0]).toEqual([result.transferId, 0, -1]);
+  });
+
+  it('should fit the maximum file size into 10,000 growing parts', () => {
+    const service = streamingService as any;
+    const basePartSize = service.calculateOptimalPartSize(-1);
+
+    expect(service.getPartSize(basePartSize, 1, -1)).toBe(basePartSize);
+    expect(service.getPartSize(basePartSize, 1000, -1)).toBe(basePartSize);
+    expect(service.getPartSize(basePartSize, 1001, -1)).toBe(2 * basePartSize);
+    expect(service.getPartSize(basePartSize, 10000, -1)).toBe(service.MAX_PART_SIZE);
+
+    // A known size keeps the same part size throughout
+    expect(service.getPartSize(basePartSize, 5000, 200 * MB)).toBe(basePartSize);
+
+    let capacity = 0;
+    for (let partNumber = 1; partNumber <= service.MAX_PARTS; partNumber++) {
+      capacity += service.getPartSize(basePartSize, partNumber, -1);
+    }
+    expect(capacity).toBeGreaterThanOrEqual(service.MAX_FILE_SIZE);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StreamingService } from './StreamingService.js';
+import http from 'http';
+import { createHash } from 'crypto';
+
+/**
+ * Tests for keeping part buffers within the memory budget
+ *
+ * Validates that:
+ * - The part size is lowered when the budget can't hold two parts
+ * - Concurrent uploads are capped at the buffers the budget holds
+ * - Part buffers are reused once their part is uploaded, without corrupting parts
+ */
+describe('StreamingService - Part Buffer Memory', () => {
+  const MB = 1024 * 1024;
+
+  let streamingService: StreamingService;
+  let mockServer: http.Server;
+  let content: Buffer;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    streamingService = new StreamingService();
+    (streamingService as any).LARGE_FILE_THRESHOLD = 0;
+    content = Buffer.alloc(24 * MB);
+    for (let i = 0; i < content.length; i++) {
+      content[i] = i % 251;
+    }
+
+    mockServer = http.createServer((req, res) => {
+      res.writeHead(200, {
+        'Content-Type': 'application/zip',
+        'Content-Length': content.length.toString(),
+      });
+      res.end(req.method === 'HEAD' ? undefined : content);
+    });
+    await new Promise<void>((resolve) => mockServer.listen(0, () => resolve()));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise<void>((resolve) => mockServer.close(() => resolve()));
+  });
+
+  const sourceUrl = () => {
+    const address = mockServer.address() as { port: number };
+    return `http://localhost:${address.port}/archive.zip`;
+  };
+
+  it('should lower the part size and concurrency to fit the budget and reuse buffers', async () => {
+    // 15MB holds two 7MB parts but not two of the 10MB parts the file size calls for
+    (streamingService as any).PART_BUFFER_MEMORY = 15 * MB;
+    vi.spyOn(streamingService as any, 'calculateOptimalPartSize').mockReturnValue(10 * MB);
+
+    let inFlight = 0;
+    let peakInFlight = 0;
+    const uploaded: { partNumber: number; length: number; sha256: string }[] = [];
+    const arrayBuffers = new Set<ArrayBufferLike>();
+    const mockS3Service = {
+      validateBucketAccess: vi.fn().mockResolvedValue(true),
+      createMultipartUpload: vi.fn().mockResolvedValue('test-upload-id'),
+      uploadPart: vi.fn().mockImplementation(async (_b: string, _k: string, _u: string, partNumber: number, data: Buffer) => {
+        inFlight++;
+        peakInFlight = Math.max(peakInFlight, inFlight);
+        arrayBuffers.add(data.buffer);
+        // Hashed on arrival, the buffer is reused after the part is uploaded
+        uploaded.push({ partNumber, length: data.length, sha256: createHash('sha256').update(data).digest('hex') });
+        await new Promise(resolve => setTimeout(resolve, 20));
+        inFlight--;
+        return `etag-${partNumber}`;
+      }),
+      completeUpload: vi.fn().mockResolvedValue('s3://test-bucket/archive.zip'),
+      headObject: vi.fn().mockImplementation(async () => ({ ContentLength: content.length })),
+      abortUpload: vi.fn().mockResolvedValue(undefined),
+    };
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket');
+
+    expect(result.success).toBe(true);
+    expect(uploaded.map(part => part.length)).toEqual([7 * MB, 7 * MB, 7 * MB, 3 * MB]);
+    for (const part of uploaded) {
+      const start = (part.partNumber - 1) * 7 * MB;
+      expect(part.sha256).toBe(createHash('sha256').update(content.subarray(start, start + part.length)).digest('hex'));
+    }
+    expect(peakInFlight).toBe(1);
+    expect(arrayBuffers.size).toBeLessThanOrEqual(2);
+  });
+
+  it('should keep the part size when the budget holds it', async () => {
+    (streamingService as any).PART_BUFFER_MEMORY = 64 * MB;
+    vi.spyOn(streamingService as any, 'calculateOptimalPartSize').mockReturnValue(5 * MB);
+    const mockS3Service = {
+      validateBucketAccess: vi.fn().mockResolvedValue(true),
+      createMultipartUpload: vi.fn().mockResolvedValue('test-upload-id'),
+      uploadPart: vi.fn().mockImplementation(async (_b: string, _k: string, _u: string, partNumber: number) => `etag-${partNumber}`),
+      completeUpload: vi.fn().mockResolvedValue('s3://test-bucket/archive.zip'),
+      headObject: vi.fn().mockImplementation(async () => ({ ContentLength: content.length })),
+      abortUpload: vi.fn().mockResolvedValue(undefined),
+    };
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket');
+
+    expect(result.success).toBe(true);
+    expect(mockS3Service.uploadPart.mock.calls.map((call: any[]) => call[4].length)).toEqual([5 * MB, 5 * MB, 5 * MB, 5 * MB, 4 * MB]);
+  });
+});
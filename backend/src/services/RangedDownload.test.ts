@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StreamingService } from './StreamingService.js';
+import { ChecksumAccumulator } from './ChecksumService.js';
+import { RetryPolicy } from './RetryPolicy.js';
+import { AdaptiveConcurrency } from './AdaptiveConcurrency.js';
+import { S3Error } from '../utils/errorHandler.js';
+import http from 'http';
+import { createHash } from 'crypto';
+
+/**
+ * Tests for multi-connection ranged downloads
+ *
+ * Validates that:
+ * - Each part is fetched with its own part-aligned Range request
+ * - S3 throttling lowers the number of connections at work
+ * - Sources without byte range support fall back to a single stream
+ * - A source that stops honouring ranges fails the transfer
+ */
+describe('StreamingService - Ranged Downloads', () => {
+  const PART_SIZE = 5 * 1024 * 1024; // 5MB (S3 minimum)
+  const FILE_SIZE = 12 * 1024 * 1024; // 12MB: two full parts and a 2MB tail
+  const ETAG = '"source-etag-v1"';
+
+  let streamingService: StreamingService;
+  let mockServer: http.Server;
+  let rangeHeaders: (string | undefined)[];
+  let supportsRanges: boolean;
+  let originalSourceConnections: string | undefined;
+  let content: Buffer;
+
+  beforeEach(async () => {
+    originalSourceConnections = process.env.SOURCE_CONNECTIONS;
+    process.env.SOURCE_CONNECTIONS = '4';
+    streamingService = new StreamingService();
+    // Files this small would otherwise go up with a single PutObject
+    (streamingService as any).LARGE_FILE_THRESHOLD = 0;
+    rangeHeaders = [];
+    supportsRanges = true;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    // Each byte holds its offset modulo 251 so misplaced ranges are detectable
+    content = Buffer.alloc(FILE_SIZE);
+    for (let i = 0; i < FILE_SIZE; i++) {
+      content[i] = i % 251;
+    }
+
+    mockServer = http.createServer((req, res) => {
+      const baseHeaders: Record<string, string> = {
+        'Content-Type': 'application/zip',
+        'ETag': ETAG,
+      };
+      if (supportsRanges) {
+        baseHeaders['Accept-Ranges'] = 'bytes';
+      }
+
+      if (req.method === 'HEAD') {
+        res.writeHead(200, { ...baseHeaders, 'Content-Length': FILE_SIZE.toString() });
+        res.end();
+        return;
+      }
+
+      rangeHeaders.push(req.headers['range']);
+      const range = req.headers['range']?.match(/^bytes=(\d+)-(\d+)$/);
+
+      if (supportsRanges && range) {
+        const start = parseInt(range[1], 10);
+        const end = parseInt(range[2], 10);
+        res.writeHead(206, {
+          ...baseHeaders,
+          'Content-Length': (end - start + 1).toString(),
+          'Content-Range': `bytes ${start}-${end}/${FILE_SIZE}`,
+        });
+        res.end(content.subarray(start, end + 1));
+      } else {
+        res.writeHead(200, { ...baseHeaders, 'Content-Length': FILE_SIZE.toString() });
+        res.end(content);
+      }
+    });
+
+    await new Promise<void>((resolve) => mockServer.listen(0, () => resolve()));
+  });
+
+  afterEach(async () => {
+    if (originalSourceConnections === undefined) {
+      delete process.env.SOURCE_CONNECTIONS;
+    } else {
+      process.env.SOURCE_CONNECTIONS = originalSourceConnections;
+    }
+    vi.restoreAllMocks();
+    await new Promise<void>((resolve) => mockServer.close(() => resolve()));
+  });
+
+  const sourceUrl = () => {
+    const address = mockServer.address() as { port: number };
+    return `http://localhost:${address.port}/archive.zip`;
+  };
+
+  const createMockS3Service = () => ({
+    validateBucketAccess: vi.fn().mockResolvedValue(true),
+    createMultipartUpload: vi.fn().mockResolvedValue('test-upload-id'),
+    uploadPart: vi.fn().mockImplementation(async (_b: string, _k: string, _u: string, partNumber: number) => `etag-${partNumber}`),
+    completeUpload: vi.fn().mockResolvedValue('s3://test-bucket/archive.zip'),
+    headObject: vi.fn().mockImplementation(async () => ({ ContentLength: FILE_SIZE })),
+    abortUpload: vi.fn().mockResolvedValue(undefined),
+  });
+
+  it('should fetch each part with its own aligned range request', async () => {
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+    const checksums = { object: new ChecksumAccumulator(), parts: [] };
+
+    const parts = await (streamingService as any).uploadPartsRanged(
+      sourceUrl(),
+      ETAG,
+      'test-bucket',
+      'archive.zip',
+      'test-upload-id',
+      FILE_SIZE,
+      PART_SIZE,
+      'transfer-1',
+      () => {},
+      checksums
+    );
+
+    expect(parts.map((part: any) => part.PartNumber).sort()).toEqual([1, 2, 3]);
+    expect([...rangeHeaders].sort()).toEqual([
+      `bytes=0-${PART_SIZE - 1}`,
+      `bytes=${PART_SIZE}-${2 * PART_SIZE - 1}`,
+      `bytes=${2 * PART_SIZE}-${FILE_SIZE - 1}`,
+    ].sort());
+
+    for (const call of mockS3Service.uploadPart.mock.calls) {
+      const partNumber: number = call[3];
+      const body: Buffer = call[4];
+      const start = (partNumber - 1) * PART_SIZE;
+      expect(body.length).toBe(Math.min(PART_SIZE, FILE_SIZE - start));
+      expect(body[0]).toBe(start % 251);
+      expect(body[body.length - 1]).toBe((start + body.length - 1) % 251);
+    }
+
+    // Parts can finish out of order but are hashed in source order
+    expect(checksums.object.digest().sha256).toBe(createHash('sha256').update(content).digest('hex'));
+  });
+
+  it('should take fewer parts at once after S3 throttles an upload', async () => {
+    const slowDown = Object.assign(new Error('Please reduce your request rate.'), {
+      name: 'SlowDown',
+      $metadata: { httpStatusCode: 503 },
+    });
+    let inFlight = 0;
+    const inFlightAtStart = new Map<number, number>();
+    const mockS3Service = createMockS3Service();
+    mockS3Service.uploadPart
+      .mockImplementationOnce(async () => {
+        throw new S3Error('S3 operation failed: Please reduce your request rate.', slowDown);
+      })
+      .mockImplementation(async (_b: string, _k: string, _u: string, partNumber: number) => {
+        inFlight++;
+        inFlightAtStart.set(partNumber, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        inFlight--;
+        return `etag-${partNumber}`;
+      });
+    (streamingService as any).s3Service = mockS3Service;
+    (streamingService as any).partRetryPolicy = new RetryPolicy({ maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 1 });
+    (streamingService as any).ADAPTIVE_CONCURRENCY_MIN = 1;
+    // Healthy parts would raise the limit again, hold it where the throttle leaves it
+    vi.spyOn(AdaptiveConcurrency.prototype, 'recordPart').mockImplementation(() => {});
+
+    // 1MB parts, so there are parts left after the throttle halves the 4 connections to 2
+    const parts = await (streamingService as any).uploadPartsRanged(
+      sourceUrl(),
+      ETAG,
+      'test-bucket',
+      'archive.zip',
+      'test-upload-id',
+      FILE_SIZE,
+      1024 * 1024,
+      'transfer-1',
+      () => {},
+      { object: new ChecksumAccumulator(), parts: [] }
+    );
+
+    expect(parts).toHaveLength(12);
+    // The parts after the throttle wait until the connections in flight are down to 2
+    for (let partNumber = 5; partNumber <= 12; partNumber++) {
+      expect(inFlightAtStart.get(partNumber)).toBeLessThanOrEqual(2);
+    }
+  });
+
+  it('should fall back to a single stream when the source does not support ranges', async () => {
+    supportsRanges = false;
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+    const rangedSpy = vi.spyOn(streamingService as any, 'uploadPartsRanged');
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket');
+
+    expect(result.success).toBe(true);
+    expect(result.bytesTransferred).toBe(FILE_SIZE);
+    expect(rangedSpy).not.toHaveBeenCalled();
+    expect(rangeHeaders).toEqual([undefined]);
+  });
+
+  it('should fail when the source answers a range request with the full file', async () => {
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    // HEAD still advertises ranges, but GET requests ignore them
+    mockServer.removeAllListeners('request');
+    mockServer.on('request', (req, res) => {
+      if (req.method === 'HEAD') {
+        res.writeHead(200, { 'Content-Type': 'application/zip', 'Accept-Ranges': 'bytes', 'Content-Length': FILE_SIZE.toString() });
+        res.end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/zip', 'Content-Length': FILE_SIZE.toString() });
+      res.end(Buffer.alloc(FILE_SIZE));
+    });
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket');
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain('ignored range request');
+    expect(mockS3Service.abortUpload).toHaveBeenCalledWith('test-bucket', 'archive.zip', 'test-upload-id');
+  });
+});
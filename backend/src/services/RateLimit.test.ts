@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StreamingService } from './StreamingService.js';
+import http from 'http';
+import { createHash } from 'crypto';
+
+/**
+ * Tests for per-transfer bandwidth limits
+ *
+ * Validates that:
+ * - Multipart and single PutObject transfers read the source no faster than the limit
+ * - Throttling pauses the source without changing the uploaded bytes
+ * - Rate limited transfers use a single source connection
+ */
+describe('StreamingService - Rate Limit', () => {
+  const MB = 1024 * 1024;
+
+  let streamingService: StreamingService;
+  let mockServer: http.Server;
+  let content: Buffer;
+  let originalSourceConnections: string | undefined;
+
+  beforeEach(async () => {
+    originalSourceConnections = process.env.SOURCE_CONNECTIONS;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    streamingService = new StreamingService();
+    content = Buffer.alloc(12 * MB);
+    for (let i = 0; i < content.length; i++) {
+      content[i] = i % 251;
+    }
+
+    mockServer = http.createServer((req, res) => {
+      res.writeHead(200, {
+        'Content-Type': 'application/zip',
+        'Content-Length': content.length.toString(),
+        'Accept-Ranges': 'bytes',
+      });
+      res.end(req.method === 'HEAD' ? undefined : content);
+    });
+    await new Promise<void>((resolve) => mockServer.listen(0, () => resolve()));
+  });
+
+  afterEach(async () => {
+    if (originalSourceConnections === undefined) {
+      delete process.env.SOURCE_CONNECTIONS;
+    } else {
+      process.env.SOURCE_CONNECTIONS = originalSourceConnections;
+    }
+    vi.restoreAllMocks();
+    await new Promise<void>((resolve) => mockServer.close(() => resolve()));
+  });
+
+  const sourceUrl = () => {
+    const address = mockServer.address() as { port: number };
+    return `http://localhost:${address.port}/archive.zip`;
+  };
+
+  const createMockS3Service = () => ({
+    validateBucketAccess: vi.fn().mockResolvedValue(true),
+    putObject: vi.fn().mockResolvedValue('s3://test-bucket/archive.zip'),
+    createMultipartUpload: vi.fn().mockResolvedValue('test-upload-id'),
+    uploadPart: vi.fn().mockImplementation(async (_b: string, _k: string, _u: string, partNumber: number) => `etag-${partNumber}`),
+    completeUpload: vi.fn().mockResolvedValue('s3://test-bucket/archive.zip'),
+    headObject: vi.fn().mockImplementation(async () => ({ ContentLength: content.length })),
+    abortUpload: vi.fn().mockResolvedValue(undefined),
+  });
+
+  it('should hold a multipart transfer to the limit', async () => {
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+    (streamingService as any).LARGE_FILE_THRESHOLD = 0;
+    vi.spyOn(streamingService as any, 'calculateOptimalPartSize').mockReturnValue(5 * MB);
+
+    // One second of burst (8MB), then 4MB at 8MB/s takes at least 500ms
+    const startTime = Date.now();
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      maxBytesPerSecond: 8 * MB,
+    });
+    const elapsed = Date.now() - startTime;
+
+    expect(result.success).toBe(true);
+    expect(elapsed).toBeGreaterThanOrEqual(400);
+    expect(mockS3Service.uploadPart.mock.calls.map((call: any[]) => call[4].length)).toEqual([5 * MB, 5 * MB, 2 * MB]);
+    expect(result.checksums?.sha256).toBe(createHash('sha256').update(content).digest('hex'));
+  });
+
+  it('should hold a single PutObject transfer to the limit', async () => {
+    content = content.subarray(0, 6 * MB);
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    // One second of burst (4MB), then 2MB at 4MB/s takes at least 500ms
+    const startTime = Date.now();
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      maxBytesPerSecond: 4 * MB,
+    });
+    const elapsed = Date.now() - startTime;
+
+    expect(result.success).toBe(true);
+    expect(elapsed).toBeGreaterThanOrEqual(400);
+    expect(Buffer.compare(mockS3Service.putObject.mock.calls[0][2], content)).toBe(0);
+  });
+
+  it('should use a single source connection when rate limited', async () => {
+    process.env.SOURCE_CONNECTIONS = '4';
+    streamingService = new StreamingService();
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+    (streamingService as any).LARGE_FILE_THRESHOLD = 0;
+    const rangedSpy = vi.spyOn(streamingService as any, 'uploadPartsRanged');
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      maxBytesPerSecond: 64 * MB,
+    });
+
+    expect(result.success).toBe(true);
+    expect(rangedSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RemoteZipReader } from './RemoteZipReader.js';
+import { ArchiveError, UrlFetchError } from '../utils/errorHandler.js';
+import { buildZip } from '../test/zipBuilder.js';
+import { deflateRawSync } from 'zlib';
+import http from 'http';
+
+/**
+ * Tests for reading the central directory of a remote archive
+ *
+ * Validates that:
+ * - Entries are listed from the tail and the central directory, without reading their data
+ * - Zip64 records and extra fields supply sizes and offsets
+ * - Archive comments, including ones that contain the end record's signature, are handled
+ * - Sources that ignore ranges or change between requests fail with a specific code
+ */
+describe('RemoteZipReader', () => {
+  let mockServer: http.Server;
+  let archive: Buffer;
+  let rangeSupport: boolean;
+  let etag: string;
+  let requestedRanges: Array<[number, number]>;
+
+  const text = Buffer.from('The quick brown fox jumps over the lazy dog. '.repeat(2000));
+  const random = Buffer.from(Array.from({ length: 100000 }, (_, i) => (Math.imul(i, 2654435761) >>> 13) & 0xff));
+
+  // Enough entries for a central directory larger than the tail
+  const reports = Array.from({ length: 1500 }, (_, i) => ({
+    name: `reports/2024/quarterly/region-${i}/summary.txt`,
+    data: Buffer.from(`Report ${i}`),
+  }));
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    rangeSupport = true;
+    etag = '"v1"';
+    requestedRanges = [];
+
+    mockServer = http.createServer((req, res) => {
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/zip',
+        'ETag': etag,
+        ...(rangeSupport ? { 'Accept-Ranges': 'bytes' } : {}),
+      };
+      if (req.method === 'HEAD') {
+        res.writeHead(200, { ...headers, 'Content-Length': archive.length.toString() });
+        res.end();
+        return;
+      }
+
+      const range = req.headers.range?.match(/^bytes=(\d+)-(\d+)$/);
+      const ifRange = req.headers['if-range'];
+      if (!rangeSupport || !range || (ifRange && ifRange !== etag)) {
+        res.writeHead(200, { ...headers, 'Content-Length': archive.length.toString() });
+        res.end(archive);
+        return;
+      }
+      const start = Number(range[1]);
+      const end = Math.min(Number(range[2]), archive.length - 1);
+      requestedRanges.push([start, end]);
+      res.writeHead(206, {
+        ...headers,
+        'Content-Length': (end - start + 1).toString(),
+        'Content-Range': `bytes ${start}-${end}/${archive.length}`,
+      });
+      res.end(archive.subarray(start, end + 1));
+    });
+
+    await new Promise<void>((resolve) => mockServer.listen(0, () => resolve()));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise<void>((resolve) => mockServer.close(() => resolve()));
+  });
+
+  const reader = () => {
+    const address = mockServer.address() as { port: number };
+    return new RemoteZipReader(`http://localhost:${address.port}/archive.zip`);
+  };
+
+  it('should list entries with their sizes, methods, CRCs and timestamps', async () => {
+    const lastModified = new Date(Date.UTC(2023, 10, 5, 14, 30, 58));
+    archive = buildZip([
+      { name: 'docs/', method: 'stored' },
+      { name: 'docs/readme.txt', data: text, lastModified },
+      { name: 'bin/data.bin', data: random, method: 'stored', dataDescriptor: true },
+    ], { comment: 'Release 1.0' });
+
+    const directory = await reader().readDirectory();
+
+    expect(directory).toMatchObject({ archiveSize: archive.length, zip64: false, comment: 'Release 1.0' });
+    expect(directory.entries.map(entry => entry.name)).toEqual(['docs/', 'docs/readme.txt', 'bin/data.bin']);
+    expect(directory.entries[0]).toMatchObject({ isDirectory: true, uncompressedSize: 0 });
+    expect(directory.entries[1]).toMatchObject({
+      method: 8,
+      compressedSize: deflateRawSync(text).length,
+      uncompressedSize: text.length,
+      lastModified,
+      encrypted: false,
+      localHeaderOffset: 30 + 'docs/'.length,
+    });
+    expect(directory.entries[2]).toMatchObject({ method: 0, compressedSize: random.length, uncompressedSize: random.length });
+    expect(archive.readUInt32LE(directory.entries[2].localHeaderOffset)).toBe(0x04034b50);
+  });
+
+  it('should read the central directory without reading the entries', async () => {
+    archive = buildZip([
+      { name: 'a.bin', data: random, method: 'stored' },
+      { name: 'b.bin', data: random, method: 'stored' },
+    ]);
+
+    const directory = await reader().readDirectory();
+
+    expect(directory.entries).toHaveLength(2);
+    // Only the tail, which holds the central directory of so few entries
+    expect(requestedRanges).toEqual([[archive.length - 65633, archive.length - 1]]);
+  });
+
+  it('should read a central directory that starts before the tail with one more request', async () => {
+    archive = buildZip(reports);
+
+    const directory = await reader().readDirectory();
+
+    expect(directory.entries).toHaveLength(1500);
+    expect(directory.entries[1499].name).toBe('reports/2024/quarterly/region-1499/summary.txt');
+    expect(requestedRanges).toHaveLength(2);
+    expect(requestedRanges[1]).toEqual([
+      directory.centralDirectoryOffset,
+      directory.centralDirectoryOffset + directory.centralDirectorySize - 1,
+    ]);
+  });
+
+  it('should read sizes and offsets from Zip64 records and extra fields', async () => {
+    archive = buildZip([
+      { name: 'a.txt', data: text, zip64: true },
+      { name: 'b.txt', data: text, zip64: true, dataDescriptor: true },
+    ], { zip64: true });
+
+    const directory = await reader().readDirectory();
+
+    expect(directory.zip64).toBe(true);
+    expect(directory.entries.map(entry => [entry.name, entry.zip64, entry.uncompressedSize])).toEqual([
+      ['a.txt', true, text.length],
+      ['b.txt', true, text.length],
+    ]);
+    expect(archive.readUInt32LE(directory.entries[1].localHeaderOffset)).toBe(0x04034b50);
+  });
+
+  it('should find the end record behind a comment that contains its signature', async () => {
+    const signature = Buffer.alloc(4);
+    signature.writeUInt32LE(0x06054b50, 0);
+    archive = buildZip([{ name: 'a.txt', data: text }], { comment: `PK${signature.subarray(2).toString('latin1')} not a record` });
+
+    const directory = await reader().readDirectory();
+
+    expect(directory.entries.map(entry => entry.name)).toEqual(['a.txt']);
+  });
+
+  it('should reject a source that is not a ZIP archive', async () => {
+    archive = Buffer.from('<html><body>Download moved</body></html>');
+
+    const error = await reader().readDirectory().catch((e) => e);
+
+    expect(error).toBeInstanceOf(ArchiveError);
+    expect(error).toMatchObject({ code: 'INVALID_ARCHIVE', message: 'Source is not a ZIP archive' });
+  });
+
+  it('should reject a central directory that lies outside the archive', async () => {
+    archive = buildZip([{ name: 'a.txt', data: text }]);
+    archive.writeUInt32LE(archive.length, archive.length - 6); // Central directory offset
+
+    const error = await reader().readDirectory().catch((e) => e);
+
+    expect(error).toMatchObject({ code: 'ARCHIVE_DIRECTORY_CORRUPT', retryable: false });
+  });
+
+  it('should refuse a central directory larger than allowed', async () => {
+    archive = buildZip([{ name: 'a.txt', data: text }, { name: 'b.txt', data: text }]);
+    const address = mockServer.address() as { port: number };
+
+    const error = await new RemoteZipReader(`http://localhost:${address.port}/archive.zip`, undefined, { maxCentralDirectoryBytes: 64 })
+      .readDirectory()
+      .catch((e) => e);
+
+    expect(error).toMatchObject({ code: 'ARCHIVE_DIRECTORY_TOO_LARGE' });
+  });
+
+  it('should fail when the source ignores range requests', async () => {
+    archive = buildZip([{ name: 'a.txt', data: text }]);
+    rangeSupport = false;
+
+    const error = await reader().readDirectory().catch((e) => e);
+
+    expect(error).toBeInstanceOf(UrlFetchError);
+    expect(error).toMatchObject({ code: 'SOURCE_RANGE_NOT_SUPPORTED', category: 'source', retryable: false });
+  });
+
+  it('should fail when the source changes between requests', async () => {
+    archive = buildZip(reports);
+    const zipReader = reader();
+    const originalRead = zipReader.read.bind(zipReader);
+    vi.spyOn(zipReader, 'read').mockImplementation(async (offset, length, validator) => {
+      const data = await originalRead(offset, length, validator);
+      etag = '"v2"'; // Replaced right after the tail was read
+      return data;
+    });
+
+    const error = await zipReader.readDirectory().catch((e) => e);
+
+    expect(error).toMatchObject({ code: 'SOURCE_RANGE_NOT_SUPPORTED' });
+  });
+});
@@ -0,0 +1,266 @@
+import { UrlService } from './UrlService.js';
+import { ArchiveError, UrlFetchError } from '../utils/errorHandler.js';
+import {
+  CENTRAL_DIRECTORY_HEADER_SIGNATURE,
+  END_OF_CENTRAL_DIRECTORY_SIGNATURE,
+  FLAG_ENCRYPTED,
+  ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIGNATURE,
+  ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE,
+  ZIP64_MARKER_16,
+  ZIP64_MARKER_32,
+  decodeEntryName,
+  dosDateTimeToDate,
+  readExtendedTimestamp,
+  readExtraFields,
+  readZip64Fields,
+} from './ZipFormat.js';
+
+/**
+ * An entry as described by the central directory
+ */
+export interface CentralDirectoryEntry {
+  name: string;
+  method: number;
+  flags: number;
+  crc32: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  lastModified: Date;
+  zip64: boolean;
+  encrypted: boolean;
+  isDirectory: boolean;
+  localHeaderOffset: number;
+}
+
+/**
+ * What the end of central directory records and the central directory say about an archive
+ */
+export interface ZipDirectory {
+  archiveSize: number;
+  zip64: boolean; // The archive has a Zip64 end of central directory record
+  comment: string;
+  centralDirectoryOffset: number;
+  centralDirectorySize: number;
+  entries: CentralDirectoryEntry[];
+  validator?: string; // If-Range validator the directory was read with
+}
+
+export interface RemoteZipReaderOptions {
+  maxCentralDirectoryBytes: number; // Larger directories are refused rather than read
+}
+
+const END_OF_CENTRAL_DIRECTORY_LENGTH = 22; // Fixed part, before the comment
+const ZIP64_LOCATOR_LENGTH = 20;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LENGTH = 56; // Fixed part, before the extensible data
+const CENTRAL_DIRECTORY_HEADER_LENGTH = 46; // Fixed part, before name, extra field and comment
+const MAX_COMMENT_LENGTH = 0xffff;
+
+const DEFAULT_OPTIONS: RemoteZipReaderOptions = {
+  maxCentralDirectoryBytes: 64 * 1024 * 1024, // Roughly 500,000 entries with short names
+};
+
+/**
+ * Reads the central directory of a remote ZIP archive with HTTP Range requests
+ *
+ * The archive's tail is read first, which holds the end of central directory record, the
+ * comment and, for Zip64 archives, the Zip64 locator and usually the Zip64 record. The
+ * central directory itself is then read in one more request, so the entries are listed
+ * without downloading their data. Every read carries If-Range with the validator from
+ * the HEAD request, so a source that changes in between fails instead of mixing two
+ * versions of the file.
+ */
+export class RemoteZipReader {
+  private readonly options: RemoteZipReaderOptions;
+
+  constructor(
+    private readonly url: string,
+    private readonly urlService: UrlService = new UrlService(),
+    options: Partial<RemoteZipReaderOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async readDirectory(): Promise<ZipDirectory> {
+    const metadata = await this.urlService.getSourceMetadata(this.url);
+    const archiveSize = metadata.contentLength;
+    if (archiveSize < 0) {
+      throw new UrlFetchError('Source did not report its size, which reading the central directory needs', undefined, {
+        code: 'SOURCE_SIZE_UNKNOWN',
+        retryable: false,
+        remediation: 'Use a source that sends Content-Length, or transfer the archive to read it',
+      });
+    }
+    if (archiveSize < END_OF_CENTRAL_DIRECTORY_LENGTH) {
+      throw new ArchiveError('Source is not a ZIP archive');
+    }
+    // If-Range requires a strong ETag, so weak ETags fall back to Last-Modified
+    const validator = metadata.etag && !metadata.etag.startsWith('W/') ? metadata.etag : metadata.lastModified;
+
+    const tailLength = Math.min(
+      archiveSize,
+      END_OF_CENTRAL_DIRECTORY_LENGTH + MAX_COMMENT_LENGTH + ZIP64_LOCATOR_LENGTH + ZIP64_END_OF_CENTRAL_DIRECTORY_LENGTH
+    );
+    const tailOffset = archiveSize - tailLength;
+    const tail = await this.read(tailOffset, tailLength, validator);
+
+    const endIndex = this.findEndOfCentralDirectory(tail);
+    if (endIndex < 0) {
+      throw new ArchiveError('Source is not a ZIP archive');
+    }
+    const end = tail.subarray(endIndex);
+    const commentLength = end.readUInt16LE(20);
+    const comment = end.subarray(END_OF_CENTRAL_DIRECTORY_LENGTH, END_OF_CENTRAL_DIRECTORY_LENGTH + commentLength).toString('utf8');
+    let split = end.readUInt16LE(4) !== 0;
+    let centralDirectorySize = end.readUInt32LE(12);
+    let centralDirectoryOffset = end.readUInt32LE(16);
+    let directoryEnd = tailOffset + endIndex; // Where the central directory has to end
+    let zip64 = false;
+
+    const locatorIndex = endIndex - ZIP64_LOCATOR_LENGTH;
+    if (locatorIndex >= 0 && tail.readUInt32LE(locatorIndex) === ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIGNATURE) {
+      const recordOffset = Number(tail.readBigUInt64LE(locatorIndex + 8));
+      const totalDisks = tail.readUInt32LE(locatorIndex + 16);
+      if (recordOffset + ZIP64_END_OF_CENTRAL_DIRECTORY_LENGTH > tailOffset + locatorIndex) {
+        throw this.corrupt('Zip64 end of central directory locator points past the end of the archive');
+      }
+      const record = recordOffset >= tailOffset
+        ? tail.subarray(recordOffset - tailOffset, recordOffset - tailOffset + ZIP64_END_OF_CENTRAL_DIRECTORY_LENGTH)
+        : await this.read(recordOffset, ZIP64_END_OF_CENTRAL_DIRECTORY_LENGTH, validator);
+      if (record.readUInt32LE(0) !== ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+        throw this.corrupt('Zip64 end of central directory record not found where its locator points');
+      }
+      split = totalDisks > 1 || record.readUInt32LE(16) !== 0;
+      centralDirectorySize = Number(record.readBigUInt64LE(40));
+      centralDirectoryOffset = Number(record.readBigUInt64LE(48));
+      directoryEnd = recordOffset;
+      zip64 = true;
+    } else if (centralDirectoryOffset === ZIP64_MARKER_32 || end.readUInt16LE(10) === ZIP64_MARKER_16) {
+      throw this.corrupt('Archive needs a Zip64 end of central directory record but has none');
+    }
+
+    if (split) {
+      throw new ArchiveError('Archive is split across several files', undefined, {
+        code: 'UNSUPPORTED_ARCHIVE',
+        remediation: 'Split archives can only be transferred, not inspected or extracted',
+      });
+    }
+    if (centralDirectoryOffset + centralDirectorySize > directoryEnd) {
+      throw this.corrupt('Central directory lies outside the archive');
+    }
+    if (centralDirectorySize > this.options.maxCentralDirectoryBytes) {
+      throw new ArchiveError(
+        `Central directory is ${centralDirectorySize} bytes, more than the ${this.options.maxCentralDirectoryBytes} bytes read`,
+        undefined,
+        { code: 'ARCHIVE_DIRECTORY_TOO_LARGE', remediation: 'Transfer the archive to list its entries' }
+      );
+    }
+
+    const directory = centralDirectoryOffset >= tailOffset
+      ? tail.subarray(centralDirectoryOffset - tailOffset, centralDirectoryOffset - tailOffset + centralDirectorySize)
+      : await this.read(centralDirectoryOffset, centralDirectorySize, validator);
+
+    return {
+      archiveSize,
+      zip64,
+      comment,
+      centralDirectoryOffset,
+      centralDirectorySize,
+      entries: this.parseCentralDirectory(directory, centralDirectoryOffset),
+      validator,
+    };
+  }
+
+  /**
+   * Reads length bytes from offset of the archive
+   */
+  async read(offset: number, length: number, validator?: string): Promise<Buffer> {
+    if (length === 0) {
+      return Buffer.alloc(0);
+    }
+    const data = await this.urlService.fetchRange(this.url, offset, offset + length - 1, validator);
+    if (!data) {
+      throw new UrlFetchError(
+        `Source ignored range request for bytes ${offset}-${offset + length - 1}: the file changed or ranges are not supported`,
+        undefined,
+        {
+          code: 'SOURCE_RANGE_NOT_SUPPORTED',
+          retryable: false,
+          remediation: 'Reading parts of an archive needs a source that supports range requests; transfer the whole archive instead',
+        }
+      );
+    }
+    return data;
+  }
+
+  /**
+   * Index of the end of central directory record in the archive's tail, or -1
+   * The last signature whose comment fits in the tail wins; the comment itself may contain the signature.
+   */
+  private findEndOfCentralDirectory(tail: Buffer): number {
+    for (let index = tail.length - END_OF_CENTRAL_DIRECTORY_LENGTH; index >= 0; index--) {
+      if (
+        tail.readUInt32LE(index) === END_OF_CENTRAL_DIRECTORY_SIGNATURE &&
+        index + END_OF_CENTRAL_DIRECTORY_LENGTH + tail.readUInt16LE(index + 20) <= tail.length
+      ) {
+        return index;
+      }
+    }
+    return -1;
+  }
+
+  private parseCentralDirectory(directory: Buffer, directoryOffset: number): CentralDirectoryEntry[] {
+    const entries: CentralDirectoryEntry[] = [];
+    let offset = 0;
+    while (offset < directory.length) {
+      if (offset + CENTRAL_DIRECTORY_HEADER_LENGTH > directory.length || directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER_SIGNATURE) {
+        throw this.corrupt(`Central directory is corrupt at offset ${directoryOffset + offset}`);
+      }
+      const header = directory.subarray(offset);
+      const flags = header.readUInt16LE(8);
+      const nameLength = header.readUInt16LE(28);
+      const extraLength = header.readUInt16LE(30);
+      const commentLength = header.readUInt16LE(32);
+      const headerLength = CENTRAL_DIRECTORY_HEADER_LENGTH + nameLength + extraLength + commentLength;
+      if (headerLength > header.length) {
+        throw this.corrupt(`Central directory is corrupt at offset ${directoryOffset + offset}`);
+      }
+
+      const name = decodeEntryName(header.subarray(46, 46 + nameLength), flags);
+      const extra = readExtraFields(header.subarray(46 + nameLength, 46 + nameLength + extraLength));
+      let compressedSize = header.readUInt32LE(20);
+      let uncompressedSize = header.readUInt32LE(24);
+      let localHeaderOffset = header.readUInt32LE(42);
+      const zip64 = readZip64Fields(extra, {
+        uncompressedSize: uncompressedSize === ZIP64_MARKER_32,
+        compressedSize: compressedSize === ZIP64_MARKER_32,
+        localHeaderOffset: localHeaderOffset === ZIP64_MARKER_32,
+        diskNumber: header.readUInt16LE(34) === ZIP64_MARKER_16,
+      });
+      if (zip64) {
+        uncompressedSize = zip64.uncompressedSize ?? uncompressedSize;
+        compressedSize = zip64.compressedSize ?? compressedSize;
+        localHeaderOffset = zip64.localHeaderOffset ?? localHeaderOffset;
+      }
+
+      entries.push({
+        name,
+        method: header.readUInt16LE(10),
+        flags,
+        crc32: header.readUInt32LE(16),
+        compressedSize,
+        uncompressedSize,
+        lastModified: readExtendedTimestamp(extra) ?? dosDateTimeToDate(header.readUInt16LE(14), header.readUInt16LE(12)),
+        zip64: zip64 !== undefined,
+        encrypted: (flags & FLAG_ENCRYPTED) !== 0,
+        isDirectory: name.endsWith('/'),
+        localHeaderOffset,
+      });
+      offset += headerLength;
+    }
+    return entries;
+  }
+
+  private corrupt(message: string): ArchiveError {
+    return new ArchiveError(message, undefined, { code: 'ARCHIVE_DIRECTORY_CORRUPT' });
+  }
+}
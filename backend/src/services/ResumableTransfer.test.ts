@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StreamingService } from './StreamingService.js';
+import { ChecksumService } from './ChecksumService.js';
+import { TokenBucket } from './TokenBucket.js';
+import http from 'http';
+import { createHash } from 'crypto';
+
+/**
+ * Tests for resuming interrupted transfers from a saved upload checkpoint
+ *
+ * Validates that:
+ * - Parts already in S3 are kept and the source is read with an HTTP Range request
+ * - The object CRC32C is continued from the kept parts' CRC32Cs without reading them again
+ * - The kept prefix is only re-read, at the transfer's rate limit, to verify an expected checksum
+ * - A source that changed since the checkpoint restarts the transfer from byte zero
+ * - Only the leading run of full-size parts is reused
+ */
+describe('StreamingService - Resumable Transfers', () => {
+  const PART_SIZE = 5 * 1024 * 1024; // 5MB (S3 minimum)
+  const FILE_SIZE = 12 * 1024 * 1024; // 12MB: two full parts and a 2MB tail
+  const ETAG = '"source-etag-v1"';
+  const CONTENT = Buffer.alloc(FILE_SIZE, 'x');
+  const PART_CRC32C = ChecksumService.computePartChecksum(1, CONTENT.subarray(0, PART_SIZE)).crc32c;
+  const CONTENT_SHA256 = createHash('sha256').update(CONTENT).digest('hex');
+
+  let streamingService: StreamingService;
+  let mockServer: http.Server;
+  let rangeHeaders: (string | undefined)[];
+  let currentEtag: string;
+
+  beforeEach(async () => {
+    streamingService = new StreamingService();
+    // Files this small would otherwise go up with a single PutObject
+    (streamingService as any).LARGE_FILE_THRESHOLD = 0;
+    rangeHeaders = [];
+    currentEtag = ETAG;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    mockServer = http.createServer((req, res) => {
+      const baseHeaders = {
+        'Content-Type': 'application/zip',
+        'Accept-Ranges': 'bytes',
+        'ETag': currentEtag,
+      };
+
+      if (req.method === 'HEAD') {
+        res.writeHead(200, { ...baseHeaders, 'Content-Length': FILE_SIZE.toString() });
+        res.end();
+        return;
+      }
+
+      rangeHeaders.push(req.headers['range']);
+      const range = req.headers['range']?.match(/^bytes=(\d+)-(\d*)$/);
+      const ifRangeMatches = !req.headers['if-range'] || req.headers['if-range'] === currentEtag;
+
+      if (range && ifRangeMatches) {
+        const start = parseInt(range[1], 10);
+        const end = range[2] ? parseInt(range[2], 10) : FILE_SIZE - 1;
+        res.writeHead(206, {
+          ...baseHeaders,
+          'Content-Length': (end - start + 1).toString(),
+          'Content-Range': `bytes ${start}-${end}/${FILE_SIZE}`,
+        });
+        res.end(CONTENT.subarray(start, end + 1));
+      } else {
+        res.writeHead(200, { ...baseHeaders, 'Content-Length': FILE_SIZE.toString() });
+        res.end(CONTENT);
+      }
+    });
+
+    await new Promise<void>((resolve) => mockServer.listen(0, () => resolve()));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise<void>((resolve) => mockServer.close(() => resolve()));
+  });
+
+  const sourceUrl = () => {
+    const address = mockServer.address() as { port: number };
+    return `http://localhost:${address.port}/archive.zip`;
+  };
+
+  const createMockS3Service = (uploadedParts: { PartNumber: number; ETag: string; Size: number; ChecksumCRC32C?: string }[]) => ({
+    validateBucketAccess: vi.fn().mockResolvedValue(true),
+    createMultipartUpload: vi.fn().mockResolvedValue('new-upload-id'),
+    listParts: vi.fn().mockResolvedValue(uploadedParts),
+    uploadPart: vi.fn().mockImplementation(async (_b: string, _k: string, _u: string, partNumber: number) => `etag-${partNumber}`),
+    completeUpload: vi.fn().mockResolvedValue('s3://test-bucket/archive.zip'),
+    headObject: vi.fn().mockImplementation(async () => ({ ContentLength: FILE_SIZE })),
+    abortUpload: vi.fn().mockResolvedValue(undefined),
+  });
+
+  const checkpoint = {
+    uploadId: 'old-upload-id',
+    partSize: PART_SIZE,
+    totalBytes: FILE_SIZE,
+    completedPartNumbers: [1, 2],
+    sourceEtag: ETAG,
+  };
+
+  it('should resume from the next byte after the uploaded parts', async () => {
+    const mockS3Service = createMockS3Service([
+      { PartNumber: 1, ETag: 'etag-1', Size: PART_SIZE, ChecksumCRC32C: PART_CRC32C },
+      { PartNumber: 2, ETag: 'etag-2', Size: PART_SIZE, ChecksumCRC32C: PART_CRC32C },
+    ]);
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, { checkpoint });
+
+    expect(result.success).toBe(true);
+    expect(result.bytesTransferred).toBe(FILE_SIZE);
+    expect(rangeHeaders).toEqual([`bytes=${2 * PART_SIZE}-`]);
+    expect(mockS3Service.createMultipartUpload).not.toHaveBeenCalled();
+    expect(mockS3Service.uploadPart).toHaveBeenCalledTimes(1);
+    expect(mockS3Service.uploadPart.mock.calls[0][2]).toBe('old-upload-id');
+    expect(mockS3Service.uploadPart.mock.calls[0][3]).toBe(3);
+
+    const completedParts = mockS3Service.completeUpload.mock.calls[0][3];
+    expect(completedParts.map((part: any) => part.PartNumber)).toEqual([1, 2, 3]);
+    expect(completedParts.every((part: any) => part.ChecksumCRC32C)).toBe(true);
+
+    // The object CRC32C covers the kept parts as well as the new bytes, the SHA-256 can't
+    expect(result.checksums).toEqual({ crc32c: ChecksumService.crc32cToBuffer(ChecksumService.crc32c(CONTENT)).toString('hex') });
+    expect(result.partChecksums?.map(part => part.partNumber)).toEqual([1, 2, 3]);
+  });
+
+  it('should re-read the kept parts to verify an expected checksum', async () => {
+    const mockS3Service = createMockS3Service([
+      { PartNumber: 1, ETag: 'etag-1', Size: PART_SIZE, ChecksumCRC32C: PART_CRC32C },
+      { PartNumber: 2, ETag: 'etag-2', Size: PART_SIZE, ChecksumCRC32C: PART_CRC32C },
+    ]);
+    (streamingService as any).s3Service = mockS3Service;
+    const consume = vi.spyOn(TokenBucket.prototype, 'consume');
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      checkpoint,
+      expectedChecksum: { algorithm: 'sha256', value: CONTENT_SHA256 },
+      maxBytesPerSecond: 1024 * 1024 * 1024,
+    });
+
+    expect(result.success).toBe(true);
+    expect(rangeHeaders).toEqual([`bytes=0-${2 * PART_SIZE - 1}`, `bytes=${2 * PART_SIZE}-`]);
+    expect(mockS3Service.uploadPart.mock.calls.map((call: any[]) => call[3])).toEqual([3]);
+    expect(result.checksums?.sha256).toBe(CONTENT_SHA256);
+    // The re-read counts against the rate limit like the new bytes
+    expect(consume.mock.calls.reduce((total, [bytes]) => total + bytes, 0)).toBe(FILE_SIZE);
+  });
+
+  it('should restart from byte zero when a re-read kept part does not match the source', async () => {
+    const mockS3Service = createMockS3Service([
+      { PartNumber: 1, ETag: 'etag-1', Size: PART_SIZE, ChecksumCRC32C: PART_CRC32C },
+      { PartNumber: 2, ETag: 'etag-2', Size: PART_SIZE, ChecksumCRC32C: 'AAAAAA==' },
+    ]);
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      checkpoint,
+      expectedChecksum: { algorithm: 'sha256', value: CONTENT_SHA256 },
+    });
+
+    expect(result.success).toBe(true);
+    expect(mockS3Service.abortUpload).toHaveBeenCalledWith('test-bucket', 'archive.zip', 'old-upload-id');
+    expect(mockS3Service.createMultipartUpload).toHaveBeenCalledTimes(1);
+    expect(rangeHeaders).toEqual([`bytes=0-${2 * PART_SIZE - 1}`, undefined]);
+    expect(result.checksums?.sha256).toBe(CONTENT_SHA256);
+  });
+
+  it('should trust S3 ListParts over the recorded part numbers', async () => {
+    const mockS3Service = createMockS3Service([
+      { PartNumber: 1, ETag: 'etag-1', Size: PART_SIZE, ChecksumCRC32C: PART_CRC32C },
+      { PartNumber: 2, ETag: 'etag-2', Size: PART_SIZE, ChecksumCRC32C: PART_CRC32C },
+    ]);
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      checkpoint: { ...checkpoint, completedPartNumbers: [1] },
+    });
+
+    expect(result.success).toBe(true);
+    expect(rangeHeaders).toEqual([`bytes=${2 * PART_SIZE}-`]);
+  });
+
+  it('should only keep the leading run of full-size parts', async () => {
+    const mockS3Service = createMockS3Service([
+      { PartNumber: 1, ETag: 'etag-1', Size: PART_SIZE, ChecksumCRC32C: PART_CRC32C },
+      { PartNumber: 3, ETag: 'etag-3', Size: 2 * 1024 * 1024, ChecksumCRC32C: PART_CRC32C },
+    ]);
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, { checkpoint });
+
+    expect(result.success).toBe(true);
+    expect(rangeHeaders).toEqual([`bytes=${PART_SIZE}-`]);
+    expect(mockS3Service.uploadPart.mock.calls.map((call: any[]) => call[3])).toEqual([2, 3]);
+  });
+
+  it('should restart from byte zero when the source ETag changed', async () => {
+    currentEtag = '"source-etag-v2"';
+    const mockS3Service = createMockS3Service([
+      { PartNumber: 1, ETag: 'etag-1', Size: PART_SIZE, ChecksumCRC32C: PART_CRC32C },
+      { PartNumber: 2, ETag: 'etag-2', Size: PART_SIZE, ChecksumCRC32C: PART_CRC32C },
+    ]);
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, { checkpoint });
+
+    expect(result.success).toBe(true);
+    expect(mockS3Service.abortUpload).toHaveBeenCalledWith('test-bucket', 'archive.zip', 'old-upload-id');
+    expect(mockS3Service.createMultipartUpload).toHaveBeenCalledTimes(1);
+    expect(rangeHeaders).toEqual([undefined]);
+  });
+
+  it('should restart from byte zero when the upload no longer exists', async () => {
+    const mockS3Service = createMockS3Service([]);
+    mockS3Service.listParts.mockRejectedValue(new Error('Multipart upload does not exist or was aborted'));
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, { checkpoint });
+
+    expect(result.success).toBe(true);
+    expect(mockS3Service.createMultipartUpload).toHaveBeenCalledTimes(1);
+    expect(rangeHeaders).toEqual([undefined]);
+  });
+});
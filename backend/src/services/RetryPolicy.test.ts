@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RetryPolicy } from './RetryPolicy.js';
+import { ErrorHandler, S3Error, TransferInterruptedError, UrlFetchError } from '../utils/errorHandler.js';
+
+/**
+ * Tests for the retry policy
+ *
+ * Validates that:
+ * - Only errors ErrorHandler.isRetryable accepts are retried, others fail right away
+ * - The backoff grows exponentially up to the cap, with at most half of it dropped by jitter
+ * - No more than maxAttempts attempts are made
+ */
+describe('RetryPolicy', () => {
+  const reset = () => Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+  const notFound = () => ErrorHandler.handleUrlFetchError(
+    Object.assign(new Error('Request failed with status code 404'), { response: { status: 404 } })
+  );
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('decide', () => {
+    const policy = new RetryPolicy({ maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 60000, jitter: false });
+
+    it('should retry retryable errors until maxAttempts', () => {
+      expect(policy.decide(reset(), 1)).toEqual({ retry: true, delayMs: 1000, reason: 'retryable' });
+      expect(policy.decide(reset(), 2)).toEqual({ retry: true, delayMs: 2000, reason: 'retryable' });
+      expect(policy.decide(reset(), 3)).toEqual({ retry: false, delayMs: 0, reason: 'exhausted' });
+    });
+
+    it('should not retry errors that are not retryable', () => {
+      expect(policy.decide(notFound(), 1)).toEqual({ retry: false, delayMs: 0, reason: 'not-retryable' });
+      expect(policy.decide(new S3Error('Access denied', undefined, { retryable: false }), 1).retry).toBe(false);
+      expect(policy.decide('boom', 1).retry).toBe(false);
+    });
+
+    it('should retry throttling and interruptions', () => {
+      const slowDown = Object.assign(new Error('Please reduce your request rate.'), {
+        name: 'SlowDown',
+        $metadata: { httpStatusCode: 503 },
+      });
+
+      expect(policy.decide(new S3Error('S3 operation failed', slowDown), 1).retry).toBe(true);
+      expect(policy.decide(new TransferInterruptedError(), 1).retry).toBe(true);
+    });
+  });
+
+  describe('delayFor', () => {
+    it('should grow exponentially up to maxDelayMs', () => {
+      const policy = new RetryPolicy({ maxAttempts: 10, baseDelayMs: 1000, maxDelayMs: 5000, jitter: false });
+
+      expect([1, 2, 3, 4, 5].map(attempt => policy.delayFor(attempt))).toEqual([1000, 2000, 4000, 5000, 5000]);
+    });
+
+    it('should keep between half and all of the backoff with jitter', () => {
+      expect(new RetryPolicy({ maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 60000 }, () => 0).delayFor(3)).toBe(2000);
+      expect(new RetryPolicy({ maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 60000 }, () => 0.5).delayFor(3)).toBe(3000);
+      expect(new RetryPolicy({ maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 60000 }, () => 0.999).delayFor(3)).toBe(3998);
+    });
+
+    it('should use the backoff rate', () => {
+      const policy = new RetryPolicy({ maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 60000, backoffRate: 3, jitter: false });
+
+      expect(policy.delayFor(3)).toBe(9000);
+    });
+  });
+
+  describe('run', () => {
+    let policy: RetryPolicy;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      policy = new RetryPolicy({ maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 60000, jitter: false });
+    });
+
+    it('should retry until the operation succeeds', async () => {
+      const operation = vi.fn()
+        .mockRejectedValueOnce(reset())
+        .mockRejectedValueOnce(reset())
+        .mockResolvedValueOnce('done');
+      const onRetry = vi.fn();
+
+      const result = policy.run(operation, { onRetry });
+      await vi.runAllTimersAsync();
+
+      await expect(result).resolves.toBe('done');
+      expect(operation.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2, 3]);
+      expect(onRetry.mock.calls.map(([, attempt, decision]) => [attempt, decision.delayMs])).toEqual([[1, 1000], [2, 2000]]);
+    });
+
+    it('should throw the last error once the attempts are used up', async () => {
+      const lastError = reset();
+      const operation = vi.fn()
+        .mockRejectedValueOnce(reset())
+        .mockRejectedValueOnce(reset())
+        .mockRejectedValueOnce(lastError);
+
+      const result = policy.run(operation).catch(error => error);
+      await vi.runAllTimersAsync();
+
+      expect(await result).toBe(lastError);
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should fail right away on an error that is not retryable', async () => {
+      const error = notFound();
+      const operation = vi.fn().mockRejectedValue(error);
+
+      await expect(policy.run(operation)).rejects.toBe(error);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop retrying once the signal is aborted', async () => {
+      const controller = new AbortController();
+      const operation = vi.fn().mockImplementation(async () => {
+        controller.abort();
+        throw new UrlFetchError('Connection reset by source server', reset());
+      });
+
+      await expect(policy.run(operation, { signal: controller.signal })).rejects.toThrow('Connection reset by source server');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { ErrorHandler } from '../utils/errorHandler.js';
+
+export interface RetryPolicyOptions {
+  maxAttempts: number; // Attempts in total, including the first
+  baseDelayMs: number; // Backoff before the second attempt
+  maxDelayMs: number; // Cap for the backoff
+  backoffRate?: number; // Growth of the backoff per attempt, default 2
+  jitter?: boolean; // Randomise the backoff, default true
+}
+
+/**
+ * Why an attempt is or isn't retried
+ * - retryable: ErrorHandler.isRetryable says another attempt can succeed
+ * - not-retryable: it can't (e.g. HTTP 404 or access denied), the operation fails right away
+ * - exhausted: the error is retryable but maxAttempts were made
+ */
+export type RetryReason = 'retryable' | 'not-retryable' | 'exhausted';
+
+export interface RetryDecision {
+  retry: boolean;
+  delayMs: number; // Backoff before the next attempt, 0 when not retrying
+  reason: RetryReason;
+}
+
+export interface RetryRunOptions {
+  signal?: AbortSignal; // No further attempts once aborted
+  onRetry?: (error: unknown, attempt: number, decision: RetryDecision) => void; // Called before each backoff
+}
+
+/**
+ * Exponential backoff with jitter for retryable errors
+ *
+ * One policy decides for failed part uploads and range downloads (run) and for failed
+ * transfer attempts that Step Functions reschedules (decide). Only errors
+ * ErrorHandler.isRetryable accepts are retried. The backoff before attempt n + 1 is
+ * baseDelayMs * backoffRate^(n - 1), capped at maxDelayMs. With jitter, a random half
+ * of it is dropped ("equal jitter"), so workers that failed together don't retry together
+ * while every retry still waits at least half the backoff.
+ */
+export class RetryPolicy {
+  readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly backoffRate: number;
+  private readonly jitter: boolean;
+  private readonly random: () => number;
+
+  constructor(options: RetryPolicyOptions, random: () => number = Math.random) {
+    this.maxAttempts = Math.max(1, options.maxAttempts);
+    this.baseDelayMs = Math.max(0, options.baseDelayMs);
+    this.maxDelayMs = Math.max(this.baseDelayMs, options.maxDelayMs);
+    this.backoffRate = Math.max(1, options.backoffRate ?? 2);
+    this.jitter = options.jitter ?? true;
+    this.random = random;
+  }
+
+  /**
+   * Whether the given attempt (1-based) that failed with error is retried, and after how long
+   */
+  decide(error: unknown, attempt: number): RetryDecision {
+    if (!(error instanceof Error) || !ErrorHandler.isRetryable(error)) {
+      return { retry: false, delayMs: 0, reason: 'not-retryable' };
+    }
+    if (attempt >= this.maxAttempts) {
+      return { retry: false, delayMs: 0, reason: 'exhausted' };
+    }
+    return { retry: true, delayMs: this.delayFor(attempt), reason: 'retryable' };
+  }
+
+  /**
+   * Backoff after the given attempt (1-based) failed
+   */
+  delayFor(attempt: number): number {
+    const backoff = Math.min(this.maxDelayMs, this.baseDelayMs * this.backoffRate ** Math.max(0, attempt - 1));
+    if (!this.jitter) {
+      return Math.round(backoff);
+    }
+    return Math.round(backoff / 2 + this.random() * (backoff / 2));
+  }
+
+  /**
+   * Runs operation until it succeeds, fails with an error that isn't retried, or the signal is aborted
+   * The error of the last attempt is thrown as is.
+   */
+  async run<T>(operation: (attempt: number) => Promise<T>, options: RetryRunOptions = {}): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation(attempt);
+      } catch (error) {
+        const decision = this.decide(error, attempt);
+        if (!decision.retry || options.signal?.aborted) {
+          throw error;
+        }
+        options.onRetry?.(error, attempt, decision);
+        await new Promise(resolve => setTimeout(resolve, decision.delayMs));
+      }
+    }
+  }
+}
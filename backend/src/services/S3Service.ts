@@ -1,11 +1,19 @@
 import {
   S3Client,
   HeadBucketCommand,
+  PutObjectCommand,
   CreateMultipartUploadCommand,
   UploadPartCommand,
   CompleteMultipartUploadCommand,
   AbortMultipartUploadCommand,
+  DeleteObjectsCommand,
+  ListPartsCommand,
+  ListMultipartUploadsCommand,
+  HeadObjectCommand,
+  HeadObjectCommandOutput,
   CompletedPart,
+  MultipartUpload,
+  Part,
 } from '@aws-sdk/client-s3';
 import { ErrorHandler, S3Error } from '../utils/errorHandler.js';
 
@@ -41,8 +49,47 @@ export class S3Service {
     }
   }
 
+  /**
+   * Uploads a whole object with a single PutObject request
+   * Used for small files where a multipart upload only adds round trips
+   * When checksumCRC32C (base64) is given, S3 rejects the object if the received bytes don't match
+   * Returns the S3 location URL
+   */
+  async putObject(
+    bucket: string,
+    key: string,
+    data: Buffer,
+    checksumCRC32C?: string,
+    contentType: string = 'application/octet-stream' // Generic binary content type for any file
+  ): Promise<string> {
+    const startTime = Date.now();
+    try {
+      console.log(`Uploading ${key} with a single PutObject (${(data.length / 1024 / 1024).toFixed(2)} MB)...`);
+
+      const command = new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: data,
+        ContentType: contentType,
+        ChecksumAlgorithm: checksumCRC32C ? 'CRC32C' : undefined,
+        ChecksumCRC32C: checksumCRC32C,
+      });
+
+      await this.s3Client.send(command);
+
+      const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+      console.log(`Object uploaded in ${duration}s`);
+
+      return `s3://${bucket}/${key}`;
+    } catch (error: any) {
+      console.error('Failed to upload object:', error);
+      throw ErrorHandler.handleS3Error(error, bucket);
+    }
+  }
+
   /**
    * Creates a multipart upload
+   * Parts are verified by S3 with CRC32C additional checksums
    * Returns the upload ID
    */
   async createMultipartUpload(bucket: string, key: string): Promise<string> {
@@ -51,6 +98,7 @@ export class S3Service {
         Bucket: bucket,
         Key: key,
         ContentType: 'application/octet-stream', // Generic binary content type for any file
+        ChecksumAlgorithm: 'CRC32C',
       });
 
       const response = await this.s3Client.send(command);
@@ -68,6 +116,7 @@ export class S3Service {
 
   /**
    * Uploads a single part of a multipart upload
+   * When checksumCRC32C (base64) is given, S3 rejects the part if the received bytes don't match
    * Returns the ETag for the uploaded part
    */
   async uploadPart(
@@ -75,7 +124,8 @@ export class S3Service {
     key: string,
     uploadId: string,
     partNumber: number,
-    data: Buffer
+    data: Buffer,
+    checksumCRC32C?: string
   ): Promise<string> {
     const startTime = Date.now();
     try {
@@ -87,6 +137,8 @@ export class S3Service {
         UploadId: uploadId,
         PartNumber: partNumber,
         Body: data,
+        ChecksumAlgorithm: checksumCRC32C ? 'CRC32C' : undefined,
+        ChecksumCRC32C: checksumCRC32C,
       });
 
       const response = await this.s3Client.send(command);
@@ -116,6 +168,7 @@ export class S3Service {
 
   /**
    * Completes a multipart upload
+   * Parts should carry their ChecksumCRC32C so S3 can verify the assembled object
    * Returns the S3 location URL
    */
   async completeUpload(
@@ -151,12 +204,93 @@ export class S3Service {
     }
   }
 
+  /**
+   * Reads the size and CRC32C checksum of a written object
+   * Used to verify an upload once S3 reports it complete
+   */
+  async headObject(bucket: string, key: string): Promise<HeadObjectCommandOutput> {
+    try {
+      return await this.s3Client.send(new HeadObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        ChecksumMode: 'ENABLED',
+      }));
+    } catch (error: any) {
+      console.error('Failed to read uploaded object metadata:', error);
+      throw ErrorHandler.handleS3Error(error, bucket);
+    }
+  }
+
+  /**
+   * Lists the parts already uploaded for a multipart upload
+   * Used to reconcile a saved checkpoint with what S3 actually holds before resuming
+   */
+  async listParts(bucket: string, key: string, uploadId: string): Promise<Part[]> {
+    try {
+      const parts: Part[] = [];
+      let partNumberMarker: string | undefined;
+
+      // ListParts returns at most 1,000 parts per page
+      do {
+        const response = await this.s3Client.send(
+          new ListPartsCommand({
+            Bucket: bucket,
+            Key: key,
+            UploadId: uploadId,
+            PartNumberMarker: partNumberMarker,
+          })
+        );
+
+        parts.push(...(response.Parts || []));
+        partNumberMarker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+      } while (partNumberMarker);
+
+      return parts;
+    } catch (error: any) {
+      console.error(`Failed to list parts for multipart upload ${uploadId}:`, error.message || error);
+      throw ErrorHandler.handleS3Error(error, bucket);
+    }
+  }
+
+  /**
+   * Lists the multipart uploads in progress in a bucket
+   * Used to find uploads left behind by workers that never completed or aborted them
+   */
+  async listMultipartUploads(bucket: string): Promise<MultipartUpload[]> {
+    try {
+      const uploads: MultipartUpload[] = [];
+      let keyMarker: string | undefined;
+      let uploadIdMarker: string | undefined;
+
+      // ListMultipartUploads returns at most 1,000 uploads per page
+      do {
+        const response = await this.s3Client.send(
+          new ListMultipartUploadsCommand({
+            Bucket: bucket,
+            KeyMarker: keyMarker,
+            UploadIdMarker: uploadIdMarker,
+          })
+        );
+
+        uploads.push(...(response.Uploads || []));
+        keyMarker = response.IsTruncated ? response.NextKeyMarker : undefined;
+        uploadIdMarker = response.IsTruncated ? response.NextUploadIdMarker : undefined;
+      } while (keyMarker);
+
+      return uploads;
+    } catch (error: any) {
+      console.error(`Failed to list multipart uploads in ${bucket}:`, error.message || error);
+      throw ErrorHandler.handleS3Error(error, bucket);
+    }
+  }
+
   /**
    * Aborts a multipart upload
    * Used for cleanup when transfer fails
+   * Returns whether the upload was aborted; errors are logged, not thrown
    * Requirements: 3.5, 8.3 - Handle S3 errors and cleanup on failure
    */
-  async abortUpload(bucket: string, key: string, uploadId: string): Promise<void> {
+  async abortUpload(bucket: string, key: string, uploadId: string): Promise<boolean> {
     try {
       const command = new AbortMultipartUploadCommand({
         Bucket: bucket,
@@ -166,6 +300,7 @@ export class S3Service {
 
       await this.s3Client.send(command);
       console.log(`Aborted multipart upload ${uploadId} for ${bucket}/${key}`);
+      return true;
     } catch (error: any) {
       // Log detailed error but don't throw - this is cleanup
       // We don't want to mask the original error that caused the abort
@@ -177,6 +312,37 @@ export class S3Service {
       } else if (error.name === 'AccessDenied') {
         console.error('Insufficient permissions to abort upload');
       }
+      return false;
+    }
+  }
+
+  /**
+   * Deletes objects, in batches of up to 1000 keys
+   * Used to remove objects a failed transfer wrote that must not stay behind
+   * Returns how many were deleted; errors are logged, not thrown
+   */
+  async deleteObjects(bucket: string, keys: string[]): Promise<number> {
+    let deleted = 0;
+    for (let start = 0; start < keys.length; start += 1000) {
+      const batch = keys.slice(start, start + 1000);
+      try {
+        const command = new DeleteObjectsCommand({
+          Bucket: bucket,
+          Delete: { Objects: batch.map((key) => ({ Key: key })), Quiet: true },
+        });
+
+        const response = await this.s3Client.send(command);
+        // Quiet mode only reports the keys that failed
+        for (const error of response.Errors ?? []) {
+          console.error(`Failed to delete ${bucket}/${error.Key}: ${error.Code} ${error.Message}`);
+        }
+        deleted += batch.length - (response.Errors?.length ?? 0);
+      } catch (error: any) {
+        // Cleanup, don't mask the error that caused it
+        console.error(`Failed to delete ${batch.length} objects in ${bucket}:`, error.message || error);
+      }
     }
+    console.log(`Deleted ${deleted} of ${keys.length} objects in ${bucket}`);
+    return deleted;
   }
 }
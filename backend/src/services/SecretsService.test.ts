@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { SecretsService } from './SecretsService.js';
+import { ArchiveError } from '../utils/errorHandler.js';
+
+/**
+ * Tests for reading archive passwords from Secrets Manager
+ *
+ * Validates that:
+ * - The password is the secret's string value
+ * - Missing, forbidden and empty secrets fail with ARCHIVE_PASSWORD_UNAVAILABLE and aren't retried
+ * - Throttling is retried
+ */
+describe('SecretsService', () => {
+  const secretId = 's3-zip-downloader/archive-passwords/partner-a';
+
+  let service: SecretsService;
+  let send: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    service = new SecretsService('us-east-1');
+    send = vi.fn();
+    (service as any).client = { send };
+  });
+
+  const awsError = (name: string, httpStatusCode = 400) =>
+    Object.assign(new Error(`${name} raised`), { name, $metadata: { httpStatusCode } });
+
+  it('should return the secret string as the password', async () => {
+    send.mockResolvedValue({ SecretString: 'correct horse' });
+
+    await expect(service.getArchivePassword(secretId)).resolves.toBe('correct horse');
+
+    const command = send.mock.calls[0][0];
+    expect(command).toBeInstanceOf(GetSecretValueCommand);
+    expect(command.input).toEqual({ SecretId: secretId });
+  });
+
+  it('should fail without a retry when the secret is missing or forbidden', async () => {
+    for (const name of ['ResourceNotFoundException', 'AccessDeniedException']) {
+      send.mockRejectedValueOnce(awsError(name));
+
+      const error = await service.getArchivePassword(secretId).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ArchiveError);
+      expect(error).toMatchObject({ code: 'ARCHIVE_PASSWORD_UNAVAILABLE', category: 'source', retryable: false });
+      expect(error.message).toContain(secretId);
+      expect(error.message).toContain(`${name} raised`);
+    }
+  });
+
+  it('should fail without a retry when the secret has no string value', async () => {
+    send.mockResolvedValue({ SecretBinary: new Uint8Array([1, 2, 3]) });
+
+    const error = await service.getArchivePassword(secretId).catch((e) => e);
+
+    expect(error).toMatchObject({ code: 'ARCHIVE_PASSWORD_UNAVAILABLE', retryable: false });
+  });
+
+  it('should retry when Secrets Manager throttles the request', async () => {
+    send.mockRejectedValue(awsError('ThrottlingException', 429));
+
+    const error = await service.getArchivePassword(secretId).catch((e) => e);
+
+    expect(error).toMatchObject({ code: 'ARCHIVE_PASSWORD_UNAVAILABLE', category: 'internal', retryable: true });
+  });
+});
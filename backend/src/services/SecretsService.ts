@@ -0,0 +1,47 @@
+import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { ArchiveError, ErrorHandler } from '../utils/errorHandler.js';
+
+/**
+ * Secrets Manager errors that won't go away on a retry
+ */
+const PERMANENT_SECRET_ERRORS = ['ResourceNotFoundException', 'AccessDeniedException', 'InvalidRequestException', 'DecryptionFailure'];
+
+/**
+ * Service for reading archive passwords from Secrets Manager
+ * Passwords are read when the worker needs them and never stored on the transfer record.
+ */
+export class SecretsService {
+  private client: SecretsManagerClient;
+
+  constructor(region?: string) {
+    this.client = new SecretsManagerClient({ region: region || process.env.AWS_REGION || 'us-east-1' });
+  }
+
+  /**
+   * Reads the password an encrypted archive is extracted with
+   * secretId is the ARN or name of a secret whose SecretString is the password.
+   */
+  async getArchivePassword(secretId: string): Promise<string> {
+    let secretString: string | undefined;
+    try {
+      const response = await this.client.send(new GetSecretValueCommand({ SecretId: secretId }));
+      secretString = response.SecretString;
+    } catch (error: any) {
+      const permanent = PERMANENT_SECRET_ERRORS.includes(error.name);
+      throw new ArchiveError(`Failed to read the archive password from secret ${secretId}: ${error.message}`, undefined, {
+        code: 'ARCHIVE_PASSWORD_UNAVAILABLE',
+        category: permanent ? 'source' : 'internal',
+        retryable: !permanent && ErrorHandler.isRetryable(error),
+        remediation: 'Check that the secret exists, holds the password as a string and is one the worker may read',
+      });
+    }
+
+    if (!secretString) {
+      throw new ArchiveError(`Secret ${secretId} has no string value to use as the archive password`, undefined, {
+        code: 'ARCHIVE_PASSWORD_UNAVAILABLE',
+        remediation: 'Store the password as the secret\'s string value',
+      });
+    }
+    return secretString;
+  }
+}
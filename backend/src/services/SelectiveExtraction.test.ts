@@ -0,0 +1,249 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StreamingService } from './StreamingService.js';
+import { buildZip } from '../test/zipBuilder.js';
+import http from 'http';
+
+/**
+ * Tests for extracting only the entries of a remote archive that match glob patterns
+ *
+ * Validates that:
+ * - Only matching file entries are read, each with its own range request
+ * - Entries written with a data descriptor or larger than a part are extracted
+ * - Progress counts the archive bytes of the selected entries
+ * - Patterns that match nothing, sources without range support and sources that
+ *   change after the central directory was read fail with a specific code
+ * - Selected entries are held to the extraction limits
+ */
+describe('StreamingService - Selective Extraction', () => {
+  const MB = 1024 * 1024;
+  const PART_SIZE = 5 * MB;
+
+  let streamingService: StreamingService;
+  let mockServer: http.Server;
+  let archive: Buffer;
+  let rangeSupport: boolean;
+  let etag: string;
+  let requestedRanges: Array<[number, number]>;
+
+  const text = (label: string) => Buffer.from(`${label}: the quick brown fox jumps over the lazy dog.\n`.repeat(200));
+  // Pseudo-random, so it deflates about as well as real data and stays within the compression ratio limit
+  const large = Buffer.alloc(12 * MB);
+  let seed = 7;
+  for (let i = 0; i < large.length; i++) {
+    seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+    large[i] = seed >>> 24;
+  }
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    streamingService = new StreamingService();
+    vi.spyOn(streamingService as any, 'calculateOptimalPartSize').mockReturnValue(PART_SIZE);
+    rangeSupport = true;
+    etag = '"v1"';
+    requestedRanges = [];
+
+    mockServer = http.createServer((req, res) => {
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/zip',
+        'ETag': etag,
+        ...(rangeSupport ? { 'Accept-Ranges': 'bytes' } : {}),
+      };
+      const range = req.headers.range?.match(/^bytes=(\d+)-(\d+)$/);
+      const ifRange = req.headers['if-range'];
+      if (req.method === 'HEAD' || !rangeSupport || !range || (ifRange && ifRange !== etag)) {
+        res.writeHead(200, { ...headers, 'Content-Length': archive.length.toString() });
+        res.end(req.method === 'HEAD' ? undefined : archive);
+        return;
+      }
+      const start = Number(range[1]);
+      const end = Math.min(Number(range[2]), archive.length - 1);
+      requestedRanges.push([start, end]);
+      res.writeHead(206, {
+        ...headers,
+        'Content-Length': (end - start + 1).toString(),
+        'Content-Range': `bytes ${start}-${end}/${archive.length}`,
+      });
+      res.end(archive.subarray(start, end + 1));
+    });
+
+    await new Promise<void>((resolve) => mockServer.listen(0, () => resolve()));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise<void>((resolve) => mockServer.close(() => resolve()));
+  });
+
+  const sourceUrl = () => {
+    const address = mockServer.address() as { port: number };
+    return `http://localhost:${address.port}/release.zip`;
+  };
+
+  const createMockS3Service = () => {
+    const parts = new Map<string, Buffer[]>();
+    return {
+      parts,
+      validateBucketAccess: vi.fn().mockResolvedValue(true),
+      putObject: vi.fn().mockImplementation(async (bucket: string, key: string) => `s3://${bucket}/${key}`),
+      createMultipartUpload: vi.fn().mockImplementation(async (_b: string, key: string) => `upload-${key}`),
+      uploadPart: vi.fn().mockImplementation(async (_b: string, key: string, _u: string, partNumber: number, data: Buffer) => {
+        const keyParts = parts.get(key) ?? [];
+        keyParts[partNumber - 1] = Buffer.from(data);
+        parts.set(key, keyParts);
+        return `etag-${partNumber}`;
+      }),
+      completeUpload: vi.fn().mockImplementation(async (bucket: string, key: string) => `s3://${bucket}/${key}`),
+      headObject: vi.fn().mockResolvedValue({}),
+      abortUpload: vi.fn().mockResolvedValue(true),
+    };
+  };
+
+  const putKeys = (mockS3Service: ReturnType<typeof createMockS3Service>) =>
+    mockS3Service.putObject.mock.calls.map(([, key]: any[]) => key);
+
+  const putBody = (mockS3Service: ReturnType<typeof createMockS3Service>, key: string): Buffer | undefined =>
+    mockS3Service.putObject.mock.calls.find(([, k]: any[]) => k === key)?.[2];
+
+  // Offset of the local header of the named entry, and of the header that follows it
+  const span = (name: string, next?: string): [number, number] => {
+    const start = archive.indexOf(Buffer.from(name)) - 30;
+    const end = next ? archive.indexOf(Buffer.from(next)) - 30 : archive.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+    return [start, end - 1];
+  };
+
+  it('should read and write only the entries that match', async () => {
+    archive = buildZip([
+      { name: 'README.md', data: text('readme') },
+      { name: 'docs/', method: 'stored' },
+      { name: 'docs/guide.md', data: text('guide'), dataDescriptor: true },
+      { name: 'docs/draft.md', data: text('draft') },
+      { name: 'bin/tool.exe', data: text('tool'), method: 'stored' },
+      { name: 'docs/api/index.md', data: text('api'), method: 'stored', dataDescriptor: true },
+    ]);
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+    const progress: Array<[number, number]> = [];
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', 'downloads', (transferred, total) => {
+      progress.push([transferred, total]);
+    }, undefined, {
+      extract: { include: ['**/*.md'], exclude: ['**/draft.md'] },
+    });
+
+    expect(result.success).toBe(true);
+    expect(putKeys(mockS3Service)).toEqual([
+      'downloads/release/README.md',
+      'downloads/release/docs/guide.md',
+      'downloads/release/docs/api/index.md',
+    ]);
+    expect(putBody(mockS3Service, 'downloads/release/docs/guide.md')!.equals(text('guide'))).toBe(true);
+    expect(putBody(mockS3Service, 'downloads/release/docs/api/index.md')!.equals(text('api'))).toBe(true);
+
+    // Each selected entry is read on its own, after the tail with the central directory
+    const entryRanges = [span('README.md', 'docs/'), span('docs/guide.md', 'docs/draft.md'), span('docs/api/index.md')];
+    expect(requestedRanges.slice(1)).toEqual(entryRanges);
+
+    const selectedBytes = entryRanges.reduce((total, [start, end]) => total + end - start + 1, 0);
+    expect(result.bytesTransferred).toBe(selectedBytes);
+    expect(progress[progress.length - 1]).toEqual([selectedBytes, selectedBytes]);
+    expect(progress.every(([, total]) => total === selectedBytes)).toBe(true);
+    expect(result.checksums).toBeUndefined();
+    expect(result.extraction).toEqual({
+      prefix: 'downloads/release/',
+      entryCount: 3,
+      uncompressedBytes: text('readme').length + text('guide').length + text('api').length,
+    });
+  });
+
+  it('should extract a selected entry larger than a part with a multipart upload', async () => {
+    archive = buildZip([
+      { name: 'README.md', data: text('readme') },
+      { name: 'images/disk.img', data: large, dataDescriptor: true },
+      { name: 'NOTES.md', data: text('notes') },
+    ]);
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      extract: { include: ['images/*'] },
+    });
+
+    expect(result.success).toBe(true);
+    expect(mockS3Service.createMultipartUpload).toHaveBeenCalledWith('test-bucket', 'release/images/disk.img');
+    expect(Buffer.concat(mockS3Service.parts.get('release/images/disk.img')!).equals(large)).toBe(true);
+    expect(mockS3Service.putObject).not.toHaveBeenCalled();
+    expect(result.bytesTransferred).toBeLessThan(archive.length);
+  });
+
+  it('should fail when no entry matches', async () => {
+    archive = buildZip([{ name: 'docs/', method: 'stored' }, { name: 'README.md', data: text('readme') }]);
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      extract: { include: ['docs/**'] },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatchObject({ code: 'NO_MATCHING_ENTRIES', category: 'source', retryable: false });
+    expect(requestedRanges).toHaveLength(1); // Only the tail
+    expect(mockS3Service.putObject).not.toHaveBeenCalled();
+  });
+
+  it('should fail when the source does not support range requests', async () => {
+    archive = buildZip([{ name: 'README.md', data: text('readme') }]);
+    rangeSupport = false;
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      extract: { include: ['*.md'] },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatchObject({ code: 'SOURCE_RANGE_NOT_SUPPORTED', retryable: false });
+    expect(mockS3Service.putObject).not.toHaveBeenCalled();
+  });
+
+  it('should fail when the source changes after the central directory was read', async () => {
+    archive = buildZip([{ name: 'a.md', data: text('a') }, { name: 'b.md', data: text('b') }]);
+    const mockS3Service = createMockS3Service();
+    mockS3Service.putObject.mockImplementation(async (bucket: string, key: string) => {
+      etag = '"v2"'; // Replaced once the first entry was written
+      return `s3://${bucket}/${key}`;
+    });
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      extract: { include: ['*.md'] },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatchObject({ code: 'SOURCE_CHANGED', retryable: false });
+    expect(result.error?.message).toContain('b.md');
+    expect(putKeys(mockS3Service)).toEqual(['release/a.md']);
+  });
+
+  it('should hold the selected entries to the extraction limits', async () => {
+    archive = buildZip([
+      { name: 'a.md', data: text('a') },
+      { name: 'b.md', data: text('b') },
+      { name: 'c.md', data: text('c') },
+      { name: 'd.txt', data: text('d') },
+    ]);
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket', undefined, undefined, undefined, {
+      extract: { include: ['*.md'] },
+      extractionLimits: { maxTotalBytes: 10 * MB, maxEntries: 2, maxCompressionRatio: 100, maxDepth: 8 },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatchObject({ code: 'ARCHIVE_TOO_MANY_ENTRIES', entry: 'c.md' });
+    expect(putKeys(mockS3Service)).toEqual(['release/a.md', 'release/b.md']);
+  });
+});
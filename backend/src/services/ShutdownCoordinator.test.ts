@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ShutdownCoordinator } from './ShutdownCoordinator.js';
+import { TransferCancelledError, TransferInterruptedError } from '../utils/errorHandler.js';
+
+/**
+ * Tests for stopping the worker's transfer on a cancel or SIGTERM
+ *
+ * Validates that:
+ * - SIGTERM for a cancelled transfer aborts with TransferCancelledError
+ * - Any other SIGTERM aborts with TransferInterruptedError
+ * - The deadline fires when the transfer doesn't stop within the grace period, and not after it settled
+ * - SIGTERM is handled through a process listener from install() until dispose()
+ */
+describe('ShutdownCoordinator', () => {
+  let coordinator: ShutdownCoordinator | undefined;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    coordinator?.dispose();
+    coordinator = undefined;
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const create = (cancelled: boolean | Error, onDeadline = vi.fn()) => {
+    coordinator = new ShutdownCoordinator({
+      isCancelled: async () => {
+        if (cancelled instanceof Error) {
+          throw cancelled;
+        }
+        return cancelled;
+      },
+      gracePeriodMs: 1000,
+      onDeadline,
+    });
+    return coordinator;
+  };
+
+  it('should stop as cancelled when the record says the transfer was cancelled', async () => {
+    const shutdown = create(true);
+
+    await shutdown.handleSignal('SIGTERM');
+
+    expect(shutdown.reason).toBe('cancelled');
+    expect(shutdown.signal.aborted).toBe(true);
+    expect(shutdown.signal.reason).toBeInstanceOf(TransferCancelledError);
+  });
+
+  it('should stop as interrupted for any other SIGTERM', async () => {
+    const shutdown = create(false);
+
+    await shutdown.handleSignal('SIGTERM');
+
+    expect(shutdown.reason).toBe('interrupted');
+    expect(shutdown.signal.reason).toBeInstanceOf(TransferInterruptedError);
+  });
+
+  it('should stop as interrupted when the record cannot be read', async () => {
+    const shutdown = create(new Error('ProvisionedThroughputExceededException'));
+
+    await shutdown.handleSignal('SIGTERM');
+
+    expect(shutdown.reason).toBe('interrupted');
+  });
+
+  it('should keep the first reason when a cancel was already seen', async () => {
+    const shutdown = create(false);
+
+    shutdown.cancel();
+    await shutdown.handleSignal('SIGTERM');
+
+    expect(shutdown.reason).toBe('cancelled');
+    expect(shutdown.signal.reason).toBeInstanceOf(TransferCancelledError);
+  });
+
+  it('should call onDeadline when the transfer does not stop within the grace period', async () => {
+    vi.useFakeTimers();
+    const onDeadline = vi.fn();
+    const shutdown = create(false, onDeadline);
+
+    await shutdown.handleSignal('SIGTERM');
+    vi.advanceTimersByTime(999);
+    expect(onDeadline).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+
+    expect(onDeadline).toHaveBeenCalledWith('interrupted');
+  });
+
+  it('should not call onDeadline once the transfer has settled', async () => {
+    vi.useFakeTimers();
+    const onDeadline = vi.fn();
+    const shutdown = create(true, onDeadline);
+
+    await shutdown.handleSignal('SIGTERM');
+    shutdown.settle();
+    await shutdown.handleSignal('SIGTERM');
+    vi.advanceTimersByTime(5000);
+
+    expect(onDeadline).not.toHaveBeenCalled();
+  });
+
+  it('should ignore signals after settling without a shutdown', async () => {
+    const shutdown = create(false);
+
+    shutdown.settle();
+    await shutdown.handleSignal('SIGTERM');
+
+    expect(shutdown.reason).toBeUndefined();
+    expect(shutdown.signal.aborted).toBe(false);
+  });
+
+  it('should handle SIGTERM through a process listener until disposed', async () => {
+    const shutdown = create(false);
+    const listenersBefore = process.listenerCount('SIGTERM');
+
+    shutdown.install();
+    expect(process.listenerCount('SIGTERM')).toBe(listenersBefore + 1);
+    process.emit('SIGTERM', 'SIGTERM');
+    await vi.waitFor(() => expect(shutdown.signal.aborted).toBe(true));
+
+    shutdown.dispose();
+    expect(process.listenerCount('SIGTERM')).toBe(listenersBefore);
+  });
+});
@@ -0,0 +1,144 @@
+import { ShutdownReason } from '../types/api.js';
+import { TransferCancelledError, TransferInterruptedError } from '../utils/errorHandler.js';
+
+/**
+ * Exit codes of the worker process
+ * Step Functions reads them from the stopped task to tell a cancel from a failed transfer
+ */
+export enum WorkerExitCode {
+  SUCCEEDED = 0,
+  FAILED = 1,
+  CANCELLED = 3, // The user cancelled the transfer, nothing to retry
+  RETRY_SCHEDULED = 4, // The attempt failed with a retryable error, the next one is scheduled on the transfer record
+  INTERRUPTED = 75, // EX_TEMPFAIL: ECS stopped the task, a retry resumes the upload
+}
+
+export interface ShutdownCoordinatorOptions {
+  isCancelled: () => Promise<boolean>; // Whether the transfer record says the transfer was cancelled
+  gracePeriodMs: number; // Time the transfer gets to stop after a signal before onDeadline is called
+  onDeadline: (reason: ShutdownReason) => void; // The transfer didn't stop in time, record what is known and exit
+}
+
+/**
+ * Stops the transfer when the worker is cancelled or told to shut down
+ *
+ * ECS sends SIGTERM when it stops the task, for a cancel (see cancelTransferHandler) as well
+ * as for scale-in, Spot reclaims and deployments, and kills the container once the stop
+ * timeout runs out. On SIGTERM the transfer record tells the two apart: the signal is aborted
+ * with TransferCancelledError for a cancel and TransferInterruptedError otherwise, so
+ * StreamingService either aborts the multipart upload or keeps it for the retry.
+ *
+ * The transfer stops reading and lets its part uploads in flight finish. When that takes
+ * longer than the grace period, onDeadline is called so the worker can still record its
+ * progress before the container is killed.
+ */
+export class ShutdownCoordinator {
+  private controller = new AbortController();
+  private isCancelled: () => Promise<boolean>;
+  private gracePeriodMs: number;
+  private onDeadline: (reason: ShutdownReason) => void;
+  private shutdownReason?: ShutdownReason;
+  private settled = false;
+  private deadlineTimer?: NodeJS.Timeout;
+  private signalHandler?: (signalName: NodeJS.Signals) => void;
+
+  constructor(options: ShutdownCoordinatorOptions) {
+    this.isCancelled = options.isCancelled;
+    this.gracePeriodMs = options.gracePeriodMs;
+    this.onDeadline = options.onDeadline;
+  }
+
+  /**
+   * Signal to pass to the transfer
+   */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * Why the transfer was stopped, undefined while it runs
+   */
+  get reason(): ShutdownReason | undefined {
+    return this.shutdownReason;
+  }
+
+  /**
+   * Stops the transfer because it was cancelled
+   */
+  cancel(): void {
+    this.stop('cancelled');
+  }
+
+  /**
+   * Stops the transfer for a SIGTERM or SIGINT and starts the grace period
+   */
+  async handleSignal(signalName: string): Promise<void> {
+    if (this.settled) {
+      console.log(`Received ${signalName} while recording the result, finishing up`);
+      return;
+    }
+    console.log(`Received ${signalName}, stopping the transfer`);
+
+    if (!this.shutdownReason) {
+      let cancelled = false;
+      try {
+        cancelled = await this.isCancelled();
+      } catch (error: any) {
+        // Without the record, keep the upload: a retry can still be cancelled
+        console.error('Failed to check for cancellation:', error.message);
+      }
+      this.stop(cancelled ? 'cancelled' : 'interrupted');
+    }
+
+    if (!this.deadlineTimer && !this.settled) {
+      this.deadlineTimer = setTimeout(() => {
+        console.warn(`Transfer did not stop within ${this.gracePeriodMs}ms of ${signalName}`);
+        this.onDeadline(this.shutdownReason!);
+      }, this.gracePeriodMs);
+    }
+  }
+
+  /**
+   * Handles SIGTERM and SIGINT until dispose() is called
+   */
+  install(): void {
+    this.signalHandler = (signalName) => {
+      this.handleSignal(signalName);
+    };
+    process.on('SIGTERM', this.signalHandler);
+    process.on('SIGINT', this.signalHandler);
+  }
+
+  /**
+   * The transfer has stopped: ends the grace period, and later signals no longer
+   * interrupt the worker while it records the result
+   */
+  settle(): void {
+    this.settled = true;
+    if (this.deadlineTimer) {
+      clearTimeout(this.deadlineTimer);
+      this.deadlineTimer = undefined;
+    }
+  }
+
+  /**
+   * Removes the signal handlers
+   */
+  dispose(): void {
+    this.settle();
+    if (this.signalHandler) {
+      process.removeListener('SIGTERM', this.signalHandler);
+      process.removeListener('SIGINT', this.signalHandler);
+      this.signalHandler = undefined;
+    }
+  }
+
+  private stop(reason: ShutdownReason): void {
+    if (this.shutdownReason) {
+      return;
+    }
+    this.shutdownReason = reason;
+    console.log(`Stopping transfer: ${reason}`);
+    this.controller.abort(reason === 'cancelled' ? new TransferCancelledError() : new TransferInterruptedError());
+  }
+}
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StreamingService } from './StreamingService.js';
+import http from 'http';
+import { createHash } from 'crypto';
+
+/**
+ * Tests for reconnecting to the source after the connection drops mid-stream
+ *
+ * Validates that:
+ * - A dropped connection is reopened with Range and If-Range where it stopped
+ * - The reopened data keeps filling the current part, so parts are unaffected
+ * - A source that changed or keeps dropping fails the transfer
+ * - Sources without a validator are not reconnected
+ */
+describe('StreamingService - Source Reconnect', () => {
+  const MB = 1024 * 1024;
+  const PART_SIZE = 5 * MB;
+  const FILE_SIZE = 12 * MB;
+  const DROP_AT = 7 * MB; // Inside the second part
+  const ETAG = '"source-etag-v1"';
+
+  let streamingService: StreamingService;
+  let mockServer: http.Server;
+  let content: Buffer;
+  let requests: { range?: string; ifRange?: string }[];
+  let drops: number; // Number of GET requests to cut off before the end
+  let refuseReconnects: boolean; // Close range requests before sending anything
+  let currentEtag: string | undefined;
+  let originalAttempts: string | undefined;
+  let originalBackoff: string | undefined;
+
+  beforeEach(async () => {
+    originalAttempts = process.env.SOURCE_RECONNECT_ATTEMPTS;
+    originalBackoff = process.env.SOURCE_RECONNECT_BACKOFF_MS;
+    process.env.SOURCE_RECONNECT_ATTEMPTS = '3';
+    process.env.SOURCE_RECONNECT_BACKOFF_MS = '10';
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    streamingService = new StreamingService();
+    (streamingService as any).LARGE_FILE_THRESHOLD = 0;
+    vi.spyOn(streamingService as any, 'calculateOptimalPartSize').mockReturnValue(PART_SIZE);
+
+    content = Buffer.alloc(FILE_SIZE);
+    for (let i = 0; i < FILE_SIZE; i++) {
+      content[i] = i % 251;
+    }
+    requests = [];
+    drops = 1;
+    refuseReconnects = false;
+    currentEtag = ETAG;
+
+    mockServer = http.createServer((req, res) => {
+      const baseHeaders: Record<string, string> = {
+        'Content-Type': 'application/zip',
+        'Accept-Ranges': 'bytes',
+      };
+      if (currentEtag) {
+        baseHeaders['ETag'] = currentEtag;
+      }
+
+      if (req.method === 'HEAD') {
+        res.writeHead(200, { ...baseHeaders, 'Content-Length': FILE_SIZE.toString() });
+        res.end();
+        return;
+      }
+
+      const range = req.headers['range']?.match(/^bytes=(\d+)-$/);
+      requests.push({ range: req.headers['range'], ifRange: req.headers['if-range'] as string | undefined });
+      const start = range && req.headers['if-range'] === currentEtag ? parseInt(range[1], 10) : 0;
+      const body = content.subarray(start);
+
+      if (start > 0 && refuseReconnects) {
+        req.socket.destroy();
+        return;
+      }
+
+      if (start > 0) {
+        res.writeHead(206, {
+          ...baseHeaders,
+          'Content-Length': body.length.toString(),
+          'Content-Range': `bytes ${start}-${FILE_SIZE - 1}/${FILE_SIZE}`,
+        });
+      } else {
+        res.writeHead(200, { ...baseHeaders, 'Content-Length': FILE_SIZE.toString() });
+      }
+
+      if (drops > 0) {
+        drops--;
+        // Send part of the body, then cut the connection
+        res.write(body.subarray(0, Math.max(DROP_AT - start, MB)), () => req.socket.destroy());
+        return;
+      }
+      res.end(body);
+    });
+
+    await new Promise<void>((resolve) => mockServer.listen(0, () => resolve()));
+  });
+
+  afterEach(async () => {
+    for (const [name, value] of [
+      ['SOURCE_RECONNECT_ATTEMPTS', originalAttempts],
+      ['SOURCE_RECONNECT_BACKOFF_MS', originalBackoff],
+    ] as const) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+    vi.restoreAllMocks();
+    await new Promise<void>((resolve) => mockServer.close(() => resolve()));
+  });
+
+  const sourceUrl = () => {
+    const address = mockServer.address() as { port: number };
+    return `http://localhost:${address.port}/archive.zip`;
+  };
+
+  const createMockS3Service = () => ({
+    validateBucketAccess: vi.fn().mockResolvedValue(true),
+    createMultipartUpload: vi.fn().mockResolvedValue('test-upload-id'),
+    uploadPart: vi.fn().mockImplementation(async (_b: string, _k: string, _u: string, partNumber: number) => `etag-${partNumber}`),
+    completeUpload: vi.fn().mockResolvedValue('s3://test-bucket/archive.zip'),
+    headObject: vi.fn().mockImplementation(async () => ({ ContentLength: FILE_SIZE })),
+    abortUpload: vi.fn().mockResolvedValue(undefined),
+  });
+
+  it('should reopen a dropped connection where it stopped and keep the parts intact', async () => {
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    // Copied on arrival, part buffers are reused once uploaded
+    const uploadedData = new Map<number, Buffer>();
+    mockS3Service.uploadPart.mockImplementation(async (_b: string, _k: string, _u: string, partNumber: number, data: Buffer) => {
+      uploadedData.set(partNumber, Buffer.from(data));
+      return `etag-${partNumber}`;
+    });
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket');
+
+    expect(result.success).toBe(true);
+    expect(result.bytesTransferred).toBe(FILE_SIZE);
+    expect(requests).toHaveLength(2);
+    expect(requests[1].range).toMatch(/^bytes=\d+-$/);
+    expect(requests[1].ifRange).toBe(ETAG);
+
+    // Same parts as an uninterrupted transfer
+    const uploads = mockS3Service.uploadPart.mock.calls.map((call: any[]) => [call[3], call[4].length]);
+    expect(uploads).toEqual([[1, PART_SIZE], [2, PART_SIZE], [3, FILE_SIZE - 2 * PART_SIZE]]);
+    for (const [partNumber, data] of uploadedData) {
+      const start = (partNumber - 1) * PART_SIZE;
+      expect(Buffer.compare(data, content.subarray(start, start + data.length))).toBe(0);
+    }
+    expect(result.checksums?.sha256).toBe(createHash('sha256').update(content).digest('hex'));
+  });
+
+  it('should fail when the source changed before the reconnect', async () => {
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+    mockServer.prependListener('request', (req) => {
+      // The file is replaced right after the first GET
+      if (req.method === 'GET') {
+        setImmediate(() => { currentEtag = '"source-etag-v2"'; });
+      }
+    });
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket');
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain('file changed during the transfer');
+    expect(mockS3Service.completeUpload).not.toHaveBeenCalled();
+  });
+
+  it('should give up after the configured number of attempts', async () => {
+    refuseReconnects = true;
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket');
+
+    expect(result.success).toBe(false);
+    expect(requests).toHaveLength(4); // First request and three reconnects
+    expect(mockS3Service.completeUpload).not.toHaveBeenCalled();
+  });
+
+  it('should not reconnect when the source has no validator for If-Range', async () => {
+    currentEtag = undefined;
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket');
+
+    expect(result.success).toBe(false);
+    expect(requests).toHaveLength(1);
+  });
+});
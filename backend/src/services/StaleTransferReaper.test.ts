@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StopExecutionCommand } from '@aws-sdk/client-sfn';
+import { StaleTransferReaper } from './StaleTransferReaper.js';
+import { DynamoDBService, TransferRecord, TransferStatus } from './DynamoDBService.js';
+import { S3Service } from './S3Service.js';
+import { IllegalTransitionError } from '../utils/errorHandler.js';
+
+/**
+ * Tests for failing transfers whose worker stopped sending heartbeats
+ *
+ * Validates that:
+ * - Transfers without a heartbeat in the window are marked failed, their execution is
+ *   stopped and their multipart upload aborted
+ * - A transfer whose worker beat between the scan and the write is left alone
+ * - A failure on one transfer doesn't keep the others from being reaped
+ */
+describe('StaleTransferReaper', () => {
+  const NOW = Date.parse('2026-10-19T12:00:00.000Z');
+  const WINDOW_MS = 15 * 60 * 1000;
+
+  let dynamoDBService: DynamoDBService;
+  let s3Service: S3Service;
+  let sfnSend: ReturnType<typeof vi.fn>;
+  let reaper: StaleTransferReaper;
+
+  const createRecord = (transferId: string, overrides: Partial<TransferRecord> = {}): TransferRecord => ({
+    transferId,
+    sourceUrl: `https://example.com/${transferId}.zip`,
+    bucketName: 'test-bucket',
+    s3Key: `${transferId}.zip`,
+    bytesTransferred: 1024,
+    totalBytes: 4096,
+    percentage: 25,
+    status: TransferStatus.IN_PROGRESS,
+    startTime: '2026-10-19T10:00:00.000Z',
+    lastUpdateTime: '2026-10-19T11:00:00.000Z',
+    heartbeatTime: '2026-10-19T11:30:00.000Z',
+    executionArn: `arn:aws:states:us-east-1:123456789012:execution:S3ZipDownloaderTransfer:${transferId}`,
+    uploadId: `upload-${transferId}`,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    dynamoDBService = new DynamoDBService('TransferTable', 'us-east-1');
+    s3Service = new S3Service('us-east-1');
+    vi.spyOn(dynamoDBService, 'markTransferStalled').mockResolvedValue(null);
+    vi.spyOn(s3Service, 'abortUpload').mockResolvedValue();
+
+    reaper = new StaleTransferReaper(dynamoDBService, s3Service, 'us-east-1');
+    sfnSend = vi.fn().mockResolvedValue({});
+    (reaper as any).sfnClient = { send: sfnSend };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should fail a stalled transfer, stop its execution and abort its upload', async () => {
+    const record = createRecord('transfer-a');
+    const findStalled = vi.spyOn(dynamoDBService, 'findStalledTransfers').mockResolvedValue([record]);
+
+    const result = await reaper.reap(WINDOW_MS, NOW);
+
+    expect(result).toEqual({ reaped: ['transfer-a'], skipped: [], failed: [] });
+    expect(findStalled).toHaveBeenCalledWith('2026-10-19T11:45:00.000Z');
+    expect(dynamoDBService.markTransferStalled).toHaveBeenCalledWith(
+      'transfer-a',
+      '2026-10-19T11:45:00.000Z',
+      'Transfer stalled: no heartbeat from the worker since 2026-10-19T11:30:00.000Z'
+    );
+
+    const stop = sfnSend.mock.calls[0][0];
+    expect(stop).toBeInstanceOf(StopExecutionCommand);
+    expect(stop.input.executionArn).toBe(record.executionArn);
+    expect(stop.input.error).toBe('TransferStalled');
+
+    expect(s3Service.abortUpload).toHaveBeenCalledWith('test-bucket', 'transfer-a.zip', 'upload-transfer-a');
+  });
+
+  it('should describe a transfer whose worker never sent a heartbeat by its last update', async () => {
+    vi.spyOn(dynamoDBService, 'findStalledTransfers').mockResolvedValue([
+      createRecord('transfer-a', { heartbeatTime: undefined, status: TransferStatus.PENDING, uploadId: undefined }),
+    ]);
+
+    await reaper.reap(WINDOW_MS, NOW);
+
+    expect(dynamoDBService.markTransferStalled).toHaveBeenCalledWith(
+      'transfer-a',
+      '2026-10-19T11:45:00.000Z',
+      'Transfer stalled: the worker never sent a heartbeat, last update 2026-10-19T11:00:00.000Z'
+    );
+    expect(s3Service.abortUpload).not.toHaveBeenCalled();
+  });
+
+  it('should leave a transfer whose worker beat before it could be marked', async () => {
+    vi.spyOn(dynamoDBService, 'findStalledTransfers').mockResolvedValue([createRecord('transfer-a')]);
+    vi.mocked(dynamoDBService.markTransferStalled).mockRejectedValue(
+      new IllegalTransitionError('transfer-a', TransferStatus.IN_PROGRESS, TransferStatus.FAILED)
+    );
+
+    const result = await reaper.reap(WINDOW_MS, NOW);
+
+    expect(result).toEqual({ reaped: [], skipped: ['transfer-a'], failed: [] });
+    expect(sfnSend).not.toHaveBeenCalled();
+    expect(s3Service.abortUpload).not.toHaveBeenCalled();
+  });
+
+  it('should keep reaping when one transfer cannot be marked or its execution stopped', async () => {
+    vi.spyOn(dynamoDBService, 'findStalledTransfers').mockResolvedValue([
+      createRecord('transfer-a'),
+      createRecord('transfer-b'),
+      createRecord('transfer-c'),
+    ]);
+    vi.mocked(dynamoDBService.markTransferStalled).mockImplementation(async (transferId: string) => {
+      if (transferId === 'transfer-a') {
+        throw new Error('Failed to mark transfer stalled: ProvisionedThroughputExceededException');
+      }
+      return null;
+    });
+    sfnSend.mockRejectedValueOnce(new Error('ExecutionDoesNotExist'));
+
+    const result = await reaper.reap(WINDOW_MS, NOW);
+
+    expect(result).toEqual({ reaped: ['transfer-b', 'transfer-c'], skipped: [], failed: ['transfer-a'] });
+    expect(sfnSend).toHaveBeenCalledTimes(2);
+    expect(s3Service.abortUpload).toHaveBeenCalledWith('test-bucket', 'transfer-b.zip', 'upload-transfer-b');
+    expect(s3Service.abortUpload).toHaveBeenCalledWith('test-bucket', 'transfer-c.zip', 'upload-transfer-c');
+  });
+});
@@ -0,0 +1,94 @@
+import { SFNClient, StopExecutionCommand } from '@aws-sdk/client-sfn';
+import { DynamoDBService, TransferRecord } from './DynamoDBService.js';
+import { S3Service } from './S3Service.js';
+import { IllegalTransitionError } from '../utils/errorHandler.js';
+
+export interface ReapResult {
+  reaped: string[]; // Transfers marked failed
+  skipped: string[]; // Transfers that sent a heartbeat or finished before they could be marked
+  failed: string[]; // Transfers that couldn't be marked, tried again on the next run
+}
+
+type ReapOutcome = 'reaped' | 'skipped' | 'failed';
+
+/**
+ * Fails transfers whose worker stopped sending heartbeats
+ *
+ * A hung worker would otherwise leave its transfer in-progress until the 48 hour Step Functions
+ * timeout. For every active transfer without a heartbeat within the window, the reaper:
+ * - marks the record failed with TRANSFER_STALLED, unless a heartbeat arrived in the meantime
+ * - stops the Step Functions execution, which stops the worker's ECS task
+ * - aborts the multipart upload so its parts stop accruing storage
+ */
+export class StaleTransferReaper {
+  private dynamoDBService: DynamoDBService;
+  private s3Service: S3Service;
+  private sfnClient: SFNClient;
+
+  constructor(dynamoDBService: DynamoDBService, s3Service: S3Service, region?: string) {
+    this.dynamoDBService = dynamoDBService;
+    this.s3Service = s3Service;
+    this.sfnClient = new SFNClient({ region: region || process.env.AWS_REGION });
+  }
+
+  /**
+   * Fails every active transfer without a heartbeat in the last staleAfterMs
+   */
+  async reap(staleAfterMs: number, now: number = Date.now()): Promise<ReapResult> {
+    const staleBefore = new Date(now - staleAfterMs).toISOString();
+    const stalled = await this.dynamoDBService.findStalledTransfers(staleBefore);
+    console.log(`Found ${stalled.length} transfers without a heartbeat since ${staleBefore}`);
+
+    const result: ReapResult = { reaped: [], skipped: [], failed: [] };
+    for (const record of stalled) {
+      result[await this.reapTransfer(record, staleBefore)].push(record.transferId);
+    }
+
+    return result;
+  }
+
+  /**
+   * Fails one stalled transfer and releases what it holds
+   * Skipped when the transfer came back to life or finished before it was marked
+   */
+  private async reapTransfer(record: TransferRecord, staleBefore: string): Promise<ReapOutcome> {
+    const lastSeen = record.heartbeatTime || record.lastUpdateTime;
+    const message = record.heartbeatTime
+      ? `Transfer stalled: no heartbeat from the worker since ${lastSeen}`
+      : `Transfer stalled: the worker never sent a heartbeat, last update ${lastSeen}`;
+
+    // Marked first: a worker that wakes up finds its record failed and can't overwrite it
+    try {
+      await this.dynamoDBService.markTransferStalled(record.transferId, staleBefore, message);
+    } catch (error: any) {
+      if (error instanceof IllegalTransitionError) {
+        console.log(`Transfer ${record.transferId} is no longer stalled (${error.from ?? 'deleted'}), leaving it`);
+        return 'skipped';
+      }
+      console.error(`Failed to mark transfer ${record.transferId} as stalled:`, error.message || error);
+      return 'failed';
+    }
+    console.log(`Transfer ${record.transferId} marked as stalled: ${message}`);
+
+    if (record.executionArn) {
+      try {
+        await this.sfnClient.send(new StopExecutionCommand({
+          executionArn: record.executionArn,
+          error: 'TransferStalled',
+          cause: message,
+        }));
+        console.log(`Stopped execution ${record.executionArn}`);
+      } catch (error: any) {
+        // Already finished, or the record holds an execution that no longer exists
+        console.error(`Failed to stop execution ${record.executionArn}:`, error.message || error);
+      }
+    }
+
+    if (record.uploadId) {
+      // Logs and swallows its own errors
+      await this.s3Service.abortUpload(record.bucketName, record.s3Key, record.uploadId);
+    }
+
+    return 'reaped';
+  }
+}
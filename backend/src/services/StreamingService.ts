@@ -1,15 +1,95 @@
-import axios from 'axios';
+import axios, { AxiosResponse } from 'axios';
 import { Readable } from 'stream';
 import http from 'http';
 import https from 'https';
 import { S3Service } from './S3Service.js';
-import { UrlService } from './UrlService.js';
+import { UrlService, SourceMetadata } from './UrlService.js';
 import { ValidationService } from './ValidationService.js';
-import { TransferResult, ProgressCallback } from '../types/api.js';
-import { CompletedPart } from '@aws-sdk/client-s3';
-import { ErrorHandler, StreamingError, UrlFetchError } from '../utils/errorHandler.js';
+import {
+  TransferResult,
+  ProgressCallback,
+  TransferOptions,
+  UploadCheckpoint,
+  PartChecksum,
+  ObjectChecksums,
+  ExpectedChecksum,
+  ReceiptOptions,
+  TransferReceipt,
+} from '../types/api.js';
+import { CompletedPart, Part } from '@aws-sdk/client-s3';
+import {
+  ErrorHandler,
+  IllegalTransitionError,
+  StreamingError,
+  TransferCancelledError,
+  TransferInterruptedError,
+  UrlFetchError,
+  ErrorDetailsInit,
+  ClassifiedError,
+  ArchiveError,
+} from '../utils/errorHandler.js';
 import { ProgressStore } from './ProgressStore.js';
-import { randomUUID } from 'crypto';
+import { ChecksumService, ChecksumAccumulator } from './ChecksumService.js';
+import { TokenBucket } from './TokenBucket.js';
+import { AdaptiveConcurrency } from './AdaptiveConcurrency.js';
+import { BufferPool, readContainerMemoryLimit } from './BufferPool.js';
+import { RetryPolicy } from './RetryPolicy.js';
+import { ZipStreamParser } from './ZipStreamParser.js';
+import { ArchiveExtractor, S3ObjectWriter } from './ArchiveExtractor.js';
+import { ExtractionPolicy } from './ExtractionPolicy.js';
+import { EntryFilter, selectsEntries } from './EntryFilter.js';
+import { CentralDirectoryEntry, RemoteZipReader } from './RemoteZipReader.js';
+import { randomUUID, createHash } from 'crypto';
+
+/**
+ * Where an interrupted multipart upload continues from
+ */
+interface ResumeState {
+  uploadId: string;
+  partSize: number;
+  parts: CompletedPart[]; // Parts kept from the previous attempt
+  nextPartNumber: number;
+  offset: number; // First source byte that still has to be uploaded
+}
+
+/**
+ * Reopens the source at a byte offset after the connection dropped
+ */
+type ReconnectSource = (offset: number) => Promise<Readable>;
+
+/**
+ * Digests collected while a transfer streams
+ */
+interface ChecksumState {
+  object: ChecksumAccumulator; // Whole-object digests, fed in source order
+  parts: PartChecksum[]; // Per-part digests
+}
+
+// Details of the errors raised for what the source serves rather than how it is reached
+const FILE_TOO_LARGE: ErrorDetailsInit = {
+  code: 'SOURCE_TOO_LARGE',
+  category: 'source',
+  retryable: false,
+  remediation: 'Transfer files up to 5 TB; split larger files at the source',
+};
+const SOURCE_LENGTH_MISMATCH: ErrorDetailsInit = {
+  code: 'SOURCE_LENGTH_MISMATCH',
+  category: 'integrity',
+  retryable: true,
+  remediation: 'Retry the transfer; if it keeps failing, the source misreports the file size',
+};
+const OBJECT_VERIFICATION_FAILED: ErrorDetailsInit = {
+  code: 'OBJECT_VERIFICATION_FAILED',
+  category: 'integrity',
+  retryable: false,
+  remediation: 'The object written to the bucket does not match the transferred bytes; delete it and submit the transfer again',
+};
+const SOURCE_CHANGED: ErrorDetailsInit = {
+  code: 'SOURCE_CHANGED',
+  category: 'source',
+  retryable: false,
+  remediation: 'The file changed during the transfer or the source does not support range requests; submit the transfer again',
+};
 
 /**
  * Service for streaming file transfers from URL to S3
@@ -20,13 +100,15 @@ export class StreamingService {
   private progressStore: ProgressStore;
   private dynamoDBService?: any; // Optional DynamoDB service for progress updates
   private readonly DEFAULT_PART_SIZE = 100 * 1024 * 1024; // 100MB default part size
-  private readonly LARGE_FILE_THRESHOLD = 100 * 1024 * 1024; // 100MB threshold for multipart
+  private readonly LARGE_FILE_THRESHOLD = 100 * 1024 * 1024; // 100MB threshold for multipart, smaller files use a single PutObject
   private readonly MAX_FILE_SIZE = 10 * 1024 * 1024 * 1024 * 1024; // 10TB (Requirements: 8.5)
-  private readonly MAX_RETRY_ATTEMPTS = 3; // Maximum retry attempts for part upload failures
+  // Part uploads and range downloads: 3 attempts, 1-2s then 2-4s apart
+  private readonly partRetryPolicy = new RetryPolicy({ maxAttempts: 3, baseDelayMs: 2000, maxDelayMs: 30000 });
   private readonly MAX_CONCURRENT_UPLOADS: number; // Maximum concurrent part uploads for better throughput (configurable)
   private readonly MIN_PART_SIZE = 5 * 1024 * 1024; // 5MB minimum (S3 requirement)
   private readonly MAX_PART_SIZE = 5 * 1024 * 1024 * 1024; // 5GB maximum (S3 requirement)
   private readonly MAX_PARTS = 10000; // S3 maximum parts per multipart upload
+  private readonly UNKNOWN_SIZE_GROWTH_INTERVAL = 1000; // Part size doubles every 1000 parts when the source size is unknown
   private readonly SOCKET_TIMEOUT = 60000; // 60 seconds socket timeout for network reliability
   
   // Adaptive part sizing thresholds
@@ -43,10 +125,38 @@ export class StreamingService {
   private readonly DEFAULT_MAX_CONCURRENT_UPLOADS = 10; // Default increased from 4 to 10
   private readonly MIN_CONCURRENT_UPLOADS = 1; // Minimum allowed value
   private readonly MAX_CONCURRENT_UPLOADS_LIMIT = 20; // Maximum allowed value
+
+  // Bounds for adapting the concurrency of a transfer, which starts at MAX_CONCURRENT_UPLOADS
+  // Setting both to the same value pins the concurrency
+  private readonly ADAPTIVE_CONCURRENCY_MIN: number;
+  private readonly ADAPTIVE_CONCURRENCY_MAX: number;
+  
+  // Configuration constants for SOURCE_CONNECTIONS (parallel ranged downloads)
+  // Each connection downloads one part-aligned byte range at a time and uploads it
+  private readonly SOURCE_CONNECTIONS: number;
+  private readonly DEFAULT_SOURCE_CONNECTIONS = 1; // Single stream unless configured
+  private readonly MIN_SOURCE_CONNECTIONS = 1;
+  private readonly MAX_SOURCE_CONNECTIONS_LIMIT = 16;
+
+  // Configuration constants for reconnecting a dropped source stream with a Range request
+  private readonly SOURCE_RECONNECT_ATTEMPTS: number;
+  private readonly DEFAULT_SOURCE_RECONNECT_ATTEMPTS = 5; // Consecutive reconnects without receiving data
+  private readonly MAX_SOURCE_RECONNECT_ATTEMPTS_LIMIT = 20;
+  private readonly SOURCE_RECONNECT_BACKOFF_MS: number;
+  private readonly DEFAULT_SOURCE_RECONNECT_BACKOFF_MS = 1000; // Delay before the first reconnect, doubled per attempt
+  private readonly MAX_SOURCE_RECONNECT_BACKOFF_MS = 60000; // Cap for the configured and the doubled delay
   
+  // Memory budget for part buffers, a share of the container's cgroup memory limit
+  // The rest is left to the Node.js heap, sockets and the S3 client
+  private readonly PART_BUFFER_MEMORY: number;
+  private readonly DEFAULT_PART_BUFFER_MEMORY_PERCENT = 50;
+  private readonly MIN_PART_BUFFER_MEMORY_PERCENT = 10;
+  private readonly MAX_PART_BUFFER_MEMORY_PERCENT = 90;
+  private readonly MIN_PART_BUFFERS = 2; // One part filling while the previous one uploads
+
   // Backpressure configuration
-  // High-water mark: pause stream when buffer memory exceeds this threshold
-  private readonly BUFFER_HIGH_WATER_MARK = 3; // Number of parts buffered before pausing
+  // High-water mark: pause stream when every part buffer the memory budget allows is taken
+  // (the pool's capacity minus the buffer being filled, see partBufferCapacity)
   // Low-water mark: resume stream when buffer memory drops below this threshold
   private readonly BUFFER_LOW_WATER_MARK = 1; // Number of parts buffered before resuming
 
@@ -63,26 +173,71 @@ export class StreamingService {
     
     // Configure MAX_CONCURRENT_UPLOADS from environment variable with validation
     // Requirements: Configurability, performance tuning
-    const envConcurrency = process.env.MAX_CONCURRENT_UPLOADS;
-    if (envConcurrency) {
-      const parsedValue = parseInt(envConcurrency, 10);
-      if (isNaN(parsedValue)) {
-        console.warn(`Invalid MAX_CONCURRENT_UPLOADS value "${envConcurrency}", using default ${this.DEFAULT_MAX_CONCURRENT_UPLOADS}`);
-        this.MAX_CONCURRENT_UPLOADS = this.DEFAULT_MAX_CONCURRENT_UPLOADS;
-      } else if (parsedValue < this.MIN_CONCURRENT_UPLOADS) {
-        console.warn(`MAX_CONCURRENT_UPLOADS value ${parsedValue} is below minimum ${this.MIN_CONCURRENT_UPLOADS}, using minimum`);
-        this.MAX_CONCURRENT_UPLOADS = this.MIN_CONCURRENT_UPLOADS;
-      } else if (parsedValue > this.MAX_CONCURRENT_UPLOADS_LIMIT) {
-        console.warn(`MAX_CONCURRENT_UPLOADS value ${parsedValue} exceeds maximum ${this.MAX_CONCURRENT_UPLOADS_LIMIT}, using maximum`);
-        this.MAX_CONCURRENT_UPLOADS = this.MAX_CONCURRENT_UPLOADS_LIMIT;
-      } else {
-        this.MAX_CONCURRENT_UPLOADS = parsedValue;
-      }
-    } else {
-      this.MAX_CONCURRENT_UPLOADS = this.DEFAULT_MAX_CONCURRENT_UPLOADS;
-    }
+    this.MAX_CONCURRENT_UPLOADS = this.readIntegerSetting(
+      'MAX_CONCURRENT_UPLOADS',
+      this.DEFAULT_MAX_CONCURRENT_UPLOADS,
+      this.MIN_CONCURRENT_UPLOADS,
+      this.MAX_CONCURRENT_UPLOADS_LIMIT
+    );
     
     console.log(`MAX_CONCURRENT_UPLOADS configured to: ${this.MAX_CONCURRENT_UPLOADS} (min: ${this.MIN_CONCURRENT_UPLOADS}, max: ${this.MAX_CONCURRENT_UPLOADS_LIMIT})`);
+
+    // Configure the range the adaptive controller may move the concurrency in
+    this.ADAPTIVE_CONCURRENCY_MIN = this.readIntegerSetting(
+      'ADAPTIVE_CONCURRENCY_MIN',
+      this.MIN_CONCURRENT_UPLOADS,
+      this.MIN_CONCURRENT_UPLOADS,
+      this.MAX_CONCURRENT_UPLOADS_LIMIT
+    );
+    this.ADAPTIVE_CONCURRENCY_MAX = this.readIntegerSetting(
+      'ADAPTIVE_CONCURRENCY_MAX',
+      this.MAX_CONCURRENT_UPLOADS_LIMIT,
+      this.ADAPTIVE_CONCURRENCY_MIN,
+      this.MAX_CONCURRENT_UPLOADS_LIMIT
+    );
+
+    console.log(`Adaptive concurrency configured to: ${this.ADAPTIVE_CONCURRENCY_MIN}-${this.ADAPTIVE_CONCURRENCY_MAX} concurrent uploads`);
+
+    // Configure the part buffer budget from the container memory limit
+    const memoryLimit = readContainerMemoryLimit();
+    const partBufferMemoryPercent = this.readIntegerSetting(
+      'PART_BUFFER_MEMORY_PERCENT',
+      this.DEFAULT_PART_BUFFER_MEMORY_PERCENT,
+      this.MIN_PART_BUFFER_MEMORY_PERCENT,
+      this.MAX_PART_BUFFER_MEMORY_PERCENT
+    );
+    this.PART_BUFFER_MEMORY = Math.floor(memoryLimit * partBufferMemoryPercent / 100);
+
+    console.log(
+      `Part buffer memory configured to: ${(this.PART_BUFFER_MEMORY / (1024 * 1024)).toFixed(0)}MB ` +
+      `(${partBufferMemoryPercent}% of ${(memoryLimit / (1024 * 1024)).toFixed(0)}MB container memory)`
+    );
+    
+    // Configure SOURCE_CONNECTIONS (parallel ranged downloads, 1 = single stream)
+    this.SOURCE_CONNECTIONS = this.readIntegerSetting(
+      'SOURCE_CONNECTIONS',
+      this.DEFAULT_SOURCE_CONNECTIONS,
+      this.MIN_SOURCE_CONNECTIONS,
+      this.MAX_SOURCE_CONNECTIONS_LIMIT
+    );
+    
+    console.log(`SOURCE_CONNECTIONS configured to: ${this.SOURCE_CONNECTIONS} (min: ${this.MIN_SOURCE_CONNECTIONS}, max: ${this.MAX_SOURCE_CONNECTIONS_LIMIT})`);
+
+    // Configure reconnects after the source connection drops mid-stream (0 disables them)
+    this.SOURCE_RECONNECT_ATTEMPTS = this.readIntegerSetting(
+      'SOURCE_RECONNECT_ATTEMPTS',
+      this.DEFAULT_SOURCE_RECONNECT_ATTEMPTS,
+      0,
+      this.MAX_SOURCE_RECONNECT_ATTEMPTS_LIMIT
+    );
+    this.SOURCE_RECONNECT_BACKOFF_MS = this.readIntegerSetting(
+      'SOURCE_RECONNECT_BACKOFF_MS',
+      this.DEFAULT_SOURCE_RECONNECT_BACKOFF_MS,
+      0,
+      this.MAX_SOURCE_RECONNECT_BACKOFF_MS
+    );
+
+    console.log(`Source reconnects configured to: ${this.SOURCE_RECONNECT_ATTEMPTS} attempts, ${this.SOURCE_RECONNECT_BACKOFF_MS}ms initial backoff`);
     
     // Configure HTTP/HTTPS agents with socket timeout and keepAlive
     // Socket timeout applies to individual socket operations, not the entire request
@@ -103,6 +258,32 @@ export class StreamingService {
     this.validateBufferConfiguration();
   }
 
+  /**
+   * Reads an integer setting from the environment, clamped to [min, max]
+   * Falls back to the default when the variable is unset or not a number
+   */
+  private readIntegerSetting(name: string, defaultValue: number, min: number, max: number): number {
+    const envValue = process.env[name];
+    if (!envValue) {
+      return defaultValue;
+    }
+
+    const parsedValue = parseInt(envValue, 10);
+    if (isNaN(parsedValue)) {
+      console.warn(`Invalid ${name} value "${envValue}", using default ${defaultValue}`);
+      return defaultValue;
+    }
+    if (parsedValue < min) {
+      console.warn(`${name} value ${parsedValue} is below minimum ${min}, using minimum`);
+      return min;
+    }
+    if (parsedValue > max) {
+      console.warn(`${name} value ${parsedValue} exceeds maximum ${max}, using maximum`);
+      return max;
+    }
+    return parsedValue;
+  }
+
   /**
    * Validates that buffer size configuration meets S3 requirements
    * S3 multipart upload requires parts between 5MB and 5GB
@@ -179,21 +360,95 @@ export class StreamingService {
     return partSize;
   }
 
+  /**
+   * Lowers the part size until MIN_PART_BUFFERS parts fit the part buffer memory
+   * Never below S3's 5MB minimum or the size that keeps a known file within MAX_PARTS,
+   * a budget too small even for those is logged and exceeded rather than failing
+   */
+  private fitPartSizeToMemory(partSize: number, totalBytes: number): number {
+    const affordable = Math.floor(this.PART_BUFFER_MEMORY / this.MIN_PART_BUFFERS);
+    if (partSize <= affordable) {
+      return partSize;
+    }
+
+    const MB = 1024 * 1024;
+    const minimum = Math.max(this.MIN_PART_SIZE, totalBytes > 0 ? Math.ceil(totalBytes / this.MAX_PARTS) : 0);
+    const fitted = Math.max(minimum, Math.floor(affordable / MB) * MB);
+
+    if (fitted > affordable) {
+      console.warn(
+        `Part buffer memory of ${(this.PART_BUFFER_MEMORY / MB).toFixed(2)}MB can't hold ${this.MIN_PART_BUFFERS} parts ` +
+        `of the smallest usable size ${(fitted / MB).toFixed(2)}MB, memory use will exceed the budget`
+      );
+    } else {
+      console.log(
+        `Lowered part size from ${(partSize / MB).toFixed(2)}MB to ${(fitted / MB).toFixed(2)}MB ` +
+        `to fit the part buffer memory of ${(this.PART_BUFFER_MEMORY / MB).toFixed(2)}MB`
+      );
+    }
+    return fitted;
+  }
+
+  /**
+   * Number of part buffers of the given size the memory budget holds (at least MIN_PART_BUFFERS)
+   */
+  private partBufferCapacity(partSize: number): number {
+    return Math.max(this.MIN_PART_BUFFERS, Math.floor(this.PART_BUFFER_MEMORY / partSize));
+  }
+
   /**
    * Transfers a file from source URL to S3 bucket using streaming
    * Returns a transfer ID for progress tracking
+   * 
+   * When options.checkpoint describes a multipart upload from a previous attempt,
+   * the upload is reconciled with S3 and the source is read from the next byte
+   * with an HTTP Range request instead of starting over.
+   * 
+   * SHA-256 and CRC32C are computed per part and over the whole object. Each part's
+   * CRC32C is sent to S3 so it verifies the bytes it stores; the whole-object digests
+   * are returned in the result. When options.expectedChecksum is set, a differing
+   * digest aborts the upload with a ChecksumMismatchError.
+   * 
+   * Files up to LARGE_FILE_THRESHOLD are sent with a single PutObject. Sources that
+   * don't report a size (totalBytes -1) are streamed with growing part sizes, so the
+   * upload stays under S3's 10,000 part limit without knowing the size up front.
+   * 
+   * When options.maxBytesPerSecond is set, the source is read over a single connection
+   * at no more than that rate.
+   * 
+   * When options.signal is aborted the source is closed, part uploads already in flight
+   * are left to finish and the multipart upload is aborted. The result then carries a
+   * TransferCancelledError and the bytes read so far. When the signal is aborted with a
+   * TransferInterruptedError (the worker is shutting down), the transfer stops the same
+   * way but the multipart upload is kept for the next attempt to resume.
+   * 
+   * Other failures keep the multipart upload when the error is retryable, unless
+   * options.finalAttempt says no attempt follows.
+   * 
+   * When options.receipt is set, a JSON receipt (see TransferReceipt) is written next to
+   * the verified object and its location returned as receiptLocation. A receipt that can't
+   * be written is logged and left out, the transfer still succeeds. Extractions write it
+   * next to the archive's key, with the extraction summary.
+   * 
+   * When options.extract is set, the source is read as a ZIP archive and each entry is
+   * written to its own object under <key without .zip>/ instead (see extractArchive).
+   * With include or exclude patterns only the matching entries are read, with range
+   * requests (see extractSelectedEntries).
    */
   async transferToS3(
     sourceUrl: string,
     bucket: string,
     keyPrefix?: string,
     onProgress?: ProgressCallback,
-    existingTransferId?: string
+    existingTransferId?: string,
+    options: TransferOptions = {}
   ): Promise<TransferResult & { transferId?: string }> {
     let uploadId: string | undefined;
     let key: string | undefined;
     let bytesTransferred = 0;
     let transferId: string | undefined;
+    let checkpointSaved = false;
+    const startTime = new Date();
 
     try {
       // Validate bucket access first
@@ -203,7 +458,11 @@ export class StreamingService {
       try {
         const isAccessible = await this.urlService.validateUrlAccessible(sourceUrl);
         if (!isAccessible) {
-          throw new UrlFetchError('Source URL is not accessible');
+          throw new UrlFetchError('Source URL is not accessible', undefined, {
+            code: 'SOURCE_NOT_ACCESSIBLE',
+            retryable: false,
+            remediation: 'Check that the source URL is correct and publicly reachable over HTTPS',
+          });
         }
       } catch (error: any) {
         throw ErrorHandler.handleUrlFetchError(error);
@@ -221,29 +480,18 @@ export class StreamingService {
         console.warn('Content-Type validation warning:', error);
       }
 
-      // Get content length for progress tracking
-      const totalBytes = await this.urlService.getContentLength(sourceUrl);
+      // Get content length for progress tracking and validators for resume
+      const sourceMetadata = await this.urlService.getSourceMetadata(sourceUrl);
+      const totalBytes = sourceMetadata.contentLength;
       
       if (totalBytes > this.MAX_FILE_SIZE) {
-        throw new StreamingError(`File size exceeds maximum allowed size of ${this.MAX_FILE_SIZE} bytes`);
+        throw new StreamingError(`File size exceeds maximum allowed size of ${this.MAX_FILE_SIZE} bytes`, undefined, FILE_TOO_LARGE);
       }
 
       // Use existing transfer ID or generate a new one
       transferId = existingTransferId || randomUUID();
       this.progressStore.createTransfer(transferId, totalBytes);
 
-      // Immediately update DynamoDB with the total file size so UI can display it
-      // This ensures the UI shows the correct file size before the first progress update
-      if (this.dynamoDBService && totalBytes > 0) {
-        try {
-          await this.dynamoDBService.updateTransferProgress(transferId, 0, totalBytes);
-          console.log(`Updated DynamoDB with total file size: ${totalBytes} bytes`);
-        } catch (error) {
-          console.error('Failed to update DynamoDB with total size:', error);
-          // Don't fail the transfer if this update fails
-        }
-      }
-
       // Extract filename and construct S3 key
       const filename = this.urlService.extractFilename(sourceUrl);
       key = keyPrefix ? this.constructKey(keyPrefix, filename) : filename;
@@ -251,93 +499,254 @@ export class StreamingService {
       // Validate final S3 key format
       const keyValidation = ValidationService.validateS3Key(key);
       if (!keyValidation.isValid) {
-        throw new StreamingError(keyValidation.error || 'Invalid S3 key format');
+        throw new StreamingError(keyValidation.error || 'Invalid S3 key format', undefined, {
+          code: 'INVALID_S3_KEY',
+          category: 'destination',
+          retryable: false,
+          remediation: 'Use a key prefix and file name that form a valid S3 key',
+        });
       }
 
-      // Create multipart upload
-      uploadId = await this.s3Service.createMultipartUpload(bucket, key);
+      // Continue the previous attempt's multipart upload when S3 and the source still agree
+      const rangeValidator = this.getRangeValidator(sourceMetadata);
+      const newChecksumState = (): ChecksumState => ({
+        object: new ChecksumAccumulator({ md5: options.expectedChecksum?.algorithm === 'md5' }),
+        parts: [],
+      });
+      let checksums = newChecksumState();
 
-      // Stream file from URL using socket timeout for large files
-      // Socket timeout applies to individual socket operations, not the entire request
-      // This allows multi-hour/multi-day transfers as long as data keeps flowing
-      // Requirements: 3.4 - Handle URL fetch errors (DNS, timeout, HTTP errors)
-      // Requirements: 8.2 - Support transfers that take hours or days to complete
-      let response;
-      try {
-        const connectionStartTime = Date.now();
-        response = await axios.get(sourceUrl, {
-          responseType: 'stream',
-          // No total request timeout - use socket timeout instead via agents
-          maxRedirects: 5,
-          // Disable response size limits to allow streaming of large files
-          maxContentLength: Infinity,
-          maxBodyLength: Infinity,
-          // Use configured HTTP/HTTPS agents with socket timeout and keepAlive
-          httpAgent: this.httpAgent,
-          httpsAgent: this.httpsAgent,
-        });
-        const connectionTime = Date.now() - connectionStartTime;
-        console.log(`Connection established to ${sourceUrl} in ${connectionTime}ms`);
-      } catch (error: any) {
-        // Handle URL fetch errors with detailed messages
-        throw ErrorHandler.handleUrlFetchError(error);
+      const rateLimiter = options.maxBytesPerSecond ? new TokenBucket(options.maxBytesPerSecond) : undefined;
+      if (rateLimiter) {
+        console.log(`Limiting source reads to ${rateLimiter.ratePerSecond} bytes/s`);
       }
 
-      const stream: Readable = response.data;
+      let resumeState: ResumeState | null = null;
+      if (options.checkpoint) {
+        const candidate = await this.reconcileCheckpoint(bucket, key, options.checkpoint, sourceMetadata);
+        // The kept parts are only read again when their bytes are needed: for an expected
+        // digest, or when no validator ties them to the source that is read from here on
+        const rereadPrefix = options.expectedChecksum !== undefined || rangeValidator === undefined;
+        if (candidate && !rereadPrefix) {
+          this.skipKeptParts(candidate, checksums);
+          resumeState = candidate;
+        } else if (candidate && await this.verifySourcePrefix(sourceUrl, candidate, rangeValidator, checksums, rateLimiter)) {
+          resumeState = candidate;
+        } else {
+          // The old upload can't be continued, don't leave its parts behind
+          checksums = newChecksumState();
+          await this.s3Service.abortUpload(bucket, key, options.checkpoint.uploadId);
+        }
+      }
 
-      // Track socket events for monitoring and diagnostics
-      const socket = (response as any).request?.socket;
-      if (socket) {
-        // Log socket timeout events
-        socket.on('timeout', () => {
-          console.warn(`Socket timeout event detected for ${sourceUrl} (${this.SOCKET_TIMEOUT}ms)`);
-        });
-        
-        // Track connection reuse via keepAlive
-        const isReused = socket._reusedSocket || false;
-        console.log(`Socket connection ${isReused ? 'reused' : 'newly established'} via keepAlive`);
+      const trackProgress: ProgressCallback = (transferred, total) => {
+        bytesTransferred = transferred;
+        if (onProgress) {
+          onProgress(transferred, total);
+        }
+      };
+
+      if (options.extract) {
+        const result = selectsEntries(options.extract)
+          ? await this.extractSelectedEntries(sourceUrl, bucket, key, transferId, trackProgress, options, rateLimiter)
+          : await this.extractArchive(sourceUrl, bucket, key, totalBytes, transferId, trackProgress, checksums, options, rateLimiter);
+        if (options.receipt) {
+          result.receiptLocation = await this.writeReceipt(options.receipt, bucket, key, sourceUrl, sourceMetadata, result, undefined, startTime);
+        }
+        return result;
       }
 
-      // Add error handler for stream errors during setup
-      // Requirements: 8.3 - Handle network interruptions gracefully
-      stream.on('error', (streamError) => {
-        console.error('Stream error during transfer:', streamError);
-      });
+      // Small files of known size don't need a multipart upload
+      if (!resumeState && totalBytes >= 0 && totalBytes <= this.LARGE_FILE_THRESHOLD) {
+        const result = await this.transferSingleObject(
+          sourceUrl,
+          bucket,
+          key,
+          totalBytes,
+          transferId,
+          trackProgress,
+          checksums,
+          options,
+          rateLimiter
+        );
+        if (options.receipt) {
+          result.receiptLocation = await this.writeReceipt(options.receipt, bucket, key, sourceUrl, sourceMetadata, result, {
+            method: 'PutObject',
+            partSize: result.bytesTransferred,
+            partCount: 1,
+          }, startTime);
+        }
+        return result;
+      }
 
-      // Calculate optimal part size based on file size
-      const partSize = this.calculateOptimalPartSize(totalBytes);
+      this.throwIfCancelled(options.signal);
 
-      // Upload parts with progress tracking
-      const parts = await this.uploadParts(
-        stream,
-        bucket,
-        key,
-        uploadId,
-        totalBytes,
-        partSize,
-        transferId,
-        (transferred, total) => {
-          bytesTransferred = transferred;
-          if (onProgress) {
-            onProgress(transferred, total);
+      if (totalBytes < 0) {
+        console.log('Source did not report a size, streaming with growing part sizes');
+      }
+
+      let partSize: number;
+      if (resumeState) {
+        uploadId = resumeState.uploadId;
+        partSize = resumeState.partSize;
+        checkpointSaved = true;
+        console.log(
+          `Resuming multipart upload ${uploadId} at part ${resumeState.nextPartNumber} ` +
+          `(byte ${resumeState.offset} of ${totalBytes}, ${resumeState.parts.length} parts kept)`
+        );
+      } else {
+        // Calculate optimal part size based on file size, within what the memory budget holds
+        partSize = this.fitPartSizeToMemory(this.calculateOptimalPartSize(totalBytes), totalBytes);
+
+        // Create multipart upload
+        uploadId = await this.s3Service.createMultipartUpload(bucket, key);
+        checkpointSaved = await this.saveCheckpoint(transferId, uploadId, partSize, sourceMetadata);
+      }
+
+      const startOffset = resumeState ? resumeState.offset : 0;
+      bytesTransferred = startOffset;
+
+      // Immediately update DynamoDB with the total file size so UI can display it
+      // This ensures the UI shows the correct file size (or that it is unknown) before the first progress update
+      if (this.dynamoDBService && totalBytes !== 0) {
+        try {
+          await this.dynamoDBService.updateTransferProgress(transferId, startOffset, totalBytes);
+          console.log(`Updated DynamoDB with total file size: ${totalBytes < 0 ? 'unknown' : `${totalBytes} bytes`}`);
+        } catch (error) {
+          if (error instanceof IllegalTransitionError) {
+            // e.g. cancelled, the signal stops the transfer
+            console.log(`Total size not recorded: ${error.message}`);
+          } else {
+            console.error('Failed to update DynamoDB with total size:', error);
           }
+          // Don't fail the transfer if this update fails
         }
-      );
+      }
+
+      // Parallel ranged downloads need a known size and a source that serves byte ranges,
+      // and are left out when the transfer is rate limited
+      const useRangedDownload = this.SOURCE_CONNECTIONS > 1 && sourceMetadata.acceptRanges && totalBytes > 0 && !rateLimiter;
+      if (this.SOURCE_CONNECTIONS > 1 && rateLimiter) {
+        console.log('Transfer is rate limited, using a single stream');
+      } else if (this.SOURCE_CONNECTIONS > 1 && !useRangedDownload) {
+        console.log('Source does not support byte ranges or did not report a size, using a single stream');
+      }
+
+      let parts: CompletedPart[];
+      if (useRangedDownload) {
+        parts = await this.uploadPartsRanged(
+          sourceUrl,
+          rangeValidator,
+          bucket,
+          key,
+          uploadId,
+          totalBytes,
+          partSize,
+          transferId,
+          trackProgress,
+          checksums,
+          resumeState || undefined,
+          options.signal
+        );
+      } else {
+        const response = await this.openSourceStream(sourceUrl, startOffset, rangeValidator);
+        if (startOffset > 0 && response.status !== 206) {
+          // The kept parts were matched to the source moments ago, so it changed in between
+          response.data.destroy();
+          throw new StreamingError(
+            `Source answered the resume request with HTTP ${response.status} instead of 206: the file changed while resuming`,
+            undefined,
+            SOURCE_CHANGED
+          );
+        }
+
+        const stream: Readable = response.data;
+
+        // Track socket events for monitoring and diagnostics
+        const socket = (response as any).request?.socket;
+        if (socket) {
+          // Log socket timeout events
+          socket.on('timeout', () => {
+            console.warn(`Socket timeout event detected for ${sourceUrl} (${this.SOCKET_TIMEOUT}ms)`);
+          });
+          
+          // Track connection reuse via keepAlive
+          const isReused = socket._reusedSocket || false;
+          console.log(`Socket connection ${isReused ? 'reused' : 'newly established'} via keepAlive`);
+        }
+
+        // Add error handler for stream errors during setup
+        // Requirements: 8.3 - Handle network interruptions gracefully
+        stream.on('error', (streamError) => {
+          console.error('Stream error during transfer:', streamError);
+        });
+
+        // A dropped connection is picked up with a Range request, which needs a validator
+        // so bytes from a changed source are never appended to the current part
+        const reconnect: ReconnectSource | undefined = sourceMetadata.acceptRanges && rangeValidator
+          ? (offset) => this.reopenSourceStream(sourceUrl, offset, rangeValidator)
+          : undefined;
+
+        // Upload parts with progress tracking
+        parts = await this.uploadParts(
+          stream,
+          bucket,
+          key,
+          uploadId,
+          totalBytes,
+          partSize,
+          transferId,
+          trackProgress,
+          checksums,
+          resumeState || undefined,
+          reconnect,
+          rateLimiter,
+          options.signal
+        );
+      }
+
+      // A cancel that came in with the last part still aborts the upload
+      this.throwIfCancelled(options.signal);
+
+      // A source that closed early must not be completed as a truncated object
+      if (totalBytes >= 0 && bytesTransferred !== totalBytes) {
+        throw new StreamingError(`Source sent ${bytesTransferred} of the ${totalBytes} bytes it reported`, undefined, SOURCE_LENGTH_MISMATCH);
+      }
+
+      // A mismatch is not retryable, so the catch below aborts the upload instead of completing it
+      const { objectChecksums, partChecksums } = this.finaliseChecksums(checksums, bytesTransferred, options.expectedChecksum);
 
       // Complete multipart upload
       const s3Location = await this.s3Service.completeUpload(bucket, key, uploadId, parts);
+      await this.verifyUploadedObject(bucket, key, bytesTransferred, objectChecksums, partChecksums);
 
       // Mark transfer as completed
       this.progressStore.completeTransfer(transferId, s3Location);
 
-      return {
+      const result: TransferResult & { transferId?: string } = {
         success: true,
         s3Location,
         bytesTransferred,
         transferId,
+        checksums: objectChecksums,
+        partChecksums,
       };
+      if (options.receipt) {
+        result.receiptLocation = await this.writeReceipt(options.receipt, bucket, key, sourceUrl, sourceMetadata, result, {
+          method: 'multipart',
+          partSize,
+          partCount: partChecksums.length,
+          resumedFromByte: startOffset > 0 ? startOffset : undefined,
+        }, startTime);
+      }
+      return result;
     } catch (error: any) {
-      console.error('Transfer failed:', error);
+      if (error instanceof TransferCancelledError) {
+        console.log(`Transfer cancelled after ${bytesTransferred} bytes`);
+      } else if (error instanceof TransferInterruptedError) {
+        console.log(`Transfer interrupted after ${bytesTransferred} bytes`);
+      } else {
+        console.error('Transfer failed:', error);
+      }
 
       // Mark transfer as failed
       if (transferId) {
@@ -346,17 +755,719 @@ export class StreamingService {
       }
 
       // Cleanup: abort multipart upload if it was created
+      // Keep it when the failure is transient and the checkpoint lets the retry resume it
       if (uploadId && key) {
-        await this.s3Service.abortUpload(bucket, key, uploadId);
+        if (checkpointSaved && !options.finalAttempt && error instanceof Error && ErrorHandler.isRetryable(error)) {
+          console.log(`Keeping multipart upload ${uploadId} so a retry can resume it`);
+        } else {
+          await this.s3Service.abortUpload(bucket, key, uploadId);
+        }
+      }
+
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+        bytesTransferred,
+        transferId,
+      };
+    }
+  }
+
+  /**
+   * Transfers a small file of known size with a single PutObject
+   * The body is read into one buffer first, so the checksums (and any expected
+   * checksum) are verified before anything is written to the bucket.
+   */
+  private async transferSingleObject(
+    sourceUrl: string,
+    bucket: string,
+    key: string,
+    totalBytes: number,
+    transferId: string,
+    onProgress: ProgressCallback,
+    checksums: ChecksumState,
+    options: TransferOptions,
+    rateLimiter?: TokenBucket
+  ): Promise<TransferResult & { transferId?: string }> {
+    console.log(`File size ${totalBytes} bytes is within ${this.LARGE_FILE_THRESHOLD} bytes, using a single PutObject`);
+
+    const response = await this.openSourceStream(sourceUrl, 0);
+    const stream: Readable = response.data;
+    const data = Buffer.allocUnsafe(totalBytes);
+    let bytesTransferred = 0;
+    let lastProgressUpdate = 0;
+    let onAbort: (() => void) | undefined;
+
+    await new Promise<void>((resolve, reject) => {
+      onAbort = () => {
+        stream.destroy();
+        onProgress(bytesTransferred, totalBytes);
+        reject(this.abortError(options.signal));
+      };
+      if (options.signal?.aborted) {
+        onAbort();
+        return;
       }
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      stream.on('data', (chunk: Buffer) => {
+        if (bytesTransferred + chunk.length > totalBytes) {
+          stream.destroy();
+          reject(new StreamingError(`Source sent more than the ${totalBytes} bytes it reported`, undefined, SOURCE_LENGTH_MISMATCH));
+          return;
+        }
+
+        chunk.copy(data, bytesTransferred);
+        bytesTransferred += chunk.length;
+
+        // Progress every 1%, as for multipart transfers
+        if (bytesTransferred - lastProgressUpdate >= totalBytes * 0.01) {
+          lastProgressUpdate = bytesTransferred;
+          this.updateProgressTracking(transferId, bytesTransferred, totalBytes).catch(err => {
+            console.error('Failed to update progress:', err);
+          });
+          onProgress(bytesTransferred, totalBytes);
+        }
+
+        const wait = rateLimiter ? rateLimiter.consume(chunk.length) : 0;
+        if (wait > 0) {
+          stream.pause();
+          setTimeout(() => stream.resume(), wait);
+        }
+      });
+
+      stream.on('end', () => {
+        if (bytesTransferred !== totalBytes) {
+          reject(new StreamingError(`Source sent ${bytesTransferred} of the ${totalBytes} bytes it reported`, undefined, SOURCE_LENGTH_MISMATCH));
+          return;
+        }
+        resolve();
+      });
+
+      stream.on('error', (error) => {
+        reject(ErrorHandler.handleStreamingError(error, bytesTransferred, totalBytes));
+      });
+    }).finally(() => options.signal?.removeEventListener('abort', onAbort!));
+
+    await this.updateProgressTracking(transferId, bytesTransferred, totalBytes);
+    onProgress(bytesTransferred, totalBytes);
+
+    // A mismatch is thrown before PutObject, so nothing is written to the bucket
+    const partChecksum = this.recordChecksums(checksums, 1, data);
+    const { objectChecksums, partChecksums } = this.finaliseChecksums(checksums, bytesTransferred, options.expectedChecksum);
+
+    this.throwIfCancelled(options.signal);
+    const s3Location = await this.s3Service.putObject(bucket, key, data, partChecksum.crc32c);
+    await this.verifyUploadedObject(bucket, key, bytesTransferred, objectChecksums);
+    this.progressStore.completeTransfer(transferId, s3Location);
+
+    return {
+      success: true,
+      s3Location,
+      bytesTransferred,
+      transferId,
+      checksums: objectChecksums,
+      partChecksums,
+    };
+  }
+
+  /**
+   * Extracts a ZIP archive into the bucket while it streams
+   *
+   * Each file entry is inflated and written to <key without .zip>/<entry name>, with
+   * PutObject or a multipart upload depending on its size, once its CRC-32 checks out.
+   * Entries are held to an ExtractionPolicy with options.extractionLimits, which also
+   * turns their names into valid keys.
+   * With options.extract.keepArchive the archive itself is also written to key.
+   * Progress counts archive bytes. Nothing is checkpointed, so a retry starts over
+   * and overwrites the entries already written. When the archive doesn't match
+   * options.expectedChecksum, the entries written are deleted.
+   */
+  private async extractArchive(
+    sourceUrl: string,
+    bucket: string,
+    key: string,
+    totalBytes: number,
+    transferId: string,
+    onProgress: ProgressCallback,
+    checksums: ChecksumState,
+    options: TransferOptions,
+    rateLimiter?: TokenBucket
+  ): Promise<TransferResult & { transferId?: string }> {
+    const entryPrefix = this.getEntryPrefix(key);
+    console.log(`Extracting archive entries to s3://${bucket}/${entryPrefix}`);
+
+    const createWriter = (objectKey: string, size: number) => this.createObjectWriter(bucket, objectKey, size);
+    const policy = new ExtractionPolicy(options.extractionLimits);
+    const extractor = new ArchiveExtractor(entryPrefix, policy, (entryKey, entry) => createWriter(entryKey, entry.uncompressedSize ?? -1));
+    const parser = new ZipStreamParser(extractor.handleEntry, { password: options.archivePassword });
+    const archiveWriter = options.extract?.keepArchive ? createWriter(key, totalBytes) : undefined;
+
+    const response = await this.openSourceStream(sourceUrl, 0);
+    const stream: Readable = response.data;
+    const onAbort = () => stream.destroy();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    let bytesTransferred = 0;
+    let lastProgressUpdate = 0;
+    let archiveLocation: string | undefined;
+    let objectChecksums: ObjectChecksums;
+    try {
+      try {
+        for await (const chunk of stream) {
+          const data = chunk as Buffer;
+          if (totalBytes >= 0 && bytesTransferred + data.length > totalBytes) {
+            throw new StreamingError(`Source sent more than the ${totalBytes} bytes it reported`, undefined, SOURCE_LENGTH_MISMATCH);
+          }
+          checksums.object.update(data);
+          bytesTransferred += data.length;
+
+          // The chunk's entry data is uploaded before the next chunk is read
+          await parser.write(data);
+          await archiveWriter?.write(data);
+
+          // Progress every 1% of the archive, as for other transfers
+          if (totalBytes < 0 || bytesTransferred - lastProgressUpdate >= totalBytes * 0.01) {
+            lastProgressUpdate = bytesTransferred;
+            this.updateProgressTracking(transferId, bytesTransferred, totalBytes).catch(err => {
+              console.error('Failed to update progress:', err);
+            });
+            onProgress(bytesTransferred, totalBytes);
+          }
+
+          const wait = rateLimiter ? rateLimiter.consume(data.length) : 0;
+          if (wait > 0) {
+            await new Promise(resolve => setTimeout(resolve, wait));
+          }
+        }
+      } catch (error: any) {
+        this.throwIfCancelled(options.signal);
+        // Archive and upload errors are already classified, the rest come from the source stream
+        throw error instanceof ClassifiedError ? error : ErrorHandler.handleStreamingError(error, bytesTransferred, totalBytes);
+      }
+      this.throwIfCancelled(options.signal);
+
+      if (totalBytes >= 0 && bytesTransferred !== totalBytes) {
+        throw new StreamingError(`Source sent ${bytesTransferred} of the ${totalBytes} bytes it reported`, undefined, SOURCE_LENGTH_MISMATCH);
+      }
+      await parser.end();
+      await this.updateProgressTracking(transferId, bytesTransferred, totalBytes);
+      onProgress(bytesTransferred, totalBytes);
+
+      // Entries are written as they stream, so an archive that fails its expected checksum
+      // has its entries deleted again; the kept archive is still held back and aborted below
+      try {
+        ({ objectChecksums } = this.finaliseChecksums(checksums, bytesTransferred, options.expectedChecksum));
+      } catch (error) {
+        await this.s3Service.deleteObjects(bucket, extractor.entries.map((entry) => entry.key));
+        throw error;
+      }
+      if (archiveWriter) {
+        await archiveWriter.end();
+        archiveLocation = archiveWriter.location;
+      }
+    } catch (error) {
+      stream.destroy();
+      parser.destroy();
+      await Promise.all([extractor.abort(), archiveWriter?.abort()]);
+      throw error;
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+
+    const s3Location = `s3://${bucket}/${entryPrefix}`;
+    this.progressStore.completeTransfer(transferId, s3Location);
+    console.log(`Extracted ${extractor.entries.length} entries (${extractor.uncompressedBytes} bytes) to ${s3Location}`);
+
+    return {
+      success: true,
+      s3Location,
+      bytesTransferred,
+      transferId,
+      checksums: objectChecksums,
+      extraction: {
+        prefix: entryPrefix,
+        entryCount: extractor.entries.length,
+        uncompressedBytes: extractor.uncompressedBytes,
+        archiveLocation,
+      },
+    };
+  }
+
+  /**
+   * Extracts the entries of a remote ZIP archive that match options.extract's patterns
+   *
+   * The central directory is read with RemoteZipReader, and each selected entry's local
+   * header and data are then read with a range request that ends where the next entry
+   * (or the central directory) starts. Entries are written as by extractArchive and held
+   * to the same ExtractionPolicy; directory entries are skipped. Progress counts the
+   * archive bytes of the selected entries, and the requests carry If-Range with the
+   * directory's validator, so a source that changes fails the transfer.
+   */
+  private async extractSelectedEntries(
+    sourceUrl: string,
+    bucket: string,
+    key: string,
+    transferId: string,
+    onProgress: ProgressCallback,
+    options: TransferOptions,
+    rateLimiter?: TokenBucket
+  ): Promise<TransferResult & { transferId?: string }> {
+    const entryPrefix = this.getEntryPrefix(key);
+    const directory = await new RemoteZipReader(sourceUrl, this.urlService).readDirectory();
+    this.throwIfCancelled(options.signal);
+
+    const filter = new EntryFilter(options.extract?.include, options.extract?.exclude);
+    const spans = this.getEntrySpans(directory.entries, directory.centralDirectoryOffset)
+      .filter(({ entry }) => !entry.isDirectory && filter.matches(entry.name));
+    if (spans.length === 0) {
+      throw new ArchiveError(`None of the archive's ${directory.entries.length} entries match the include and exclude patterns`, undefined, {
+        code: 'NO_MATCHING_ENTRIES',
+        remediation: 'Check the patterns against the entry names GET /inspect lists',
+      });
+    }
+    const totalBytes = spans.reduce((total, span) => total + span.end - span.start + 1, 0);
+    console.log(`Extracting ${spans.length} of ${directory.entries.length} archive entries (${totalBytes} archive bytes) to s3://${bucket}/${entryPrefix}`);
+
+    const policy = new ExtractionPolicy(options.extractionLimits);
+    const extractor = new ArchiveExtractor(entryPrefix, policy, (entryKey, entry) => this.createObjectWriter(bucket, entryKey, entry.uncompressedSize ?? -1));
+
+    let bytesTransferred = 0;
+    let lastProgressUpdate = 0;
+    try {
+      for (const { entry, start, end } of spans) {
+        const parser = new ZipStreamParser(async (local) => {
+          if (local.name !== entry.name) {
+            throw new ArchiveError(
+              `Local header at offset ${start} names ${local.name}, the central directory ${entry.name}`,
+              entry.name,
+              { code: 'ARCHIVE_ENTRY_CORRUPT' }
+            );
+          }
+          return extractor.handleEntry(local);
+        }, { offset: start, singleEntry: true, password: options.archivePassword });
+
+        const response = await this.openSourceStream(sourceUrl, start, directory.validator, end);
+        const stream: Readable = response.data;
+        if (response.status !== 206) {
+          stream.destroy();
+          throw new StreamingError(
+            `Source answered the request for entry ${entry.name} with HTTP ${response.status} instead of 206: the file changed or ranges are not supported`,
+            undefined,
+            SOURCE_CHANGED
+          );
+        }
+        const onAbort = () => stream.destroy();
+        options.signal?.addEventListener('abort', onAbort, { once: true });
+
+        const entryStart = bytesTransferred;
+        try {
+          for await (const chunk of stream) {
+            const data = chunk as Buffer;
+            bytesTransferred += data.length;
+            await parser.write(data);
+
+            // Progress every 1% of the selected bytes
+            if (bytesTransferred - lastProgressUpdate >= totalBytes * 0.01) {
+              lastProgressUpdate = bytesTransferred;
+              this.updateProgressTracking(transferId, bytesTransferred, totalBytes).catch(err => {
+                console.error('Failed to update progress:', err);
+              });
+              onProgress(bytesTransferred, totalBytes);
+            }
+
+            const wait = rateLimiter ? rateLimiter.consume(data.length) : 0;
+            if (wait > 0) {
+              await new Promise(resolve => setTimeout(resolve, wait));
+            }
+            if (parser.finished) {
+              break; // Whatever precedes the next entry isn't needed
+            }
+          }
+          this.throwIfCancelled(options.signal);
+          await parser.end();
+        } catch (error: any) {
+          stream.destroy();
+          parser.destroy();
+          this.throwIfCancelled(options.signal);
+          throw error instanceof ClassifiedError ? error : ErrorHandler.handleStreamingError(error, bytesTransferred, totalBytes);
+        } finally {
+          options.signal?.removeEventListener('abort', onAbort);
+        }
+        // The entry's whole span counts, also when the parser finished before its end
+        bytesTransferred = entryStart + end - start + 1;
+      }
+      await this.updateProgressTracking(transferId, bytesTransferred, totalBytes);
+      onProgress(bytesTransferred, totalBytes);
+    } catch (error) {
+      await extractor.abort();
+      throw error;
+    }
+
+    const s3Location = `s3://${bucket}/${entryPrefix}`;
+    this.progressStore.completeTransfer(transferId, s3Location);
+    console.log(`Extracted ${extractor.entries.length} entries (${extractor.uncompressedBytes} bytes) to ${s3Location}`);
+
+    return {
+      success: true,
+      s3Location,
+      bytesTransferred,
+      transferId,
+      extraction: {
+        prefix: entryPrefix,
+        entryCount: extractor.entries.length,
+        uncompressedBytes: extractor.uncompressedBytes,
+      },
+    };
+  }
+
+  /**
+   * Byte ranges of the archive that hold each entry's local header, data and data descriptor
+   * An entry's range ends where the next local header, or the central directory, starts.
+   */
+  private getEntrySpans(
+    entries: CentralDirectoryEntry[],
+    centralDirectoryOffset: number
+  ): Array<{ entry: CentralDirectoryEntry; start: number; end: number }> {
+    const offsets = [...new Set(entries.map(entry => entry.localHeaderOffset))].sort((a, b) => a - b);
+    return entries.map((entry) => {
+      const index = offsets.indexOf(entry.localHeaderOffset);
+      const next = index + 1 < offsets.length ? offsets[index + 1] : centralDirectoryOffset;
+      return { entry, start: entry.localHeaderOffset, end: next - 1 };
+    });
+  }
+
+  /**
+   * Prefix archive entries are written under: the archive's key without .zip
+   */
+  private getEntryPrefix(key: string): string {
+    return `${key.replace(/\.zip$/i, '')}/`;
+  }
+
+  /**
+   * Writer for an extracted object of size bytes (-1 when unknown), sized like a transfer's parts
+   */
+  private createObjectWriter(bucket: string, key: string, size: number): S3ObjectWriter {
+    const basePartSize = this.fitPartSizeToMemory(this.calculateOptimalPartSize(size), size);
+    return new S3ObjectWriter(this.s3Service, bucket, key, {
+      partSize: (partNumber) => this.getPartSize(basePartSize, partNumber, size),
+      maxConcurrentUploads: this.MAX_CONCURRENT_UPLOADS,
+      uploadPart: (b, k, uploadId, partNumber, data, crc32c) => this.uploadPartWithRetry(b, k, uploadId, partNumber, data, crc32c),
+    });
+  }
+
+  /**
+   * Opens the source as a stream, optionally limited to a byte range
+   * Uses socket timeout instead of a total request timeout for large files
+   * 
+   * For ranges a Range request is sent with If-Range, so a source that changed
+   * since the checkpoint answers with the full file (HTTP 200) instead of a range
+   * of a different file.
+   * 
+   * Requirements: 3.4 - Handle URL fetch errors (DNS, timeout, HTTP errors)
+   * Requirements: 8.2 - Support transfers that take hours or days to complete
+   */
+  private async openSourceStream(
+    sourceUrl: string,
+    offset: number,
+    validator?: string,
+    end?: number
+  ): Promise<AxiosResponse> {
+    const headers: Record<string, string> = {};
+    if (offset > 0 || end !== undefined) {
+      headers['Range'] = `bytes=${offset}-${end !== undefined ? end : ''}`;
+      if (validator) {
+        headers['If-Range'] = validator;
+      }
+    }
+
+    try {
+      const connectionStartTime = Date.now();
+      const response = await axios.get(sourceUrl, {
+        responseType: 'stream',
+        headers,
+        // No total request timeout - use socket timeout instead via agents
+        maxRedirects: 5,
+        // Disable response size limits to allow streaming of large files
+        maxContentLength: Infinity,
+        maxBodyLength: Infinity,
+        // Use configured HTTP/HTTPS agents with socket timeout and keepAlive
+        httpAgent: this.httpAgent,
+        httpsAgent: this.httpsAgent,
+      });
+      const connectionTime = Date.now() - connectionStartTime;
+      console.log(`Connection established to ${sourceUrl} in ${connectionTime}ms${headers['Range'] ? ` (${headers['Range']})` : ''}`);
+      return response;
+    } catch (error: any) {
+      // Handle URL fetch errors with detailed messages
+      throw ErrorHandler.handleUrlFetchError(error);
+    }
+  }
+
+  /**
+   * Reopens the source at offset after the connection dropped mid-stream
+   * A source that changed answers the If-Range request with HTTP 200, which
+   * fails the transfer instead of mixing bytes from two versions of the file.
+   */
+  private async reopenSourceStream(sourceUrl: string, offset: number, validator: string): Promise<Readable> {
+    const response = await this.openSourceStream(sourceUrl, offset, validator);
+    if (response.status !== 206) {
+      response.data.destroy();
+      throw new StreamingError(
+        `Source answered the reconnect request with HTTP ${response.status} instead of 206: the file changed during the transfer`,
+        undefined,
+        SOURCE_CHANGED
+      );
+    }
+    return response.data;
+  }
+
+  /**
+   * Throws once the transfer's signal has been aborted
+   */
+  private throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw this.abortError(signal);
+    }
+  }
+
+  /**
+   * Error a stopped transfer ends with: the TransferInterruptedError the signal was
+   * aborted with, or TransferCancelledError for any other abort
+   */
+  private abortError(signal?: AbortSignal): TransferCancelledError | TransferInterruptedError {
+    return signal?.reason instanceof TransferInterruptedError ? signal.reason : new TransferCancelledError();
+  }
+
+  /**
+   * Picks the If-Range validator for a resumed request
+   * If-Range requires a strong ETag, so weak ETags fall back to Last-Modified
+   */
+  private getRangeValidator(metadata: SourceMetadata): string | undefined {
+    if (metadata.etag && !metadata.etag.startsWith('W/')) {
+      return metadata.etag;
+    }
+    return metadata.lastModified;
+  }
+
+  /**
+   * Reconciles a saved upload checkpoint with S3 and the current source
+   * Returns where to resume, or null when the old upload can't be continued
+   * 
+   * S3 ListParts is authoritative: a part can finish uploading right before the
+   * worker dies without being recorded. Only the leading run of full-size parts is
+   * kept, because the source is read again from the byte after the last of them.
+   * Parts without a CRC32C checksum can't be verified against the source and end the run.
+   */
+  private async reconcileCheckpoint(
+    bucket: string,
+    key: string,
+    checkpoint: UploadCheckpoint,
+    sourceMetadata: SourceMetadata
+  ): Promise<ResumeState | null> {
+    const totalBytes = sourceMetadata.contentLength;
+
+    // The source must still be the same file
+    if (totalBytes <= 0 || checkpoint.totalBytes !== totalBytes) {
+      console.warn(`Cannot resume upload ${checkpoint.uploadId}: source size changed (${checkpoint.totalBytes} -> ${totalBytes} bytes)`);
+      return null;
+    }
+    if (checkpoint.sourceEtag && checkpoint.sourceEtag !== sourceMetadata.etag) {
+      console.warn(`Cannot resume upload ${checkpoint.uploadId}: source ETag changed (${checkpoint.sourceEtag} -> ${sourceMetadata.etag})`);
+      return null;
+    }
+    if (checkpoint.sourceLastModified && checkpoint.sourceLastModified !== sourceMetadata.lastModified) {
+      console.warn(`Cannot resume upload ${checkpoint.uploadId}: source Last-Modified changed`);
+      return null;
+    }
+    if (!sourceMetadata.acceptRanges) {
+      console.warn(`Cannot resume upload ${checkpoint.uploadId}: source does not accept byte ranges`);
+      return null;
+    }
+
+    let uploadedParts: Part[];
+    try {
+      uploadedParts = await this.s3Service.listParts(bucket, key, checkpoint.uploadId);
+    } catch (error: any) {
+      console.warn(`Cannot resume upload ${checkpoint.uploadId}: ${error.message || error}`);
+      return null;
+    }
+
+    const uploaded = new Map(uploadedParts.map(part => [part.PartNumber, part]));
+    const parts: CompletedPart[] = [];
+    let nextPartNumber = 1;
+
+    // Never keep the final part so at least one byte is always read from the source
+    while (nextPartNumber * checkpoint.partSize < totalBytes) {
+      const part = uploaded.get(nextPartNumber);
+      if (!part || !part.ETag || !part.ChecksumCRC32C || part.Size !== checkpoint.partSize) {
+        break;
+      }
+      parts.push({ PartNumber: nextPartNumber, ETag: part.ETag, ChecksumCRC32C: part.ChecksumCRC32C });
+      nextPartNumber++;
+    }
+
+    if (parts.length === 0) {
+      console.warn(`Cannot resume upload ${checkpoint.uploadId}: no reusable parts in S3`);
+      return null;
+    }
+
+    const recorded = new Set(checkpoint.completedPartNumbers);
+    const unrecorded = parts.filter(part => !recorded.has(part.PartNumber!)).length;
+    if (unrecorded > 0) {
+      console.log(`${unrecorded} uploaded part(s) were missing from the checkpoint, using S3 ListParts`);
+    }
+
+    return {
+      uploadId: checkpoint.uploadId,
+      partSize: checkpoint.partSize,
+      parts,
+      nextPartNumber,
+      offset: parts.length * checkpoint.partSize,
+    };
+  }
+
+  /**
+   * Continues the checksums over the kept parts from the CRC32Cs S3 stored for them
+   * The parts aren't read again: the checkpoint matched the source's ETag and
+   * Last-Modified, and the rest is read with If-Range. The object CRC32C is combined
+   * from the part CRC32Cs; its SHA-256 (and MD5) can't be and are left out.
+   */
+  private skipKeptParts(resume: ResumeState, checksums: ChecksumState): void {
+    console.log(`Continuing checksums from the CRC32Cs of the ${resume.parts.length} parts already in S3`);
+    for (const part of resume.parts) {
+      const crc32c = Buffer.from(part.ChecksumCRC32C!, 'base64').readUInt32BE(0);
+      checksums.object.skip(crc32c, resume.partSize);
+      checksums.parts.push({ partNumber: part.PartNumber!, size: resume.partSize, crc32c: part.ChecksumCRC32C! });
+    }
+  }
+
+  /**
+   * Re-reads the source bytes covered by the kept parts to continue the checksums
+   * Used when an expected digest has to be checked, which needs the whole object hashed
+   * again, or when the source has no validator. Each part's CRC32C is compared with
+   * what S3 stored, which also proves the kept parts came from the same file. Reads
+   * are held to rateLimiter like the rest of the transfer.
+   * 
+   * Returns false when the source changed (If-Range mismatch or a part's CRC32C differs).
+   */
+  private async verifySourcePrefix(
+    sourceUrl: string,
+    resume: ResumeState,
+    validator: string | undefined,
+    checksums: ChecksumState,
+    rateLimiter?: TokenBucket
+  ): Promise<boolean> {
+    const response = await this.openSourceStream(sourceUrl, 0, validator, resume.offset - 1);
+    const stream: Readable = response.data;
+    if (response.status !== 206) {
+      console.warn(`Source answered prefix range request with HTTP ${response.status}, restarting transfer from byte zero`);
+      stream.destroy();
+      return false;
+    }
+
+    console.log(`Re-reading ${resume.offset} bytes already in S3 to continue checksums`);
+    let partIndex = 0;
+    let partBytes = 0;
+    let partSha256 = createHash('sha256');
+    let partCrc32c = 0;
+
+    try {
+      for await (const chunk of stream) {
+        let chunkOffset = 0;
+        while (chunkOffset < chunk.length) {
+          if (partIndex >= resume.parts.length) {
+            throw new StreamingError(`Source sent more than the ${resume.offset} bytes requested for the resume prefix`);
+          }
+
+          const slice = (chunk as Buffer).subarray(chunkOffset, chunkOffset + resume.partSize - partBytes);
+          checksums.object.update(slice);
+          partSha256.update(slice);
+          partCrc32c = ChecksumService.crc32c(slice, partCrc32c);
+          partBytes += slice.length;
+          chunkOffset += slice.length;
+
+          if (partBytes === resume.partSize) {
+            const part = resume.parts[partIndex];
+            const crc32c = ChecksumService.crc32cToBuffer(partCrc32c).toString('base64');
+            if (crc32c !== part.ChecksumCRC32C) {
+              console.warn(`Part ${part.PartNumber} CRC32C in S3 (${part.ChecksumCRC32C}) does not match the source (${crc32c})`);
+              stream.destroy();
+              return false;
+            }
+
+            checksums.parts.push({
+              partNumber: part.PartNumber!,
+              size: partBytes,
+              sha256: partSha256.digest('base64'),
+              crc32c,
+            });
+            partIndex++;
+            partBytes = 0;
+            partSha256 = createHash('sha256');
+            partCrc32c = 0;
+          }
+        }
+
+        const wait = rateLimiter ? rateLimiter.consume(chunk.length) : 0;
+        if (wait > 0) {
+          await new Promise(resolve => setTimeout(resolve, wait));
+        }
+      }
+    } catch (error: any) {
+      throw error instanceof StreamingError
+        ? error
+        : ErrorHandler.handleStreamingError(error, checksums.object.bytesHashed, resume.offset);
+    }
+
+    if (checksums.object.bytesHashed !== resume.offset) {
+      throw new StreamingError(`Incomplete resume prefix: received ${checksums.object.bytesHashed} of ${resume.offset} bytes`);
+    }
+
+    return true;
+  }
+
+  /**
+   * Saves the multipart upload checkpoint to DynamoDB (if available)
+   * Returns whether a later attempt will be able to find the upload
+   */
+  private async saveCheckpoint(
+    transferId: string,
+    uploadId: string,
+    partSize: number,
+    sourceMetadata: SourceMetadata
+  ): Promise<boolean> {
+    if (!this.dynamoDBService) {
+      return false;
+    }
 
-      return {
-        success: false,
-        error: error instanceof Error ? error : new Error(String(error)),
-        bytesTransferred,
-        transferId,
-      };
+    try {
+      await this.dynamoDBService.saveUploadCheckpoint(transferId, {
+        uploadId,
+        partSize,
+        sourceEtag: sourceMetadata.etag,
+        sourceLastModified: sourceMetadata.lastModified,
+      });
+      return true;
+    } catch (error) {
+      // Don't fail the transfer - it just won't be resumable
+      console.error('Failed to save upload checkpoint:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Records a completed part in the DynamoDB checkpoint (if available)
+   */
+  private recordPartCheckpoint(transferId: string, partNumber: number): void {
+    if (!this.dynamoDBService) {
+      return;
     }
+
+    this.dynamoDBService.recordCompletedPart(transferId, partNumber).catch((error: any) => {
+      // ListParts is authoritative on resume, so a missed record is not fatal
+      console.error(`Failed to record part ${partNumber} in checkpoint:`, error);
+    });
   }
 
   /**
@@ -378,7 +1489,12 @@ export class StreamingService {
         await this.dynamoDBService.updateTransferProgress(transferId, bytesTransferred, totalBytes);
       } catch (error) {
         // Log error but don't fail the transfer
-        console.error('Failed to update DynamoDB progress:', error);
+        if (error instanceof IllegalTransitionError) {
+          // The transfer ended elsewhere (e.g. cancelled), the signal stops it
+          console.log(`Progress not recorded: ${error.message}`);
+        } else {
+          console.error('Failed to update DynamoDB progress:', error);
+        }
       }
     }
   }
@@ -400,6 +1516,31 @@ export class StreamingService {
    * - Files 10-100GB: 250MB parts
    * - Files >100GB: 500MB parts
    * 
+   * RESUME: When resuming, the stream starts at resume.offset and part numbering
+   * continues after the kept parts. Each completed part is recorded in the checkpoint.
+   * 
+   * UNKNOWN SIZE: When totalBytes is -1 the part size grows as parts are cut (see getPartSize).
+   * 
+   * RECONNECT: When the source connection drops with a retryable network error and a
+   * reconnect function is given, the source is reopened at bytesTransferred with backoff
+   * and its data keeps filling the current part buffer. Parts and uploads are unaffected.
+   * 
+   * RATE LIMIT: With a rateLimiter every chunk is taken from the token bucket, and the
+   * stream is paused until the bucket is out of debt. The pause shares the backpressure
+   * state, so neither an upload completing nor the rate timer resumes the stream while
+   * the other still holds it.
+   * 
+   * ADAPTIVE CONCURRENCY: The number of uploads in flight starts at MAX_CONCURRENT_UPLOADS
+   * and is moved by an AIMD controller (see AdaptiveConcurrency) between the configured
+   * bounds, using the timing of each part and throttling errors from S3.
+   * 
+   * BUFFER POOL: Part buffers come from a BufferPool holding as many buffers as
+   * PART_BUFFER_MEMORY allows. Each buffer goes back to the pool once its part is
+   * uploaded, and the high-water mark and concurrency are capped at what the pool holds.
+   * 
+   * CHECKSUMS: Each part is hashed when it is cut from the stream, so the whole-object
+   * digests see the bytes in source order.
+   * 
    * Requirements: 3.2, 4.2, 8.1, 8.2, 8.5, Stream flow control, performance
    */
   private async uploadParts(
@@ -410,25 +1551,41 @@ export class StreamingService {
     totalBytes: number,
     partSize: number,
     transferId: string,
-    onProgress: ProgressCallback
+    onProgress: ProgressCallback,
+    checksums: ChecksumState,
+    resume?: ResumeState,
+    reconnect?: ReconnectSource,
+    rateLimiter?: TokenBucket,
+    signal?: AbortSignal
   ): Promise<CompletedPart[]> {
-    const parts: CompletedPart[] = [];
-    let partNumber = 1;
-    // Pre-allocate buffer to part size for better performance (avoid Buffer.concat overhead)
-    let buffer = Buffer.allocUnsafe(partSize);
+    // A resumed upload starts with the parts kept from the previous attempt
+    const parts: CompletedPart[] = resume ? [...resume.parts] : [];
+    let partNumber = resume ? resume.nextPartNumber : 1;
+    // Part sizes for unknown sizes only grow as far as MIN_PART_BUFFERS of them fit the memory budget
+    const maxGrownPartSize = Math.max(partSize, Math.floor(this.PART_BUFFER_MEMORY / this.MIN_PART_BUFFERS));
+    let currentPartSize = Math.min(this.getPartSize(partSize, partNumber, totalBytes), maxGrownPartSize);
+    // Part buffers come from a pool bounded by the memory budget and are reused once uploaded
+    const pool = new BufferPool(currentPartSize, this.partBufferCapacity(currentPartSize));
+    let buffer = pool.acquire();
     let bufferOffset = 0; // Track current position in buffer
-    let bytesTransferred = 0;
-    let lastProgressUpdate = 0;
-    let lastProgressPercentage = 0;
+    let bytesTransferred = resume ? resume.offset : 0;
+    let lastProgressUpdate = bytesTransferred;
+    let lastProgressPercentage = totalBytes > 0 ? Math.floor((bytesTransferred / totalBytes) * 100) : 0;
     const ONE_HUNDRED_MB = 100 * 1024 * 1024;
 
     // Performance metrics
-    let bufferAllocations = 0;
     let bufferCopies = 0;
     
     // Concurrency monitoring metrics
     // Requirements: Performance monitoring, validation
     let peakConcurrency = 0;
+    const concurrency = new AdaptiveConcurrency({
+      initial: this.MAX_CONCURRENT_UPLOADS,
+      min: this.ADAPTIVE_CONCURRENCY_MIN,
+      max: this.ADAPTIVE_CONCURRENCY_MAX,
+    });
+    // Every upload holds a buffer, so the pool leaves room for one less than its capacity
+    concurrency.constrain(pool.capacity - 1);
     
     // Backpressure monitoring metrics
     let pauseCount = 0;
@@ -438,6 +1595,15 @@ export class StreamingService {
     let isPaused = false;
     let bufferedParts = 0; // Track number of parts waiting to be uploaded
     let bufferedMemory = 0; // Track total memory in buffered parts
+
+    // Rate limit metrics
+    let throttleWaits = 0;
+    let totalThrottledTime = 0;
+    let throttleTimer: NodeJS.Timeout | undefined;
+
+    // Reconnect metrics
+    let reconnections = 0;
+    let reconnectAttempts = 0; // Consecutive attempts since data last arrived
     
     // Progress tracking metrics
     // Requirements: Performance monitoring, CPU optimization
@@ -446,23 +1612,27 @@ export class StreamingService {
     let progressCallbacks = 0; // Number of times callback was invoked
     const progressTrackingStartTime = Date.now(); // Track total time for frequency calculation
 
-    // Calculate adaptive max buffered memory based on part size
-    // Allow buffering up to BUFFER_HIGH_WATER_MARK parts
-    const maxBufferedMemory = partSize * this.BUFFER_HIGH_WATER_MARK;
+    // Allow buffering as many parts as the pool holds besides the one being filled
+    // (both change with the part size for unknown sizes)
+    let highWaterMark = pool.capacity - 1;
+    let maxBufferedMemory = currentPartSize * highWaterMark;
     
-    // Determine if we should use multipart upload based on file size
-    const useMultipart = totalBytes > this.LARGE_FILE_THRESHOLD;
-    
-    if (useMultipart) {
+    if (totalBytes < 0) {
+      console.log(`File size unknown, using multipart upload starting with ${currentPartSize} byte parts (${(currentPartSize / (1024 * 1024)).toFixed(2)}MB), doubling every ${this.UNKNOWN_SIZE_GROWTH_INTERVAL} parts`);
+    } else {
       console.log(`File size ${totalBytes} bytes exceeds ${this.LARGE_FILE_THRESHOLD} bytes, using multipart upload with ${partSize} byte parts (${(partSize / (1024 * 1024)).toFixed(2)}MB)`);
-      console.log(`Using parallel uploads with max ${this.MAX_CONCURRENT_UPLOADS} concurrent parts`);
-      console.log(`Backpressure configuration: high-water mark=${this.BUFFER_HIGH_WATER_MARK} parts, low-water mark=${this.BUFFER_LOW_WATER_MARK} parts, max buffered memory=${(maxBufferedMemory / (1024 * 1024)).toFixed(2)}MB`);
     }
+    console.log(`Using parallel uploads with ${concurrency.limit} concurrent parts${concurrency.isAdaptive ? ` (adaptive, ${this.ADAPTIVE_CONCURRENCY_MIN}-${this.ADAPTIVE_CONCURRENCY_MAX})` : ''}`);
+    console.log(`Part buffer pool: ${pool.capacity} buffers of ${(currentPartSize / (1024 * 1024)).toFixed(2)}MB within ${(this.PART_BUFFER_MEMORY / (1024 * 1024)).toFixed(2)}MB`);
+    console.log(`Backpressure configuration: high-water mark=${highWaterMark} parts, low-water mark=${this.BUFFER_LOW_WATER_MARK} parts, max buffered memory=${(maxBufferedMemory / (1024 * 1024)).toFixed(2)}MB`);
 
-    return new Promise((resolve, reject) => {
+    let onAbort: (() => void) | undefined;
+
+    return new Promise<CompletedPart[]>((resolve, reject) => {
       let isStreamDestroyed = false;
       const pendingUploads: Set<Promise<void>> = new Set();
       let hasError = false;
+      let isCancelled = false;
       
       /**
        * Checks if backpressure should be applied based on buffer state
@@ -470,12 +1640,12 @@ export class StreamingService {
        */
       const shouldApplyBackpressure = (): boolean => {
         // Check concurrent upload limit
-        if (pendingUploads.size >= this.MAX_CONCURRENT_UPLOADS) {
+        if (pendingUploads.size >= concurrency.limit) {
           return true;
         }
         
         // Check buffer high-water mark
-        if (bufferedParts >= this.BUFFER_HIGH_WATER_MARK) {
+        if (bufferedParts >= highWaterMark) {
           return true;
         }
         
@@ -492,8 +1662,13 @@ export class StreamingService {
        * Returns true if stream should be resumed
        */
       const shouldResumeStream = (): boolean => {
+        // The rate limit timer resumes the stream once the bucket is out of debt
+        if (throttleTimer) {
+          return false;
+        }
+
         // Don't resume if we're still at max concurrent uploads
-        if (pendingUploads.size >= this.MAX_CONCURRENT_UPLOADS) {
+        if (pendingUploads.size >= concurrency.limit) {
           return false;
         }
         
@@ -539,19 +1714,53 @@ export class StreamingService {
         }
       };
 
+      /**
+       * Pauses the stream until the token bucket is out of debt
+       * Not logged per pause like backpressure, a limited transfer pauses every few chunks
+       */
+      const throttle = (wait: number): void => {
+        if (throttleTimer || isStreamDestroyed || hasError) {
+          return;
+        }
+        if (!isPaused) {
+          stream.pause();
+          isPaused = true;
+        }
+        throttleWaits++;
+        totalThrottledTime += wait;
+        throttleTimer = setTimeout(() => {
+          throttleTimer = undefined;
+          // Other backpressure may have set in during the wait, an upload completing resumes then
+          if (isPaused && !shouldApplyBackpressure() && !isStreamDestroyed && !hasError) {
+            stream.resume();
+            isPaused = false;
+          }
+        }, wait);
+      };
+
       const handleData = (chunk: Buffer) => {
         // If there's an error, stop processing
         if (hasError) {
           stream.pause();
           return;
         }
+        reconnectAttempts = 0;
 
         try {
           let chunkOffset = 0;
+
+          // A known size was checked up front, an unknown one is checked as bytes arrive
+          if (totalBytes < 0 && bytesTransferred + chunk.length > this.MAX_FILE_SIZE) {
+            throw new StreamingError(`File size exceeds maximum allowed size of ${this.MAX_FILE_SIZE} bytes`, undefined, FILE_TOO_LARGE);
+          }
           
           // Process chunk, which may span multiple parts
           while (chunkOffset < chunk.length) {
-            const remainingInBuffer = partSize - bufferOffset;
+            if (partNumber > this.MAX_PARTS) {
+              throw new StreamingError(`File needs more than the ${this.MAX_PARTS} parts a multipart upload allows`, undefined, FILE_TOO_LARGE);
+            }
+
+            const remainingInBuffer = currentPartSize - bufferOffset;
             const remainingInChunk = chunk.length - chunkOffset;
             const bytesToCopy = Math.min(remainingInBuffer, remainingInChunk);
             
@@ -593,28 +1802,37 @@ export class StreamingService {
             }
 
             // Upload part when buffer is full
-            if (bufferOffset >= partSize) {
+            if (bufferOffset >= currentPartSize) {
               // OPTIMIZATION: Slice the buffer to exact size instead of copying
               // This creates a view of the buffer without allocating new memory
               const partData = buffer.subarray(0, bufferOffset);
               const currentPartNumber = partNumber;
-              const partSize = bufferOffset;
+              const partBytes = bufferOffset;
               partNumber++;
+              const partChecksum = this.recordChecksums(checksums, currentPartNumber, partData);
               
               // Track buffered part
               bufferedParts++;
-              bufferedMemory += partSize;
+              bufferedMemory += partBytes;
               
-              // Allocate new buffer for next part (reuse pattern)
-              buffer = Buffer.allocUnsafe(partSize);
-              bufferAllocations++;
+              // Take the next part's buffer from the pool (reuse pattern)
+              const nextPartSize = Math.min(this.getPartSize(partSize, partNumber, totalBytes), maxGrownPartSize);
+              if (nextPartSize !== currentPartSize) {
+                currentPartSize = nextPartSize;
+                pool.resize(currentPartSize, this.partBufferCapacity(currentPartSize));
+                highWaterMark = pool.capacity - 1;
+                maxBufferedMemory = currentPartSize * highWaterMark;
+                concurrency.constrain(pool.capacity - 1);
+                console.log(`Growing part size to ${(nextPartSize / (1024 * 1024)).toFixed(2)}MB from part ${partNumber} (${pool.capacity} buffers)`);
+              }
+              buffer = pool.acquire();
               bufferOffset = 0;
               
               // Check if we should apply backpressure
               if (shouldApplyBackpressure()) {
-                if (pendingUploads.size >= this.MAX_CONCURRENT_UPLOADS) {
-                  applyBackpressure(`max concurrent uploads (${this.MAX_CONCURRENT_UPLOADS})`);
-                } else if (bufferedParts >= this.BUFFER_HIGH_WATER_MARK) {
+                if (pendingUploads.size >= concurrency.limit) {
+                  applyBackpressure(`max concurrent uploads (${concurrency.limit})`);
+                } else if (bufferedParts >= highWaterMark) {
                   applyBackpressure(`buffer high-water mark (${bufferedParts} parts)`);
                 } else if (bufferedMemory >= maxBufferedMemory) {
                   applyBackpressure(`memory pressure (${(bufferedMemory / (1024 * 1024)).toFixed(2)}MB)`);
@@ -628,17 +1846,22 @@ export class StreamingService {
                 key,
                 uploadId,
                 currentPartNumber,
-                partData
+                partData,
+                partChecksum.crc32c,
+                concurrency
               ).then(etag => {
                 parts.push({
                   PartNumber: currentPartNumber,
                   ETag: etag,
+                  ChecksumCRC32C: partChecksum.crc32c,
                 });
+                this.recordPartCheckpoint(transferId, currentPartNumber);
                 pendingUploads.delete(uploadPromise);
                 
                 // Update buffer tracking
+                pool.release(partData);
                 bufferedParts--;
-                bufferedMemory -= partSize;
+                bufferedMemory -= partBytes;
                 
                 // Check if we should resume stream based on buffer state
                 if (shouldResumeStream()) {
@@ -651,13 +1874,17 @@ export class StreamingService {
               }).catch(error => {
                 hasError = true;
                 pendingUploads.delete(uploadPromise);
+                pool.release(partData);
                 bufferedParts--;
-                bufferedMemory -= partSize;
+                bufferedMemory -= partBytes;
                 if (!isStreamDestroyed) {
                   isStreamDestroyed = true;
                   stream.destroy();
                 }
-                reject(error);
+                // A cancelled transfer reports the cancel, not the uploads it drained
+                if (!isCancelled) {
+                  reject(error);
+                }
               });
 
               pendingUploads.add(uploadPromise);
@@ -670,6 +1897,14 @@ export class StreamingService {
               }
             }
           }
+
+          // Stay under the rate limit by holding the source like any other backpressure
+          if (rateLimiter) {
+            const wait = rateLimiter.consume(chunk.length);
+            if (wait > 0) {
+              throttle(wait);
+            }
+          }
         } catch (error) {
           // Handle errors during data processing
           // Requirements: 3.5, 8.3, 8.4
@@ -682,45 +1917,74 @@ export class StreamingService {
         }
       };
 
-      stream.on('data', handleData);
-
-      stream.on('end', async () => {
+      const handleEnd = async () => {
         try {
           // Wait for all pending uploads to complete
           if (pendingUploads.size > 0) {
             console.log(`Waiting for ${pendingUploads.size} pending uploads to complete...`);
             await Promise.all(Array.from(pendingUploads));
           }
+          if (hasError) {
+            // Cancelled (or a part failed) while waiting, the promise is settled elsewhere
+            return;
+          }
+
+          // The source closed the connection cleanly but early: fail before the short
+          // final part is uploaded, so a retry resumes after the last full part
+          if (totalBytes >= 0 && bytesTransferred < totalBytes) {
+            hasError = true;
+            reject(new StreamingError(`Source sent ${bytesTransferred} of the ${totalBytes} bytes it reported`, undefined, SOURCE_LENGTH_MISMATCH));
+            return;
+          }
 
           // Upload remaining data as final part (if any)
           if (bufferOffset > 0) {
             // Use subarray to avoid copying the remaining data
             const finalPartData = buffer.subarray(0, bufferOffset);
-            const etag = await this.uploadPartWithRetry(
+            const partChecksum = this.recordChecksums(checksums, partNumber, finalPartData);
+            const finalUpload = this.uploadPartWithRetry(
               bucket,
               key,
               uploadId,
               partNumber,
-              finalPartData
+              finalPartData,
+              partChecksum.crc32c,
+              concurrency
             );
+            // Tracked like the other parts so a cancel drains it too
+            const finalPending = finalUpload.then(() => {}, () => {});
+            pendingUploads.add(finalPending);
+            const etag = await finalUpload.finally(() => pendingUploads.delete(finalPending));
+            if (hasError) {
+              return;
+            }
 
             parts.push({
               PartNumber: partNumber,
               ETag: etag,
+              ChecksumCRC32C: partChecksum.crc32c,
             });
           }
 
           // Send final progress update to ensure 100% is recorded
           await this.updateProgressTracking(transferId, bytesTransferred, totalBytes);
+          onProgress(bytesTransferred, totalBytes > 0 ? totalBytes : bytesTransferred);
 
           // Log performance metrics
           console.log(`Buffer performance metrics:`);
-          console.log(`  - Buffer allocations: ${bufferAllocations}`);
+          const poolStats = pool.stats;
+          console.log(`  - Buffer allocations: ${poolStats.allocations}`);
+          console.log(`  - Buffer reuses: ${poolStats.reuses}`);
+          console.log(`  - Allocations beyond the memory budget: ${poolStats.overflows}`);
           console.log(`  - Buffer copies: ${bufferCopies}`);
-          console.log(`  - Memory reuse efficiency: ${bufferCopies > 0 ? (bufferCopies / bufferAllocations).toFixed(2) : 'N/A'} copies per allocation`);
+          console.log(`  - Memory reuse efficiency: ${bufferCopies > 0 ? (bufferCopies / poolStats.allocations).toFixed(2) : 'N/A'} copies per allocation`);
           console.log(`Concurrency metrics:`);
           console.log(`  - Peak concurrent uploads: ${peakConcurrency}`);
-          console.log(`  - Max concurrent uploads (configured): ${this.MAX_CONCURRENT_UPLOADS}`);
+          console.log(`  - Initial concurrent uploads (configured): ${this.MAX_CONCURRENT_UPLOADS}`);
+          console.log(`  - Final concurrency limit: ${concurrency.limit}`);
+          console.log(`  - Concurrency increases: ${concurrency.decisions.filter(d => d.to > d.from).length}`);
+          console.log(`  - Concurrency decreases (latency): ${concurrency.decisions.filter(d => d.reason === 'latency').length}`);
+          console.log(`  - Concurrency decreases (throttled): ${concurrency.decisions.filter(d => d.reason === 'throttled').length}`);
           console.log(`Backpressure metrics:`);
           console.log(`  - Stream pauses: ${pauseCount}`);
           console.log(`  - Stream resumes: ${resumeCount}`);
@@ -739,6 +2003,14 @@ export class StreamingService {
           console.log(`  - Average update frequency: ${avgUpdateFrequency}s per update`);
           console.log(`  - Calculation efficiency: ${progressCalculations > 0 ? ((progressUpdates / progressCalculations) * 100).toFixed(2) : 0}% (updates/calculations)`);
           console.log(`  - Callback overhead reduction: ${progressCalculations > 0 ? (100 - (progressCallbacks / progressCalculations) * 100).toFixed(2) : 0}% fewer callbacks`);
+          if (rateLimiter) {
+            console.log(`Rate limit metrics:`);
+            console.log(`  - Limit: ${rateLimiter.ratePerSecond} bytes/s`);
+            console.log(`  - Throttle waits: ${throttleWaits}`);
+            console.log(`  - Total time throttled: ${totalThrottledTime}ms`);
+          }
+          console.log(`Reconnect metrics:`);
+          console.log(`  - Source reconnections: ${reconnections}`);
           
           console.log(`Successfully uploaded ${parts.length} parts for multipart upload`);
           resolve(parts);
@@ -747,9 +2019,15 @@ export class StreamingService {
           // Requirements: 3.5, 8.3, 8.4
           reject(error);
         }
-      });
+      };
+
+      const handleError = (error: Error) => {
+        // A dropped connection is reopened where it stopped instead of failing the transfer
+        if (!hasError && reconnect && ErrorHandler.isRetryable(error) && reconnectAttempts < this.SOURCE_RECONNECT_ATTEMPTS) {
+          reconnectSource(error);
+          return;
+        }
 
-      stream.on('error', (error) => {
         // Handle streaming errors (network interruptions, incomplete transfers)
         // Requirements: 8.3, 8.4 - Handle network interruptions and report errors
         hasError = true;
@@ -757,21 +2035,535 @@ export class StreamingService {
           isStreamDestroyed = true;
         }
         reject(ErrorHandler.handleStreamingError(error, bytesTransferred, totalBytes));
-      });
+      };
 
       // Handle stream close event (may indicate premature termination)
-      stream.on('close', () => {
+      const handleClose = () => {
         // Only log if stream was destroyed unexpectedly
         if (isStreamDestroyed && bytesTransferred < totalBytes) {
           console.warn(`Stream closed prematurely: ${bytesTransferred}/${totalBytes} bytes transferred`);
         }
-      });
+      };
+
+      const attachStream = (source: Readable) => {
+        source.on('data', handleData);
+        source.on('end', handleEnd);
+        source.on('error', handleError);
+        source.on('close', handleClose);
+      };
+
+      /**
+       * Swaps the dropped stream for one reopened at bytesTransferred
+       * Runs in the background: pending uploads keep going and backpressure
+       * state carries over to the new stream
+       */
+      const reconnectSource = async (cause: Error): Promise<void> => {
+        const droppedStream = stream;
+        droppedStream.off('data', handleData);
+        droppedStream.off('end', handleEnd);
+        droppedStream.off('error', handleError);
+        droppedStream.off('close', handleClose);
+        droppedStream.on('error', () => {}); // Late errors from the dropped connection are expected
+        droppedStream.destroy();
+
+        while (!hasError) {
+          reconnectAttempts++;
+          const delay = Math.min(
+            this.SOURCE_RECONNECT_BACKOFF_MS * 2 ** (reconnectAttempts - 1),
+            this.MAX_SOURCE_RECONNECT_BACKOFF_MS
+          );
+          console.warn(
+            `Source connection dropped at byte ${bytesTransferred} (${cause.message}), ` +
+            `reconnecting in ${delay}ms (attempt ${reconnectAttempts}/${this.SOURCE_RECONNECT_ATTEMPTS})`
+          );
+          await new Promise(resolve => setTimeout(resolve, delay));
+          if (hasError) {
+            return;
+          }
+
+          try {
+            const reopened = await reconnect!(bytesTransferred);
+            if (hasError) {
+              // A part upload failed while reconnecting
+              reopened.on('error', () => {});
+              reopened.destroy();
+              return;
+            }
+
+            stream = reopened;
+            attachStream(stream);
+            if (isPaused) {
+              stream.pause();
+            }
+            reconnections++;
+            console.log(`Reconnected to source at byte ${bytesTransferred} (${reconnections} reconnections)`);
+            return;
+          } catch (error: any) {
+            cause = error instanceof Error ? error : new Error(String(error));
+            if (!ErrorHandler.isRetryable(cause) || reconnectAttempts >= this.SOURCE_RECONNECT_ATTEMPTS) {
+              hasError = true;
+              isStreamDestroyed = true;
+              reject(cause instanceof StreamingError ? cause : ErrorHandler.handleStreamingError(cause, bytesTransferred, totalBytes));
+              return;
+            }
+          }
+        }
+      };
+
+      /**
+       * Cancels the transfer: stops reading, lets part uploads in flight finish so none
+       * lands after the multipart upload is aborted, then rejects with the abort error
+       */
+      onAbort = () => {
+        if (hasError) {
+          return;
+        }
+        hasError = true;
+        isCancelled = true;
+        if (throttleTimer) {
+          clearTimeout(throttleTimer);
+          throttleTimer = undefined;
+        }
+        if (!isStreamDestroyed) {
+          isStreamDestroyed = true;
+          stream.destroy();
+        }
+        onProgress(bytesTransferred, totalBytes > 0 ? totalBytes : bytesTransferred);
+        console.log(`Stopping transfer at byte ${bytesTransferred}, draining ${pendingUploads.size} part uploads`);
+        Promise.allSettled(Array.from(pendingUploads)).then(() => reject(this.abortError(signal)));
+      };
+
+      attachStream(stream);
+      if (signal?.aborted) {
+        onAbort();
+      } else {
+        signal?.addEventListener('abort', onAbort, { once: true });
+      }
+    }).finally(() => signal?.removeEventListener('abort', onAbort!));
+  }
+
+  /**
+   * Downloads the source over several connections with part-aligned Range requests
+   * Each connection fetches one part's byte range at a time and uploads it directly,
+   * so memory use is bounded by SOURCE_CONNECTIONS parts.
+   * 
+   * Every range carries If-Range, so a source that changes mid-transfer fails the
+   * transfer instead of mixing bytes from two versions of the file.
+   * 
+   * Parts finish out of order but the whole-object digests need source order, so a
+   * connection holds on to its part until every earlier part has been hashed.
+   * 
+   * The connections at work are bounded by an AdaptiveConcurrency controller, as in
+   * uploadParts, which S3 throttling and part upload timings move below the connection count.
+   */
+  private async uploadPartsRanged(
+    sourceUrl: string,
+    validator: string | undefined,
+    bucket: string,
+    key: string,
+    uploadId: string,
+    totalBytes: number,
+    partSize: number,
+    transferId: string,
+    onProgress: ProgressCallback,
+    checksums: ChecksumState,
+    resume?: ResumeState,
+    signal?: AbortSignal
+  ): Promise<CompletedPart[]> {
+    const parts: CompletedPart[] = resume ? [...resume.parts] : [];
+    const lastPartNumber = Math.ceil(totalBytes / partSize);
+    let nextPartNumber = resume ? resume.nextPartNumber : 1;
+    let bytesTransferred = resume ? resume.offset : 0;
+    let hasError = false;
+
+    // Parts waiting for their turn to be fed into the whole-object digests
+    let nextPartToHash = nextPartNumber;
+    const unhashedParts = new Map<number, Buffer>();
+    const hashWaiters = new Map<number, () => void>();
+
+    const hashInOrder = async (partNumber: number, data: Buffer): Promise<void> => {
+      unhashedParts.set(partNumber, data);
+      while (unhashedParts.has(nextPartToHash)) {
+        checksums.object.update(unhashedParts.get(nextPartToHash)!);
+        unhashedParts.delete(nextPartToHash);
+        hashWaiters.get(nextPartToHash)?.();
+        hashWaiters.delete(nextPartToHash);
+        nextPartToHash++;
+      }
+      // After a failure or cancel the earlier parts may never arrive
+      if (unhashedParts.has(partNumber) && !hasError && !signal?.aborted) {
+        await new Promise<void>(resolve => hashWaiters.set(partNumber, resolve));
+      }
+    };
+
+    // Each connection holds one part buffer from download until it is hashed
+    const pool = new BufferPool(partSize, this.partBufferCapacity(partSize));
+    const connections = Math.max(1, Math.min(this.SOURCE_CONNECTIONS, pool.capacity, lastPartNumber - nextPartNumber + 1));
+    if (connections < Math.min(this.SOURCE_CONNECTIONS, lastPartNumber - nextPartNumber + 1)) {
+      console.log(`Lowered source connections from ${this.SOURCE_CONNECTIONS} to ${connections} to fit the part buffer memory`);
+    }
+    console.log(
+      `Using ranged download over ${connections} connections for parts ${nextPartNumber}-${lastPartNumber} ` +
+      `(${(partSize / (1024 * 1024)).toFixed(2)}MB each)`
+    );
+
+    // Connections beyond the limit wait for a part to finish before taking the next one
+    const concurrency = new AdaptiveConcurrency({
+      initial: connections,
+      min: this.ADAPTIVE_CONCURRENCY_MIN,
+      max: this.ADAPTIVE_CONCURRENCY_MAX,
+    });
+    concurrency.constrain(connections);
+    let activeConnections = 0;
+    const slotWaiters: Array<() => void> = [];
+    const releaseSlot = () => {
+      activeConnections--;
+      slotWaiters.splice(0).forEach(wake => wake());
+    };
+
+    const runConnection = async (): Promise<void> => {
+      while (!hasError && !signal?.aborted && nextPartNumber <= lastPartNumber) {
+        if (activeConnections >= concurrency.limit) {
+          await new Promise<void>(resolve => slotWaiters.push(resolve));
+          continue;
+        }
+        activeConnections++;
+        const partNumber = nextPartNumber++;
+        const start = (partNumber - 1) * partSize;
+        const end = Math.min(start + partSize, totalBytes) - 1;
+        const buffer = pool.acquire();
+
+        try {
+          const data = await this.downloadRangeWithRetry(sourceUrl, start, end, validator, buffer, signal);
+          const partChecksum = ChecksumService.computePartChecksum(partNumber, data);
+          checksums.parts.push(partChecksum);
+          const etag = await this.uploadPartWithRetry(bucket, key, uploadId, partNumber, data, partChecksum.crc32c, concurrency);
+
+          parts.push({
+            PartNumber: partNumber,
+            ETag: etag,
+            ChecksumCRC32C: partChecksum.crc32c,
+          });
+          this.recordPartCheckpoint(transferId, partNumber);
+
+          bytesTransferred += data.length;
+          await this.updateProgressTracking(transferId, bytesTransferred, totalBytes);
+          onProgress(bytesTransferred, totalBytes);
+
+          await hashInOrder(partNumber, data);
+          pool.release(buffer);
+        } catch (error) {
+          // Stop the other connections from starting new parts and release the ones
+          // waiting to hash, their turn will never come
+          hasError = true;
+          hashWaiters.forEach(release => release());
+          hashWaiters.clear();
+          throw error;
+        } finally {
+          releaseSlot();
+        }
+      }
+    };
+
+    // Let in-flight parts settle before reporting so nothing uploads after an abort
+    const results = await Promise.allSettled(Array.from({ length: connections }, () => runConnection()));
+    if (signal?.aborted) {
+      // Downloads in flight were aborted with the signal, their errors don't matter
+      hashWaiters.forEach(release => release());
+      onProgress(bytesTransferred, totalBytes);
+      throw this.abortError(signal);
+    }
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) {
+      throw failure.reason;
+    }
+
+    console.log(`Successfully uploaded ${parts.length} parts for multipart upload`);
+    console.log(
+      `Concurrency: final limit ${concurrency.limit} of ${connections} connections, ` +
+      `${concurrency.decisions.filter(d => d.to < d.from).length} decreases, ${concurrency.decisions.filter(d => d.to > d.from).length} increases`
+    );
+    return parts;
+  }
+
+  /**
+   * Downloads a byte range with retry logic
+   * Retryable failures are retried as partRetryPolicy allows, others fail right away
+   */
+  private async downloadRangeWithRetry(
+    sourceUrl: string,
+    start: number,
+    end: number,
+    validator: string | undefined,
+    target?: Buffer,
+    signal?: AbortSignal
+  ): Promise<Buffer> {
+    let data: Buffer | null;
+    let attempts = 0;
+    try {
+      data = await this.partRetryPolicy.run(
+        (attempt) => {
+          attempts = attempt;
+          return this.downloadRange(sourceUrl, start, end, validator, target, signal);
+        },
+        {
+          signal,
+          onRetry: (error: any, attempt, decision) => {
+            console.error(`Failed to download bytes ${start}-${end} on attempt ${attempt}:`, error.message);
+            console.log(`Retrying bytes ${start}-${end} in ${decision.delayMs}ms (attempt ${attempt + 1}/${this.partRetryPolicy.maxAttempts})`);
+          },
+        }
+      );
+    } catch (error: any) {
+      throw new StreamingError(
+        `Failed to download bytes ${start}-${end} after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${error.message}`,
+        error,
+        { code: 'SOURCE_RANGE_FAILED', category: 'source', remediation: 'Retry the transfer; it resumes from the last uploaded part' }
+      );
+    }
+
+    // Retrying won't help when the source stopped honouring the range
+    if (!data) {
+      throw new StreamingError(
+        `Source ignored range request for bytes ${start}-${end}: the file changed or ranges are not supported`,
+        undefined,
+        SOURCE_CHANGED
+      );
+    }
+
+    return data;
+  }
+
+  /**
+   * Downloads a single byte range into a buffer of exactly the range's length
+   * The buffer is a view of target when one is given (e.g. a pooled part buffer)
+   * Returns null when the source answers with anything other than 206 Partial Content
+   */
+  private async downloadRange(
+    sourceUrl: string,
+    start: number,
+    end: number,
+    validator: string | undefined,
+    target?: Buffer,
+    signal?: AbortSignal
+  ): Promise<Buffer | null> {
+    const headers: Record<string, string> = { Range: `bytes=${start}-${end}` };
+    if (validator) {
+      headers['If-Range'] = validator;
+    }
+
+    const response = await axios.get(sourceUrl, {
+      responseType: 'stream',
+      headers,
+      maxRedirects: 5,
+      maxContentLength: Infinity,
+      maxBodyLength: Infinity,
+      httpAgent: this.httpAgent,
+      httpsAgent: this.httpsAgent,
+      signal,
     });
+
+    const stream: Readable = response.data;
+    if (response.status !== 206) {
+      stream.destroy();
+      return null;
+    }
+
+    // A cancel stops the body too, not just the request
+    const onAbort = () => stream.destroy(this.abortError(signal));
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const expectedLength = end - start + 1;
+    const buffer = target ? target.subarray(0, expectedLength) : Buffer.allocUnsafe(expectedLength);
+    let offset = 0;
+
+    try {
+      for await (const chunk of stream) {
+        if (offset + chunk.length > expectedLength) {
+          stream.destroy();
+          throw new StreamingError(`Source sent more than ${expectedLength} bytes for range ${start}-${end}`);
+        }
+        (chunk as Buffer).copy(buffer, offset);
+        offset += chunk.length;
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    if (offset !== expectedLength) {
+      throw new StreamingError(`Incomplete range ${start}-${end}: received ${offset} of ${expectedLength} bytes`);
+    }
+
+    return buffer;
+  }
+
+  /**
+   * Size of the given part of a multipart upload
+   * For an unknown source size the part size doubles every UNKNOWN_SIZE_GROWTH_INTERVAL parts,
+   * capped at 5GB. Starting from 100MB parts, 10,000 parts then hold more than MAX_FILE_SIZE.
+   */
+  private getPartSize(basePartSize: number, partNumber: number, totalBytes: number): number {
+    if (totalBytes >= 0) {
+      return basePartSize;
+    }
+
+    const doublings = Math.floor((partNumber - 1) / this.UNKNOWN_SIZE_GROWTH_INTERVAL);
+    return Math.min(basePartSize * 2 ** doublings, this.MAX_PART_SIZE);
+  }
+
+  /**
+   * Finalises the whole-object digests and checks them against the expected checksum
+   * Throws ChecksumMismatchError when the expected checksum differs
+   */
+  private finaliseChecksums(
+    checksums: ChecksumState,
+    bytesTransferred: number,
+    expectedChecksum?: ExpectedChecksum
+  ): { objectChecksums: ObjectChecksums; partChecksums: PartChecksum[] } {
+    if (checksums.object.bytesHashed !== bytesTransferred) {
+      throw new StreamingError(
+        `Checksum covers ${checksums.object.bytesHashed} bytes but ${bytesTransferred} bytes were transferred`
+      );
+    }
+    const objectChecksums = checksums.object.digest();
+    const partChecksums = [...checksums.parts].sort((a, b) => a.partNumber - b.partNumber);
+    console.log(`Object checksums: sha256=${objectChecksums.sha256}, crc32c=${objectChecksums.crc32c}`);
+
+    if (expectedChecksum) {
+      ChecksumService.verifyExpectedChecksum(objectChecksums, expectedChecksum);
+      console.log(`Expected ${expectedChecksum.algorithm} checksum verified`);
+    }
+
+    return { objectChecksums, partChecksums };
+  }
+
+  /**
+   * Checks the size and CRC32C S3 reports for a written object against the transferred bytes
+   * Multipart objects are compared with the composite checksum of the parts (partChecksums),
+   * single PutObject objects with the whole-object CRC32C. The checksum is skipped when
+   * S3 doesn't report one. Throws an OBJECT_VERIFICATION_FAILED StreamingError on a mismatch.
+   */
+  private async verifyUploadedObject(
+    bucket: string,
+    key: string,
+    bytesTransferred: number,
+    objectChecksums: ObjectChecksums,
+    partChecksums?: PartChecksum[]
+  ): Promise<void> {
+    const head = await this.s3Service.headObject(bucket, key);
+
+    if (head.ContentLength !== bytesTransferred) {
+      throw new StreamingError(
+        `Uploaded object s3://${bucket}/${key} has ${head.ContentLength ?? 'unknown'} bytes but ${bytesTransferred} bytes were transferred`,
+        undefined,
+        OBJECT_VERIFICATION_FAILED
+      );
+    }
+
+    const actual = head.ChecksumCRC32C;
+    if (actual) {
+      // Composite checksums carry a -<part count> suffix, full-object checksums don't
+      const expected = partChecksums && actual.includes('-')
+        ? ChecksumService.compositeCrc32c(partChecksums)
+        : Buffer.from(objectChecksums.crc32c, 'hex').toString('base64');
+      if (actual !== expected) {
+        throw new StreamingError(
+          `Uploaded object s3://${bucket}/${key} has CRC32C ${actual} but the transferred bytes have ${expected}`,
+          undefined,
+          OBJECT_VERIFICATION_FAILED
+        );
+      }
+    }
+
+    console.log(`Verified uploaded object: ${bytesTransferred} bytes${actual ? `, crc32c=${actual}` : ''}`);
+  }
+
+  /**
+   * Writes the JSON receipt of a completed transfer to <key>.transfer.json, or under receipt.prefix
+   * Returns its S3 location, or undefined when it could not be written
+   *
+   * Extractions pass no upload and get result.extraction in the receipt instead.
+   */
+  private async writeReceipt(
+    receipt: ReceiptOptions,
+    bucket: string,
+    key: string,
+    sourceUrl: string,
+    sourceMetadata: SourceMetadata,
+    result: TransferResult & { transferId?: string },
+    upload: TransferReceipt['upload'] | undefined,
+    startTime: Date
+  ): Promise<string | undefined> {
+    const prefix = receipt.prefix?.replace(/^\/+|\/+$/g, '');
+    const receiptKey = `${prefix ? `${prefix}/` : ''}${key}.transfer.json`;
+    const keyValidation = ValidationService.validateS3Key(receiptKey);
+    if (!keyValidation.isValid) {
+      console.warn(`Transfer receipt not written, ${receiptKey} is not a valid key: ${keyValidation.error}`);
+      return undefined;
+    }
+
+    const endTime = new Date();
+    const durationMs = Math.max(1, endTime.getTime() - startTime.getTime());
+    const bytesRead = result.bytesTransferred - (upload?.resumedFromByte ?? 0);
+    const partChecksums = result.partChecksums ?? [];
+    const body: TransferReceipt = {
+      receiptVersion: 1,
+      transferId: result.transferId!,
+      workerVersion: receipt.workerVersion,
+      object: {
+        bucket,
+        key,
+        location: result.s3Location!,
+        size: result.bytesTransferred,
+      },
+      source: {
+        url: sourceUrl,
+        finalUrl: sourceMetadata.finalUrl,
+        etag: sourceMetadata.etag,
+        lastModified: sourceMetadata.lastModified,
+        contentType: sourceMetadata.contentType,
+        contentLength: sourceMetadata.contentLength,
+      },
+      checksums: result.checksums,
+      compositeCrc32c: upload?.method === 'multipart' ? ChecksumService.compositeCrc32c(partChecksums) : undefined,
+      upload,
+      timings: {
+        startTime: startTime.toISOString(),
+        endTime: endTime.toISOString(),
+        durationMs,
+      },
+      throughputBytesPerSecond: Math.round(bytesRead / (durationMs / 1000)),
+      extraction: result.extraction,
+    };
+
+    try {
+      const data = Buffer.from(JSON.stringify(body, null, 2));
+      const crc32c = ChecksumService.crc32cToBuffer(ChecksumService.crc32c(data)).toString('base64');
+      const location = await this.s3Service.putObject(bucket, receiptKey, data, crc32c, 'application/json');
+      console.log(`Transfer receipt written to ${location}`);
+      return location;
+    } catch (error) {
+      // The object itself is complete and verified, a missing receipt doesn't undo that
+      console.error('Failed to write transfer receipt:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Computes a part's checksums and feeds the part into the whole-object digests
+   * Callers must pass parts in source order
+   */
+  private recordChecksums(checksums: ChecksumState, partNumber: number, data: Buffer): PartChecksum {
+    const partChecksum = ChecksumService.computePartChecksum(partNumber, data);
+    checksums.parts.push(partChecksum);
+    checksums.object.update(data);
+    return partChecksum;
   }
 
   /**
    * Uploads a single part with retry logic
-   * Retries up to MAX_RETRY_ATTEMPTS times on failure
+   * Retryable failures are retried as partRetryPolicy allows, others fail right away
+   * Reports the timing of each attempt and throttling errors to the concurrency controller
    */
   private async uploadPartWithRetry(
     bucket: string,
@@ -779,39 +2571,51 @@ export class StreamingService {
     uploadId: string,
     partNumber: number,
     data: Buffer,
-    attempt: number = 1
+    checksumCRC32C?: string,
+    concurrency?: AdaptiveConcurrency
   ): Promise<string> {
+    let attempts = 0;
     try {
-      const etag = await this.s3Service.uploadPart(
-        bucket,
-        key,
-        uploadId,
-        partNumber,
-        data
+      return await this.partRetryPolicy.run(
+        async (attempt) => {
+          attempts = attempt;
+          const startTime = Date.now();
+          try {
+            const etag = await this.s3Service.uploadPart(
+              bucket,
+              key,
+              uploadId,
+              partNumber,
+              data,
+              checksumCRC32C
+            );
+            concurrency?.recordPart(data.length, Date.now() - startTime);
+
+            if (attempt > 1) {
+              console.log(`Part ${partNumber} uploaded successfully on attempt ${attempt}`);
+            }
+
+            return etag;
+          } catch (error: any) {
+            console.error(`Failed to upload part ${partNumber} on attempt ${attempt}:`, error.message);
+            if (concurrency && ErrorHandler.isThrottling(error)) {
+              concurrency.recordThrottle(startTime);
+            }
+            throw error;
+          }
+        },
+        {
+          onRetry: (_error, attempt, decision) => {
+            console.log(`Retrying part ${partNumber} upload in ${decision.delayMs}ms (attempt ${attempt + 1}/${this.partRetryPolicy.maxAttempts})`);
+          },
+        }
       );
-      
-      if (attempt > 1) {
-        console.log(`Part ${partNumber} uploaded successfully on attempt ${attempt}`);
-      }
-      
-      return etag;
     } catch (error: any) {
-      console.error(`Failed to upload part ${partNumber} on attempt ${attempt}:`, error.message);
-      
-      // Retry if we haven't exceeded max attempts
-      if (attempt < this.MAX_RETRY_ATTEMPTS) {
-        console.log(`Retrying part ${partNumber} upload (attempt ${attempt + 1}/${this.MAX_RETRY_ATTEMPTS})`);
-        
-        // Exponential backoff: wait 2^attempt seconds before retrying
-        const delayMs = Math.pow(2, attempt) * 1000;
-        await new Promise(resolve => setTimeout(resolve, delayMs));
-        
-        return this.uploadPartWithRetry(bucket, key, uploadId, partNumber, data, attempt + 1);
-      }
-      
-      // Max retries exceeded, throw error
+      // Retries exhausted or the error isn't retryable
       throw new StreamingError(
-        `Failed to upload part ${partNumber} after ${this.MAX_RETRY_ATTEMPTS} attempts: ${error.message}`
+        `Failed to upload part ${partNumber} after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${error.message}`,
+        error,
+        { code: 'UPLOAD_PART_FAILED', category: 'destination', remediation: 'Retry the transfer; it resumes from the last uploaded part' }
       );
     }
   }
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { TokenBucket } from './TokenBucket.js';
+
+/**
+ * Tests for the byte-rate token bucket
+ *
+ * Validates that:
+ * - A full bucket lets one second of traffic through without waiting
+ * - Overdrawing returns the wait that brings the average back to the rate
+ * - The bucket refills over time but never beyond its capacity
+ */
+describe('TokenBucket', () => {
+  const createClock = () => {
+    let time = 0;
+    return { now: () => time, advance: (ms: number) => { time += ms; } };
+  };
+
+  it('should let a burst of up to one second of traffic through', () => {
+    const clock = createClock();
+    const bucket = new TokenBucket(1000, undefined, clock.now);
+
+    expect(bucket.consume(600)).toBe(0);
+    expect(bucket.consume(400)).toBe(0);
+  });
+
+  it('should return the wait that pays off an overdraft', () => {
+    const clock = createClock();
+    const bucket = new TokenBucket(1000, undefined, clock.now);
+
+    // 1000 tokens in the bucket, 2500 taken: 1500 bytes of debt at 1000 bytes/s
+    expect(bucket.consume(2500)).toBe(1500);
+
+    clock.advance(1500);
+    expect(bucket.consume(0)).toBe(0);
+    expect(bucket.consume(100)).toBe(100);
+  });
+
+  it('should not refill beyond its capacity', () => {
+    const clock = createClock();
+    const bucket = new TokenBucket(1000, 2000, clock.now);
+
+    clock.advance(60000);
+    expect(bucket.consume(2000)).toBe(0);
+    expect(bucket.consume(1000)).toBe(1000);
+  });
+
+  it('should reject rates that are not positive', () => {
+    expect(() => new TokenBucket(0)).toThrow('Rate limit must be a positive number');
+    expect(() => new TokenBucket(-5)).toThrow('Rate limit must be a positive number');
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Token bucket for limiting a byte rate
+ *
+ * The bucket refills at ratePerSecond up to capacity (one second of traffic by
+ * default). Consuming more than the bucket holds is allowed and leaves it in debt;
+ * the caller waits the returned delay before reading more, which keeps the average
+ * rate at ratePerSecond however large the chunks are.
+ */
+export class TokenBucket {
+  readonly ratePerSecond: number;
+  private readonly capacity: number;
+  private readonly now: () => number;
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(ratePerSecond: number, capacity: number = ratePerSecond, now: () => number = Date.now) {
+    if (!Number.isFinite(ratePerSecond) || ratePerSecond <= 0) {
+      throw new Error(`Rate limit must be a positive number of bytes per second, got ${ratePerSecond}`);
+    }
+    this.ratePerSecond = ratePerSecond;
+    this.capacity = capacity;
+    this.now = now;
+    this.tokens = capacity;
+    this.lastRefill = now();
+  }
+
+  /**
+   * Takes bytes from the bucket
+   * Returns how many milliseconds to wait before consuming more (0 when within the rate)
+   */
+  consume(bytes: number): number {
+    this.refill();
+    this.tokens -= bytes;
+    return this.tokens >= 0 ? 0 : Math.ceil((-this.tokens / this.ratePerSecond) * 1000);
+  }
+
+  private refill(): void {
+    const now = this.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.lastRefill = now;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.ratePerSecond);
+  }
+}
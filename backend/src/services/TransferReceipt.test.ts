@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import { StreamingService } from './StreamingService.js';
+import { ChecksumService } from './ChecksumService.js';
+import { DynamoDBService } from './DynamoDBService.js';
+import http from 'http';
+import { createHash } from 'crypto';
+
+/**
+ * Tests for transfer receipts
+ *
+ * Validates that:
+ * - A completed transfer writes a JSON receipt to <key>.transfer.json, or under the configured prefix
+ * - The receipt records the source (after redirects), checksums, parts, timings and worker version
+ * - A receipt that can't be written doesn't fail the transfer
+ * - The receipt location is stored on the transfer record
+ */
+describe('StreamingService - Transfer Receipts', () => {
+  const MB = 1024 * 1024;
+  const PART_SIZE = 5 * MB;
+  const FILE_SIZE = 12 * MB;
+  const ETAG = '"source-etag-v1"';
+  const LAST_MODIFIED = 'Wed, 01 Jan 2025 00:00:00 GMT';
+
+  let streamingService: StreamingService;
+  let mockServer: http.Server;
+  let content: Buffer;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    streamingService = new StreamingService();
+    (streamingService as any).LARGE_FILE_THRESHOLD = 0;
+    vi.spyOn(streamingService as any, 'calculateOptimalPartSize').mockReturnValue(PART_SIZE);
+
+    content = Buffer.alloc(FILE_SIZE);
+    for (let i = 0; i < FILE_SIZE; i++) {
+      content[i] = i % 251;
+    }
+
+    mockServer = http.createServer((req, res) => {
+      // The published URL redirects to the mirror that serves the file
+      if (req.url === '/latest/archive.zip') {
+        res.writeHead(302, { Location: '/mirror/archive.zip' });
+        res.end();
+        return;
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'application/zip',
+        'Content-Length': FILE_SIZE.toString(),
+        ETag: ETAG,
+        'Last-Modified': LAST_MODIFIED,
+      });
+      res.end(req.method === 'HEAD' ? undefined : content);
+    });
+
+    await new Promise<void>((resolve) => mockServer.listen(0, () => resolve()));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise<void>((resolve) => mockServer.close(() => resolve()));
+  });
+
+  const baseUrl = () => {
+    const address = mockServer.address() as { port: number };
+    return `http://localhost:${address.port}`;
+  };
+
+  const createMockS3Service = () => ({
+    validateBucketAccess: vi.fn().mockResolvedValue(true),
+    putObject: vi.fn().mockImplementation(async (bucket: string, key: string) => `s3://${bucket}/${key}`),
+    createMultipartUpload: vi.fn().mockResolvedValue('test-upload-id'),
+    uploadPart: vi.fn().mockImplementation(async (_b: string, _k: string, _u: string, partNumber: number) => `etag-${partNumber}`),
+    completeUpload: vi.fn().mockResolvedValue('s3://test-bucket/downloads/archive.zip'),
+    headObject: vi.fn().mockImplementation(async () => ({ ContentLength: FILE_SIZE })),
+    abortUpload: vi.fn().mockResolvedValue(true),
+  });
+
+  const receiptCall = (mockS3Service: ReturnType<typeof createMockS3Service>) =>
+    mockS3Service.putObject.mock.calls.find(([, key]: any[]) => key.endsWith('.transfer.json'));
+
+  it('should write a receipt next to a multipart object', async () => {
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(`${baseUrl()}/latest/archive.zip`, 'test-bucket', 'downloads', undefined, undefined, {
+      receipt: { workerVersion: '1.2.3' },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.receiptLocation).toBe('s3://test-bucket/downloads/archive.zip.transfer.json');
+
+    const [bucket, key, data, crc32c, contentType] = receiptCall(mockS3Service)!;
+    expect([bucket, key, contentType]).toEqual(['test-bucket', 'downloads/archive.zip.transfer.json', 'application/json']);
+    expect(crc32c).toBe(ChecksumService.crc32cToBuffer(ChecksumService.crc32c(data)).toString('base64'));
+
+    const receipt = JSON.parse(data.toString());
+    expect(receipt).toMatchObject({
+      receiptVersion: 1,
+      transferId: result.transferId,
+      workerVersion: '1.2.3',
+      object: {
+        bucket: 'test-bucket',
+        key: 'downloads/archive.zip',
+        location: 's3://test-bucket/downloads/archive.zip',
+        size: FILE_SIZE,
+      },
+      source: {
+        url: `${baseUrl()}/latest/archive.zip`,
+        finalUrl: `${baseUrl()}/mirror/archive.zip`,
+        etag: ETAG,
+        lastModified: LAST_MODIFIED,
+        contentType: 'application/zip',
+        contentLength: FILE_SIZE,
+      },
+      checksums: {
+        sha256: createHash('sha256').update(content).digest('hex'),
+        crc32c: ChecksumService.crc32cToBuffer(ChecksumService.crc32c(content)).toString('hex'),
+      },
+      compositeCrc32c: ChecksumService.compositeCrc32c(result.partChecksums!),
+      upload: { method: 'multipart', partSize: PART_SIZE, partCount: 3 },
+    });
+    expect(receipt.upload.resumedFromByte).toBeUndefined();
+    expect(Date.parse(receipt.timings.endTime)).toBeGreaterThanOrEqual(Date.parse(receipt.timings.startTime));
+    expect(receipt.timings.durationMs).toBeGreaterThan(0);
+    expect(receipt.throughputBytesPerSecond).toBe(Math.round(FILE_SIZE / (receipt.timings.durationMs / 1000)));
+  });
+
+  it('should write a receipt for a single PutObject under the configured prefix', async () => {
+    (streamingService as any).LARGE_FILE_THRESHOLD = FILE_SIZE;
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(`${baseUrl()}/mirror/archive.zip`, 'test-bucket', undefined, undefined, undefined, {
+      receipt: { prefix: '/receipts/', workerVersion: '1.2.3' },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.receiptLocation).toBe('s3://test-bucket/receipts/archive.zip.transfer.json');
+
+    const receipt = JSON.parse(receiptCall(mockS3Service)![2].toString());
+    expect(receipt.upload).toEqual({ method: 'PutObject', partSize: FILE_SIZE, partCount: 1 });
+    expect(receipt.source.finalUrl).toBeUndefined();
+    expect(receipt.compositeCrc32c).toBeUndefined();
+  });
+
+  it('should complete the transfer when the receipt cannot be written', async () => {
+    const mockS3Service = createMockS3Service();
+    mockS3Service.putObject.mockRejectedValue(new Error('Access denied'));
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(`${baseUrl()}/mirror/archive.zip`, 'test-bucket', undefined, undefined, undefined, {
+      receipt: { workerVersion: '1.2.3' },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.receiptLocation).toBeUndefined();
+    expect(mockS3Service.abortUpload).not.toHaveBeenCalled();
+  });
+
+  it('should not write a receipt unless asked to', async () => {
+    const mockS3Service = createMockS3Service();
+    (streamingService as any).s3Service = mockS3Service;
+
+    const result = await streamingService.transferToS3(`${baseUrl()}/mirror/archive.zip`, 'test-bucket');
+
+    expect(result.success).toBe(true);
+    expect(result.receiptLocation).toBeUndefined();
+    expect(mockS3Service.putObject).not.toHaveBeenCalled();
+  });
+
+  it('should store the receipt location on the transfer record', async () => {
+    const service = new DynamoDBService('TransferTable', 'us-east-1');
+    const send = vi.fn().mockResolvedValue({});
+    (service as any).client = { send };
+
+    await service.markTransferComplete('transfer-1', 's3://bucket/key', undefined, 10, 's3://bucket/key.transfer.json');
+
+    const input = send.mock.calls[0][0].input;
+    expect(input.UpdateExpression).toContain('receiptLocation = :receiptLocation');
+    expect(unmarshall(input.ExpressionAttributeValues)[':receiptLocation']).toBe('s3://bucket/key.transfer.json');
+  });
+});
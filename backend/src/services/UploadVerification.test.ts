@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StreamingService } from './StreamingService.js';
+import { ChecksumService } from './ChecksumService.js';
+import http from 'http';
+
+/**
+ * Tests for truncation detection and post-upload object verification
+ *
+ * Validates that:
+ * - A source that ends before the size it reported fails the transfer before CompleteMultipartUpload
+ * - The completed object is read back with HeadObject and its size and CRC32C are checked
+ * - Multipart objects are compared with the composite checksum, single objects with the whole-object CRC32C
+ * - A mismatch fails with an integrity error instead of completing the transfer
+ */
+describe('StreamingService - Upload Verification', () => {
+  const MB = 1024 * 1024;
+  const PART_SIZE = 5 * MB;
+  const FILE_SIZE = 12 * MB;
+
+  let streamingService: StreamingService;
+  let mockServer: http.Server;
+  let content: Buffer;
+  let bytesServed: number; // Bytes the GET response sends before ending cleanly
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    streamingService = new StreamingService();
+    (streamingService as any).LARGE_FILE_THRESHOLD = 0;
+    vi.spyOn(streamingService as any, 'calculateOptimalPartSize').mockReturnValue(PART_SIZE);
+
+    content = Buffer.alloc(FILE_SIZE);
+    for (let i = 0; i < FILE_SIZE; i++) {
+      content[i] = i % 251;
+    }
+    bytesServed = FILE_SIZE;
+
+    mockServer = http.createServer((req, res) => {
+      if (req.method === 'HEAD') {
+        res.writeHead(200, { 'Content-Type': 'application/zip', 'Content-Length': FILE_SIZE.toString() });
+        res.end();
+        return;
+      }
+
+      // Chunked, so a short body ends cleanly instead of dropping the connection
+      res.writeHead(200, { 'Content-Type': 'application/zip', 'Transfer-Encoding': 'chunked' });
+      res.end(content.subarray(0, bytesServed));
+    });
+
+    await new Promise<void>((resolve) => mockServer.listen(0, () => resolve()));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise<void>((resolve) => mockServer.close(() => resolve()));
+  });
+
+  const sourceUrl = () => {
+    const address = mockServer.address() as { port: number };
+    return `http://localhost:${address.port}/archive.zip`;
+  };
+
+  const partChecksums = () => {
+    const parts = [];
+    for (let offset = 0, partNumber = 1; offset < content.length; offset += PART_SIZE, partNumber++) {
+      parts.push(ChecksumService.computePartChecksum(partNumber, content.subarray(offset, offset + PART_SIZE)));
+    }
+    return parts;
+  };
+
+  const compositeCrc32c = () => {
+    const parts = partChecksums();
+    const partCrcs = Buffer.concat(parts.map(part => Buffer.from(part.crc32c, 'base64')));
+    return `${ChecksumService.crc32cToBuffer(ChecksumService.crc32c(partCrcs)).toString('base64')}-${parts.length}`;
+  };
+
+  const createMockS3Service = (head: { ContentLength?: number; ChecksumCRC32C?: string }) => ({
+    validateBucketAccess: vi.fn().mockResolvedValue(true),
+    putObject: vi.fn().mockResolvedValue('s3://test-bucket/archive.zip'),
+    createMultipartUpload: vi.fn().mockResolvedValue('test-upload-id'),
+    uploadPart: vi.fn().mockImplementation(async (_b: string, _k: string, _u: string, partNumber: number) => `etag-${partNumber}`),
+    completeUpload: vi.fn().mockResolvedValue('s3://test-bucket/archive.zip'),
+    headObject: vi.fn().mockResolvedValue(head),
+    abortUpload: vi.fn().mockResolvedValue(true),
+  });
+
+  describe('truncation', () => {
+    it('should fail a source that ends early instead of completing the upload', async () => {
+      bytesServed = 11 * MB;
+      const mockS3Service = createMockS3Service({ ContentLength: FILE_SIZE });
+      (streamingService as any).s3Service = mockS3Service;
+
+      const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe(`Source sent ${11 * MB} of the ${FILE_SIZE} bytes it reported`);
+      expect(result.error).toMatchObject({ code: 'SOURCE_LENGTH_MISMATCH', category: 'integrity' });
+      expect(mockS3Service.completeUpload).not.toHaveBeenCalled();
+      expect(mockS3Service.headObject).not.toHaveBeenCalled();
+      expect(mockS3Service.abortUpload).toHaveBeenCalledWith('test-bucket', 'archive.zip', 'test-upload-id');
+
+      // The short tail is not uploaded as a final part
+      expect(mockS3Service.uploadPart.mock.calls.map((call: any[]) => call[3])).toEqual([1, 2]);
+    });
+  });
+
+  describe('multipart objects', () => {
+    it('should complete when the size and composite checksum match', async () => {
+      const mockS3Service = createMockS3Service({ ContentLength: FILE_SIZE, ChecksumCRC32C: compositeCrc32c() });
+      (streamingService as any).s3Service = mockS3Service;
+
+      const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket');
+
+      expect(result.success).toBe(true);
+      expect(mockS3Service.headObject).toHaveBeenCalledWith('test-bucket', 'archive.zip');
+      expect(ChecksumService.compositeCrc32c(result.partChecksums!)).toBe(compositeCrc32c());
+    });
+
+    it('should complete when S3 reports no checksum and the size matches', async () => {
+      const mockS3Service = createMockS3Service({ ContentLength: FILE_SIZE });
+      (streamingService as any).s3Service = mockS3Service;
+
+      const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket');
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should fail when the object is smaller than the transferred bytes', async () => {
+      const mockS3Service = createMockS3Service({ ContentLength: 10 * MB, ChecksumCRC32C: compositeCrc32c() });
+      (streamingService as any).s3Service = mockS3Service;
+
+      const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe(
+        `Uploaded object s3://test-bucket/archive.zip has ${10 * MB} bytes but ${FILE_SIZE} bytes were transferred`
+      );
+      expect(result.error).toMatchObject({ code: 'OBJECT_VERIFICATION_FAILED', category: 'integrity', retryable: false });
+      expect((streamingService as any).progressStore.getProgress(result.transferId).status).toBe('failed');
+    });
+
+    it('should fail when the composite checksum differs', async () => {
+      const mockS3Service = createMockS3Service({ ContentLength: FILE_SIZE, ChecksumCRC32C: 'AAAAAA==-3' });
+      (streamingService as any).s3Service = mockS3Service;
+
+      const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatchObject({ code: 'OBJECT_VERIFICATION_FAILED' });
+      expect(result.error?.message).toContain(`has CRC32C AAAAAA==-3 but the transferred bytes have ${compositeCrc32c()}`);
+    });
+
+    it('should compare a full-object checksum with the whole-object CRC32C', async () => {
+      const fullObject = ChecksumService.crc32cToBuffer(ChecksumService.crc32c(content)).toString('base64');
+      const mockS3Service = createMockS3Service({ ContentLength: FILE_SIZE, ChecksumCRC32C: fullObject });
+      (streamingService as any).s3Service = mockS3Service;
+
+      const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket');
+
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('single objects', () => {
+    beforeEach(() => {
+      (streamingService as any).LARGE_FILE_THRESHOLD = FILE_SIZE;
+    });
+
+    it('should complete when the whole-object checksum matches', async () => {
+      const crc32c = ChecksumService.crc32cToBuffer(ChecksumService.crc32c(content)).toString('base64');
+      const mockS3Service = createMockS3Service({ ContentLength: FILE_SIZE, ChecksumCRC32C: crc32c });
+      (streamingService as any).s3Service = mockS3Service;
+
+      const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket');
+
+      expect(result.success).toBe(true);
+      expect(mockS3Service.putObject).toHaveBeenCalledTimes(1);
+      expect(mockS3Service.headObject).toHaveBeenCalledWith('test-bucket', 'archive.zip');
+    });
+
+    it('should fail when the whole-object checksum differs', async () => {
+      const mockS3Service = createMockS3Service({ ContentLength: FILE_SIZE, ChecksumCRC32C: 'AAAAAA==' });
+      (streamingService as any).s3Service = mockS3Service;
+
+      const result = await streamingService.transferToS3(sourceUrl(), 'test-bucket');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatchObject({ code: 'OBJECT_VERIFICATION_FAILED', category: 'integrity' });
+    });
+  });
+});
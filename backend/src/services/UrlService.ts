@@ -1,5 +1,37 @@
 import axios from 'axios';
-import { ErrorHandler } from '../utils/errorHandler.js';
+import { Readable } from 'stream';
+import { ErrorHandler, UrlFetchError } from '../utils/errorHandler.js';
+import { ChecksumAlgorithm, ExpectedChecksum } from '../types/api.js';
+
+/**
+ * Size, validators and range support reported by the source server
+ */
+export interface SourceMetadata {
+  contentLength: number; // -1 when the server does not report a size
+  etag?: string;
+  lastModified?: string;
+  acceptRanges: boolean;
+  contentType?: string;
+  finalUrl?: string; // Where redirects led, absent when the source did not redirect
+}
+
+// Digest length in bytes for each supported checksum algorithm
+const DIGEST_LENGTHS: Record<ChecksumAlgorithm, number> = {
+  sha256: 32,
+  md5: 16,
+};
+
+// Checksum files looked for next to the source, in order of preference
+// {file} is the source URL without query string, {dir} the URL of its directory
+const CHECKSUM_SIDECARS: { algorithm: ChecksumAlgorithm; pattern: string }[] = [
+  { algorithm: 'sha256', pattern: '{file}.sha256' },
+  { algorithm: 'sha256', pattern: '{file}.sha256sum' },
+  { algorithm: 'sha256', pattern: '{dir}SHA256SUMS' },
+  { algorithm: 'md5', pattern: '{file}.md5' },
+  { algorithm: 'md5', pattern: '{dir}MD5SUMS' },
+];
+
+const MAX_SIDECAR_SIZE = 1024 * 1024; // 1MB, checksum lists are small text files
 
 /**
  * Service for handling URL operations
@@ -65,6 +97,94 @@ export class UrlService {
     }
   }
 
+  /**
+   * Gets size, validators (ETag/Last-Modified) and range support from a HEAD request
+   * Validators are used to make sure a resumed transfer still reads the same file
+   */
+  async getSourceMetadata(url: string): Promise<SourceMetadata> {
+    try {
+      const response = await axios.head(url, {
+        timeout: 10000, // 10 second timeout for HEAD request
+        maxRedirects: 5,
+      });
+
+      const contentLength = response.headers['content-length'];
+      const etag = response.headers['etag'];
+      const lastModified = response.headers['last-modified'];
+      const acceptRanges = response.headers['accept-ranges'];
+      const contentType = response.headers['content-type'];
+      // Set by the redirect-following HTTP agent on the last response
+      const responseUrl: string | undefined = response.request?.res?.responseUrl;
+
+      return {
+        contentLength: contentLength ? parseInt(String(contentLength), 10) : -1,
+        etag: etag ? String(etag) : undefined,
+        lastModified: lastModified ? String(lastModified) : undefined,
+        acceptRanges: String(acceptRanges || '').toLowerCase() === 'bytes',
+        contentType: contentType ? String(contentType) : undefined,
+        finalUrl: responseUrl && responseUrl !== url ? responseUrl : undefined,
+      };
+    } catch (error) {
+      console.warn('Failed to get source metadata:', error);
+      // Don't throw - metadata is optional, the transfer can still stream from byte zero
+      return { contentLength: -1, acceptRanges: false };
+    }
+  }
+
+  /**
+   * Downloads bytes start to end (inclusive) of the source with a Range request
+   * The validator is sent as If-Range, so a source that changed answers with the whole file.
+   * Returns null when the source answers with anything other than 206 Partial Content.
+   */
+  async fetchRange(url: string, start: number, end: number, validator?: string): Promise<Buffer | null> {
+    const headers: Record<string, string> = { Range: `bytes=${start}-${end}` };
+    if (validator) {
+      headers['If-Range'] = validator;
+    }
+
+    let stream: Readable;
+    try {
+      const response = await axios.get(url, {
+        timeout: 10000,
+        maxRedirects: 5,
+        responseType: 'stream',
+        headers,
+      });
+      stream = response.data;
+      if (response.status !== 206) {
+        stream.destroy();
+        return null;
+      }
+    } catch (error) {
+      throw ErrorHandler.handleUrlFetchError(error);
+    }
+
+    const expectedLength = end - start + 1;
+    const chunks: Buffer[] = [];
+    let length = 0;
+    try {
+      for await (const chunk of stream) {
+        length += chunk.length;
+        if (length > expectedLength) {
+          stream.destroy();
+          break;
+        }
+        chunks.push(chunk);
+      }
+    } catch (error) {
+      throw ErrorHandler.handleUrlFetchError(error);
+    }
+
+    if (length !== expectedLength) {
+      throw new UrlFetchError(`Source sent ${length} bytes for range ${start}-${end} instead of ${expectedLength}`, undefined, {
+        code: 'SOURCE_RANGE_FAILED',
+        retryable: true,
+        remediation: 'Retry the request; if it keeps failing, the source misreports the file size',
+      });
+    }
+    return Buffer.concat(chunks, length);
+  }
+
   /**
    * Validates that URL is accessible
    * Checks if the URL returns a successful response
@@ -192,4 +312,179 @@ export class UrlService {
       }
     }
   }
+
+  /**
+   * Looks for a checksum the publisher made available for the source file
+   * 
+   * Checked in order (SHA-256 is preferred over MD5):
+   * - Digest / Repr-Digest response headers
+   * - Sidecar files: file.zip.sha256, file.zip.sha256sum, SHA256SUMS
+   * - Content-MD5 and MD5 digest headers
+   * - Sidecar files: file.zip.md5, MD5SUMS
+   * 
+   * Returns null when nothing usable was found; discovery never fails a transfer.
+   */
+  async discoverChecksum(url: string): Promise<ExpectedChecksum | null> {
+    const headerChecksums = await this.getHeaderChecksums(url);
+    const filename = this.extractFilename(url);
+
+    let fileUrl: string;
+    let dirUrl: string;
+    try {
+      const urlObj = new URL(url);
+      fileUrl = `${urlObj.origin}${urlObj.pathname}`;
+      dirUrl = `${urlObj.origin}${urlObj.pathname.slice(0, urlObj.pathname.lastIndexOf('/') + 1)}`;
+    } catch (error) {
+      return null;
+    }
+
+    for (const algorithm of Object.keys(DIGEST_LENGTHS) as ChecksumAlgorithm[]) {
+      const fromHeader = headerChecksums.find(checksum => checksum.algorithm === algorithm);
+      if (fromHeader) {
+        return fromHeader;
+      }
+
+      for (const sidecar of CHECKSUM_SIDECARS.filter(candidate => candidate.algorithm === algorithm)) {
+        const sidecarUrl = sidecar.pattern.replace('{file}', fileUrl).replace('{dir}', dirUrl);
+        const content = await this.fetchChecksumFile(sidecarUrl);
+        if (content === null) {
+          continue;
+        }
+
+        // Per-file sidecars may omit the filename, checksum lists must name it
+        const isList = sidecar.pattern.startsWith('{dir}');
+        const value = this.parseChecksumFile(content, filename, algorithm, !isList);
+        if (value) {
+          return { algorithm, value, source: sidecarUrl };
+        }
+        console.warn(`Checksum file ${sidecarUrl} has no ${algorithm} entry for ${filename}`);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Reads digests from Digest (RFC 3230), Repr-Digest (RFC 9530) and Content-MD5 headers
+   * Headers describe the encoded representation, so they are ignored when a
+   * Content-Encoding other than identity is in use.
+   */
+  private async getHeaderChecksums(url: string): Promise<ExpectedChecksum[]> {
+    let headers: Record<string, any>;
+    try {
+      const response = await axios.head(url, {
+        timeout: 10000, // 10 second timeout for HEAD request
+        maxRedirects: 5,
+        decompress: false, // Keep Content-Encoding visible, axios drops it when decompressing
+      });
+      headers = response.headers;
+    } catch (error) {
+      console.warn('Failed to read checksum headers:', error instanceof Error ? error.message : error);
+      return [];
+    }
+
+    const contentEncoding = String(headers['content-encoding'] || 'identity').toLowerCase();
+    if (contentEncoding !== 'identity') {
+      return [];
+    }
+
+    const checksums: ExpectedChecksum[] = [];
+    const addDigest = (name: string, base64Value: string, source: string) => {
+      const algorithm = name.toLowerCase().replace('-', '') as ChecksumAlgorithm;
+      if (!(algorithm in DIGEST_LENGTHS)) {
+        return;
+      }
+      const digest = Buffer.from(base64Value, 'base64');
+      if (digest.length === DIGEST_LENGTHS[algorithm]) {
+        checksums.push({ algorithm, value: digest.toString('hex'), source });
+      }
+    };
+
+    // Repr-Digest: sha-256=:base64:, md5=:base64:
+    for (const entry of String(headers['repr-digest'] || '').split(',')) {
+      const match = entry.trim().match(/^([a-zA-Z0-9-]+)=:([A-Za-z0-9+/=]+):$/);
+      if (match) {
+        addDigest(match[1], match[2], 'header:Repr-Digest');
+      }
+    }
+
+    // Digest: SHA-256=base64,MD5=base64
+    for (const entry of String(headers['digest'] || '').split(',')) {
+      const match = entry.trim().match(/^([a-zA-Z0-9-]+)=([A-Za-z0-9+/=]+)$/);
+      if (match) {
+        addDigest(match[1], match[2], 'header:Digest');
+      }
+    }
+
+    if (headers['content-md5']) {
+      addDigest('md5', String(headers['content-md5']).trim(), 'header:Content-MD5');
+    }
+
+    return checksums;
+  }
+
+  /**
+   * Downloads a small checksum file
+   * Returns null when it doesn't exist or can't be read
+   */
+  private async fetchChecksumFile(url: string): Promise<string | null> {
+    try {
+      const response = await axios.get(url, {
+        timeout: 10000,
+        maxRedirects: 5,
+        responseType: 'text',
+        maxContentLength: MAX_SIDECAR_SIZE,
+        validateStatus: (status) => status === 200,
+      });
+      return typeof response.data === 'string' ? response.data : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Finds the digest for a file in sha256sum/md5sum output or BSD-style checksum lines
+   * 
+   * Accepted line formats:
+   * - "<hex>  file.zip" or "<hex> *file.zip" (GNU coreutils)
+   * - "SHA256 (file.zip) = <hex>" (BSD)
+   * - "<hex>" on its own, only when allowBare is set (single-file sidecars)
+   */
+  private parseChecksumFile(
+    content: string,
+    filename: string,
+    algorithm: ChecksumAlgorithm,
+    allowBare: boolean
+  ): string | null {
+    const hexLength = DIGEST_LENGTHS[algorithm] * 2;
+    const bsdName = algorithm === 'sha256' ? 'SHA256' : 'MD5';
+    const matchesFile = (name: string) => {
+      const trimmed = name.trim().replace(/^\.\//, '');
+      return trimmed === filename || trimmed.split('/').pop() === filename;
+    };
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('#')) {
+        continue;
+      }
+
+      const bsd = line.match(/^([A-Za-z0-9-]+)\s*\((.+)\)\s*=\s*([0-9a-fA-F]+)$/);
+      if (bsd) {
+        if (bsd[1].toUpperCase().replace('-', '') === bsdName && bsd[3].length === hexLength && matchesFile(bsd[2])) {
+          return bsd[3].toLowerCase();
+        }
+        continue;
+      }
+
+      const gnu = line.match(/^([0-9a-fA-F]+)(?:\s+\*?(.+))?$/);
+      if (gnu && gnu[1].length === hexLength) {
+        if (gnu[2] ? matchesFile(gnu[2]) : allowBare) {
+          return gnu[1].toLowerCase();
+        }
+      }
+    }
+
+    return null;
+  }
 }
@@ -227,4 +227,109 @@ describe('ValidationService', () => {
       expect(result.isValid).toBe(true);
     });
   });
+
+  describe('Expected Checksum Validation', () => {
+    it('should accept SHA-256 and MD5 hex digests', () => {
+      expect(ValidationService.validateExpectedChecksum({ algorithm: 'sha256', value: 'a'.repeat(64) }).isValid).toBe(true);
+      expect(ValidationService.validateExpectedChecksum({ algorithm: 'md5', value: 'ABCDEF0123456789'.repeat(2) }).isValid).toBe(true);
+    });
+
+    it('should reject unsupported algorithms', () => {
+      const result = ValidationService.validateExpectedChecksum({ algorithm: 'sha1', value: 'a'.repeat(40) });
+      expect(result.isValid).toBe(false);
+      expect(result.error).toContain('sha256, md5');
+    });
+
+    it('should reject digests of the wrong length or format', () => {
+      const tooShort = ValidationService.validateExpectedChecksum({ algorithm: 'sha256', value: 'a'.repeat(32) });
+      expect(tooShort.isValid).toBe(false);
+      expect(tooShort.error).toContain('64 hexadecimal characters');
+
+      const notHex = ValidationService.validateExpectedChecksum({ algorithm: 'md5', value: 'z'.repeat(32) });
+      expect(notHex.isValid).toBe(false);
+    });
+
+    it('should reject values that are not objects', () => {
+      expect(ValidationService.validateExpectedChecksum('sha256:abc').isValid).toBe(false);
+      expect(ValidationService.validateExpectedChecksum(null).isValid).toBe(false);
+    });
+  });
+
+  describe('Bandwidth Limit Validation', () => {
+    it('should accept whole numbers of bytes per second', () => {
+      expect(ValidationService.validateMaxBytesPerSecond(1024).isValid).toBe(true);
+      expect(ValidationService.validateMaxBytesPerSecond(50 * 1024 * 1024).isValid).toBe(true);
+    });
+
+    it('should reject limits below 1 KB/s', () => {
+      const result = ValidationService.validateMaxBytesPerSecond(512);
+      expect(result.isValid).toBe(false);
+      expect(result.error).toContain('at least 1024');
+      expect(ValidationService.validateMaxBytesPerSecond(0).isValid).toBe(false);
+      expect(ValidationService.validateMaxBytesPerSecond(-1).isValid).toBe(false);
+    });
+
+    it('should reject values that are not whole numbers', () => {
+      expect(ValidationService.validateMaxBytesPerSecond(1500.5).isValid).toBe(false);
+      expect(ValidationService.validateMaxBytesPerSecond('1048576').isValid).toBe(false);
+    });
+  });
+
+  describe('Extraction Options Validation', () => {
+    it('should accept an object with an optional keepArchive flag', () => {
+      expect(ValidationService.validateExtractOptions({}).isValid).toBe(true);
+      expect(ValidationService.validateExtractOptions({ keepArchive: true }).isValid).toBe(true);
+    });
+
+    it('should reject anything else', () => {
+      expect(ValidationService.validateExtractOptions(true).isValid).toBe(false);
+      expect(ValidationService.validateExtractOptions(null).isValid).toBe(false);
+      const result = ValidationService.validateExtractOptions({ keepArchive: 'yes' });
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('extract.keepArchive must be a boolean');
+    });
+
+    it('should accept include and exclude glob patterns', () => {
+      expect(ValidationService.validateExtractOptions({ include: ['docs/**'], exclude: ['**/*.tmp'] }).isValid).toBe(true);
+      expect(ValidationService.validateExtractOptions({ include: [] }).isValid).toBe(true);
+    });
+
+    it('should reject patterns that are not a list of non-empty strings', () => {
+      for (const include of ['docs/**', [''], [42], Array(101).fill('*.txt'), ['a'.repeat(1025)]]) {
+        const result = ValidationService.validateExtractOptions({ include });
+        expect(result.isValid).toBe(false);
+        expect(result.error).toContain('extract.include must be a list of up to 100 glob patterns');
+      }
+    });
+
+    it('should reject keeping the archive when patterns select entries', () => {
+      const result = ValidationService.validateExtractOptions({ keepArchive: true, exclude: ['*.iso'] });
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('extract.keepArchive can\'t be combined with include or exclude patterns');
+      expect(ValidationService.validateExtractOptions({ keepArchive: true, include: [] }).isValid).toBe(true);
+    });
+
+    it('should accept a password secret name or ARN under the prefix', () => {
+      const prefix = 's3-zip-downloader/archive-passwords/';
+      for (const passwordSecret of [
+        's3-zip-downloader/archive-passwords/partner-a',
+        'arn:aws:secretsmanager:us-east-1:123456789012:secret:s3-zip-downloader/archive-passwords/partner-a-AbCdEf',
+      ]) {
+        expect(ValidationService.validateExtractOptions({ passwordSecret }, prefix).isValid).toBe(true);
+      }
+    });
+
+    it('should reject a password secret outside the prefix or that is not a secret', () => {
+      const prefix = 's3-zip-downloader/archive-passwords/';
+      const outside = ValidationService.validateExtractOptions({ passwordSecret: 'prod/database-password' }, prefix);
+      expect(outside.isValid).toBe(false);
+      expect(outside.error).toBe('extract.passwordSecret must name a secret under s3-zip-downloader/archive-passwords/');
+
+      for (const passwordSecret of ['', 42, 'partner a', 'arn:aws:s3:::bucket']) {
+        const result = ValidationService.validateExtractOptions({ passwordSecret }, prefix);
+        expect(result.isValid).toBe(false);
+        expect(result.error).toBe('extract.passwordSecret must be the ARN or name of a Secrets Manager secret');
+      }
+    });
+  });
 });
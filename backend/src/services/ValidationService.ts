@@ -1,5 +1,21 @@
 import { ValidationResult } from '../types/validation.js';
 
+// Hex digest length for each supported checksum algorithm
+const CHECKSUM_HEX_LENGTHS: Record<string, number> = {
+  sha256: 64,
+  md5: 32,
+};
+
+// Lowest accepted bandwidth limit, anything slower is almost certainly a unit mistake
+const MIN_BYTES_PER_SECOND = 1024;
+
+// Include or exclude patterns a request may give for selective extraction
+const MAX_ENTRY_PATTERNS = 100;
+
+// Secrets Manager secret ARN, whose name follows "secret:", or secret name
+const SECRET_ARN_PATTERN = /^arn:aws[a-z-]*:secretsmanager:[a-z0-9-]+:\d{12}:secret:(.+)$/;
+const SECRET_NAME_PATTERN = /^[\w/+=.@-]{1,512}$/;
+
 export class ValidationService {
   /**
    * Sanitizes user input by removing potentially dangerous characters
@@ -291,4 +307,140 @@ export class ValidationService {
 
     return { isValid: true };
   }
+
+  /**
+   * Validates a user-supplied expected checksum
+   * 
+   * Rules:
+   * - Algorithm must be sha256 or md5
+   * - Value must be a hex digest of the algorithm's length (case-insensitive)
+   */
+  static validateExpectedChecksum(checksum: unknown): ValidationResult {
+    if (!checksum || typeof checksum !== 'object') {
+      return {
+        isValid: false,
+        error: 'expectedChecksum must be an object with algorithm and value'
+      };
+    }
+
+    const { algorithm, value } = checksum as { algorithm?: unknown; value?: unknown };
+    if (typeof algorithm !== 'string' || !(algorithm in CHECKSUM_HEX_LENGTHS)) {
+      return {
+        isValid: false,
+        error: `Checksum algorithm must be one of: ${Object.keys(CHECKSUM_HEX_LENGTHS).join(', ')}`
+      };
+    }
+
+    const expectedLength = CHECKSUM_HEX_LENGTHS[algorithm];
+    if (typeof value !== 'string' || !new RegExp(`^[0-9a-fA-F]{${expectedLength}}$`).test(value.trim())) {
+      return {
+        isValid: false,
+        error: `A ${algorithm} checksum must be ${expectedLength} hexadecimal characters`
+      };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Validates a per-transfer bandwidth limit
+   * 
+   * Rules:
+   * - Must be a whole number of bytes per second
+   * - Must be at least 1 KB/s
+   */
+  static validateMaxBytesPerSecond(maxBytesPerSecond: unknown): ValidationResult {
+    if (typeof maxBytesPerSecond !== 'number' || !Number.isInteger(maxBytesPerSecond)) {
+      return {
+        isValid: false,
+        error: 'maxBytesPerSecond must be a whole number of bytes per second'
+      };
+    }
+
+    if (maxBytesPerSecond < MIN_BYTES_PER_SECOND) {
+      return {
+        isValid: false,
+        error: `maxBytesPerSecond must be at least ${MIN_BYTES_PER_SECOND} bytes per second`
+      };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Validates the archive extraction options of a request
+   * 
+   * Rules:
+   * - Must be an object
+   * - keepArchive, when given, must be a boolean
+   * - include and exclude, when given, must be lists of up to 100 glob patterns,
+   *   and keepArchive can't be set with them
+   * - passwordSecret, when given, must be a secret ARN or name starting with passwordSecretPrefix
+   */
+  static validateExtractOptions(extract: unknown, passwordSecretPrefix = ''): ValidationResult {
+    if (typeof extract !== 'object' || extract === null || Array.isArray(extract)) {
+      return {
+        isValid: false,
+        error: 'extract must be an object, e.g. { "keepArchive": false } or { "include": ["docs/**"] }'
+      };
+    }
+
+    const { keepArchive, include, exclude, passwordSecret } = extract as {
+      keepArchive?: unknown;
+      include?: unknown;
+      exclude?: unknown;
+      passwordSecret?: unknown;
+    };
+    if (keepArchive !== undefined && typeof keepArchive !== 'boolean') {
+      return {
+        isValid: false,
+        error: 'extract.keepArchive must be a boolean'
+      };
+    }
+
+    for (const [field, patterns] of [['include', include], ['exclude', exclude]] as const) {
+      if (patterns === undefined) {
+        continue;
+      }
+      if (
+        !Array.isArray(patterns) ||
+        patterns.length > MAX_ENTRY_PATTERNS ||
+        patterns.some(pattern => typeof pattern !== 'string' || pattern.trim() === '' || pattern.length > 1024)
+      ) {
+        return {
+          isValid: false,
+          error: `extract.${field} must be a list of up to ${MAX_ENTRY_PATTERNS} glob patterns, e.g. ["docs/**/*.pdf"]`
+        };
+      }
+    }
+
+    // Only selected entries are read, so the archive as a whole is never downloaded
+    if (keepArchive === true && (Array.isArray(include) && include.length > 0 || Array.isArray(exclude) && exclude.length > 0)) {
+      return {
+        isValid: false,
+        error: 'extract.keepArchive can\'t be combined with include or exclude patterns'
+      };
+    }
+
+    if (passwordSecret !== undefined) {
+      const secretName = typeof passwordSecret === 'string'
+        ? passwordSecret.match(SECRET_ARN_PATTERN)?.[1] ?? passwordSecret
+        : '';
+      if (!SECRET_NAME_PATTERN.test(secretName)) {
+        return {
+          isValid: false,
+          error: 'extract.passwordSecret must be the ARN or name of a Secrets Manager secret'
+        };
+      }
+      // The worker may only read secrets under the prefix
+      if (!secretName.startsWith(passwordSecretPrefix)) {
+        return {
+          isValid: false,
+          error: `extract.passwordSecret must name a secret under ${passwordSecretPrefix}`
+        };
+      }
+    }
+
+    return { isValid: true };
+  }
 }
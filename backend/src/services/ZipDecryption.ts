@@ -0,0 +1,175 @@
+import { createCipheriv, createHmac, pbkdf2Sync, timingSafeEqual, Cipher, Hmac } from 'crypto';
+import { ArchiveError } from '../utils/errorHandler.js';
+import { AesFields } from './ZipFormat.js';
+
+/**
+ * Decrypts the data of one encrypted entry as it streams
+ *
+ * The encrypted data starts with headerLength bytes the password is checked against and,
+ * for WinZip AES, ends with trailerLength bytes that authenticate it. Both count towards
+ * the entry's compressed size. decrypt() takes the bytes in between in order;
+ * authenticate() is told which of them belong to the entry once that is known.
+ */
+export interface EntryDecryptor {
+  readonly headerLength: number;
+  readonly trailerLength: number;
+  readonly authenticated: boolean; // The trailer, not the CRC-32, tells corrupt data from a wrong password
+  readonly checksCrc: boolean; // False for AE-2 entries, which record no CRC-32
+  checkHeader(header: Buffer): void;
+  decrypt(data: Buffer): Buffer;
+  authenticate(data: Buffer): void;
+  checkTrailer(trailer: Buffer): void;
+}
+
+/**
+ * Error for an entry the password doesn't decrypt
+ */
+export function wrongPasswordError(name: string, reason = 'the password is wrong'): ArchiveError {
+  return new ArchiveError(`Entry ${name} can't be decrypted: ${reason}`, name, {
+    code: 'INVALID_ARCHIVE_PASSWORD',
+    remediation: 'Check the password in the secret extract.passwordSecret names',
+  });
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let crc = n;
+    for (let k = 0; k < 8; k++) {
+      crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+    }
+    table[n] = crc >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Traditional PKWARE encryption (ZipCrypto, APPNOTE 6.1)
+ *
+ * A 12-byte header precedes the data. Its last byte, once decrypted, is the high byte of
+ * the entry's CRC-32, or of its DOS modification time when the CRC follows in a data
+ * descriptor, which catches all but 1 in 256 wrong passwords before any data is written.
+ * The cipher has no authentication: the rest show up as a CRC-32 mismatch or bad deflate data.
+ */
+export class ZipCryptoDecryptor implements EntryDecryptor {
+  readonly headerLength = 12;
+  readonly trailerLength = 0;
+  readonly authenticated = false;
+  readonly checksCrc = true;
+
+  private key0 = 0x12345678;
+  private key1 = 0x23456789;
+  private key2 = 0x34567890;
+
+  constructor(private readonly name: string, password: string, private readonly checkByte: number) {
+    for (const byte of Buffer.from(password, 'utf8')) {
+      this.updateKeys(byte);
+    }
+  }
+
+  checkHeader(header: Buffer): void {
+    if (this.decrypt(header)[11] !== this.checkByte) {
+      throw wrongPasswordError(this.name);
+    }
+  }
+
+  decrypt(data: Buffer): Buffer {
+    const plain = Buffer.allocUnsafe(data.length);
+    for (let i = 0; i < data.length; i++) {
+      const temp = (this.key2 | 2) & 0xffff;
+      plain[i] = data[i] ^ ((Math.imul(temp, temp ^ 1) >>> 8) & 0xff);
+      this.updateKeys(plain[i]);
+    }
+    return plain;
+  }
+
+  authenticate(): void {}
+
+  checkTrailer(): void {}
+
+  private updateKeys(byte: number): void {
+    this.key0 = (this.key0 >>> 8) ^ CRC32_TABLE[(this.key0 ^ byte) & 0xff];
+    this.key1 = (Math.imul((this.key1 + (this.key0 & 0xff)) >>> 0, 134775813) + 1) >>> 0;
+    this.key2 = (this.key2 >>> 8) ^ CRC32_TABLE[(this.key2 ^ (this.key1 >>> 24)) & 0xff];
+  }
+}
+
+/**
+ * WinZip AES encryption (AE-1 and AE-2) with 128, 192 or 256-bit keys
+ *
+ * The header is a salt and a 2-byte password verifier, both derived with PBKDF2-HMAC-SHA1
+ * from the password together with the AES and HMAC keys. The data is AES in counter mode
+ * with a little-endian counter starting at 1, and the trailer is the first 10 bytes of
+ * the HMAC-SHA1 of the encrypted data.
+ */
+export class WinZipAesDecryptor implements EntryDecryptor {
+  private static readonly KEYSTREAM_BLOCKS = 4096; // 64KB of keystream per cipher call
+
+  readonly headerLength: number;
+  readonly trailerLength = 10;
+  readonly authenticated = true;
+  readonly checksCrc: boolean;
+
+  private readonly keyLength: number;
+  private cipher?: Cipher;
+  private hmac?: Hmac;
+  private counter = 0;
+  private keystream = Buffer.alloc(0);
+  private keystreamOffset = 0;
+
+  constructor(private readonly name: string, private readonly password: string, private readonly aes: AesFields) {
+    this.keyLength = aes.keyBits / 8;
+    this.headerLength = this.keyLength / 2 + 2; // Salt, then the verifier
+    this.checksCrc = aes.version !== 2;
+  }
+
+  checkHeader(header: Buffer): void {
+    const salt = header.subarray(0, this.keyLength / 2);
+    const keys = pbkdf2Sync(Buffer.from(this.password, 'utf8'), salt, 1000, this.keyLength * 2 + 2, 'sha1');
+    if (!keys.subarray(this.keyLength * 2).equals(header.subarray(this.keyLength / 2, this.headerLength))) {
+      throw wrongPasswordError(this.name);
+    }
+    this.cipher = createCipheriv(`aes-${this.aes.keyBits}-ecb`, keys.subarray(0, this.keyLength), null).setAutoPadding(false);
+    this.hmac = createHmac('sha1', keys.subarray(this.keyLength, this.keyLength * 2));
+  }
+
+  decrypt(data: Buffer): Buffer {
+    const plain = Buffer.allocUnsafe(data.length);
+    for (let i = 0; i < data.length; i++) {
+      if (this.keystreamOffset === this.keystream.length) {
+        this.nextKeystream(data.length - i);
+      }
+      plain[i] = data[i] ^ this.keystream[this.keystreamOffset++];
+    }
+    return plain;
+  }
+
+  authenticate(data: Buffer): void {
+    this.hmac!.update(data);
+  }
+
+  checkTrailer(trailer: Buffer): void {
+    if (!timingSafeEqual(this.hmac!.digest().subarray(0, this.trailerLength), trailer)) {
+      throw new ArchiveError(`Entry ${this.name} failed its authentication check`, this.name, {
+        code: 'ARCHIVE_AUTHENTICATION_FAILED',
+        category: 'integrity',
+        remediation: 'The archive is corrupt or was modified; check the source, or transfer the archive without extracting',
+      });
+    }
+  }
+
+  /**
+   * Encrypts the next counter blocks, enough for length bytes up to KEYSTREAM_BLOCKS
+   */
+  private nextKeystream(length: number): void {
+    const blocks = Math.min(Math.ceil(length / 16), WinZipAesDecryptor.KEYSTREAM_BLOCKS);
+    const counters = Buffer.alloc(blocks * 16);
+    for (let block = 0; block < blocks; block++) {
+      this.counter++;
+      counters.writeUInt32LE(this.counter % 0x100000000, block * 16);
+      counters.writeUInt32LE(Math.floor(this.counter / 0x100000000), block * 16 + 4);
+    }
+    this.keystream = this.cipher!.update(counters);
+    this.keystreamOffset = 0;
+  }
+}
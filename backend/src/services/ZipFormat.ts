@@ -0,0 +1,177 @@
+/**
+ * ZIP record signatures, flags and field decoding shared by the archive readers
+ * See the PKWARE APPNOTE (version 6.3.x) for the record layouts.
+ */
+
+export const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+export const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50; // Also marks the start of a split archive
+export const CENTRAL_DIRECTORY_HEADER_SIGNATURE = 0x02014b50;
+export const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+export const ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06064b50;
+export const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIGNATURE = 0x07064b50;
+export const ARCHIVE_EXTRA_DATA_SIGNATURE = 0x08064b50;
+export const DIGITAL_SIGNATURE_SIGNATURE = 0x05054b50;
+
+export const LOCAL_FILE_HEADER_LENGTH = 30; // Fixed part, before name and extra field
+
+export const FLAG_ENCRYPTED = 0x0001;
+export const FLAG_STRONG_ENCRYPTION = 0x0040; // PKWARE's certificate-based encryption
+export const FLAG_DATA_DESCRIPTOR = 0x0008; // CRC and sizes follow the data instead of the header
+export const FLAG_UTF8 = 0x0800; // Name and comment are UTF-8
+
+export const METHOD_STORED = 0;
+export const METHOD_DEFLATED = 8;
+export const METHOD_AES = 99; // WinZip AES; the actual method is in the AES extra field
+
+export const ZIP64_MARKER_32 = 0xffffffff; // A 32-bit field whose value is in the Zip64 extra field
+export const ZIP64_MARKER_16 = 0xffff;
+
+const ZIP64_EXTRA_FIELD = 0x0001;
+const EXTENDED_TIMESTAMP_EXTRA_FIELD = 0x5455;
+const AES_EXTRA_FIELD = 0x9901;
+
+// Names of the compression methods in APPNOTE 4.4.5 that archives commonly use
+const COMPRESSION_METHOD_NAMES: Record<number, string> = {
+  0: 'stored',
+  8: 'deflated',
+  9: 'deflate64',
+  12: 'bzip2',
+  14: 'lzma',
+  93: 'zstd',
+  95: 'xz',
+  99: 'aes',
+};
+
+/**
+ * Name of a compression method, e.g. 'deflated', or 'method-<n>' for unusual ones
+ */
+export function compressionMethodName(method: number): string {
+  return COMPRESSION_METHOD_NAMES[method] ?? `method-${method}`;
+}
+
+/**
+ * Decodes an entry name
+ * Names flagged UTF-8 are decoded as such. Unflagged names are meant to be CP437, but many
+ * tools write UTF-8 without the flag, so they are read as UTF-8 when valid and Latin-1 otherwise.
+ */
+export function decodeEntryName(bytes: Buffer, flags: number): string {
+  const utf8 = bytes.toString('utf8');
+  if (flags & FLAG_UTF8 || Buffer.from(utf8, 'utf8').equals(bytes)) {
+    return utf8;
+  }
+  return bytes.toString('latin1');
+}
+
+/**
+ * Converts an MS-DOS date and time (local time, 2 second resolution) to a Date
+ * DOS timestamps carry no time zone; they are read as UTC.
+ */
+export function dosDateTimeToDate(date: number, time: number): Date {
+  const year = ((date >>> 9) & 0x7f) + 1980;
+  const month = Math.max(1, (date >>> 5) & 0x0f);
+  const day = Math.max(1, date & 0x1f);
+  const hours = (time >>> 11) & 0x1f;
+  const minutes = (time >>> 5) & 0x3f;
+  const seconds = (time & 0x1f) * 2;
+  return new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+}
+
+/**
+ * Splits an extra field into its blocks by header ID
+ */
+export function readExtraFields(extra: Buffer): Map<number, Buffer> {
+  const fields = new Map<number, Buffer>();
+  let offset = 0;
+  while (offset + 4 <= extra.length) {
+    const id = extra.readUInt16LE(offset);
+    const size = extra.readUInt16LE(offset + 2);
+    fields.set(id, extra.subarray(offset + 4, Math.min(extra.length, offset + 4 + size)));
+    offset += 4 + size;
+  }
+  return fields;
+}
+
+/**
+ * Values of a Zip64 extended information extra field
+ * Only the fields whose 32-bit (or 16-bit) counterparts hold the marker are present, in this order.
+ */
+export interface Zip64Fields {
+  uncompressedSize?: number;
+  compressedSize?: number;
+  localHeaderOffset?: number;
+  diskNumber?: number;
+}
+
+/**
+ * Reads the Zip64 extra field for the fields marked as present
+ * Returns undefined when the archive has no Zip64 extra field.
+ */
+export function readZip64Fields(
+  fields: Map<number, Buffer>,
+  present: { uncompressedSize?: boolean; compressedSize?: boolean; localHeaderOffset?: boolean; diskNumber?: boolean }
+): Zip64Fields | undefined {
+  const data = fields.get(ZIP64_EXTRA_FIELD);
+  if (!data) {
+    return undefined;
+  }
+
+  const result: Zip64Fields = {};
+  let offset = 0;
+  const readUInt64 = (): number | undefined => {
+    if (offset + 8 > data.length) {
+      return undefined;
+    }
+    const value = Number(data.readBigUInt64LE(offset));
+    offset += 8;
+    return value;
+  };
+  if (present.uncompressedSize) {
+    result.uncompressedSize = readUInt64();
+  }
+  if (present.compressedSize) {
+    result.compressedSize = readUInt64();
+  }
+  if (present.localHeaderOffset) {
+    result.localHeaderOffset = readUInt64();
+  }
+  if (present.diskNumber && offset + 4 <= data.length) {
+    result.diskNumber = data.readUInt32LE(offset);
+  }
+  return result;
+}
+
+/**
+ * Modification time from an extended timestamp extra field (Unix seconds), if it has one
+ */
+export function readExtendedTimestamp(fields: Map<number, Buffer>): Date | undefined {
+  const data = fields.get(EXTENDED_TIMESTAMP_EXTRA_FIELD);
+  if (!data || data.length < 5 || !(data[0] & 0x01)) {
+    return undefined;
+  }
+  return new Date(data.readInt32LE(1) * 1000);
+}
+
+/**
+ * Values of a WinZip AES extra field
+ */
+export interface AesFields {
+  version: number; // 1 (AE-1) stores the CRC-32, 2 (AE-2) leaves it 0
+  keyBits: 128 | 192 | 256;
+  method: number; // Compression method of the data once decrypted
+}
+
+/**
+ * Reads the WinZip AES extra field of an entry whose method is METHOD_AES
+ * Returns undefined when there is none or it is malformed.
+ */
+export function readAesFields(fields: Map<number, Buffer>): AesFields | undefined {
+  const data = fields.get(AES_EXTRA_FIELD);
+  if (!data || data.length < 7 || data.toString('latin1', 2, 4) !== 'AE') {
+    return undefined;
+  }
+  const keyBits = ({ 1: 128, 2: 192, 3: 256 } as const)[data[4] as 1 | 2 | 3];
+  if (!keyBits) {
+    return undefined;
+  }
+  return { version: data.readUInt16LE(0), keyBits, method: data.readUInt16LE(5) };
+}
@@ -0,0 +1,345 @@
+import { describe, it, expect } from 'vitest';
+import { ZipStreamParser, ZipStreamParserOptions, ZipEntry } from './ZipStreamParser.js';
+import { ArchiveError } from '../utils/errorHandler.js';
+import { buildZip, ZipBuilderEntry, ZipBuilderEncryption } from '../test/zipBuilder.js';
+import { deflateRawSync } from 'zlib';
+
+/**
+ * Tests for streaming ZIP parsing
+ *
+ * Validates that:
+ * - Stored and deflated entries are read whatever the chunking of the stream
+ * - Data descriptors are found with and without a signature, in 32 and 64-bit layouts
+ * - Zip64 extra fields supply the sizes of Zip64 entries
+ * - ZipCrypto and WinZip AES entries are decrypted with the password, in every layout
+ * - A wrong password fails before the entry is completed, and AES data is authenticated
+ * - Corrupt, truncated, encrypted and unsupported entries fail with an error naming the entry
+ */
+describe('ZipStreamParser', () => {
+  const text = Buffer.from('All work and no play makes Jack a dull boy. '.repeat(4000));
+  const random = Buffer.from(Array.from({ length: 70000 }, (_, i) => (i * 7919 + (i >> 5)) % 256));
+
+  const parse = async (
+    archive: Buffer,
+    chunkSize: number,
+    skip: (entry: ZipEntry) => boolean = () => false,
+    options: ZipStreamParserOptions = {}
+  ) => {
+    const entries: ZipEntry[] = [];
+    const contents = new Map<string, Buffer>();
+    const ended: string[] = [];
+    const parser = new ZipStreamParser(async (entry) => {
+      entries.push(entry);
+      if (skip(entry)) {
+        return undefined;
+      }
+      const chunks: Buffer[] = [];
+      return {
+        write: async (data) => {
+          chunks.push(data);
+        },
+        end: async () => {
+          contents.set(entry.name, Buffer.concat(chunks));
+          ended.push(entry.name);
+        },
+      };
+    }, options);
+    for (let offset = 0; offset < archive.length; offset += chunkSize) {
+      await parser.write(archive.subarray(offset, offset + chunkSize));
+    }
+    await parser.end();
+    return { entries, contents, ended, parser };
+  };
+
+  const parseError = async (archive: Buffer, chunkSize = 4096, options: ZipStreamParserOptions = {}): Promise<ArchiveError> => {
+    const error = await parse(archive, chunkSize, undefined, options).catch((e) => e);
+    expect(error).toBeInstanceOf(ArchiveError);
+    return error;
+  };
+
+  const layouts: Array<[string, Partial<ZipBuilderEntry>]> = [
+    ['deflated', {}],
+    ['stored', { method: 'stored' }],
+    ['deflated with a data descriptor', { dataDescriptor: true }],
+    ['deflated with an unsigned data descriptor', { dataDescriptor: true, descriptorSignature: false }],
+    ['stored with a data descriptor', { method: 'stored', dataDescriptor: true }],
+    ['Zip64 deflated', { zip64: true }],
+    ['Zip64 deflated with a data descriptor', { zip64: true, dataDescriptor: true }],
+    ['Zip64 stored with a data descriptor', { zip64: true, method: 'stored', dataDescriptor: true }],
+  ];
+
+  for (const [description, layout] of layouts) {
+    it(`should read ${description} entries in any chunking`, async () => {
+      const archive = buildZip([
+        { name: 'docs/readme.txt', data: text, ...layout },
+        { name: 'bin/data.bin', data: random, ...layout },
+        { name: 'empty.txt', data: Buffer.alloc(0), ...layout },
+      ], { zip64: layout.zip64 });
+
+      for (const chunkSize of [1, 13, 4096, archive.length]) {
+        const { contents, ended, parser } = await parse(archive, chunkSize);
+        expect(ended).toEqual(['docs/readme.txt', 'bin/data.bin', 'empty.txt']);
+        expect(contents.get('docs/readme.txt')!.equals(text)).toBe(true);
+        expect(contents.get('bin/data.bin')!.equals(random)).toBe(true);
+        expect(contents.get('empty.txt')!.length).toBe(0);
+        expect(parser.finished).toBe(true);
+      }
+    });
+  }
+
+  const encryptions: ZipBuilderEncryption[] = [
+    { password: 'correct horse', method: 'zipcrypto' },
+    { password: 'correct horse', method: 'aes-128' },
+    { password: 'correct horse', method: 'aes-192', aesVersion: 1 },
+    { password: 'correct horse', method: 'aes-256' },
+  ];
+  const encryptedLayouts = layouts.filter(([description]) => !description.includes('Zip64') && !description.includes('unsigned'));
+
+  for (const encryption of encryptions) {
+    const version = encryption.method === 'zipcrypto' ? '' : ` AE-${encryption.aesVersion ?? 2}`;
+    it(`should decrypt ${encryption.method}${version} entries in any layout and chunking`, async () => {
+      for (const [, layout] of encryptedLayouts) {
+        const archive = buildZip([
+          { name: 'docs/readme.txt', data: text, encryption, ...layout },
+          { name: 'bin/data.bin', data: random, encryption, ...layout },
+          { name: 'empty.txt', data: Buffer.alloc(0), encryption, ...layout },
+        ]);
+
+        for (const chunkSize of [1, 4096, archive.length]) {
+          const { entries, contents, ended } = await parse(archive, chunkSize, undefined, { password: 'correct horse' });
+          expect(ended).toEqual(['docs/readme.txt', 'bin/data.bin', 'empty.txt']);
+          expect(contents.get('docs/readme.txt')!.equals(text)).toBe(true);
+          expect(contents.get('bin/data.bin')!.equals(random)).toBe(true);
+          expect(contents.get('empty.txt')!.length).toBe(0);
+          expect(entries[0]).toMatchObject({ encrypted: true, method: layout.method === 'stored' ? 0 : 8 });
+        }
+      }
+    });
+  }
+
+  it('should read encrypted and plain entries of the same archive', async () => {
+    const archive = buildZip([
+      { name: 'plain.txt', data: text },
+      { name: 'secret.bin', data: random, encryption: encryptions[3], dataDescriptor: true },
+      { name: 'legacy.txt', data: text, encryption: encryptions[0], method: 'stored' },
+    ]);
+
+    const { contents } = await parse(archive, 4096, undefined, { password: 'correct horse' });
+
+    expect(contents.get('plain.txt')!.equals(text)).toBe(true);
+    expect(contents.get('secret.bin')!.equals(random)).toBe(true);
+    expect(contents.get('legacy.txt')!.equals(text)).toBe(true);
+  });
+
+  it('should fail with a wrong password before completing the entry', async () => {
+    for (const encryption of encryptions) {
+      for (const [, layout] of encryptedLayouts) {
+        const archive = buildZip([{ name: 'secret.txt', data: text, encryption, ...layout }]);
+
+        const { error, ended } = await parse(archive, 4096, undefined, { password: 'wrong' })
+          .then(({ ended }) => ({ error: undefined, ended }), (error) => ({ error, ended: [] }));
+
+        expect(error).toMatchObject({ code: 'INVALID_ARCHIVE_PASSWORD', category: 'source', retryable: false, entry: 'secret.txt' });
+        expect(ended).toEqual([]);
+      }
+    }
+  });
+
+  it('should fail AES entries whose data was modified', async () => {
+    const archive = buildZip([{ name: 'secret.txt', data: text, encryption: encryptions[3], method: 'stored' }]);
+    archive[archive.indexOf(Buffer.from('secret.txt')) + 1000] ^= 0x01;
+
+    const error = await parseError(archive, 4096, { password: 'correct horse' });
+
+    expect(error).toMatchObject({ code: 'ARCHIVE_AUTHENTICATION_FAILED', category: 'integrity', retryable: false, entry: 'secret.txt' });
+  });
+
+  it('should fail ZipCrypto entries whose data was modified as undecryptable', async () => {
+    const archive = buildZip([{ name: 'secret.txt', data: text, encryption: encryptions[0], method: 'stored' }]);
+    archive[archive.indexOf(Buffer.from('secret.txt')) + 1000] ^= 0x01;
+
+    const error = await parseError(archive, 4096, { password: 'correct horse' });
+
+    expect(error).toMatchObject({ code: 'INVALID_ARCHIVE_PASSWORD', entry: 'secret.txt' });
+    expect(error.message).toContain('the password is wrong or the entry is corrupt');
+  });
+
+  it('should find the end of a deflate stream that ends exactly on a slice boundary', async () => {
+    const archive = buildZip([{ name: 'a.txt', data: text, dataDescriptor: true }, { name: 'b.txt', data: text }]);
+    const compressedLength = deflateRawSync(text).length;
+
+    const contents = new Map<string, Buffer>();
+    const parser = new ZipStreamParser(async (entry) => {
+      const chunks: Buffer[] = [];
+      return {
+        write: async (data) => {
+          chunks.push(data);
+        },
+        end: async () => {
+          contents.set(entry.name, Buffer.concat(chunks));
+        },
+      };
+    });
+    (parser as any).INFLATE_SLICE_SIZE = compressedLength;
+    await parser.write(archive);
+    await parser.end();
+
+    expect(contents.get('a.txt')!.equals(text)).toBe(true);
+    expect(contents.get('b.txt')!.equals(text)).toBe(true);
+  });
+
+  it('should write the output of a large chunk slice by slice', async () => {
+    // 48MB of zeros deflates to about 48KB, several slices, all written in one chunk
+    const zeros = Buffer.alloc(48 * 1024 * 1024);
+    const archive = buildZip([{ name: 'zeros.bin', data: zeros }]);
+    const sliceSize = 16 * 1024;
+
+    const writes: Array<[number, number]> = [];
+    const parser = new ZipStreamParser(async () => ({
+      write: async (data, compressedRead) => {
+        writes.push([data.length, compressedRead]);
+      },
+      end: async () => {},
+    }));
+    await parser.write(archive);
+    await parser.end();
+
+    expect(writes.reduce((total, [length]) => total + length, 0)).toBe(zeros.length);
+    expect(Math.max(...writes.map(([length]) => length))).toBeLessThanOrEqual(64 * 1024);
+    // Output arrives as each slice inflates, not once the whole chunk has
+    expect(writes[0][1]).toBe(sliceSize);
+    expect(new Set(writes.map(([, compressedRead]) => compressedRead)).size).toBeGreaterThanOrEqual(3);
+  });
+
+  it('should describe entries from their local headers', async () => {
+    const lastModified = new Date(Date.UTC(2023, 10, 5, 14, 30, 58));
+    const archive = buildZip([
+      { name: 'folder/', data: Buffer.alloc(0), method: 'stored' },
+      { name: 'folder/über.txt', data: text, lastModified, utf8: true },
+      { name: 'folder/later.txt', data: text, dataDescriptor: true },
+    ]);
+
+    const { entries } = await parse(archive, 1000);
+
+    expect(entries.map(entry => [entry.name, entry.isDirectory])).toEqual([
+      ['folder/', true],
+      ['folder/über.txt', false],
+      ['folder/later.txt', false],
+    ]);
+    expect(entries[1]).toMatchObject({
+      method: 8,
+      compressedSize: deflateRawSync(text).length,
+      uncompressedSize: text.length,
+      lastModified,
+      zip64: false,
+      encrypted: false,
+    });
+    expect(entries[1].headerOffset).toBe(30 + 'folder/'.length);
+    // Deferred to the data descriptor, then filled in from it
+    expect(entries[2].uncompressedSize).toBe(text.length);
+  });
+
+  it('should skip the data of entries the handler declines', async () => {
+    const archive = buildZip([
+      { name: 'skip.bin', data: random },
+      { name: 'skip-later.bin', data: random, dataDescriptor: true },
+      { name: 'keep.txt', data: text },
+    ]);
+
+    const { contents, ended } = await parse(archive, 4096, entry => entry.name.startsWith('skip'));
+
+    expect(ended).toEqual(['keep.txt']);
+    expect(contents.get('keep.txt')!.equals(text)).toBe(true);
+  });
+
+  it('should read an archive that starts with a spanning marker', async () => {
+    const marker = Buffer.alloc(4);
+    marker.writeUInt32LE(0x08074b50, 0);
+    const archive = buildZip([{ name: 'a.txt', data: text }], { prefix: marker });
+
+    const { contents } = await parse(archive, 4096);
+
+    expect(contents.get('a.txt')!.equals(text)).toBe(true);
+  });
+
+  it('should read a single entry from the middle of an archive', async () => {
+    const archive = buildZip([
+      { name: 'a.txt', data: text },
+      { name: 'b.bin', data: random, dataDescriptor: true },
+      { name: 'c.txt', data: text },
+    ]);
+    const start = archive.indexOf(Buffer.from('b.bin')) - 30;
+    const entries: ZipEntry[] = [];
+    const chunks: Buffer[] = [];
+    const parser = new ZipStreamParser(async (entry) => {
+      entries.push(entry);
+      return { write: async (data) => { chunks.push(data); }, end: async () => {} };
+    }, { offset: start, singleEntry: true });
+
+    // The rest of the archive follows the entry, as when a range runs past it
+    await parser.write(archive.subarray(start));
+    await parser.end();
+
+    expect(parser.finished).toBe(true);
+    expect(entries.map(entry => [entry.name, entry.headerOffset])).toEqual([['b.bin', start]]);
+    expect(Buffer.concat(chunks).equals(random)).toBe(true);
+  });
+
+  it('should reject a source that is not a ZIP archive', async () => {
+    const error = await parseError(Buffer.from('<html>Not found</html>'));
+    expect(error.code).toBe('INVALID_ARCHIVE');
+    expect(error.message).toBe('Source is not a ZIP archive');
+  });
+
+  it('should fail an entry whose CRC-32 does not match', async () => {
+    const archive = buildZip([{ name: 'a.txt', data: text }, { name: 'b.txt', data: text, method: 'stored' }]);
+    archive[archive.indexOf(text) + 100] ^= 0xff; // Inside the stored copy
+
+    const error = await parseError(archive);
+
+    expect(error).toMatchObject({ code: 'ARCHIVE_CRC_MISMATCH', category: 'integrity', retryable: false, entry: 'b.txt' });
+  });
+
+  it('should fail an entry whose deflate data is corrupt', async () => {
+    const archive = buildZip([{ name: 'a.txt', data: text }]);
+    archive.fill(0xff, 40, 60);
+
+    const error = await parseError(archive);
+
+    expect(error).toMatchObject({ code: 'ARCHIVE_ENTRY_CORRUPT', entry: 'a.txt' });
+  });
+
+  it('should fail an archive that ends inside an entry', async () => {
+    const archive = buildZip([{ name: 'a.txt', data: text, dataDescriptor: true }]);
+
+    const error = await parseError(archive.subarray(0, 200));
+
+    expect(error).toMatchObject({ code: 'ARCHIVE_TRUNCATED', retryable: true, entry: 'a.txt' });
+  });
+
+  it('should fail an archive that ends before its central directory', async () => {
+    const archive = buildZip([{ name: 'a.txt', data: text }]);
+    const centralDirectory = archive.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+
+    const error = await parseError(archive.subarray(0, centralDirectory));
+
+    expect(error.code).toBe('ARCHIVE_TRUNCATED');
+    expect(error.entry).toBeUndefined();
+  });
+
+  it('should reject encrypted entries and unsupported compression methods', async () => {
+    const encrypted = buildZip([{ name: 'secret.txt', data: text, encryption: encryptions[1] }]);
+    expect(await parseError(encrypted)).toMatchObject({ code: 'ARCHIVE_ENCRYPTED', entry: 'secret.txt' });
+
+    const strong = buildZip([{ name: 'secret.txt', data: text, encryption: encryptions[0] }]);
+    strong.writeUInt16LE(strong.readUInt16LE(6) | 0x0040, 6);
+    const strongError = await parseError(strong, 4096, { password: 'correct horse' });
+    expect(strongError).toMatchObject({ code: 'UNSUPPORTED_ENCRYPTION', entry: 'secret.txt' });
+
+    const bzip2 = buildZip([{ name: 'data.bz2', data: text, method: 'stored' }]);
+    bzip2.writeUInt16LE(12, 8);
+    const error = await parseError(bzip2);
+    expect(error).toMatchObject({ code: 'UNSUPPORTED_COMPRESSION_METHOD', entry: 'data.bz2' });
+    expect(error.message).toContain('bzip2');
+  });
+});
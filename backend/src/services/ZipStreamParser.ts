@@ -0,0 +1,635 @@
+import zlib from 'zlib';
+import { ChecksumService } from './ChecksumService.js';
+import { ArchiveError } from '../utils/errorHandler.js';
+import {
+  ARCHIVE_EXTRA_DATA_SIGNATURE,
+  CENTRAL_DIRECTORY_HEADER_SIGNATURE,
+  DATA_DESCRIPTOR_SIGNATURE,
+  DIGITAL_SIGNATURE_SIGNATURE,
+  END_OF_CENTRAL_DIRECTORY_SIGNATURE,
+  FLAG_DATA_DESCRIPTOR,
+  FLAG_ENCRYPTED,
+  FLAG_STRONG_ENCRYPTION,
+  LOCAL_FILE_HEADER_LENGTH,
+  LOCAL_FILE_HEADER_SIGNATURE,
+  METHOD_AES,
+  METHOD_DEFLATED,
+  METHOD_STORED,
+  ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE,
+  ZIP64_MARKER_32,
+  compressionMethodName,
+  decodeEntryName,
+  dosDateTimeToDate,
+  readExtendedTimestamp,
+  readAesFields,
+  readExtraFields,
+  readZip64Fields,
+} from './ZipFormat.js';
+import { EntryDecryptor, WinZipAesDecryptor, ZipCryptoDecryptor, wrongPasswordError } from './ZipDecryption.js';
+
+/**
+ * An entry as described by its local file header
+ * Sizes and CRC are undefined when the entry defers them to a data descriptor. The method
+ * of a WinZip AES entry is that of its data once decrypted, and its compressed size
+ * includes the encryption header and trailer.
+ */
+export interface ZipEntry {
+  name: string;
+  method: number;
+  flags: number;
+  crc32?: number;
+  compressedSize?: number;
+  uncompressedSize?: number;
+  lastModified: Date;
+  zip64: boolean;
+  encrypted: boolean;
+  isDirectory: boolean;
+  headerOffset: number; // Offset of the local file header in the archive
+}
+
+/**
+ * Receives the uncompressed bytes of one entry
+ * write() is told how much of the entry's compressed data has been read so far;
+ * end() is only called once the entry's size and CRC-32 have been verified.
+ */
+export interface ZipEntrySink {
+  write(data: Buffer, compressedBytesRead: number): Promise<void>;
+  end(): Promise<void>;
+}
+
+/**
+ * Called for each entry; returning undefined skips the entry's data
+ */
+export type ZipEntryHandler = (entry: ZipEntry) => Promise<ZipEntrySink | undefined>;
+
+export interface ZipStreamParserOptions {
+  offset?: number; // Archive offset of the first byte written (default 0)
+  singleEntry?: boolean; // Stop after the first entry, for an entry read on its own with a range request
+  password?: string; // Decrypts ZipCrypto and WinZip AES entries
+}
+
+type ParserState = 'signature' | 'encryption-header' | 'entry-data' | 'encryption-trailer' | 'descriptor' | 'done';
+
+interface CurrentEntry {
+  entry: ZipEntry;
+  sink?: ZipEntrySink;
+  sizeKnown: boolean; // False when the end of the data has to be found from its content
+  decryptor?: EntryDecryptor;
+  inflater?: zlib.InflateRaw;
+  inflaterDone?: Promise<void>;
+  inflaterFailed?: Promise<never>; // zlib doesn't always call back the write that failed
+  inflaterEnded: boolean;
+  output: Buffer[]; // Inflated data not yet written to the sink
+  compressedRead: number;
+  uncompressedSize: number;
+  crc32: number;
+}
+
+/**
+ * Parses a ZIP archive from a forward-only stream of bytes
+ *
+ * Reads each local file header, inflates the entry's data and hands it to the sink
+ * returned by the entry handler, then stops at the central directory. Entries that
+ * defer their sizes to a data descriptor are delimited by the end of the deflate
+ * stream, or for stored entries by a descriptor whose sizes match the bytes read.
+ * Encrypted entries are decrypted on the way with the password the parser was given.
+ */
+export class ZipStreamParser {
+  private readonly INFLATE_SLICE_SIZE = 16 * 1024; // Bounds the inflated output held at once
+  private readonly DESCRIPTOR_MAX_LENGTH = 24; // Signature, CRC and two 64-bit sizes
+
+  private buffer: Buffer = Buffer.alloc(0);
+  private offset: number; // Archive offset of buffer[0]
+  private state: ParserState = 'signature';
+  private current?: CurrentEntry;
+  private entryCount = 0;
+  private readonly singleEntry: boolean;
+  private readonly password?: string;
+
+  constructor(private readonly onEntry: ZipEntryHandler, options: ZipStreamParserOptions = {}) {
+    this.offset = options.offset ?? 0;
+    this.singleEntry = options.singleEntry ?? false;
+    this.password = options.password;
+  }
+
+  /**
+   * Number of entries read so far
+   */
+  get entriesRead(): number {
+    return this.entryCount;
+  }
+
+  /**
+   * True once the central directory has been reached, or the entry of a single-entry parser read
+   */
+  get finished(): boolean {
+    return this.state === 'done';
+  }
+
+  /**
+   * Parses the next chunk of the archive
+   * Resolves once the chunk's entry data has been written to the sinks.
+   */
+  async write(chunk: Buffer): Promise<void> {
+    if (this.state === 'done') {
+      return; // Central directory and trailing records
+    }
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+    await this.process(false);
+  }
+
+  /**
+   * Signals the end of the archive
+   * Throws if the archive ended before its central directory.
+   */
+  async end(): Promise<void> {
+    if (this.state !== 'done') {
+      await this.process(true);
+    }
+    if (this.state !== 'done') {
+      const entry = this.current?.entry.name;
+      throw new ArchiveError(
+        entry ? `Archive ended in the middle of entry ${entry}` : 'Archive ended before its central directory',
+        entry,
+        {
+          code: 'ARCHIVE_TRUNCATED',
+          retryable: true,
+          remediation: 'The archive is incomplete; retry, or check the source serves the whole file',
+        }
+      );
+    }
+  }
+
+  /**
+   * Releases the inflater of an entry that won't be finished
+   */
+  destroy(): void {
+    this.current?.inflater?.destroy();
+    this.current = undefined;
+  }
+
+  private async process(final: boolean): Promise<void> {
+    for (;;) {
+      const progressed =
+        this.state === 'signature' ? await this.readSignature(final) :
+        this.state === 'encryption-header' ? await this.readEncryptionHeader() :
+        this.state === 'entry-data' ? await this.readEntryData(final) :
+        this.state === 'encryption-trailer' ? await this.readEncryptionTrailer() :
+        this.state === 'descriptor' ? await this.readDataDescriptor(final) :
+        false;
+      if (!progressed) {
+        return;
+      }
+    }
+  }
+
+  private consume(length: number): void {
+    this.buffer = this.buffer.subarray(length);
+    this.offset += length;
+  }
+
+  private async readSignature(final: boolean): Promise<boolean> {
+    if (this.buffer.length < 4) {
+      return false;
+    }
+
+    const signature = this.buffer.readUInt32LE(0);
+    switch (signature) {
+      case LOCAL_FILE_HEADER_SIGNATURE:
+        return this.readLocalFileHeader(final);
+      case DATA_DESCRIPTOR_SIGNATURE:
+        if (this.offset === 0) {
+          this.consume(4); // Spanning marker of a single-segment split archive
+          return true;
+        }
+        break;
+      case CENTRAL_DIRECTORY_HEADER_SIGNATURE:
+      case END_OF_CENTRAL_DIRECTORY_SIGNATURE:
+      case ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE:
+      case ARCHIVE_EXTRA_DATA_SIGNATURE:
+      case DIGITAL_SIGNATURE_SIGNATURE:
+        this.state = 'done';
+        this.buffer = Buffer.alloc(0);
+        return false;
+    }
+
+    if (this.offset === 0) {
+      throw new ArchiveError('Source is not a ZIP archive');
+    }
+    throw new ArchiveError(
+      `Unexpected record signature 0x${signature.toString(16).padStart(8, '0')} at offset ${this.offset}`,
+      undefined,
+      { code: 'ARCHIVE_ENTRY_CORRUPT' }
+    );
+  }
+
+  private async readLocalFileHeader(final: boolean): Promise<boolean> {
+    if (this.buffer.length < LOCAL_FILE_HEADER_LENGTH) {
+      return false;
+    }
+    const header = this.buffer;
+    const nameLength = header.readUInt16LE(26);
+    const extraLength = header.readUInt16LE(28);
+    const headerLength = LOCAL_FILE_HEADER_LENGTH + nameLength + extraLength;
+    if (header.length < headerLength) {
+      return false;
+    }
+
+    const flags = header.readUInt16LE(6);
+    let method = header.readUInt16LE(8);
+    const name = decodeEntryName(header.subarray(30, 30 + nameLength), flags);
+    const extra = readExtraFields(header.subarray(30 + nameLength, headerLength));
+    let compressedSize = header.readUInt32LE(18);
+    let uncompressedSize = header.readUInt32LE(22);
+
+    const zip64 = readZip64Fields(extra, {
+      uncompressedSize: uncompressedSize === ZIP64_MARKER_32,
+      compressedSize: compressedSize === ZIP64_MARKER_32,
+    });
+    if (zip64) {
+      uncompressedSize = zip64.uncompressedSize ?? uncompressedSize;
+      compressedSize = zip64.compressedSize ?? compressedSize;
+    }
+
+    const sizeKnown = !(flags & FLAG_DATA_DESCRIPTOR);
+    const entry: ZipEntry = {
+      name,
+      method,
+      flags,
+      crc32: sizeKnown ? header.readUInt32LE(14) : undefined,
+      compressedSize: sizeKnown ? compressedSize : undefined,
+      uncompressedSize: sizeKnown ? uncompressedSize : undefined,
+      lastModified: readExtendedTimestamp(extra) ?? dosDateTimeToDate(header.readUInt16LE(12), header.readUInt16LE(10)),
+      zip64: zip64 !== undefined,
+      encrypted: (flags & FLAG_ENCRYPTED) !== 0,
+      isDirectory: name.endsWith('/'),
+      headerOffset: this.offset,
+    };
+
+    let decryptor: EntryDecryptor | undefined;
+    if (entry.encrypted) {
+      decryptor = this.createDecryptor(entry, extra, header.readUInt16LE(10));
+      method = entry.method;
+    }
+    if (method !== METHOD_STORED && method !== METHOD_DEFLATED) {
+      throw new ArchiveError(`Entry ${name} uses unsupported compression method ${compressionMethodName(method)}`, name, {
+        code: 'UNSUPPORTED_COMPRESSION_METHOD',
+        remediation: 'Only stored and deflated entries can be extracted; transfer the archive without extracting',
+      });
+    }
+    if (!sizeKnown && method === METHOD_STORED && final && this.buffer.length === headerLength) {
+      return false; // Nothing after the header to delimit; end() reports the truncation
+    }
+
+    this.consume(headerLength);
+    this.entryCount++;
+    const sink = await this.onEntry(entry);
+
+    const current: CurrentEntry = {
+      entry,
+      sink,
+      sizeKnown,
+      decryptor,
+      inflaterEnded: false,
+      output: [],
+      compressedRead: 0,
+      uncompressedSize: 0,
+      crc32: 0,
+    };
+    // Skipped entries of known size don't need inflating; the rest do, to find where they end
+    if (method === METHOD_DEFLATED && (sink || !sizeKnown)) {
+      this.startInflater(current);
+    }
+    this.current = current;
+    this.state = decryptor ? 'encryption-header' : 'entry-data';
+    return true;
+  }
+
+  /**
+   * Picks the decryption for an encrypted entry, which also sets its method for AES entries
+   * Throws when there is no password or the encryption isn't supported.
+   */
+  private createDecryptor(entry: ZipEntry, extra: Map<number, Buffer>, dosTime: number): EntryDecryptor {
+    const { name } = entry;
+    if (entry.flags & FLAG_STRONG_ENCRYPTION) {
+      throw new ArchiveError(`Entry ${name} uses PKWARE strong encryption`, name, {
+        code: 'UNSUPPORTED_ENCRYPTION',
+        remediation: 'Only ZipCrypto and WinZip AES entries can be decrypted; transfer the archive without extracting',
+      });
+    }
+    if (this.password === undefined) {
+      throw new ArchiveError(`Entry ${name} is encrypted`, name, {
+        code: 'ARCHIVE_ENCRYPTED',
+        remediation: 'Give the archive password with extract.passwordSecret, or transfer the archive without extracting',
+      });
+    }
+
+    if (entry.method !== METHOD_AES) {
+      // The CRC-32 isn't known before the data when a descriptor follows it, so the time stands in
+      const checkByte = entry.flags & FLAG_DATA_DESCRIPTOR ? dosTime >>> 8 : entry.crc32! >>> 24;
+      return new ZipCryptoDecryptor(name, this.password, checkByte);
+    }
+    const aes = readAesFields(extra);
+    if (!aes) {
+      throw new ArchiveError(`Entry ${name} is AES encrypted but has no valid AES extra field`, name, { code: 'ARCHIVE_ENTRY_CORRUPT' });
+    }
+    entry.method = aes.method;
+    return new WinZipAesDecryptor(name, this.password, aes);
+  }
+
+  private async readEncryptionHeader(): Promise<boolean> {
+    const current = this.current!;
+    const { headerLength } = current.decryptor!;
+    if (this.buffer.length < headerLength) {
+      return false;
+    }
+    current.decryptor!.checkHeader(this.buffer.subarray(0, headerLength));
+    this.consume(headerLength);
+    current.compressedRead += headerLength;
+    this.state = 'entry-data';
+    return true;
+  }
+
+  private async readEncryptionTrailer(): Promise<boolean> {
+    const current = this.current!;
+    const { trailerLength } = current.decryptor!;
+    if (this.buffer.length < trailerLength) {
+      return false;
+    }
+    current.decryptor!.checkTrailer(this.buffer.subarray(0, trailerLength));
+    this.consume(trailerLength);
+    current.compressedRead += trailerLength;
+    if (current.sizeKnown) {
+      await this.finishEntry(current);
+    } else {
+      this.state = 'descriptor';
+    }
+    return true;
+  }
+
+  private startInflater(current: CurrentEntry): void {
+    const inflater = zlib.createInflateRaw();
+    inflater.on('data', (data: Buffer) => current.output.push(data));
+    current.inflaterDone = new Promise<void>((resolve) => {
+      inflater.once('end', () => {
+        current.inflaterEnded = true;
+        resolve();
+      });
+    });
+    current.inflaterFailed = new Promise<never>((_, reject) => {
+      inflater.once('error', (error) => reject(this.corruptEntry(current, error)));
+    });
+    current.inflaterFailed.catch(() => {}); // Surfaced by the write or end that hit it
+    current.inflater = inflater;
+  }
+
+  private async readEntryData(final: boolean): Promise<boolean> {
+    const current = this.current!;
+
+    if (current.sizeKnown) {
+      const dataEnd = current.entry.compressedSize! - (current.decryptor?.trailerLength ?? 0);
+      // Deflated data is fed a slice at a time, its output written before the next slice
+      const sliceSize = current.inflater ? this.INFLATE_SLICE_SIZE : Infinity;
+      while (current.compressedRead < dataEnd && this.buffer.length > 0) {
+        const length = Math.min(dataEnd - current.compressedRead, this.buffer.length, sliceSize);
+        const data = this.buffer.subarray(0, length);
+        this.consume(length);
+        current.compressedRead += length;
+        await this.decode(current, data);
+      }
+      if (current.compressedRead < dataEnd) {
+        return false;
+      }
+      await this.endInflater(current);
+      if (current.decryptor?.trailerLength) {
+        this.state = 'encryption-trailer';
+        return true;
+      }
+      await this.finishEntry(current);
+      return true;
+    }
+
+    if (current.entry.method === METHOD_DEFLATED) {
+      return this.readDeflatedUntilEnd(current);
+    }
+    return this.readStoredUntilDescriptor(current, final);
+  }
+
+  /**
+   * Feeds the deflate stream in slices until it ends, leaving the bytes after it buffered
+   * The inflater consumes no input past the end of the stream, so bytesWritten falling
+   * behind the bytes fed marks the end even when it wasn't reached until the next slice.
+   * An encrypted slice is decrypted whole, but only the bytes consumed are authenticated.
+   */
+  private async readDeflatedUntilEnd(current: CurrentEntry): Promise<boolean> {
+    while (this.buffer.length > 0) {
+      const inflater = current.inflater!;
+      const slice = this.buffer.subarray(0, this.INFLATE_SLICE_SIZE);
+      const fedBefore = inflater.bytesWritten;
+      await this.feedInflater(current, current.decryptor ? current.decryptor.decrypt(slice) : slice);
+      const consumed = inflater.bytesWritten - fedBefore;
+
+      current.decryptor?.authenticate(slice.subarray(0, consumed));
+      this.consume(consumed);
+      current.compressedRead += consumed;
+      await this.drainOutput(current);
+
+      if (current.inflaterEnded || consumed < slice.length) {
+        await this.endInflater(current);
+        this.state = current.decryptor?.trailerLength ? 'encryption-trailer' : 'descriptor';
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Passes stored data through until a data descriptor whose sizes match the bytes read
+   * Holds back the bytes that could be the start of one, and the encryption trailer before it.
+   */
+  private async readStoredUntilDescriptor(current: CurrentEntry, final: boolean): Promise<boolean> {
+    const signature = Buffer.alloc(4);
+    signature.writeUInt32LE(DATA_DESCRIPTOR_SIGNATURE, 0);
+    const trailerLength = current.decryptor?.trailerLength ?? 0;
+    const overhead = (current.decryptor?.headerLength ?? 0) + trailerLength;
+
+    let searchFrom = 0;
+    for (;;) {
+      const index = this.buffer.indexOf(signature, searchFrom);
+      if (index < 0) {
+        break;
+      }
+      const size = current.compressedRead + index;
+      const dataSize = size - overhead; // Encrypted entries' compressed size includes the encryption header and trailer
+      const matches32 = index + 16 <= this.buffer.length &&
+        this.buffer.readUInt32LE(index + 8) === size && this.buffer.readUInt32LE(index + 12) === dataSize;
+      const matches64 = index + 24 <= this.buffer.length &&
+        Number(this.buffer.readBigUInt64LE(index + 8)) === size && Number(this.buffer.readBigUInt64LE(index + 16)) === dataSize;
+      if ((matches32 || matches64) && index >= trailerLength) {
+        await this.passStored(current, index - trailerLength);
+        this.state = trailerLength > 0 ? 'encryption-trailer' : 'descriptor';
+        return true;
+      }
+      if (index + this.DESCRIPTOR_MAX_LENGTH > this.buffer.length && !final) {
+        await this.passStored(current, Math.max(0, index - trailerLength)); // Wait for the rest of the candidate
+        return false;
+      }
+      searchFrom = index + 1;
+    }
+
+    await this.passStored(current, Math.max(0, this.buffer.length - 3 - trailerLength));
+    return false;
+  }
+
+  private async passStored(current: CurrentEntry, length: number): Promise<void> {
+    if (length === 0) {
+      return;
+    }
+    const data = this.buffer.subarray(0, length);
+    this.consume(length);
+    current.compressedRead += length;
+    await this.decode(current, data);
+  }
+
+  /**
+   * Reads the data descriptor after an entry's data
+   * The signature is optional and the sizes are 4 or 8 bytes; the layout whose sizes
+   * match the bytes actually read is the one the writer used.
+   */
+  private async readDataDescriptor(final: boolean): Promise<boolean> {
+    const current = this.current!;
+    if (this.buffer.length < this.DESCRIPTOR_MAX_LENGTH && !final) {
+      return false;
+    }
+
+    const descriptor = this.buffer;
+    const hasSignature = descriptor.length >= 4 && descriptor.readUInt32LE(0) === DATA_DESCRIPTOR_SIGNATURE;
+    const layouts = [
+      ...(hasSignature ? [{ start: 4, wide: true }, { start: 4, wide: false }] : []),
+      { start: 0, wide: true },
+      { start: 0, wide: false },
+    ];
+    if (!current.entry.zip64) {
+      layouts.sort((a, b) => Number(a.wide) - Number(b.wide));
+    }
+
+    for (const { start, wide } of layouts) {
+      const length = start + 4 + (wide ? 16 : 8);
+      if (descriptor.length < length) {
+        continue;
+      }
+      const compressedSize = wide ? Number(descriptor.readBigUInt64LE(start + 4)) : descriptor.readUInt32LE(start + 4);
+      const uncompressedSize = wide ? Number(descriptor.readBigUInt64LE(start + 12)) : descriptor.readUInt32LE(start + 8);
+      if (compressedSize === current.compressedRead && uncompressedSize === current.uncompressedSize) {
+        current.entry.crc32 = descriptor.readUInt32LE(start);
+        current.entry.compressedSize = compressedSize;
+        current.entry.uncompressedSize = uncompressedSize;
+        this.consume(length);
+        await this.finishEntry(current);
+        return true;
+      }
+    }
+
+    const name = current.entry.name;
+    throw new ArchiveError(`Data descriptor of entry ${name} doesn't match its data`, name, { code: 'ARCHIVE_ENTRY_CORRUPT' });
+  }
+
+  private async decode(current: CurrentEntry, encrypted: Buffer): Promise<void> {
+    let data = encrypted;
+    if (current.decryptor) {
+      current.decryptor.authenticate(encrypted);
+      data = current.decryptor.decrypt(encrypted);
+    }
+    if (current.inflater) {
+      await this.feedInflater(current, data);
+      await this.drainOutput(current);
+    } else if (current.sink) {
+      await this.emit(current, data);
+    }
+  }
+
+  private feedInflater(current: CurrentEntry, data: Buffer): Promise<void> {
+    const written = new Promise<void>((resolve, reject) => {
+      current.inflater!.write(data, (error) => (error ? reject(this.corruptEntry(current, error)) : resolve()));
+    });
+    return Promise.race([written, current.inflaterFailed!]);
+  }
+
+  private async endInflater(current: CurrentEntry): Promise<void> {
+    if (!current.inflater) {
+      return;
+    }
+    if (!current.inflaterEnded) {
+      current.inflater.end();
+    }
+    await Promise.race([current.inflaterDone, current.inflaterFailed!]);
+    await this.drainOutput(current);
+  }
+
+  private async drainOutput(current: CurrentEntry): Promise<void> {
+    while (current.output.length > 0) {
+      await this.emit(current, current.output.shift()!);
+    }
+  }
+
+  private async emit(current: CurrentEntry, data: Buffer): Promise<void> {
+    current.uncompressedSize += data.length;
+    current.crc32 = ChecksumService.crc32(data, current.crc32);
+    if (current.sink) {
+      await current.sink.write(data, current.compressedRead);
+    }
+  }
+
+  private async finishEntry(current: CurrentEntry): Promise<void> {
+    const { entry } = current;
+    // A skipped entry of known size was never inflated, so there is nothing to check
+    const decoded = current.inflater !== undefined || entry.method === METHOD_STORED;
+    if (decoded && entry.uncompressedSize !== current.uncompressedSize) {
+      if (current.decryptor && !current.decryptor.authenticated) {
+        throw wrongPasswordError(entry.name, 'the password is wrong or the entry is corrupt');
+      }
+      throw new ArchiveError(
+        `Entry ${entry.name} inflated to ${current.uncompressedSize} bytes but its header records ${entry.uncompressedSize}`,
+        entry.name,
+        { code: 'ARCHIVE_ENTRY_CORRUPT' }
+      );
+    }
+    if (decoded && (current.decryptor?.checksCrc ?? true) && entry.crc32 !== current.crc32) {
+      if (current.decryptor && !current.decryptor.authenticated) {
+        throw wrongPasswordError(entry.name, 'the password is wrong or the entry is corrupt');
+      }
+      throw new ArchiveError(
+        `Entry ${entry.name} has CRC-32 ${hex(current.crc32)} but its header records ${hex(entry.crc32!)}`,
+        entry.name,
+        {
+          code: 'ARCHIVE_CRC_MISMATCH',
+          category: 'integrity',
+          remediation: 'The archive is corrupt; check the source, or transfer the archive without extracting',
+        }
+      );
+    }
+
+    this.current = undefined;
+    this.state = this.singleEntry ? 'done' : 'signature';
+    if (this.singleEntry) {
+      this.buffer = Buffer.alloc(0); // Whatever follows the entry isn't read
+    }
+    if (current.sink) {
+      await current.sink.end();
+    }
+  }
+
+  private corruptEntry(current: CurrentEntry, error: Error): ArchiveError {
+    const name = current.entry.name;
+    if (current.decryptor && !current.decryptor.authenticated) {
+      return wrongPasswordError(name, 'the password is wrong or the entry is corrupt');
+    }
+    return new ArchiveError(`Entry ${name} is not valid deflate data: ${error.message}`, name, {
+      code: 'ARCHIVE_ENTRY_CORRUPT',
+    });
+  }
+}
+
+function hex(crc: number): string {
+  return crc.toString(16).padStart(8, '0');
+}
@@ -0,0 +1,236 @@
+import { deflateRawSync } from 'zlib';
+import { createCipheriv, createHmac, pbkdf2Sync, randomBytes } from 'crypto';
+import { ChecksumService } from '../services/ChecksumService.js';
+
+export interface ZipBuilderEntry {
+  name: string;
+  data?: Buffer; // Omitted for directories
+  method?: 'stored' | 'deflated'; // Defaults to deflated
+  dataDescriptor?: boolean; // Defer the CRC and sizes to a descriptor after the data
+  descriptorSignature?: boolean; // Defaults to true
+  zip64?: boolean; // Zip64 extra fields and 64-bit descriptor sizes
+  lastModified?: Date;
+  utf8?: boolean; // Set the UTF-8 name flag
+  encryption?: ZipBuilderEncryption;
+}
+
+export interface ZipBuilderEncryption {
+  password: string;
+  method: 'zipcrypto' | 'aes-128' | 'aes-192' | 'aes-256';
+  aesVersion?: 1 | 2; // AE-2 (the default) records no CRC-32
+}
+
+export interface ZipBuilderOptions {
+  zip64?: boolean; // Write a Zip64 end of central directory record
+  comment?: string;
+  prefix?: Buffer; // Bytes before the first entry, e.g. a self-extractor stub
+}
+
+/**
+ * Builds a ZIP archive in memory
+ * Covers the layouts the archive readers handle: stored and deflated entries, data
+ * descriptors with and without a signature, Zip64 extra fields and records, and
+ * ZipCrypto and WinZip AES encryption.
+ */
+export function buildZip(entries: ZipBuilderEntry[], options: ZipBuilderOptions = {}): Buffer {
+  const chunks: Buffer[] = options.prefix ? [options.prefix] : [];
+  const centralDirectory: Buffer[] = [];
+  let offset = options.prefix?.length ?? 0;
+
+  for (const entry of entries) {
+    const data = entry.data ?? Buffer.alloc(0);
+    const dataMethod = entry.method === 'stored' ? 0 : 8;
+    const { encryption } = entry;
+    const aes = encryption && encryption.method !== 'zipcrypto';
+    const method = aes ? 99 : dataMethod;
+    const name = Buffer.from(entry.name, 'utf8');
+    const flags = (entry.dataDescriptor ? 0x0008 : 0) | (entry.utf8 ? 0x0800 : 0) | (encryption ? 0x0001 : 0);
+    const { date, time } = toDosDateTime(entry.lastModified ?? new Date(Date.UTC(2024, 0, 2, 3, 4, 6)));
+
+    const deflated = dataMethod === 8 ? deflateRawSync(data) : data;
+    let crc = ChecksumService.crc32(data);
+    let compressed: Buffer = deflated;
+    let aesExtra: Buffer = Buffer.alloc(0);
+    if (encryption?.method === 'zipcrypto') {
+      compressed = zipCryptoEncrypt(deflated, encryption.password, entry.dataDescriptor ? time >>> 8 : crc >>> 24);
+    } else if (encryption) {
+      const keyBits = Number(encryption.method.slice(4)) as 128 | 192 | 256;
+      const version = encryption.aesVersion ?? 2;
+      compressed = aesEncrypt(deflated, encryption.password, keyBits);
+      aesExtra = aesExtraField(version, keyBits, dataMethod);
+      crc = version === 2 ? 0 : crc;
+    }
+
+    const localExtra = Buffer.concat([
+      entry.zip64 ? zip64Extra(entry.dataDescriptor ? [0, 0] : [data.length, compressed.length]) : Buffer.alloc(0),
+      aesExtra,
+    ]);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(entry.zip64 ? 45 : 20, 4);
+    local.writeUInt16LE(flags, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    if (!entry.dataDescriptor) {
+      local.writeUInt32LE(crc, 14);
+      local.writeUInt32LE(entry.zip64 ? 0xffffffff : compressed.length, 18);
+      local.writeUInt32LE(entry.zip64 ? 0xffffffff : data.length, 22);
+    } else if (entry.zip64) {
+      local.writeUInt32LE(0xffffffff, 18);
+      local.writeUInt32LE(0xffffffff, 22);
+    }
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(localExtra.length, 28);
+    chunks.push(local, name, localExtra, compressed);
+
+    let length = local.length + name.length + localExtra.length + compressed.length;
+    if (entry.dataDescriptor) {
+      const descriptor = dataDescriptor(crc, compressed.length, data.length, entry.zip64 ?? false, entry.descriptorSignature ?? true);
+      chunks.push(descriptor);
+      length += descriptor.length;
+    }
+
+    const centralExtra = Buffer.concat([
+      entry.zip64 ? zip64Extra([data.length, compressed.length, offset]) : Buffer.alloc(0),
+      aesExtra,
+    ]);
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE((3 << 8) | 45, 4); // Made by Unix
+    header.writeUInt16LE(entry.zip64 ? 45 : 20, 6);
+    header.writeUInt16LE(flags, 8);
+    header.writeUInt16LE(method, 10);
+    header.writeUInt16LE(time, 12);
+    header.writeUInt16LE(date, 14);
+    header.writeUInt32LE(crc, 16);
+    header.writeUInt32LE(entry.zip64 ? 0xffffffff : compressed.length, 20);
+    header.writeUInt32LE(entry.zip64 ? 0xffffffff : data.length, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt16LE(centralExtra.length, 30);
+    header.writeUInt32LE(entry.zip64 ? 0xffffffff : offset, 42);
+    centralDirectory.push(header, name, centralExtra);
+
+    offset += length;
+  }
+
+  const centralDirectoryOffset = offset;
+  const centralDirectoryBytes = Buffer.concat(centralDirectory);
+  chunks.push(centralDirectoryBytes);
+
+  if (options.zip64) {
+    const record = Buffer.alloc(56);
+    record.writeUInt32LE(0x06064b50, 0);
+    record.writeBigUInt64LE(44n, 4);
+    record.writeUInt16LE(45, 12);
+    record.writeUInt16LE(45, 14);
+    record.writeBigUInt64LE(BigInt(entries.length), 24);
+    record.writeBigUInt64LE(BigInt(entries.length), 32);
+    record.writeBigUInt64LE(BigInt(centralDirectoryBytes.length), 40);
+    record.writeBigUInt64LE(BigInt(centralDirectoryOffset), 48);
+
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeBigUInt64LE(BigInt(centralDirectoryOffset + centralDirectoryBytes.length), 8);
+    locator.writeUInt32LE(1, 16);
+    chunks.push(record, locator);
+  }
+
+  const comment = Buffer.from(options.comment ?? '', 'utf8');
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(options.zip64 ? 0xffff : entries.length, 8);
+  end.writeUInt16LE(options.zip64 ? 0xffff : entries.length, 10);
+  end.writeUInt32LE(options.zip64 ? 0xffffffff : centralDirectoryBytes.length, 12);
+  end.writeUInt32LE(options.zip64 ? 0xffffffff : centralDirectoryOffset, 16);
+  end.writeUInt16LE(comment.length, 20);
+  chunks.push(end, comment);
+
+  return Buffer.concat(chunks);
+}
+
+function zip64Extra(values: number[]): Buffer {
+  const extra = Buffer.alloc(4 + values.length * 8);
+  extra.writeUInt16LE(0x0001, 0);
+  extra.writeUInt16LE(values.length * 8, 2);
+  values.forEach((value, index) => extra.writeBigUInt64LE(BigInt(value), 4 + index * 8));
+  return extra;
+}
+
+function dataDescriptor(crc: number, compressedSize: number, size: number, zip64: boolean, signature: boolean): Buffer {
+  const descriptor = Buffer.alloc(zip64 ? 24 : 16);
+  descriptor.writeUInt32LE(0x08074b50, 0);
+  descriptor.writeUInt32LE(crc, 4);
+  if (zip64) {
+    descriptor.writeBigUInt64LE(BigInt(compressedSize), 8);
+    descriptor.writeBigUInt64LE(BigInt(size), 16);
+  } else {
+    descriptor.writeUInt32LE(compressedSize, 8);
+    descriptor.writeUInt32LE(size, 12);
+  }
+  return signature ? descriptor : descriptor.subarray(4);
+}
+
+/**
+ * Traditional PKWARE encryption: a 12-byte header ending in checkByte, then the data
+ */
+function zipCryptoEncrypt(data: Buffer, password: string, checkByte: number): Buffer {
+  const crcTable = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c >>> 0;
+  });
+  const keys = [0x12345678, 0x23456789, 0x34567890];
+  const update = (byte: number) => {
+    keys[0] = (keys[0] >>> 8) ^ crcTable[(keys[0] ^ byte) & 0xff];
+    keys[1] = (Math.imul((keys[1] + (keys[0] & 0xff)) >>> 0, 134775813) + 1) >>> 0;
+    keys[2] = (keys[2] >>> 8) ^ crcTable[(keys[2] ^ (keys[1] >>> 24)) & 0xff];
+  };
+  Buffer.from(password, 'utf8').forEach(update);
+
+  const plain = Buffer.concat([randomBytes(11), Buffer.from([checkByte & 0xff]), data]);
+  return Buffer.from(plain.map((byte) => {
+    const temp = (keys[2] | 2) & 0xffff;
+    const encrypted = byte ^ ((Math.imul(temp, temp ^ 1) >>> 8) & 0xff);
+    update(byte);
+    return encrypted;
+  }));
+}
+
+/**
+ * WinZip AES: salt, password verifier, AES-CTR data with a little-endian counter from 1, HMAC-SHA1 code
+ */
+function aesEncrypt(data: Buffer, password: string, keyBits: 128 | 192 | 256): Buffer {
+  const keyLength = keyBits / 8;
+  const salt = randomBytes(keyLength / 2);
+  const keys = pbkdf2Sync(password, salt, 1000, keyLength * 2 + 2, 'sha1');
+
+  const counters = Buffer.alloc(Math.ceil(data.length / 16) * 16);
+  for (let block = 0; block * 16 < data.length; block++) {
+    counters.writeUInt32LE(block + 1, block * 16);
+  }
+  const keystream = createCipheriv(`aes-${keyBits}-ecb`, keys.subarray(0, keyLength), null).setAutoPadding(false).update(counters);
+  const encrypted = Buffer.from(data.map((byte, i) => byte ^ keystream[i]));
+  const authentication = createHmac('sha1', keys.subarray(keyLength, keyLength * 2)).update(encrypted).digest().subarray(0, 10);
+  return Buffer.concat([salt, keys.subarray(keyLength * 2), encrypted, authentication]);
+}
+
+function aesExtraField(version: number, keyBits: number, method: number): Buffer {
+  const extra = Buffer.alloc(11);
+  extra.writeUInt16LE(0x9901, 0);
+  extra.writeUInt16LE(7, 2);
+  extra.writeUInt16LE(version, 4);
+  extra.write('AE', 6, 'latin1');
+  extra[8] = { 128: 1, 192: 2, 256: 3 }[keyBits]!;
+  extra.writeUInt16LE(method, 9);
+  return extra;
+}
+
+function toDosDateTime(value: Date): { date: number; time: number } {
+  return {
+    date: ((value.getUTCFullYear() - 1980) << 9) | ((value.getUTCMonth() + 1) << 5) | value.getUTCDate(),
+    time: (value.getUTCHours() << 11) | (value.getUTCMinutes() << 5) | Math.floor(value.getUTCSeconds() / 2),
+  };
+}
@@ -2,6 +2,21 @@ export interface DownloadRequest {
   sourceUrl: string;
   bucketName: string;
   keyPrefix?: string;
+  expectedChecksum?: ExpectedChecksum; // Digest published for the file, verified before the upload completes
+  discoverChecksum?: boolean; // Look for published checksums next to the source (default true)
+  maxBytesPerSecond?: number; // Bandwidth cap for this transfer (default: the worker's MAX_BYTES_PER_SECOND)
+  extract?: ExtractOptions; // Upload each entry of the ZIP archive as its own object instead of the archive
+}
+
+export type ChecksumAlgorithm = 'sha256' | 'md5';
+
+/**
+ * A digest the transferred bytes must match
+ */
+export interface ExpectedChecksum {
+  algorithm: ChecksumAlgorithm;
+  value: string; // Hex encoded
+  source?: string; // Where the digest came from: 'request', a response header or a sidecar file URL
 }
 
 export interface DownloadResponse {
@@ -11,6 +26,22 @@ export interface DownloadResponse {
   transferId?: string;
 }
 
+/**
+ * What a failure is about: the source server, the destination bucket, the network between
+ * them, the transferred data, or the service itself
+ */
+export type ErrorCategory = 'source' | 'destination' | 'network' | 'integrity' | 'internal';
+
+/**
+ * Stable, machine-readable description of a failed transfer
+ */
+export interface ErrorDetails {
+  code: string; // e.g. SOURCE_NOT_FOUND, DESTINATION_ACCESS_DENIED
+  category: ErrorCategory;
+  retryable: boolean; // Whether trying the same transfer again may succeed
+  remediation: string; // What to change before trying again
+}
+
 export interface ErrorResponse {
   success: false;
   error: {
@@ -27,6 +58,182 @@ export interface TransferResult {
   error?: Error;
   bytesTransferred: number;
   transferId?: string;
+  checksums?: ObjectChecksums; // Digests of the whole streamed object
+  partChecksums?: PartChecksum[]; // Digests of each multipart upload part, in part order
+  receiptLocation?: string; // S3 location of the transfer receipt, absent when none was written
+  extraction?: ExtractionSummary; // What an extracting transfer wrote, absent for plain transfers
+}
+
+/**
+ * Whole-object digests computed while the source is streamed (hex encoded)
+ */
+export interface ObjectChecksums {
+  sha256?: string; // Absent when a resumed transfer didn't read the parts kept from the previous attempt again
+  crc32c: string;
+  md5?: string; // Only computed when an MD5 digest is expected
+}
+
+/**
+ * Digests of a single multipart upload part (base64 encoded, as S3 expects)
+ */
+export interface PartChecksum {
+  partNumber: number;
+  size: number;
+  sha256?: string; // Absent for parts kept from a previous attempt that weren't read again
+  crc32c: string;
 }
 
 export type ProgressCallback = (bytesTransferred: number, totalBytes: number) => void;
+
+/**
+ * Multipart upload state saved on the transfer record
+ * Lets a restarted worker continue an interrupted transfer instead of starting over
+ */
+export interface UploadCheckpoint {
+  uploadId: string;
+  partSize: number;
+  totalBytes: number;
+  completedPartNumbers: number[];
+  sourceEtag?: string;
+  sourceLastModified?: string;
+}
+
+/**
+ * Optional settings for a single transfer
+ */
+export interface TransferOptions {
+  checkpoint?: UploadCheckpoint; // Resume from a previous attempt's multipart upload
+  expectedChecksum?: ExpectedChecksum; // Fail instead of completing the upload when the digest differs
+  maxBytesPerSecond?: number; // Limit on the source read rate, unlimited when unset
+  signal?: AbortSignal; // Cancels the transfer and aborts its multipart upload when triggered (see transferToS3 for interruptions)
+  finalAttempt?: boolean; // No retry follows a failure, so the multipart upload is aborted even for retryable errors
+  receipt?: ReceiptOptions; // Write a transfer receipt next to the object once it is verified
+  extract?: ExtractOptions; // Extract the ZIP archive into <key without .zip>/ while it streams
+  extractionLimits?: ExtractionLimits; // Safety limits for extraction (default DEFAULT_EXTRACTION_LIMITS)
+  archivePassword?: string; // Decrypts encrypted entries, read from extract.passwordSecret and never stored
+}
+
+/**
+ * How a ZIP archive is extracted into the bucket
+ */
+export interface ExtractOptions {
+  keepArchive?: boolean; // Also upload the archive itself (default false)
+  include?: string[]; // Only extract entries whose path matches one of these globs, see EntryFilter
+  exclude?: string[]; // Skip entries whose path matches one of these globs
+  passwordSecret?: string; // ARN or name of the Secrets Manager secret holding the archive's password
+}
+
+/**
+ * An archive entry as listed by GET /inspect
+ */
+export interface ArchiveEntryInfo {
+  name: string;
+  compressedSize: number;
+  uncompressedSize: number;
+  compressionMethod: string; // e.g. 'deflated', see compressionMethodName
+  crc32: string; // 8 hex digits
+  lastModified: string; // ISO timestamp
+  isDirectory: boolean;
+  encrypted: boolean;
+}
+
+/**
+ * Response of GET /inspect: the central directory of a remote ZIP archive
+ */
+export interface ArchiveInspection {
+  success: true;
+  sourceUrl: string;
+  archiveSize: number;
+  zip64: boolean;
+  comment: string;
+  entryCount: number; // All entries, even when the list is truncated
+  uncompressedBytes: number; // Of all entries
+  entries: ArchiveEntryInfo[];
+  truncated: boolean; // Only the first limit entries are listed
+}
+
+/**
+ * Caps on what an extracted archive may expand to, see ExtractionPolicy
+ */
+export interface ExtractionLimits {
+  maxTotalBytes: number; // Uncompressed bytes across all entries
+  maxEntries: number; // Entries, directories included
+  maxCompressionRatio: number; // Uncompressed over compressed size of an entry
+  maxDepth: number; // Path segments of an entry name, the file name included
+}
+
+/**
+ * Objects an extracting transfer wrote
+ */
+export interface ExtractionSummary {
+  prefix: string; // Key prefix the entries were written under, ending in /
+  entryCount: number; // Objects written, directory entries excluded
+  uncompressedBytes: number;
+  archiveLocation?: string; // S3 location of the archive, when it was kept
+}
+
+/**
+ * Where transfer receipts are written and what produced them
+ */
+export interface ReceiptOptions {
+  prefix?: string; // Receipts go to <prefix>/<key>.transfer.json instead of <key>.transfer.json
+  workerVersion: string;
+}
+
+/**
+ * JSON receipt written next to each transferred object, for audit and reproducibility
+ */
+export interface TransferReceipt {
+  receiptVersion: 1;
+  transferId: string;
+  workerVersion: string;
+  object: {
+    bucket: string;
+    key: string;
+    location: string; // s3://bucket/key
+    size: number;
+  };
+  source: {
+    url: string; // As requested
+    finalUrl?: string; // After redirects, absent when the source did not redirect
+    etag?: string;
+    lastModified?: string;
+    contentType?: string;
+    contentLength: number; // As reported, -1 when the source did not report a size
+  };
+  checksums?: ObjectChecksums; // Absent when only selected entries of an archive were read
+  compositeCrc32c?: string; // Checksum S3 reports for a multipart object (base64, -<part count> suffix)
+  upload?: { // Absent for extractions, each entry is uploaded on its own
+    method: 'PutObject' | 'multipart';
+    partSize: number; // The object size for PutObject
+    partCount: number;
+    resumedFromByte?: number; // Where this attempt continued a previous attempt's upload
+  };
+  timings: {
+    startTime: string; // ISO timestamp, when this attempt started
+    endTime: string; // ISO timestamp, when the object was verified
+    durationMs: number;
+  };
+  throughputBytesPerSecond: number; // Bytes read by this attempt over its duration
+  extraction?: ExtractionSummary; // Present when the archive was extracted, object then has the entry prefix and the archive bytes read
+}
+
+/**
+ * One failed attempt at a transfer, kept on the transfer record
+ */
+export interface TransferAttempt {
+  attempt: number; // 1-based
+  startTime: string; // ISO timestamp
+  endTime: string; // ISO timestamp
+  error: string;
+  errorCode: string;
+  retryable: boolean;
+  retryDelayMs?: number; // Backoff before the next attempt, absent when the transfer failed for good
+}
+
+/**
+ * Why a worker stopped before the transfer finished
+ * 'interrupted': ECS stopped the task (scale-in, Spot reclaim, deployment), a retry resumes the upload
+ * 'cancelled': the user cancelled the transfer, the upload was aborted
+ */
+export type ShutdownReason = 'interrupted' | 'cancelled';
@@ -2,24 +2,189 @@
  * Custom error classes for different error types
  */
 
-export class UrlFetchError extends Error {
-  constructor(message: string, public readonly originalError?: any) {
+import { ErrorCategory, ErrorDetails } from '../types/api.js';
+
+/**
+ * Error causes the transfer is retried for, matched against the error's message, name and code
+ */
+const RETRYABLE_ERRORS = [
+  'ETIMEDOUT',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'EPIPE',
+  'NetworkingError',
+  'TimeoutError',
+  'RequestTimeout',
+  'ServiceUnavailable',
+  'ThrottlingException',
+  'TransferInterruptedError',
+];
+
+/**
+ * Whether the error or the error it wraps is one of RETRYABLE_ERRORS or throttling
+ */
+function matchesRetryableError(error: Error): boolean {
+  const matches = RETRYABLE_ERRORS.some(
+    (errType) =>
+      error.message.includes(errType) ||
+      error.name.includes(errType) ||
+      (error as any).code === errType
+  ) || ErrorHandler.isThrottling(error);
+
+  // Wrapped errors keep the underlying cause (e.g. ECONNRESET) on originalError
+  const originalError = (error as any).originalError;
+  return matches || (originalError instanceof Error && ErrorHandler.isRetryable(originalError));
+}
+
+/**
+ * Classification a thrown error may set, the rest comes from its class
+ */
+export type ErrorDetailsInit = Partial<ErrorDetails>;
+
+/**
+ * An error that carries its ErrorDetails
+ * Without an explicit retryable flag, it is retryable when it or its cause is one of RETRYABLE_ERRORS
+ */
+export abstract class ClassifiedError extends Error implements ErrorDetails {
+  readonly code: string;
+  readonly category: ErrorCategory;
+  readonly retryable: boolean;
+  readonly remediation: string;
+
+  constructor(
+    name: string,
+    message: string,
+    public readonly originalError: any,
+    defaults: Omit<ErrorDetails, 'retryable'>,
+    details: ErrorDetailsInit
+  ) {
     super(message);
-    this.name = 'UrlFetchError';
+    this.name = name;
+    this.code = details.code ?? defaults.code;
+    this.category = details.category ?? defaults.category;
+    this.remediation = details.remediation ?? defaults.remediation;
+    this.retryable = details.retryable ?? matchesRetryableError(this);
+  }
+
+  /**
+   * The classification on its own, as stored on the transfer record
+   */
+  get details(): ErrorDetails {
+    return {
+      code: this.code,
+      category: this.category,
+      retryable: this.retryable,
+      remediation: this.remediation,
+    };
+  }
+}
+
+export class UrlFetchError extends ClassifiedError {
+  constructor(message: string, originalError?: any, details: ErrorDetailsInit = {}) {
+    super('UrlFetchError', message, originalError, {
+      code: 'URL_FETCH_ERROR',
+      category: 'source',
+      remediation: 'Check that the source URL is correct and publicly reachable over HTTPS',
+    }, details);
+  }
+}
+
+export class S3Error extends ClassifiedError {
+  constructor(message: string, originalError?: any, details: ErrorDetailsInit = {}) {
+    super('S3Error', message, originalError, {
+      code: 'S3_ERROR',
+      category: 'destination',
+      remediation: 'Check that the destination bucket exists and the worker may write to it',
+    }, details);
   }
 }
 
-export class S3Error extends Error {
-  constructor(message: string, public readonly originalError?: any) {
+export class StreamingError extends ClassifiedError {
+  constructor(message: string, originalError?: any, details: ErrorDetailsInit = {}) {
+    super('StreamingError', message, originalError, {
+      code: 'STREAMING_ERROR',
+      category: 'internal',
+      remediation: 'Retry the transfer; if it keeps failing, check the worker logs',
+    }, details);
+  }
+}
+
+/**
+ * A ZIP archive that can't be extracted, entry names the entry at fault when there is one
+ * Not retryable unless details say so: the archive is the same on every attempt.
+ */
+export class ArchiveError extends ClassifiedError {
+  constructor(message: string, public readonly entry?: string, details: ErrorDetailsInit = {}) {
+    super('ArchiveError', message, undefined, {
+      code: 'INVALID_ARCHIVE',
+      category: 'source',
+      remediation: 'Check that the source is a valid ZIP archive, or transfer it without extracting',
+    }, { retryable: false, ...details });
+  }
+}
+
+/**
+ * The transferred bytes don't match the digest the transfer was expected to have
+ */
+export class ChecksumMismatchError extends Error {
+  readonly code = 'CHECKSUM_MISMATCH';
+
+  constructor(
+    message: string,
+    public readonly algorithm: string,
+    public readonly expected: string,
+    public readonly actual: string
+  ) {
+    super(message);
+    this.name = 'ChecksumMismatchError';
+  }
+}
+
+/**
+ * The transfer was cancelled while it was running
+ */
+export class TransferCancelledError extends Error {
+  readonly code = 'TRANSFER_CANCELLED';
+
+  constructor(message: string = 'Transfer was cancelled') {
     super(message);
-    this.name = 'S3Error';
+    this.name = 'TransferCancelledError';
   }
 }
 
-export class StreamingError extends Error {
-  constructor(message: string, public readonly originalError?: any) {
+/**
+ * The worker was told to stop (e.g. ECS scale-in or Spot reclaim) without the transfer being cancelled
+ * Retryable: the multipart upload is kept so the next attempt resumes it
+ */
+export class TransferInterruptedError extends Error {
+  readonly code = 'TRANSFER_INTERRUPTED';
+
+  constructor(message: string = 'Transfer was interrupted by a worker shutdown') {
     super(message);
-    this.name = 'StreamingError';
+    this.name = 'TransferInterruptedError';
+  }
+}
+
+/**
+ * A write to a transfer record that its current status doesn't allow
+ * (e.g. a progress update after the transfer was cancelled, or completing a failed transfer)
+ */
+export class IllegalTransitionError extends Error {
+  readonly code = 'ILLEGAL_TRANSITION';
+
+  constructor(
+    public readonly transferId: string,
+    public readonly from: string | undefined, // Current status, undefined when the record doesn't exist
+    public readonly to: string | undefined // Status being written, undefined for writes that keep the status
+  ) {
+    super(
+      from === undefined
+        ? `Transfer ${transferId} does not exist`
+        : to === undefined
+          ? `Transfer ${transferId} is ${from} and can no longer be updated`
+          : `Transfer ${transferId} cannot move from ${from} to ${to}`
+    );
+    this.name = 'IllegalTransitionError';
   }
 }
 
@@ -40,39 +205,74 @@ export class ErrorHandler {
    * Requirements: 3.4 - Handle URL fetch errors
    */
   static handleUrlFetchError(error: any): UrlFetchError {
+    // Already classified, e.g. thrown while checking the URL
+    if (error instanceof UrlFetchError) {
+      return error;
+    }
+
     // DNS resolution failures
     if (error.code === 'ENOTFOUND') {
-      return new UrlFetchError('Unable to resolve URL: DNS lookup failed', error);
+      return new UrlFetchError('Unable to resolve URL: DNS lookup failed', error, {
+        code: 'SOURCE_DNS_FAILED',
+        remediation: 'Check the host name in the source URL',
+      });
     }
 
     // Timeout errors
     if (error.code === 'ETIMEDOUT' || error.code === 'ESOCKETTIMEDOUT') {
-      return new UrlFetchError('Connection to source URL timed out', error);
+      return new UrlFetchError('Connection to source URL timed out', error, {
+        code: 'SOURCE_TIMEOUT',
+        category: 'network',
+        remediation: 'Retry the transfer; check that the source server is reachable from AWS',
+      });
     }
 
     // Connection refused
     if (error.code === 'ECONNREFUSED') {
-      return new UrlFetchError('Connection refused by source server', error);
+      return new UrlFetchError('Connection refused by source server', error, {
+        code: 'SOURCE_CONNECTION_REFUSED',
+        category: 'network',
+        remediation: 'Check that the source server is running and accepts HTTPS connections',
+      });
     }
 
     // Connection reset (network interruption)
     if (error.code === 'ECONNRESET') {
-      return new UrlFetchError('Connection reset by source server', error);
+      return new UrlFetchError('Connection reset by source server', error, {
+        code: 'SOURCE_CONNECTION_RESET',
+        category: 'network',
+        remediation: 'Retry the transfer',
+      });
     }
 
     // Connection aborted
     if (error.code === 'ECONNABORTED') {
-      return new UrlFetchError('Connection aborted by source server', error);
+      return new UrlFetchError('Connection aborted by source server', error, {
+        code: 'SOURCE_CONNECTION_ABORTED',
+        category: 'network',
+        retryable: true,
+        remediation: 'Retry the transfer',
+      });
     }
 
     // Network unreachable
     if (error.code === 'ENETUNREACH') {
-      return new UrlFetchError('Network unreachable', error);
+      return new UrlFetchError('Network unreachable', error, {
+        code: 'NETWORK_UNREACHABLE',
+        category: 'network',
+        retryable: true,
+        remediation: 'Retry the transfer; check the worker subnet\'s route to the internet',
+      });
     }
 
     // Host unreachable
     if (error.code === 'EHOSTUNREACH') {
-      return new UrlFetchError('Host unreachable', error);
+      return new UrlFetchError('Host unreachable', error, {
+        code: 'SOURCE_HOST_UNREACHABLE',
+        category: 'network',
+        retryable: true,
+        remediation: 'Check that the source server is reachable from the internet',
+      });
     }
 
     // HTTP response errors
@@ -81,37 +281,77 @@ export class ErrorHandler {
       
       // Provide specific messages for common HTTP errors
       if (status === 404) {
-        return new UrlFetchError('Source file not found: HTTP 404', error);
+        return new UrlFetchError('Source file not found: HTTP 404', error, {
+          code: 'SOURCE_NOT_FOUND',
+          retryable: false,
+          remediation: 'Check that the source URL is correct and the file still exists',
+        });
       } else if (status === 403) {
-        return new UrlFetchError('Access forbidden: HTTP 403', error);
+        return new UrlFetchError('Access forbidden: HTTP 403', error, {
+          code: 'SOURCE_FORBIDDEN',
+          retryable: false,
+          remediation: 'Use a URL the server serves without credentials, e.g. a presigned URL that has not expired',
+        });
       } else if (status === 401) {
-        return new UrlFetchError('Authentication required: HTTP 401', error);
+        return new UrlFetchError('Authentication required: HTTP 401', error, {
+          code: 'SOURCE_AUTH_REQUIRED',
+          retryable: false,
+          remediation: 'Use a URL the server serves without credentials, e.g. a presigned URL',
+        });
       } else if (status === 500) {
-        return new UrlFetchError('Source server error: HTTP 500', error);
+        return new UrlFetchError('Source server error: HTTP 500', error, {
+          code: 'SOURCE_SERVER_ERROR',
+          retryable: true,
+          remediation: 'Retry the transfer later; the source server failed to serve the file',
+        });
       } else if (status === 503) {
-        return new UrlFetchError('Source server unavailable: HTTP 503', error);
+        return new UrlFetchError('Source server unavailable: HTTP 503', error, {
+          code: 'SOURCE_UNAVAILABLE',
+          retryable: true,
+          remediation: 'Retry the transfer later; the source server is overloaded or down',
+        });
+      } else if (status === 429) {
+        return new UrlFetchError('Client error: HTTP 429', error, {
+          code: 'SOURCE_RATE_LIMITED',
+          retryable: true,
+          remediation: 'Retry the transfer later, or set a lower maxBytesPerSecond',
+        });
       } else if (status >= 400 && status < 500) {
-        return new UrlFetchError(`Client error: HTTP ${status}`, error);
+        return new UrlFetchError(`Client error: HTTP ${status}`, error, {
+          code: 'SOURCE_CLIENT_ERROR',
+          retryable: false,
+          remediation: 'Check that the source URL is correct and serves the file to a plain GET request',
+        });
       } else if (status >= 500) {
-        return new UrlFetchError(`Server error: HTTP ${status}`, error);
+        return new UrlFetchError(`Server error: HTTP ${status}`, error, {
+          code: 'SOURCE_SERVER_ERROR',
+          retryable: true,
+          remediation: 'Retry the transfer later; the source server failed to serve the file',
+        });
       }
       
-      return new UrlFetchError(`Source file not accessible: HTTP ${status}`, error);
+      return new UrlFetchError(`Source file not accessible: HTTP ${status}`, error, {
+        code: 'SOURCE_NOT_ACCESSIBLE',
+        retryable: false,
+      });
     }
 
     // SSL/TLS errors
     if (error.message && (error.message.includes('certificate') || error.message.includes('SSL') || error.message.includes('TLS'))) {
-      return new UrlFetchError('Secure connection failed: SSL/TLS error', error);
+      return new UrlFetchError('Secure connection failed: SSL/TLS error', error, {
+        code: 'SOURCE_TLS_ERROR',
+        retryable: false,
+        remediation: 'The source server must present a valid, trusted TLS certificate',
+      });
     }
 
     // Protocol errors
     if (error.code === 'ERR_INVALID_PROTOCOL') {
-      return new UrlFetchError('Invalid protocol: URL must use HTTPS', error);
-    }
-
-    // Axios-specific errors
-    if (error.code === 'ENOTFOUND') {
-      return new UrlFetchError('Unable to resolve URL: DNS lookup failed', error);
+      return new UrlFetchError('Invalid protocol: URL must use HTTPS', error, {
+        code: 'SOURCE_INVALID_PROTOCOL',
+        retryable: false,
+        remediation: 'Use an https:// source URL',
+      });
     }
 
     // Generic fallback
@@ -128,91 +368,167 @@ export class ErrorHandler {
   static handleS3Error(error: any, bucket?: string): S3Error {
     const bucketName = bucket || 'specified bucket';
 
-    // Bucket not found errors
-    if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
-      return new S3Error(`S3 bucket '${bucketName}' does not exist`, error);
+    // Already classified, e.g. thrown by S3Service itself
+    if (error instanceof S3Error) {
+      return error;
+    }
+
+    // Multipart upload specific errors
+    // Checked before the 404 below, which would report it as a missing bucket
+    if (error.name === 'NoSuchUpload') {
+      return new S3Error('Multipart upload does not exist or was aborted', error, {
+        code: 'UPLOAD_NOT_FOUND',
+        retryable: true,
+        remediation: 'Retry the transfer; it starts a new multipart upload',
+      });
     }
 
-    if (error.name === 'NoSuchBucket') {
-      return new S3Error(`S3 bucket '${bucketName}' does not exist`, error);
+    // Bucket not found errors
+    if (error.name === 'NotFound' || error.name === 'NoSuchBucket' || error.$metadata?.httpStatusCode === 404) {
+      return new S3Error(`S3 bucket '${bucketName}' does not exist`, error, {
+        code: 'DESTINATION_BUCKET_NOT_FOUND',
+        retryable: false,
+        remediation: 'Check the bucket name and that the bucket exists',
+      });
     }
 
     // Permission errors
     if (error.name === 'Forbidden' || error.$metadata?.httpStatusCode === 403) {
       return new S3Error(
         `Insufficient permissions to write to bucket '${bucketName}'`,
-        error
+        error,
+        {
+          code: 'DESTINATION_ACCESS_DENIED',
+          retryable: false,
+          remediation: 'Allow the worker task role to write to the bucket in the bucket policy (and the KMS key policy for encrypted buckets)',
+        }
       );
     }
 
     if (error.name === 'AccessDenied') {
-      return new S3Error(`Access denied to bucket '${bucketName}'`, error);
+      return new S3Error(`Access denied to bucket '${bucketName}'`, error, {
+        code: 'DESTINATION_ACCESS_DENIED',
+        retryable: false,
+        remediation: 'Allow the worker task role to write to the bucket in the bucket policy (and the KMS key policy for encrypted buckets)',
+      });
     }
 
     // Quota and storage errors
     if (error.code === 'QuotaExceeded' || error.name === 'QuotaExceeded') {
-      return new S3Error('S3 storage quota exceeded', error);
+      return new S3Error('S3 storage quota exceeded', error, {
+        code: 'DESTINATION_QUOTA_EXCEEDED',
+        retryable: false,
+        remediation: 'Free up space or raise the account quota, then retry',
+      });
     }
 
     if (error.name === 'EntityTooLarge') {
-      return new S3Error('File size exceeds S3 limits', error);
+      return new S3Error('File size exceeds S3 limits', error, {
+        code: 'DESTINATION_OBJECT_TOO_LARGE',
+        retryable: false,
+        remediation: 'S3 objects are limited to 5 TB',
+      });
     }
 
     if (error.name === 'TooManyBuckets') {
-      return new S3Error('S3 bucket limit exceeded', error);
+      return new S3Error('S3 bucket limit exceeded', error, {
+        code: 'DESTINATION_QUOTA_EXCEEDED',
+        retryable: false,
+        remediation: 'Free up space or raise the account quota, then retry',
+      });
     }
 
     // Network errors
     if (error.code === 'NetworkingError' || error.name === 'NetworkingError') {
-      return new S3Error('Failed to upload to S3: network error', error);
+      return new S3Error('Failed to upload to S3: network error', error, {
+        code: 'DESTINATION_NETWORK_ERROR',
+        category: 'network',
+        remediation: 'Retry the transfer',
+      });
     }
 
     if (error.code === 'RequestTimeout' || error.name === 'RequestTimeout') {
-      return new S3Error('S3 request timed out', error);
+      return new S3Error('S3 request timed out', error, {
+        code: 'DESTINATION_TIMEOUT',
+        category: 'network',
+        remediation: 'Retry the transfer',
+      });
     }
 
     if (error.name === 'TimeoutError') {
-      return new S3Error('S3 operation timed out', error);
+      return new S3Error('S3 operation timed out', error, {
+        code: 'DESTINATION_TIMEOUT',
+        category: 'network',
+        remediation: 'Retry the transfer',
+      });
     }
 
-    // Service errors
-    if (error.name === 'ServiceUnavailable' || error.$metadata?.httpStatusCode === 503) {
-      return new S3Error('S3 service temporarily unavailable', error);
+    // Throttling errors
+    // Checked before the 503 below, which S3 also answers SlowDown with
+    if (error.name === 'SlowDown') {
+      return new S3Error('S3 request rate exceeded, please retry', error, {
+        code: 'DESTINATION_THROTTLED',
+        retryable: true,
+        remediation: 'Retry the transfer, or lower ADAPTIVE_CONCURRENCY_MAX',
+      });
     }
 
-    if (error.name === 'InternalError' || error.$metadata?.httpStatusCode === 500) {
-      return new S3Error('S3 internal server error', error);
+    if (error.name === 'ThrottlingException' || error.name === 'RequestLimitExceeded') {
+      return new S3Error('S3 request throttled, please retry', error, {
+        code: 'DESTINATION_THROTTLED',
+        retryable: true,
+        remediation: 'Retry the transfer, or lower ADAPTIVE_CONCURRENCY_MAX',
+      });
     }
 
-    if (error.name === 'SlowDown') {
-      return new S3Error('S3 request rate exceeded, please retry', error);
+    // Service errors
+    if (error.name === 'ServiceUnavailable' || error.$metadata?.httpStatusCode === 503) {
+      return new S3Error('S3 service temporarily unavailable', error, {
+        code: 'DESTINATION_UNAVAILABLE',
+        retryable: true,
+        remediation: 'Retry the transfer later',
+      });
     }
 
-    // Throttling errors
-    if (error.name === 'ThrottlingException' || error.name === 'RequestLimitExceeded') {
-      return new S3Error('S3 request throttled, please retry', error);
+    if (error.name === 'InternalError' || error.$metadata?.httpStatusCode === 500) {
+      return new S3Error('S3 internal server error', error, {
+        code: 'DESTINATION_INTERNAL_ERROR',
+        retryable: true,
+        remediation: 'Retry the transfer later',
+      });
     }
 
     // Invalid request errors
     if (error.name === 'InvalidBucketName') {
-      return new S3Error(`Invalid bucket name: '${bucketName}'`, error);
+      return new S3Error(`Invalid bucket name: '${bucketName}'`, error, {
+        code: 'DESTINATION_INVALID_BUCKET',
+        retryable: false,
+        remediation: 'Use a bucket name that follows the S3 naming rules',
+      });
     }
 
     if (error.name === 'InvalidObjectState') {
-      return new S3Error('Invalid object state for operation', error);
-    }
-
-    // Multipart upload specific errors
-    if (error.name === 'NoSuchUpload') {
-      return new S3Error('Multipart upload does not exist or was aborted', error);
+      return new S3Error('Invalid object state for operation', error, {
+        code: 'DESTINATION_INVALID_OBJECT_STATE',
+        retryable: false,
+        remediation: 'An archived object with the same key is in the way; restore or delete it, or use another key prefix',
+      });
     }
 
     if (error.name === 'InvalidPart') {
-      return new S3Error('Invalid multipart upload part', error);
+      return new S3Error('Invalid multipart upload part', error, {
+        code: 'UPLOAD_INVALID_PART',
+        category: 'integrity',
+        remediation: 'Retry the transfer; if it keeps failing, check the worker logs',
+      });
     }
 
     if (error.name === 'InvalidPartOrder') {
-      return new S3Error('Multipart upload parts out of order', error);
+      return new S3Error('Multipart upload parts out of order', error, {
+        code: 'UPLOAD_INVALID_PART',
+        category: 'integrity',
+        remediation: 'Retry the transfer; if it keeps failing, check the worker logs',
+      });
     }
 
     // Generic fallback
@@ -236,7 +552,8 @@ export class ErrorHandler {
       const percentage = totalBytes > 0 ? Math.floor((bytesTransferred / totalBytes) * 100) : 0;
       return new StreamingError(
         `Network interruption: ${bytesTransferred} of ${totalBytes} bytes transferred (${percentage}%)`,
-        error
+        error,
+        { code: 'SOURCE_CONNECTION_RESET', category: 'network', remediation: 'Retry the transfer; it resumes from the last uploaded part' }
       );
     }
 
@@ -245,7 +562,8 @@ export class ErrorHandler {
       const percentage = totalBytes > 0 ? Math.floor((bytesTransferred / totalBytes) * 100) : 0;
       return new StreamingError(
         `Connection closed unexpectedly: ${bytesTransferred} of ${totalBytes} bytes transferred (${percentage}%)`,
-        error
+        error,
+        { code: 'CONNECTION_CLOSED', category: 'network', remediation: 'Retry the transfer; it resumes from the last uploaded part' }
       );
     }
 
@@ -253,7 +571,8 @@ export class ErrorHandler {
     if (error.code === 'ETIMEDOUT' || error.code === 'ESOCKETTIMEDOUT') {
       return new StreamingError(
         `Transfer timed out after ${bytesTransferred} bytes`,
-        error
+        error,
+        { code: 'TRANSFER_TIMEOUT', category: 'network', remediation: 'Retry the transfer; it resumes from the last uploaded part' }
       );
     }
 
@@ -261,7 +580,8 @@ export class ErrorHandler {
     if (error.code === 'ECONNABORTED') {
       return new StreamingError(
         `Transfer aborted: ${bytesTransferred} of ${totalBytes} bytes transferred`,
-        error
+        error,
+        { code: 'TRANSFER_ABORTED', category: 'network', retryable: true, remediation: 'Retry the transfer; it resumes from the last uploaded part' }
       );
     }
 
@@ -269,7 +589,8 @@ export class ErrorHandler {
     if (error.code === 'ENETUNREACH') {
       return new StreamingError(
         `Network unreachable during transfer at ${bytesTransferred} bytes`,
-        error
+        error,
+        { code: 'NETWORK_UNREACHABLE', category: 'network', retryable: true, remediation: 'Retry the transfer; it resumes from the last uploaded part' }
       );
     }
 
@@ -279,25 +600,36 @@ export class ErrorHandler {
       const partNumber = match ? match[1] : 'unknown';
       return new StreamingError(
         `Upload failed during part ${partNumber}`,
-        error
+        error,
+        { code: 'UPLOAD_PART_FAILED', category: 'destination', remediation: 'Retry the transfer; it resumes from the last uploaded part' }
       );
     }
 
     // Data integrity errors
     if (error.message && (error.message.includes('checksum') || error.message.includes('integrity'))) {
-      return new StreamingError('Data integrity check failed', error);
+      return new StreamingError('Data integrity check failed', error, {
+        code: 'INTEGRITY_CHECK_FAILED',
+        category: 'integrity',
+        retryable: false,
+        remediation: 'Check that the source serves the same file on every request',
+      });
     }
 
     // Aborted transfers
     if (error.message && error.message.includes('aborted')) {
-      return new StreamingError('Transfer was aborted', error);
+      return new StreamingError('Transfer was aborted', error, {
+        code: 'TRANSFER_ABORTED',
+        category: 'network',
+        remediation: 'Retry the transfer; it resumes from the last uploaded part',
+      });
     }
 
     // Stream destroyed
     if (error.message && error.message.includes('destroyed')) {
       return new StreamingError(
         `Stream destroyed during transfer: ${bytesTransferred} of ${totalBytes} bytes transferred`,
-        error
+        error,
+        { code: 'STREAM_DESTROYED', category: 'network', remediation: 'Retry the transfer; it resumes from the last uploaded part' }
       );
     }
 
@@ -305,13 +637,18 @@ export class ErrorHandler {
     if (error.message && error.message.includes('premature close')) {
       return new StreamingError(
         `Incomplete transfer: ${bytesTransferred} of ${totalBytes} bytes transferred`,
-        error
+        error,
+        { code: 'INCOMPLETE_TRANSFER', category: 'network', retryable: true, remediation: 'Retry the transfer; it resumes from the last uploaded part' }
       );
     }
 
     // Memory errors
     if (error.message && (error.message.includes('memory') || error.message.includes('ENOMEM'))) {
-      return new StreamingError('Insufficient memory for transfer', error);
+      return new StreamingError('Insufficient memory for transfer', error, {
+        code: 'INSUFFICIENT_MEMORY',
+        retryable: false,
+        remediation: 'Lower PART_BUFFER_MEMORY_PERCENT or MAX_CONCURRENT_UPLOADS, or give the worker task more memory',
+      });
     }
 
     // Generic fallback with transfer progress
@@ -324,26 +661,96 @@ export class ErrorHandler {
 
   /**
    * Determines if an error is retryable
+   * Classified errors say so themselves, others are retryable when they or their cause
+   * are one of RETRYABLE_ERRORS
    */
   static isRetryable(error: Error): boolean {
-    const retryableErrors = [
-      'ETIMEDOUT',
-      'ECONNRESET',
-      'ECONNREFUSED',
-      'EPIPE',
-      'NetworkingError',
-      'TimeoutError',
-      'RequestTimeout',
-      'ServiceUnavailable',
+    if (error instanceof ClassifiedError) {
+      return error.retryable;
+    }
+    return matchesRetryableError(error);
+  }
+
+  /**
+   * Determines if an error means S3 is asking the client to slow down
+   */
+  static isThrottling(error: Error): boolean {
+    const throttlingErrors = [
+      'SlowDown',
       'ThrottlingException',
+      'Throttling',
+      'RequestLimitExceeded',
+      'TooManyRequests',
     ];
 
-    return retryableErrors.some(
-      (errType) =>
-        error.message.includes(errType) ||
-        error.name.includes(errType) ||
-        (error as any).code === errType
-    );
+    const anyError = error as any;
+    const matches =
+      throttlingErrors.some(
+        (errType) => error.name === errType || anyError.code === errType || anyError.Code === errType
+      ) ||
+      anyError.$metadata?.httpStatusCode === 503 ||
+      anyError.$metadata?.httpStatusCode === 429;
+
+    const originalError = anyError.originalError;
+    return matches || (originalError instanceof Error && this.isThrottling(originalError));
+  }
+
+  /**
+   * Classifies any error a transfer failed with
+   * Classified errors keep their details, the errors the worker raises itself are mapped
+   * here and anything else is an internal error
+   */
+  static classify(error: unknown): ErrorDetails {
+    if (error instanceof ClassifiedError) {
+      return error.details;
+    }
+    if (error instanceof ChecksumMismatchError) {
+      return {
+        code: error.code,
+        category: 'integrity',
+        retryable: false,
+        remediation: 'Check the expected checksum, or that the source serves the file it published the checksum for',
+      };
+    }
+    if (error instanceof TransferCancelledError) {
+      return {
+        code: error.code,
+        category: 'internal',
+        retryable: false,
+        remediation: 'The transfer was cancelled; submit it again to restart it',
+      };
+    }
+    if (error instanceof TransferInterruptedError) {
+      return {
+        code: error.code,
+        category: 'internal',
+        retryable: true,
+        remediation: 'Retry the transfer; it resumes from the last uploaded part',
+      };
+    }
+    if (error instanceof IllegalTransitionError) {
+      return {
+        code: error.code,
+        category: 'internal',
+        retryable: false,
+        remediation: 'The transfer already finished; check its status',
+      };
+    }
+    if (error instanceof ValidationError) {
+      return {
+        code: 'VALIDATION_ERROR',
+        category: 'internal',
+        retryable: false,
+        remediation: 'Fix the request and submit it again',
+      };
+    }
+
+    return {
+      code: 'UNKNOWN_ERROR',
+      category: 'internal',
+      retryable: error instanceof Error && this.isRetryable(error),
+      remediation: 'Retry the transfer; if it keeps failing, check the worker logs',
+    };
   }
 
   /**
@@ -354,22 +761,12 @@ export class ErrorHandler {
     message: string;
     retryable: boolean;
   } {
-    let code = 'UNKNOWN_ERROR';
-
-    if (error instanceof UrlFetchError) {
-      code = 'URL_FETCH_ERROR';
-    } else if (error instanceof S3Error) {
-      code = 'S3_ERROR';
-    } else if (error instanceof StreamingError) {
-      code = 'STREAMING_ERROR';
-    } else if (error instanceof ValidationError) {
-      code = 'VALIDATION_ERROR';
-    }
+    const details = this.classify(error);
 
     return {
-      code,
+      code: details.code,
       message: error.message,
-      retryable: this.isRetryable(error),
+      retryable: details.retryable,
     };
   }
 }
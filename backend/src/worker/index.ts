@@ -7,9 +7,19 @@
  * performs the streaming transfer, and updates DynamoDB with progress and status.
  */
 
-import { DynamoDBService } from '../services/DynamoDBService.js';
+import { readFileSync } from 'fs';
+import { DynamoDBService, TransferRecord, TransferStatus } from '../services/DynamoDBService.js';
 import { StreamingService } from '../services/StreamingService.js';
 import { S3Service } from '../services/S3Service.js';
+import { readCurrentTaskArn } from '../services/EcsTaskService.js';
+import { ShutdownCoordinator, WorkerExitCode } from '../services/ShutdownCoordinator.js';
+import { UrlService } from '../services/UrlService.js';
+import { RetryPolicy, RetryPolicyOptions } from '../services/RetryPolicy.js';
+import { DEFAULT_EXTRACTION_LIMITS } from '../services/ExtractionPolicy.js';
+import { selectsEntries } from '../services/EntryFilter.js';
+import { SecretsService } from '../services/SecretsService.js';
+import { ExtractionLimits, ReceiptOptions, ShutdownReason, TransferAttempt, UploadCheckpoint } from '../types/api.js';
+import { ErrorHandler, IllegalTransitionError, TransferInterruptedError } from '../utils/errorHandler.js';
 
 interface WorkerConfig {
   transferId: string;
@@ -18,6 +28,65 @@ interface WorkerConfig {
   keyPrefix?: string;
   tableName: string;
   region: string;
+  defaultMaxBytesPerSecond?: number; // Bandwidth limit for transfers that don't set their own
+  cancellationPollIntervalMs: number; // How often the transfer record is checked for a cancel
+  heartbeatIntervalMs: number; // How often the worker records that it is alive
+  shutdownGracePeriodMs: number; // Time to stop after SIGTERM before recording progress and exiting anyway
+  transferRetry: RetryPolicyOptions; // When a failed attempt is rescheduled
+  receipt: ReceiptOptions; // Where transfer receipts are written
+  extractionLimits: ExtractionLimits; // What an extracted archive may expand to
+}
+
+/**
+ * The attempt this worker runs, known once the transfer record is loaded
+ */
+interface AttemptContext {
+  number: number; // 1-based, one more than the failed attempts on the record
+  startTime: string; // ISO timestamp
+  retryPolicy: RetryPolicy;
+}
+
+const DEFAULT_CANCELLATION_POLL_INTERVAL_MS = 10000;
+// Well within the reaper's window (STALE_TRANSFER_MINUTES, default 15)
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 60000;
+// Leaves time within the task's 120s stop timeout to record progress
+const DEFAULT_SHUTDOWN_GRACE_PERIOD_MS = 100000;
+// 3 attempts in total, 15-30s then 30-60s apart; keep the longest backoff well below the
+// reaper's window, which only starts counting at the scheduled time
+const DEFAULT_TRANSFER_RETRY_MAX_ATTEMPTS = 3;
+const DEFAULT_TRANSFER_RETRY_BASE_DELAY_MS = 30000;
+const DEFAULT_TRANSFER_RETRY_MAX_DELAY_MS = 300000;
+
+/**
+ * Reads an integer setting of at least min from the environment, or the default
+ */
+function readIntegerSetting(name: string, defaultValue: number, min: number): number {
+  const value = process.env[name];
+  if (!value) {
+    return defaultValue;
+  }
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed < min) {
+    console.warn(`Invalid ${name} value "${value}", using ${defaultValue}`);
+    return defaultValue;
+  }
+  return parsed;
+}
+
+/**
+ * Version recorded in transfer receipts: WORKER_VERSION, or the version in package.json
+ */
+function readWorkerVersion(): string {
+  if (process.env.WORKER_VERSION) {
+    return process.env.WORKER_VERSION;
+  }
+  try {
+    // dist/worker/index.js, next to the package.json copied into the image
+    const packageJson = JSON.parse(readFileSync(new URL('../../package.json', import.meta.url), 'utf8'));
+    return String(packageJson.version || 'unknown');
+  } catch {
+    return 'unknown';
+  }
 }
 
 /**
@@ -30,6 +99,10 @@ function parseEnvironmentVariables(): WorkerConfig {
   const keyPrefix = process.env.KEY_PREFIX;
   const tableName = process.env.DYNAMODB_TABLE_NAME || 'S3ZipDownloaderTransfers';
   const region = process.env.AWS_REGION || 'us-east-1';
+  const maxBytesPerSecond = process.env.MAX_BYTES_PER_SECOND;
+  const cancellationPollInterval = process.env.CANCELLATION_POLL_INTERVAL_MS;
+  const heartbeatInterval = process.env.HEARTBEAT_INTERVAL_MS;
+  const shutdownGracePeriod = process.env.SHUTDOWN_GRACE_PERIOD_MS;
 
   // Validate required environment variables
   if (!transferId) {
@@ -42,6 +115,47 @@ function parseEnvironmentVariables(): WorkerConfig {
     throw new Error('Missing required environment variable: BUCKET');
   }
 
+  // 0 or unset means unlimited
+  let defaultMaxBytesPerSecond: number | undefined;
+  if (maxBytesPerSecond) {
+    const parsed = parseInt(maxBytesPerSecond, 10);
+    if (isNaN(parsed) || parsed < 0) {
+      console.warn(`Invalid MAX_BYTES_PER_SECOND value "${maxBytesPerSecond}", transfers are not rate limited`);
+    } else if (parsed > 0) {
+      defaultMaxBytesPerSecond = parsed;
+    }
+  }
+
+  let cancellationPollIntervalMs = DEFAULT_CANCELLATION_POLL_INTERVAL_MS;
+  if (cancellationPollInterval) {
+    const parsed = parseInt(cancellationPollInterval, 10);
+    if (isNaN(parsed) || parsed < 1000) {
+      console.warn(`Invalid CANCELLATION_POLL_INTERVAL_MS value "${cancellationPollInterval}", using ${DEFAULT_CANCELLATION_POLL_INTERVAL_MS}ms`);
+    } else {
+      cancellationPollIntervalMs = parsed;
+    }
+  }
+
+  let heartbeatIntervalMs = DEFAULT_HEARTBEAT_INTERVAL_MS;
+  if (heartbeatInterval) {
+    const parsed = parseInt(heartbeatInterval, 10);
+    if (isNaN(parsed) || parsed < 1000) {
+      console.warn(`Invalid HEARTBEAT_INTERVAL_MS value "${heartbeatInterval}", using ${DEFAULT_HEARTBEAT_INTERVAL_MS}ms`);
+    } else {
+      heartbeatIntervalMs = parsed;
+    }
+  }
+
+  let shutdownGracePeriodMs = DEFAULT_SHUTDOWN_GRACE_PERIOD_MS;
+  if (shutdownGracePeriod) {
+    const parsed = parseInt(shutdownGracePeriod, 10);
+    if (isNaN(parsed) || parsed < 1000) {
+      console.warn(`Invalid SHUTDOWN_GRACE_PERIOD_MS value "${shutdownGracePeriod}", using ${DEFAULT_SHUTDOWN_GRACE_PERIOD_MS}ms`);
+    } else {
+      shutdownGracePeriodMs = parsed;
+    }
+  }
+
   return {
     transferId,
     sourceUrl,
@@ -49,6 +163,25 @@ function parseEnvironmentVariables(): WorkerConfig {
     keyPrefix,
     tableName,
     region,
+    defaultMaxBytesPerSecond,
+    cancellationPollIntervalMs,
+    heartbeatIntervalMs,
+    shutdownGracePeriodMs,
+    transferRetry: {
+      maxAttempts: readIntegerSetting('TRANSFER_RETRY_MAX_ATTEMPTS', DEFAULT_TRANSFER_RETRY_MAX_ATTEMPTS, 1),
+      baseDelayMs: readIntegerSetting('TRANSFER_RETRY_BASE_DELAY_MS', DEFAULT_TRANSFER_RETRY_BASE_DELAY_MS, 0),
+      maxDelayMs: readIntegerSetting('TRANSFER_RETRY_MAX_DELAY_MS', DEFAULT_TRANSFER_RETRY_MAX_DELAY_MS, 0),
+    },
+    receipt: {
+      prefix: process.env.TRANSFER_RECEIPT_PREFIX || undefined, // Unset: next to the object
+      workerVersion: readWorkerVersion(),
+    },
+    extractionLimits: {
+      maxTotalBytes: readIntegerSetting('EXTRACT_MAX_TOTAL_BYTES', DEFAULT_EXTRACTION_LIMITS.maxTotalBytes, 1),
+      maxEntries: readIntegerSetting('EXTRACT_MAX_ENTRIES', DEFAULT_EXTRACTION_LIMITS.maxEntries, 1),
+      maxCompressionRatio: readIntegerSetting('EXTRACT_MAX_COMPRESSION_RATIO', DEFAULT_EXTRACTION_LIMITS.maxCompressionRatio, 1),
+      maxDepth: readIntegerSetting('EXTRACT_MAX_DEPTH', DEFAULT_EXTRACTION_LIMITS.maxDepth, 1),
+    },
   };
 }
 
@@ -89,6 +222,202 @@ function formatErrorMessage(error: any): string {
   return String(error);
 }
 
+/**
+ * Builds the resume checkpoint left on the transfer record by a previous attempt
+ * Returns undefined when no multipart upload was started yet
+ */
+function getUploadCheckpoint(transferRecord: TransferRecord): UploadCheckpoint | undefined {
+  if (!transferRecord.uploadId || !transferRecord.partSize) {
+    return undefined;
+  }
+
+  return {
+    uploadId: transferRecord.uploadId,
+    partSize: transferRecord.partSize,
+    totalBytes: transferRecord.totalBytes,
+    completedPartNumbers: Array.from(transferRecord.completedParts || []),
+    sourceEtag: transferRecord.sourceEtag,
+    sourceLastModified: transferRecord.sourceLastModified,
+  };
+}
+
+/**
+ * Polls the transfer record and stops the transfer once it is cancelled
+ * Returns a function that stops polling
+ */
+function watchForCancellation(
+  dynamoDBService: DynamoDBService,
+  transferId: string,
+  shutdown: ShutdownCoordinator,
+  intervalMs: number
+): () => void {
+  let polling = false;
+  const timer = setInterval(async () => {
+    if (polling || shutdown.signal.aborted) {
+      return;
+    }
+    polling = true;
+    try {
+      const record = await dynamoDBService.getTransferStatus(transferId);
+      if (record?.status === TransferStatus.CANCELLED) {
+        console.log('Transfer was cancelled, stopping');
+        shutdown.cancel();
+      }
+    } catch (dbError: any) {
+      // A missed poll only delays the cancel until the next one
+      console.error('Failed to check for cancellation:', formatErrorMessage(dbError));
+    } finally {
+      polling = false;
+    }
+  }, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Writes a heartbeat to the transfer record now and then every intervalMs
+ * The stale transfer reaper fails transfers whose heartbeats stop.
+ * Returns a function that stops the heartbeats
+ */
+function startHeartbeat(
+  dynamoDBService: DynamoDBService,
+  transferId: string,
+  intervalMs: number
+): () => void {
+  let beating = false;
+  const beat = async () => {
+    if (beating) {
+      return;
+    }
+    beating = true;
+    try {
+      await dynamoDBService.recordHeartbeat(transferId);
+    } catch (dbError: any) {
+      // The next beat is still well within the reaper's window
+      console.error('Failed to record heartbeat:', formatErrorMessage(dbError));
+    } finally {
+      beating = false;
+    }
+  };
+
+  beat();
+  const timer = setInterval(beat, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Records why the transfer stopped early and the bytes read by then
+ * An interruption counts as a failed attempt: the next one is scheduled unless the retry
+ * policy is out of attempts, then the transfer fails.
+ * Returns the exit code for the reason
+ */
+async function recordShutdown(
+  dynamoDBService: DynamoDBService,
+  transferId: string,
+  reason: ShutdownReason,
+  bytesTransferred: number,
+  attempt?: AttemptContext
+): Promise<WorkerExitCode> {
+  if (reason === 'interrupted' && attempt) {
+    const error = new TransferInterruptedError();
+    const decision = attempt.retryPolicy.decide(error, attempt.number);
+    if (!decision.retry) {
+      return recordFailedAttempt(dynamoDBService, transferId, error, attempt);
+    }
+    try {
+      await dynamoDBService.markTransferInterrupted(transferId, bytesTransferred, {
+        attempt: describeAttempt(attempt, error, decision.delayMs),
+        nextAttemptTime: new Date(Date.now() + decision.delayMs).toISOString(),
+      });
+      console.log(`DynamoDB updated: interrupted after ${bytesTransferred} bytes, retrying in ${decision.delayMs}ms`);
+    } catch (dbError: any) {
+      console.error('Failed to record interrupted transfer:', formatErrorMessage(dbError));
+    }
+    return WorkerExitCode.INTERRUPTED;
+  }
+
+  try {
+    if (reason === 'cancelled') {
+      await dynamoDBService.markTransferCancelled(transferId, bytesTransferred);
+    } else {
+      await dynamoDBService.markTransferInterrupted(transferId, bytesTransferred);
+    }
+    console.log(`DynamoDB updated: ${reason} after ${bytesTransferred} bytes`);
+  } catch (dbError: any) {
+    console.error(`Failed to record ${reason} transfer:`, formatErrorMessage(dbError));
+  }
+
+  return reason === 'cancelled' ? WorkerExitCode.CANCELLED : WorkerExitCode.INTERRUPTED;
+}
+
+/**
+ * Entry for the attempt history of an attempt that failed with error
+ */
+function describeAttempt(attempt: AttemptContext, error: unknown, retryDelayMs?: number): TransferAttempt {
+  const details = ErrorHandler.classify(error);
+  return {
+    attempt: attempt.number,
+    startTime: attempt.startTime,
+    endTime: new Date().toISOString(),
+    error: formatErrorMessage(error),
+    errorCode: details.code,
+    retryable: details.retryable,
+    retryDelayMs,
+  };
+}
+
+/**
+ * Records a failed attempt, and schedules the next one when the retry policy allows it or
+ * fails the transfer otherwise
+ * Without an attempt (the record couldn't be loaded) the transfer fails right away.
+ * Returns the exit code that tells Step Functions which it was
+ */
+async function recordFailedAttempt(
+  dynamoDBService: DynamoDBService,
+  transferId: string,
+  error: unknown,
+  attempt?: AttemptContext
+): Promise<WorkerExitCode> {
+  const errorMessage = formatErrorMessage(error);
+  const details = ErrorHandler.classify(error);
+  console.error(`Transfer failed: ${errorMessage} (${details.code}, ${details.category}, ${details.retryable ? 'retryable' : 'not retryable'})`);
+
+  const decision = attempt?.retryPolicy.decide(error, attempt.number);
+  if (attempt && decision?.retry) {
+    const nextAttemptTime = new Date(Date.now() + decision.delayMs).toISOString();
+    try {
+      await dynamoDBService.scheduleRetry(transferId, describeAttempt(attempt, error, decision.delayMs), nextAttemptTime);
+      console.log(`Attempt ${attempt.number} of ${attempt.retryPolicy.maxAttempts} failed, next attempt at ${nextAttemptTime}`);
+      return WorkerExitCode.RETRY_SCHEDULED;
+    } catch (dbError: any) {
+      if (dbError instanceof IllegalTransitionError && dbError.from === TransferStatus.CANCELLED) {
+        console.log('Transfer was cancelled, not retrying');
+        return WorkerExitCode.CANCELLED;
+      }
+      // Without the schedule Step Functions has nothing to wait for, fail the transfer instead
+      console.error('Failed to schedule retry:', formatErrorMessage(dbError));
+    }
+  } else if (decision?.reason === 'exhausted') {
+    console.log(`Giving up after ${attempt!.number} attempts`);
+  }
+
+  try {
+    await dynamoDBService.markTransferFailed(
+      transferId,
+      errorMessage,
+      details,
+      attempt ? describeAttempt(attempt, error) : undefined
+    );
+    console.log('DynamoDB updated with failure status');
+  } catch (dbError: any) {
+    console.error('Failed to update DynamoDB with failure status:', formatErrorMessage(dbError));
+  }
+  return WorkerExitCode.FAILED;
+}
+
 /**
  * Main worker function
  * Requirements: 3.4, 3.5, 8.3, 8.4
@@ -96,6 +425,7 @@ function formatErrorMessage(error: any): string {
 async function main() {
   let config: WorkerConfig | undefined;
   let dynamoDBService: DynamoDBService | undefined;
+  let attempt: AttemptContext | undefined;
 
   try {
     // Parse environment variables
@@ -112,6 +442,19 @@ async function main() {
     // Pass DynamoDB service to StreamingService for progress updates
     const streamingService = new StreamingService(dynamoDBService);
 
+    // From here on SIGTERM stops the transfer instead of killing the process mid-part
+    const transferId = config.transferId;
+    const db = dynamoDBService;
+    let lastBytesTransferred = 0;
+    const shutdown = new ShutdownCoordinator({
+      isCancelled: async () => (await db.getTransferStatus(transferId))?.status === TransferStatus.CANCELLED,
+      gracePeriodMs: config.shutdownGracePeriodMs,
+      onDeadline: async (reason) => {
+        process.exit(await recordShutdown(db, transferId, reason, lastBytesTransferred, attempt));
+      },
+    });
+    shutdown.install();
+
     // Load transfer record from DynamoDB
     console.log('Loading transfer record from DynamoDB...');
     let transferRecord;
@@ -129,6 +472,103 @@ async function main() {
 
     console.log(`Transfer record loaded. Status: ${transferRecord.status}`);
 
+    // Cancelled before the task got going, there is nothing to clean up
+    if (transferRecord.status === TransferStatus.CANCELLED) {
+      console.log('Transfer was cancelled before it started, exiting');
+      process.exit(WorkerExitCode.CANCELLED);
+    }
+
+    attempt = {
+      number: (transferRecord.attempts?.length ?? 0) + 1,
+      startTime: new Date().toISOString(),
+      retryPolicy: new RetryPolicy(config.transferRetry),
+    };
+    console.log(`Starting attempt ${attempt.number} of ${attempt.retryPolicy.maxAttempts}`);
+
+    // The first attempt takes the record out of pending; progress can only follow starting
+    if (transferRecord.status === TransferStatus.PENDING) {
+      try {
+        await dynamoDBService.markTransferStarting(config.transferId);
+      } catch (dbError: any) {
+        if (dbError instanceof IllegalTransitionError && dbError.from === TransferStatus.CANCELLED) {
+          console.log('Transfer was cancelled before it started, exiting');
+          process.exit(WorkerExitCode.CANCELLED);
+        }
+        console.error('Failed to mark transfer as starting:', formatErrorMessage(dbError));
+        process.exit(await recordFailedAttempt(dynamoDBService, config.transferId, dbError, attempt));
+      }
+    }
+
+    // Beats for as long as the worker runs, including a retry's setup before streaming
+    const stopHeartbeat = startHeartbeat(dynamoDBService, config.transferId, config.heartbeatIntervalMs);
+
+    // Lets a cancel stop this task without touching other transfers' tasks
+    const taskArn = await readCurrentTaskArn();
+    if (taskArn) {
+      console.log(`Running in ECS task ${taskArn}`);
+      try {
+        await dynamoDBService.updateFargateTaskArn(config.transferId, taskArn);
+      } catch (dbError: any) {
+        // The cancel handler falls back to finding the task by its TRANSFER_ID
+        console.error('Failed to record task ARN:', formatErrorMessage(dbError));
+      }
+    }
+
+    // A previous attempt (e.g. a Step Functions retry after the task died) may have
+    // left a multipart upload that can be continued
+    const checkpoint = getUploadCheckpoint(transferRecord);
+    if (checkpoint) {
+      console.log(`Found upload checkpoint ${checkpoint.uploadId} with ${checkpoint.completedPartNumbers.length} completed parts`);
+    }
+
+    // Without a digest from the request, look for one the publisher put next to the file
+    // Not when only selected entries are read: the archive's digest can't be checked then
+    if (!transferRecord.expectedChecksum && transferRecord.discoverChecksum !== false && !selectsEntries(transferRecord.extract)) {
+      console.log('Looking for published checksums next to the source...');
+      const discovered = await new UrlService().discoverChecksum(config.sourceUrl);
+      if (discovered) {
+        console.log(`Found ${discovered.algorithm} checksum from ${discovered.source}`);
+        transferRecord.expectedChecksum = discovered;
+        try {
+          await dynamoDBService.saveExpectedChecksum(config.transferId, discovered);
+        } catch (dbError: any) {
+          // Verification still happens, the record just won't show where the digest came from
+          console.error('Failed to save discovered checksum:', formatErrorMessage(dbError));
+        }
+      } else {
+        console.log('No published checksum found');
+      }
+    }
+
+    if (transferRecord.expectedChecksum) {
+      console.log(
+        `Transfer will be verified against expected ${transferRecord.expectedChecksum.algorithm} checksum` +
+        (transferRecord.expectedChecksum.source ? ` (source: ${transferRecord.expectedChecksum.source})` : '')
+      );
+    }
+
+    // A limit set on the request wins over the worker's default
+    const maxBytesPerSecond = transferRecord.maxBytesPerSecond ?? config.defaultMaxBytesPerSecond;
+    if (maxBytesPerSecond) {
+      console.log(`Bandwidth limited to ${maxBytesPerSecond} bytes/s`);
+      try {
+        await dynamoDBService.saveActiveRateLimit(config.transferId, maxBytesPerSecond);
+      } catch (dbError: any) {
+        // The limit still applies, progress responses just won't show it
+        console.error('Failed to save rate limit:', formatErrorMessage(dbError));
+      }
+    }
+
+    if (selectsEntries(transferRecord.extract)) {
+      const { include = [], exclude = [] } = transferRecord.extract!;
+      console.log(
+        `Entries ${include.length > 0 ? `matching ${include.join(', ')}` : 'of the archive'}` +
+        `${exclude.length > 0 ? ` except ${exclude.join(', ')}` : ''} will be extracted`
+      );
+    } else if (transferRecord.extract) {
+      console.log(`Archive will be extracted${transferRecord.extract.keepArchive ? ', keeping the archive' : ''}`);
+    }
+
     // Log key prefix information
     if (config.keyPrefix) {
       console.log(`Using key prefix: ${config.keyPrefix}`);
@@ -141,20 +581,22 @@ async function main() {
       await s3Service.validateBucketAccess(config.bucket);
       console.log('Bucket access validated');
     } catch (s3Error: any) {
-      const errorMessage = formatErrorMessage(s3Error);
-      console.error(`Bucket validation failed: ${errorMessage}`);
+      console.error(`Bucket validation failed: ${formatErrorMessage(s3Error)}`);
       
-      // Update DynamoDB with specific error
-      if (dynamoDBService) {
-        try {
-          await dynamoDBService.markTransferFailed(config.transferId, errorMessage);
-        } catch (dbError) {
-          console.error('Failed to update DynamoDB with error status:', dbError);
-        }
+      // Update DynamoDB with specific error, or schedule a retry for a transient one
+      process.exit(await recordFailedAttempt(dynamoDBService, config.transferId, s3Error, attempt));
+    }
+
+    // Only the secret's name is on the record, the password is read for this attempt alone
+    let archivePassword: string | undefined;
+    if (transferRecord.extract?.passwordSecret) {
+      console.log(`Reading the archive password from secret ${transferRecord.extract.passwordSecret}`);
+      try {
+        archivePassword = await new SecretsService(config.region).getArchivePassword(transferRecord.extract.passwordSecret);
+      } catch (secretError: any) {
+        console.error(`Archive password unavailable: ${formatErrorMessage(secretError)}`);
+        process.exit(await recordFailedAttempt(dynamoDBService, config.transferId, secretError, attempt));
       }
-      
-      // Exit with error code
-      process.exit(1);
     }
 
     // Invoke streaming service with progress callback
@@ -167,12 +609,22 @@ async function main() {
     let lastLoggedBytes = 0;
     const LOG_THRESHOLD_BYTES = 100 * 1024 * 1024; // 100MB
     
+    // The cancel request marks the record and stops the task, the transfer stops itself
+    // and cleans up when it sees either
+    const stopWatching = watchForCancellation(
+      dynamoDBService,
+      config.transferId,
+      shutdown,
+      config.cancellationPollIntervalMs
+    );
+
     const result = await streamingService.transferToS3(
       config.sourceUrl,
       config.bucket,
       config.keyPrefix,
       (bytesTransferred, totalBytes) => {
         // Progress callback - DynamoDB updates are handled by StreamingService
+        lastBytesTransferred = bytesTransferred;
         const percentage = totalBytes > 0 ? Math.floor((bytesTransferred / totalBytes) * 100) : 0;
         const bytesDiff = bytesTransferred - lastLoggedBytes;
         
@@ -183,37 +635,59 @@ async function main() {
           lastLoggedBytes = bytesTransferred;
         }
       },
-      config.transferId // Pass the existing transfer ID
+      config.transferId, // Pass the existing transfer ID
+      {
+        checkpoint,
+        expectedChecksum: transferRecord.expectedChecksum,
+        maxBytesPerSecond,
+        signal: shutdown.signal,
+        finalAttempt: attempt.number >= attempt.retryPolicy.maxAttempts,
+        receipt: config.receipt,
+        extract: transferRecord.extract,
+        extractionLimits: config.extractionLimits,
+        archivePassword,
+      }
     );
+    stopWatching();
+    stopHeartbeat();
+    shutdown.settle();
+
+    // Cancelled: the multipart upload was aborted. Interrupted: it was kept for the retry.
+    // Either way the transfer didn't fail, the exit code tells Step Functions which it was.
+    if (!result.success && shutdown.reason) {
+      console.log(`Transfer ${shutdown.reason} after ${result.bytesTransferred} bytes`);
+      process.exit(await recordShutdown(dynamoDBService, config.transferId, shutdown.reason, result.bytesTransferred, attempt));
+    }
 
     // Update DynamoDB on completion or failure
     if (result.success && result.s3Location) {
       console.log(`Transfer completed successfully: ${result.s3Location}`);
       try {
-        await dynamoDBService.markTransferComplete(config.transferId, result.s3Location);
+        await dynamoDBService.markTransferComplete(
+          config.transferId,
+          result.s3Location,
+          result.checksums,
+          result.bytesTransferred,
+          result.receiptLocation,
+          result.extraction
+        );
         console.log('DynamoDB updated with success status');
       } catch (dbError: any) {
+        // The cancel came in after the last check, the record keeps saying cancelled
+        if (dbError instanceof IllegalTransitionError && dbError.from === TransferStatus.CANCELLED) {
+          console.warn(`Transfer was cancelled as it completed, ${result.s3Location} was written`);
+          process.exit(WorkerExitCode.CANCELLED);
+        }
         console.error('Failed to update DynamoDB with success status:', formatErrorMessage(dbError));
         // Don't fail the transfer if DynamoDB update fails
       }
       
       // Exit with success code
-      process.exit(0);
+      process.exit(WorkerExitCode.SUCCEEDED);
     } else {
-      // Format error message consistently
+      // Retryable failures are rescheduled, others fail the transfer right away
       // Requirements: 3.4, 3.5, 8.3, 8.4
-      const errorMessage = formatErrorMessage(result.error);
-      console.error(`Transfer failed: ${errorMessage}`);
-      
-      try {
-        await dynamoDBService.markTransferFailed(config.transferId, errorMessage);
-        console.log('DynamoDB updated with failure status');
-      } catch (dbError: any) {
-        console.error('Failed to update DynamoDB with failure status:', formatErrorMessage(dbError));
-      }
-      
-      // Exit with error code
-      process.exit(1);
+      process.exit(await recordFailedAttempt(dynamoDBService, config.transferId, result.error, attempt));
     }
   } catch (error: any) {
     // Top-level error handler
@@ -228,16 +702,11 @@ async function main() {
     
     // Try to update DynamoDB with error if we have the config
     if (config && dynamoDBService) {
-      try {
-        await dynamoDBService.markTransferFailed(config.transferId, errorMessage);
-        console.log('DynamoDB updated with error status');
-      } catch (dbError: any) {
-        console.error('Failed to update DynamoDB with error status:', formatErrorMessage(dbError));
-      }
+      process.exit(await recordFailedAttempt(dynamoDBService, config.transferId, error, attempt));
     }
     
     // Exit with error code
-    process.exit(1);
+    process.exit(WorkerExitCode.FAILED);
   }
 }
 
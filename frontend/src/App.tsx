@@ -9,6 +9,8 @@ import { apiClient } from './services/ApiClient';
 function App() {
   const [isLoading, setIsLoading] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [indeterminate, setIndeterminate] = useState(false);
+  const [bytesTransferred, setBytesTransferred] = useState(0);
   const [status, setStatus] = useState<TransferStatus>('idle');
   const [message, setMessage] = useState<string>();
   const [s3Location, setS3Location] = useState<string>();
@@ -30,6 +32,8 @@ function App() {
       setIsLoading(true);
       setStatus('in-progress');
       setProgress(0);
+      setIndeterminate(false);
+      setBytesTransferred(0);
       setMessage(undefined);
       setS3Location(undefined);
 
@@ -68,6 +72,8 @@ function App() {
           response.transferId,
           (progressData) => {
             setProgress(progressData.progress.percentage);
+            setIndeterminate(progressData.progress.indeterminate === true);
+            setBytesTransferred(progressData.progress.bytesTransferred);
             
             if (progressData.status === 'completed') {
               setStatus('success');
@@ -111,6 +117,8 @@ function App() {
             <JobsMonitor key={refreshMonitor} />
             <ProgressDisplay
               progress={progress}
+              indeterminate={indeterminate}
+              bytesTransferred={bytesTransferred}
               status={status}
               message={message}
               s3Location={s3Location}
@@ -6,10 +6,19 @@ import {
   Button,
   SpaceBetween,
   Container,
-  Header
+  Header,
+  Select,
+  Grid,
+  Checkbox
 } from '@cloudscape-design/components';
 import { ValidationService } from '../services/ValidationService';
 import { DownloadRequest, ValidationErrors } from '../types/validation';
+import { ChecksumAlgorithm } from '../types/api';
+
+const CHECKSUM_ALGORITHM_OPTIONS = [
+  { label: 'SHA-256', value: 'sha256' },
+  { label: 'MD5', value: 'md5' }
+];
 
 interface DownloadFormProps {
   onSubmit: (request: DownloadRequest) => Promise<void>;
@@ -20,9 +29,18 @@ export const DownloadForm: React.FC<DownloadFormProps> = ({ onSubmit, isLoading
   const [sourceUrl, setSourceUrl] = useState('');
   const [bucketName, setBucketName] = useState('');
   const [keyPrefix, setKeyPrefix] = useState('');
+  const [checksumAlgorithm, setChecksumAlgorithm] = useState<ChecksumAlgorithm>('sha256');
+  const [checksumValue, setChecksumValue] = useState('');
+  const [discoverChecksum, setDiscoverChecksum] = useState(true);
+  const [bandwidthLimit, setBandwidthLimit] = useState('');
+  const [extractArchive, setExtractArchive] = useState(false);
+  const [keepArchive, setKeepArchive] = useState(false);
+  const [includePatterns, setIncludePatterns] = useState('');
+  const [excludePatterns, setExcludePatterns] = useState('');
+  const [passwordSecret, setPasswordSecret] = useState('');
   const [errors, setErrors] = useState<ValidationErrors>({});
 
-  const validateField = (field: 'sourceUrl' | 'bucketName' | 'keyPrefix', value: string) => {
+  const validateField = (field: 'sourceUrl' | 'bucketName' | 'keyPrefix' | 'expectedChecksum' | 'bandwidthLimit', value: string) => {
     let result;
     
     switch (field) {
@@ -35,6 +53,12 @@ export const DownloadForm: React.FC<DownloadFormProps> = ({ onSubmit, isLoading
       case 'keyPrefix':
         result = ValidationService.validateKeyPrefix(value);
         break;
+      case 'expectedChecksum':
+        result = ValidationService.validateExpectedChecksum(checksumAlgorithm, value);
+        break;
+      case 'bandwidthLimit':
+        result = ValidationService.validateBandwidthLimit(value);
+        break;
     }
 
     setErrors(prev => ({
@@ -72,6 +96,32 @@ export const DownloadForm: React.FC<DownloadFormProps> = ({ onSubmit, isLoading
     }
   };
 
+  const handleChecksumValueChange = (value: string) => {
+    setChecksumValue(value);
+    if (value) {
+      validateField('expectedChecksum', value);
+    } else {
+      setErrors(prev => ({ ...prev, expectedChecksum: undefined }));
+    }
+  };
+
+  const handleBandwidthLimitChange = (value: string) => {
+    setBandwidthLimit(value);
+    if (value) {
+      validateField('bandwidthLimit', value);
+    } else {
+      setErrors(prev => ({ ...prev, bandwidthLimit: undefined }));
+    }
+  };
+
+  const handleChecksumAlgorithmChange = (algorithm: ChecksumAlgorithm) => {
+    setChecksumAlgorithm(algorithm);
+    if (checksumValue) {
+      const result = ValidationService.validateExpectedChecksum(algorithm, checksumValue);
+      setErrors(prev => ({ ...prev, expectedChecksum: result.isValid ? undefined : result.error }));
+    }
+  };
+
   const isFormValid = () => {
     if (!sourceUrl || !bucketName) {
       return false;
@@ -80,9 +130,18 @@ export const DownloadForm: React.FC<DownloadFormProps> = ({ onSubmit, isLoading
     const urlValid = ValidationService.validateUrl(sourceUrl).isValid;
     const bucketValid = ValidationService.validateBucketName(bucketName).isValid;
     const prefixValid = ValidationService.validateKeyPrefix(keyPrefix).isValid;
+    const checksumValid = ValidationService.validateExpectedChecksum(checksumAlgorithm, checksumValue).isValid;
+    const bandwidthValid = ValidationService.validateBandwidthLimit(bandwidthLimit).isValid;
+
+    return urlValid && bucketValid && prefixValid && checksumValid && bandwidthValid;
+  };
 
-    return urlValid && bucketValid && prefixValid;
+  // Comma-separated glob patterns, e.g. "docs/**, *.md"
+  const parsePatterns = (value: string): string[] | undefined => {
+    const patterns = value.split(',').map(pattern => pattern.trim()).filter(Boolean);
+    return patterns.length > 0 ? patterns : undefined;
   };
+  const selectsEntries = Boolean(parsePatterns(includePatterns) || parsePatterns(excludePatterns));
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -91,12 +150,29 @@ export const DownloadForm: React.FC<DownloadFormProps> = ({ onSubmit, isLoading
     const urlValid = validateField('sourceUrl', sourceUrl);
     const bucketValid = validateField('bucketName', bucketName);
     const prefixValid = validateField('keyPrefix', keyPrefix);
+    const checksumValid = validateField('expectedChecksum', checksumValue);
+    const bandwidthValid = validateField('bandwidthLimit', bandwidthLimit);
 
-    if (urlValid && bucketValid && prefixValid) {
+    if (urlValid && bucketValid && prefixValid && checksumValid && bandwidthValid) {
       const request: DownloadRequest = {
         sourceUrl,
         bucketName,
-        keyPrefix: keyPrefix || undefined
+        keyPrefix: keyPrefix || undefined,
+        expectedChecksum: checksumValue
+          ? { algorithm: checksumAlgorithm, value: checksumValue.trim() }
+          : undefined,
+        discoverChecksum: discoverChecksum ? undefined : false,
+        maxBytesPerSecond: bandwidthLimit.trim()
+          ? ValidationService.toBytesPerSecond(bandwidthLimit)
+          : undefined,
+        extract: extractArchive
+          ? {
+              keepArchive: selectsEntries ? undefined : keepArchive,
+              include: parsePatterns(includePatterns),
+              exclude: parsePatterns(excludePatterns),
+              passwordSecret: passwordSecret.trim() || undefined
+            }
+          : undefined
       };
       await onSubmit(request);
     }
@@ -163,6 +239,103 @@ export const DownloadForm: React.FC<DownloadFormProps> = ({ onSubmit, isLoading
                 disabled={isLoading}
               />
             </FormField>
+
+            <FormField
+              label="Expected Checksum (Optional)"
+              description="Digest published for the file; the transfer fails if the downloaded bytes don't match"
+              errorText={errors.expectedChecksum}
+            >
+              <Grid gridDefinition={[{ colspan: 3 }, { colspan: 9 }]}>
+                <Select
+                  selectedOption={CHECKSUM_ALGORITHM_OPTIONS.find(option => option.value === checksumAlgorithm) || null}
+                  onChange={({ detail }) => handleChecksumAlgorithmChange(detail.selectedOption.value as ChecksumAlgorithm)}
+                  options={CHECKSUM_ALGORITHM_OPTIONS}
+                  disabled={isLoading}
+                />
+                <Input
+                  value={checksumValue}
+                  onChange={({ detail }) => handleChecksumValueChange(detail.value)}
+                  placeholder="Hex digest, e.g. 9f86d081884c7d65..."
+                  disabled={isLoading}
+                />
+              </Grid>
+            </FormField>
+
+            <Checkbox
+              checked={discoverChecksum}
+              onChange={({ detail }) => setDiscoverChecksum(detail.checked)}
+              disabled={isLoading || checksumValue !== ''}
+              description="Uses .sha256, SHA256SUMS, .md5 files or Digest headers published next to the file"
+            >
+              Look for a published checksum when none is entered
+            </Checkbox>
+
+            <FormField
+              label="Bandwidth Limit (Optional)"
+              description="Maximum download rate in MB/s, for shared links or origins that limit clients"
+              errorText={errors.bandwidthLimit}
+            >
+              <Input
+                type="number"
+                value={bandwidthLimit}
+                onChange={({ detail }) => handleBandwidthLimitChange(detail.value)}
+                placeholder="Unlimited"
+                disabled={isLoading}
+              />
+            </FormField>
+
+            <Checkbox
+              checked={extractArchive}
+              onChange={({ detail }) => setExtractArchive(detail.checked)}
+              disabled={isLoading}
+              description="Uploads each file in the ZIP archive as its own object under the archive's name"
+            >
+              Extract the archive
+            </Checkbox>
+
+            <Checkbox
+              checked={keepArchive}
+              onChange={({ detail }) => setKeepArchive(detail.checked)}
+              disabled={isLoading || !extractArchive || selectsEntries}
+            >
+              Keep the archive as well
+            </Checkbox>
+
+            <FormField
+              label="Entries to Extract (Optional)"
+              description="Comma-separated glob patterns such as docs/**/*.pdf; only matching entries are downloaded"
+            >
+              <Input
+                value={includePatterns}
+                onChange={({ detail }) => setIncludePatterns(detail.value)}
+                placeholder="All entries"
+                disabled={isLoading || !extractArchive}
+              />
+            </FormField>
+
+            <FormField
+              label="Entries to Skip (Optional)"
+              description="Comma-separated glob patterns of entries to leave out"
+            >
+              <Input
+                value={excludePatterns}
+                onChange={({ detail }) => setExcludePatterns(detail.value)}
+                placeholder="None"
+                disabled={isLoading || !extractArchive}
+              />
+            </FormField>
+
+            <FormField
+              label="Password Secret (Optional)"
+              description="Name or ARN of the Secrets Manager secret holding the password of an encrypted archive"
+            >
+              <Input
+                value={passwordSecret}
+                onChange={({ detail }) => setPasswordSecret(detail.value)}
+                placeholder="s3-zip-downloader/archive-passwords/partner"
+                disabled={isLoading || !extractArchive}
+              />
+            </FormField>
           </SpaceBetween>
         </Form>
       </form>
@@ -19,15 +19,21 @@ interface JobInfo {
   bucketName: string;
   keyPrefix?: string;
   s3Key?: string;
-  status: 'pending' | 'in-progress' | 'completed' | 'failed';
+  status: 'pending' | 'starting' | 'in-progress' | 'completed' | 'failed';
   percentage: number;
   bytesTransferred: number;
   totalBytes: number;
+  indeterminate?: boolean; // Total size unknown until the transfer completes
+  maxBytesPerSecond?: number; // Active bandwidth limit
   startTime: string;
   error?: string;
 }
 
 const LOCAL_STORAGE_TRANSFERS_KEY = 'active-transfers';
+
+// Transfers that haven't finished yet, which are polled and can be cancelled
+const isActive = (status: JobInfo['status']): boolean =>
+  status === 'pending' || status === 'starting' || status === 'in-progress';
 const POLL_INTERVAL = 2000; // 2 seconds
 
 export const JobsMonitor: React.FC = () => {
@@ -49,7 +55,7 @@ export const JobsMonitor: React.FC = () => {
     }
 
     const activeJobs = jobs.filter(
-      job => job.status === 'pending' || job.status === 'in-progress'
+      job => isActive(job.status)
     );
 
     if (activeJobs.length === 0) {
@@ -68,6 +74,8 @@ export const JobsMonitor: React.FC = () => {
               percentage: response.progress?.percentage || 0,
               bytesTransferred: response.progress?.bytesTransferred || 0,
               totalBytes: response.progress?.totalBytes || 0,
+              indeterminate: response.progress?.indeterminate === true,
+              maxBytesPerSecond: response.progress?.maxBytesPerSecond,
               sourceUrl: response.metadata?.sourceUrl || job.sourceUrl,
               bucketName: response.metadata?.bucketName || job.bucketName,
               keyPrefix: response.metadata?.keyPrefix || job.keyPrefix,
@@ -119,6 +127,8 @@ export const JobsMonitor: React.FC = () => {
             percentage: transfer.progress?.percentage || 0,
             bytesTransferred: transfer.progress?.bytesTransferred || 0,
             totalBytes: transfer.progress?.totalBytes || 0,
+            indeterminate: transfer.progress?.indeterminate === true,
+            maxBytesPerSecond: transfer.progress?.maxBytesPerSecond,
             startTime: transfer.metadata.startTime,
             error: transfer.error
           }));
@@ -159,7 +169,7 @@ export const JobsMonitor: React.FC = () => {
   const removeJob = async (transferId: string, shouldCancel: boolean = false) => {
     // If the job is active and shouldCancel is true, cancel it via API
     const job = jobs.find(j => j.transferId === transferId);
-    if (shouldCancel && job && (job.status === 'pending' || job.status === 'in-progress')) {
+    if (shouldCancel && job && isActive(job.status)) {
       try {
         await apiClient.cancelTransfer(transferId);
         console.log(`Transfer ${transferId} cancelled successfully`);
@@ -179,7 +189,7 @@ export const JobsMonitor: React.FC = () => {
   const clearCompleted = () => {
     setJobs(prevJobs => {
       const filtered = prevJobs.filter(
-        job => job.status === 'pending' || job.status === 'in-progress'
+        job => isActive(job.status)
       );
       saveJobs(filtered);
       return filtered;
@@ -198,6 +208,8 @@ export const JobsMonitor: React.FC = () => {
     switch (status) {
       case 'pending':
         return <StatusIndicator type="pending">Pending</StatusIndicator>;
+      case 'starting':
+        return <StatusIndicator type="pending">Starting</StatusIndicator>;
       case 'in-progress':
         return <StatusIndicator type="in-progress">In Progress</StatusIndicator>;
       case 'completed':
@@ -238,6 +250,8 @@ export const JobsMonitor: React.FC = () => {
           percentage: response.progress.percentage,
           bytesTransferred: response.progress.bytesTransferred,
           totalBytes: response.progress.totalBytes,
+          indeterminate: response.progress.indeterminate === true,
+          maxBytesPerSecond: response.progress.maxBytesPerSecond,
           startTime: response.metadata.startTime,
           error: response.error
         });
@@ -377,6 +391,11 @@ export const JobsMonitor: React.FC = () => {
                           <strong>Size:</strong> {formatBytes(job.totalBytes)}
                         </Box>
                       )}
+                      {job.maxBytesPerSecond && (
+                        <Box variant="small">
+                          <strong>Bandwidth limit:</strong> {formatBytes(job.maxBytesPerSecond)}/s
+                        </Box>
+                      )}
                     </SpaceBetween>
                   }
                 >
@@ -389,17 +408,23 @@ export const JobsMonitor: React.FC = () => {
                   <Button
                     variant="icon"
                     iconName="close"
-                    onClick={() => removeJob(job.transferId, job.status === 'pending' || job.status === 'in-progress')}
-                    ariaLabel={job.status === 'pending' || job.status === 'in-progress' ? 'Cancel and remove transfer' : 'Remove transfer'}
+                    onClick={() => removeJob(job.transferId, isActive(job.status))}
+                    ariaLabel={isActive(job.status) ? 'Cancel and remove transfer' : 'Remove transfer'}
                   />
                 </div>
               </div>
               
-              {(job.status === 'pending' || job.status === 'in-progress') && (
+              {job.status === 'in-progress' && job.indeterminate && (
+                <StatusIndicator type="loading">
+                  {`${formatBytes(job.bytesTransferred)} transferred (total size unknown)`}
+                </StatusIndicator>
+              )}
+
+              {(job.status === 'pending' || job.status === 'starting' || (job.status === 'in-progress' && !job.indeterminate)) && (
                 <ProgressBar
                   value={job.percentage}
                   label={`${formatBytes(job.bytesTransferred)} / ${formatBytes(job.totalBytes)}`}
-                  description={job.status === 'pending' ? 'Starting...' : undefined}
+                  description={job.status === 'pending' || job.status === 'starting' ? 'Starting...' : undefined}
                 />
               )}
               
@@ -4,13 +4,16 @@ import {
   ProgressBar,
   Box,
   Alert,
-  SpaceBetween
+  SpaceBetween,
+  StatusIndicator
 } from '@cloudscape-design/components';
 
 export type TransferStatus = 'idle' | 'in-progress' | 'success' | 'error';
 
 interface ProgressDisplayProps {
   progress: number; // 0-100
+  indeterminate?: boolean; // Total size unknown, show bytes instead of a percentage
+  bytesTransferred?: number;
   status: TransferStatus;
   message?: string;
   s3Location?: string;
@@ -18,6 +21,8 @@ interface ProgressDisplayProps {
 
 export const ProgressDisplay: React.FC<ProgressDisplayProps> = ({
   progress,
+  indeterminate,
+  bytesTransferred = 0,
   status,
   message,
   s3Location
@@ -76,7 +81,16 @@ export const ProgressDisplay: React.FC<ProgressDisplayProps> = ({
       }
     >
       <SpaceBetween size="l">
-        {status === 'in-progress' && (
+        {status === 'in-progress' && indeterminate && (
+          <SpaceBetween size="xs">
+            <StatusIndicator type="loading">{getStatusText()}</StatusIndicator>
+            <Box variant="small">
+              {`${(bytesTransferred / (1024 * 1024)).toFixed(2)} MB transferred (total size unknown)`}
+            </Box>
+          </SpaceBetween>
+        )}
+
+        {status === 'in-progress' && !indeterminate && (
           <ProgressBar
             value={progress}
             label={getStatusText()}
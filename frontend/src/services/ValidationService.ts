@@ -1,4 +1,5 @@
 import { ValidationResult } from '../types/validation';
+import { ChecksumAlgorithm } from '../types/api';
 
 export class ValidationService {
   /**
@@ -162,4 +163,56 @@ export class ValidationService {
 
     return { isValid: true };
   }
+
+  /**
+   * Validates an optional expected checksum (hex digest)
+   */
+  static validateExpectedChecksum(algorithm: ChecksumAlgorithm, value: string): ValidationResult {
+    if (value === '') {
+      return { isValid: true };
+    }
+
+    const expectedLength = algorithm === 'md5' ? 32 : 64;
+    if (!new RegExp(`^[0-9a-fA-F]{${expectedLength}}$`).test(value.trim())) {
+      return {
+        isValid: false,
+        error: `A ${algorithm === 'md5' ? 'MD5' : 'SHA-256'} checksum must be ${expectedLength} hexadecimal characters`
+      };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Validates an optional bandwidth limit entered in MB/s
+   */
+  static validateBandwidthLimit(value: string): ValidationResult {
+    if (value.trim() === '') {
+      return { isValid: true };
+    }
+
+    const megabytesPerSecond = Number(value);
+    if (!Number.isFinite(megabytesPerSecond) || megabytesPerSecond <= 0) {
+      return {
+        isValid: false,
+        error: 'Bandwidth limit must be a positive number of MB/s'
+      };
+    }
+
+    if (ValidationService.toBytesPerSecond(value) < 1024) {
+      return {
+        isValid: false,
+        error: 'Bandwidth limit must be at least 1 KB/s'
+      };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Converts a bandwidth limit entered in MB/s to whole bytes per second
+   */
+  static toBytesPerSecond(value: string): number {
+    return Math.round(Number(value) * 1024 * 1024);
+  }
 }
@@ -1,3 +1,25 @@
+export type ChecksumAlgorithm = 'sha256' | 'md5';
+
+export interface ExpectedChecksum {
+  algorithm: ChecksumAlgorithm;
+  value: string; // Hex encoded
+  source?: string; // 'request', a response header or the checksum file URL it was found in
+}
+
+export interface ExtractOptions {
+  keepArchive?: boolean; // Also upload the archive itself
+  include?: string[]; // Only extract entries whose path matches one of these globs
+  exclude?: string[]; // Skip entries whose path matches one of these globs
+  passwordSecret?: string; // Secrets Manager secret holding the password of an encrypted archive
+}
+
+export interface ExtractionSummary {
+  prefix: string; // Key prefix the entries were written under
+  entryCount: number;
+  uncompressedBytes: number;
+  archiveLocation?: string; // When the archive was kept
+}
+
 export interface DownloadResponse {
   success: boolean;
   s3Location?: string;
@@ -8,11 +30,13 @@ export interface DownloadResponse {
 export interface ProgressResponse {
   success: boolean;
   transferId: string;
-  status: 'pending' | 'in-progress' | 'completed' | 'failed';
+  status: 'pending' | 'starting' | 'in-progress' | 'completed' | 'failed';
   progress: {
     bytesTransferred: number;
     totalBytes: number;
     percentage: number;
+    indeterminate?: boolean; // Source did not report a size, percentage is not meaningful
+    maxBytesPerSecond?: number; // Bandwidth limit applied to the transfer, absent when unlimited
   };
   metadata: {
     sourceUrl: string;
@@ -20,12 +44,38 @@ export interface ProgressResponse {
     keyPrefix?: string;
     s3Key?: string;
     s3Location?: string;
+    receiptLocation?: string; // Transfer receipt (JSON) written next to the object
+    extraction?: ExtractionSummary; // Present when the archive was extracted
     startTime: string;
     endTime?: string;
     lastUpdateTime?: string;
+    heartbeatTime?: string; // Last time the worker reported it was alive
     fargateTaskArn?: string;
+    nextAttemptTime?: string; // When the scheduled retry starts
   };
+  attempts?: {
+    attempt: number;
+    startTime: string;
+    endTime: string;
+    error: string;
+    errorCode: string;
+    retryable: boolean;
+    retryDelayMs?: number; // Absent when the transfer failed for good
+  }[];
+  checksums?: {
+    sha256?: string; // Hex encoded, absent when a resumed transfer did not read its kept parts again
+    crc32c: string; // Hex encoded
+    md5?: string; // Hex encoded, only when an MD5 checksum was expected
+  };
+  expectedChecksum?: ExpectedChecksum;
   error?: string;
+  errorCode?: string;
+  errorDetails?: {
+    code: string;
+    category: 'source' | 'destination' | 'network' | 'integrity' | 'internal';
+    retryable: boolean; // Whether running the transfer again can succeed
+    remediation: string; // What to do about the failure
+  };
 }
 
 export class ApiError extends Error {
@@ -1,3 +1,5 @@
+import { ExpectedChecksum, ExtractOptions } from './api';
+
 export interface ValidationResult {
   isValid: boolean;
   error?: string;
@@ -7,10 +9,16 @@ export interface DownloadRequest {
   sourceUrl: string;
   bucketName: string;
   keyPrefix?: string;
+  expectedChecksum?: ExpectedChecksum;
+  discoverChecksum?: boolean;
+  maxBytesPerSecond?: number;
+  extract?: ExtractOptions; // Upload the ZIP archive's entries instead of the archive
 }
 
 export interface ValidationErrors {
   sourceUrl?: string;
   bucketName?: string;
   keyPrefix?: string;
+  expectedChecksum?: string;
+  bandwidthLimit?: string;
 }
@@ -13,6 +13,8 @@ import * as ecr from 'aws-cdk-lib/aws-ecr';
 import * as sfn from 'aws-cdk-lib/aws-stepfunctions';
 import * as tasks from 'aws-cdk-lib/aws-stepfunctions-tasks';
 import * as codebuild from 'aws-cdk-lib/aws-codebuild';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
 import { Construct } from 'constructs';
 
 export class S3ZipDownloaderStack extends cdk.Stack {
@@ -29,13 +31,171 @@ export class S3ZipDownloaderStack extends cdk.Stack {
       description: 'Maximum number of concurrent S3 multipart upload parts (1-20). Higher values increase throughput but also memory usage.',
     });
 
+    // CloudFormation parameters for the bounds of adaptive upload concurrency
+    const adaptiveConcurrencyMinParam = new cdk.CfnParameter(this, 'AdaptiveConcurrencyMin', {
+      type: 'Number',
+      default: 1,
+      minValue: 1,
+      maxValue: 20,
+      description: 'Lowest number of concurrent part uploads the worker backs off to when S3 throttles or parts slow down (1-20).',
+    });
+
+    const adaptiveConcurrencyMaxParam = new cdk.CfnParameter(this, 'AdaptiveConcurrencyMax', {
+      type: 'Number',
+      default: 20,
+      minValue: 1,
+      maxValue: 20,
+      description: 'Highest number of concurrent part uploads the worker ramps up to while parts upload without congestion (1-20). Equal bounds pin the concurrency.',
+    });
+
+    // CloudFormation parameter for PART_BUFFER_MEMORY_PERCENT
+    const partBufferMemoryPercentParam = new cdk.CfnParameter(this, 'PartBufferMemoryPercent', {
+      type: 'Number',
+      default: 50,
+      minValue: 10,
+      maxValue: 90,
+      description: 'Share of the worker container memory used for part buffers (10-90%). Part size and upload concurrency are lowered to fit it.',
+    });
+
+    // CloudFormation parameter for SOURCE_CONNECTIONS
+    const sourceConnectionsParam = new cdk.CfnParameter(this, 'SourceConnections', {
+      type: 'Number',
+      default: 1,
+      minValue: 1,
+      maxValue: 16,
+      description: 'Number of parallel ranged connections to the source server (1-16). Values above 1 only apply when the source supports byte ranges.',
+    });
+
+    // CloudFormation parameters for reconnecting to the source after a dropped connection
+    const sourceReconnectAttemptsParam = new cdk.CfnParameter(this, 'SourceReconnectAttempts', {
+      type: 'Number',
+      default: 5,
+      minValue: 0,
+      maxValue: 20,
+      description: 'Times the worker reconnects to the source with a Range request after the connection drops mid-transfer (0-20, 0 disables).',
+    });
+
+    const sourceReconnectBackoffParam = new cdk.CfnParameter(this, 'SourceReconnectBackoffMs', {
+      type: 'Number',
+      default: 1000,
+      minValue: 0,
+      maxValue: 60000,
+      description: 'Delay before the first source reconnect in milliseconds (0-60000), doubled for each further attempt.',
+    });
+
+    // CloudFormation parameter for MAX_BYTES_PER_SECOND (default bandwidth limit per transfer)
+    const maxBytesPerSecondParam = new cdk.CfnParameter(this, 'MaxBytesPerSecond', {
+      type: 'Number',
+      default: 0,
+      minValue: 0,
+      description: 'Default bandwidth limit per transfer in bytes per second (0 = unlimited). A maxBytesPerSecond on the request overrides it.',
+    });
+
+    // CloudFormation parameters for rescheduling failed transfer attempts (TRANSFER_RETRY_*)
+    const transferRetryMaxAttemptsParam = new cdk.CfnParameter(this, 'TransferRetryMaxAttempts', {
+      type: 'Number',
+      default: 3,
+      minValue: 1,
+      maxValue: 10,
+      description: 'Attempts per transfer, including the first (1-10). Only retryable errors are retried, others fail the transfer right away.',
+    });
+
+    const transferRetryBaseDelayParam = new cdk.CfnParameter(this, 'TransferRetryBaseDelayMs', {
+      type: 'Number',
+      default: 30000,
+      minValue: 0,
+      description: 'Backoff before the second attempt of a failed transfer in milliseconds, doubled for each further attempt and randomised by up to half.',
+    });
+
+    const transferRetryMaxDelayParam = new cdk.CfnParameter(this, 'TransferRetryMaxDelayMs', {
+      type: 'Number',
+      default: 300000,
+      minValue: 0,
+      description: 'Cap for the backoff between transfer attempts in milliseconds.',
+    });
+
+    // CloudFormation parameter for TRANSFER_RECEIPT_PREFIX (where the worker writes transfer receipts)
+    const transferReceiptPrefixParam = new cdk.CfnParameter(this, 'TransferReceiptPrefix', {
+      type: 'String',
+      default: '',
+      description: 'Key prefix for transfer receipts (<prefix>/<key>.transfer.json). Empty writes each receipt next to its object as <key>.transfer.json.',
+    });
+
+    // CloudFormation parameters for the archive extraction safety limits (EXTRACT_MAX_*)
+    const extractMaxTotalBytesParam = new cdk.CfnParameter(this, 'ExtractMaxTotalBytes', {
+      type: 'Number',
+      default: 1099511627776,
+      minValue: 1,
+      description: 'Uncompressed bytes an extracted archive may expand to, across all its entries (default 1TB).',
+    });
+
+    const extractMaxEntriesParam = new cdk.CfnParameter(this, 'ExtractMaxEntries', {
+      type: 'Number',
+      default: 100000,
+      minValue: 1,
+      description: 'Entries an extracted archive may have, directories included.',
+    });
+
+    const extractMaxCompressionRatioParam = new cdk.CfnParameter(this, 'ExtractMaxCompressionRatio', {
+      type: 'Number',
+      default: 100,
+      minValue: 1,
+      description: 'How many times its compressed size an entry over 1MB may expand to when extracted.',
+    });
+
+    const extractMaxDepthParam = new cdk.CfnParameter(this, 'ExtractMaxDepth', {
+      type: 'Number',
+      default: 32,
+      minValue: 1,
+      description: 'Path segments an extracted entry name may have, the file name included.',
+    });
+
+    // CloudFormation parameter for ARCHIVE_PASSWORD_SECRET_PREFIX (secrets workers may read archive passwords from)
+    const archivePasswordSecretPrefixParam = new cdk.CfnParameter(this, 'ArchivePasswordSecretPrefix', {
+      type: 'String',
+      default: 's3-zip-downloader/archive-passwords/',
+      allowedPattern: '^[A-Za-z0-9/_+=.@-]+$',
+      description: 'Name prefix of the Secrets Manager secrets requests may name in extract.passwordSecret. Workers can read no other secret.',
+    });
+
+    // CloudFormation parameter for STALE_TRANSFER_MINUTES (heartbeat window of the stale transfer reaper)
+    const staleTransferMinutesParam = new cdk.CfnParameter(this, 'StaleTransferMinutes', {
+      type: 'Number',
+      default: 15,
+      minValue: 5,
+      description: 'Minutes without a worker heartbeat after which an active transfer is failed as stalled. Workers beat every minute.',
+    });
+
+    // CloudFormation parameters for the orphaned multipart upload janitor
+    const orphanedUploadMaxAgeHoursParam = new cdk.CfnParameter(this, 'OrphanedUploadMaxAgeHours', {
+      type: 'Number',
+      default: 48,
+      minValue: 1,
+      description: 'Age in hours after which a multipart upload whose transfer is finished or unknown is aborted',
+    });
+
+    const multipartJanitorDryRunParam = new cdk.CfnParameter(this, 'MultipartJanitorDryRun', {
+      type: 'String',
+      default: 'false',
+      allowedValues: ['true', 'false'],
+      description: 'Only report the orphaned multipart uploads the janitor would abort',
+    });
+
     // DynamoDB table for transfer state persistence
     // Requirements: 7.6, 8.7
     // Schema:
     // - Partition Key: transferId (STRING)
     // - Attributes: status, sourceUrl, bucketName, keyPrefix, s3Key, 
     //   bytesTransferred, totalBytes, percentage, startTime, endTime, 
-    //   lastUpdateTime, error, fargateTaskArn, ttl
+    //   lastUpdateTime, heartbeatTime, error, fargateTaskArn, ttl
+    // - Resume checkpoint: uploadId, partSize, completedParts (number set),
+    //   sourceEtag, sourceLastModified
+    // - Integrity: checksums (map of hex sha256, crc32c and optional md5 for the whole object),
+    //   expectedChecksum (algorithm, value and source: request, header or sidecar URL),
+    //   discoverChecksum (false when sidecar discovery is off)
+    // - Failure: errorCode, errorCategory (source, destination, network, integrity or internal),
+    //   errorRetryable, errorRemediation
+    // - Throttling: maxBytesPerSecond (requested), activeMaxBytesPerSecond (applied by the worker)
     // - TTL: Automatic cleanup using 'ttl' attribute (set by application)
     const transferTable = new dynamodb.Table(this, 'TransferTable', {
       partitionKey: {
@@ -96,8 +256,10 @@ export class S3ZipDownloaderStack extends cdk.Stack {
         actions: [
           's3:PutObject',
           's3:PutObjectAcl',
+          's3:GetObject', // HeadObject, to verify the size and checksum of a completed upload
           's3:AbortMultipartUpload',
           's3:ListMultipartUploadParts',
+          's3:DeleteObject', // Removes the entries of an extracted archive that fails its checksum
         ],
         resources: ['arn:aws:s3:::*/*'],
       })
@@ -124,6 +286,17 @@ export class S3ZipDownloaderStack extends cdk.Stack {
       })
     );
 
+    // Grant read access to archive passwords; secret ARNs end in a random suffix, hence the wildcard
+    taskRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['secretsmanager:GetSecretValue'],
+        resources: [
+          `arn:aws:secretsmanager:${this.region}:${this.account}:secret:${archivePasswordSecretPrefixParam.valueAsString}*`,
+        ],
+      })
+    );
+
     // CloudWatch log group for Fargate tasks
     // Requirements: 7.2
     const workerLogGroup = new logs.LogGroup(this, 'WorkerLogGroup', {
@@ -153,9 +326,27 @@ export class S3ZipDownloaderStack extends cdk.Stack {
         AWS_REGION: this.region,
         DYNAMODB_TABLE_NAME: transferTable.tableName,
         MAX_CONCURRENT_UPLOADS: maxConcurrentUploadsParam.valueAsString,
+        ADAPTIVE_CONCURRENCY_MIN: adaptiveConcurrencyMinParam.valueAsString,
+        ADAPTIVE_CONCURRENCY_MAX: adaptiveConcurrencyMaxParam.valueAsString,
+        PART_BUFFER_MEMORY_PERCENT: partBufferMemoryPercentParam.valueAsString,
+        SOURCE_CONNECTIONS: sourceConnectionsParam.valueAsString,
+        SOURCE_RECONNECT_ATTEMPTS: sourceReconnectAttemptsParam.valueAsString,
+        SOURCE_RECONNECT_BACKOFF_MS: sourceReconnectBackoffParam.valueAsString,
+        MAX_BYTES_PER_SECOND: maxBytesPerSecondParam.valueAsString,
+        TRANSFER_RETRY_MAX_ATTEMPTS: transferRetryMaxAttemptsParam.valueAsString,
+        TRANSFER_RETRY_BASE_DELAY_MS: transferRetryBaseDelayParam.valueAsString,
+        TRANSFER_RETRY_MAX_DELAY_MS: transferRetryMaxDelayParam.valueAsString,
+        TRANSFER_RECEIPT_PREFIX: transferReceiptPrefixParam.valueAsString,
+        EXTRACT_MAX_TOTAL_BYTES: extractMaxTotalBytesParam.valueAsString,
+        EXTRACT_MAX_ENTRIES: extractMaxEntriesParam.valueAsString,
+        EXTRACT_MAX_COMPRESSION_RATIO: extractMaxCompressionRatioParam.valueAsString,
+        EXTRACT_MAX_DEPTH: extractMaxDepthParam.valueAsString,
       },
       // Environment variables TRANSFER_ID, SOURCE_URL, BUCKET, KEY_PREFIX
       // will be passed at runtime by Step Functions
+      // Time between SIGTERM and SIGKILL when a cancel stops the task, for the worker to
+      // drain its part uploads and abort the multipart upload (Fargate allows at most 120s)
+      stopTimeout: cdk.Duration.seconds(120),
     });
 
     // IAM role for Step Functions state machine
@@ -255,19 +446,38 @@ export class S3ZipDownloaderStack extends cdk.Stack {
       heartbeatTimeout: sfn.Timeout.duration(cdk.Duration.hours(48)),
     });
 
-    // Configure retry logic for transient failures
+    // Retry tasks that couldn't be started, no attempt at the transfer was made
     // Requirements: 8.2, 8.3, 8.4
+    // Failed attempts are not retried here: the worker's retry policy decides, see the
+    // scheduled retry below.
     runFargateTask.addRetry({
       errors: [
         'ECS.AmazonECSException', // ECS service errors
-        'States.TaskFailed', // Task execution failures
-        'States.Timeout', // Timeout errors
       ],
       interval: cdk.Duration.seconds(30), // Wait 30 seconds before retry
       maxAttempts: 2, // Retry up to 2 times (3 total attempts)
       backoffRate: 2.0, // Exponential backoff (30s, 60s)
     });
 
+    // Reads when the worker scheduled the next attempt (nextAttemptTime on the transfer record)
+    const getRetrySchedule = new tasks.DynamoGetItem(this, 'GetRetrySchedule', {
+      table: transferTable,
+      key: {
+        transferId: tasks.DynamoAttributeValue.fromString(sfn.JsonPath.stringAt('$.transferId')),
+      },
+      projectionExpression: [new tasks.DynamoProjectionExpression().withAttribute('nextAttemptTime')],
+      consistentRead: true,
+      resultSelector: {
+        'nextAttemptTime.$': '$.Item.nextAttemptTime.S',
+      },
+      resultPath: '$.retry',
+    });
+
+    // Retried tasks resume the multipart upload from the checkpoint on the transfer record
+    const waitForRetry = new sfn.Wait(this, 'WaitForRetry', {
+      time: sfn.WaitTime.timestampPath('$.retry.nextAttemptTime'),
+    });
+
     // Step Functions task to update DynamoDB on failure
     // Requirements: 8.3, 8.4
     const updateDynamoDBOnFailure = new tasks.DynamoUpdateItem(this, 'UpdateDynamoDBOnFailure', {
@@ -275,19 +485,36 @@ export class S3ZipDownloaderStack extends cdk.Stack {
       key: {
         transferId: tasks.DynamoAttributeValue.fromString(sfn.JsonPath.stringAt('$.transferId')),
       },
-      updateExpression: 'SET #status = :status, endTime = :endTime, lastUpdateTime = :updateTime, #error = :error',
+      updateExpression:
+        'SET #status = :status, endTime = :endTime, lastUpdateTime = :updateTime, #error = :error, ' +
+        'errorCode = :errorCode, errorCategory = :errorCategory, errorRetryable = :errorRetryable, ' +
+        'errorRemediation = :errorRemediation ADD version :one',
+      // Same transitions as DynamoDBService: only a transfer that is still active can fail, the
+      // worker may already have recorded it as failed or cancelled
+      conditionExpression: '#status IN (:pending, :starting, :inProgress)',
       expressionAttributeNames: {
         '#status': 'status',
         '#error': 'error',
       },
       expressionAttributeValues: {
         ':status': tasks.DynamoAttributeValue.fromString('failed'),
+        ':pending': tasks.DynamoAttributeValue.fromString('pending'),
+        ':starting': tasks.DynamoAttributeValue.fromString('starting'),
+        ':inProgress': tasks.DynamoAttributeValue.fromString('in-progress'),
+        ':one': tasks.DynamoAttributeValue.fromNumber(1),
         ':endTime': tasks.DynamoAttributeValue.fromString(sfn.JsonPath.stringAt('$$.State.EnteredTime')),
         ':updateTime': tasks.DynamoAttributeValue.fromString(sfn.JsonPath.stringAt('$$.State.EnteredTime')),
         // Use errorInfo.Error if available, otherwise use a generic message
         ':error': tasks.DynamoAttributeValue.fromString(
           sfn.JsonPath.format('Task failed: {}', sfn.JsonPath.stringAt('$.errorInfo.Error'))
         ),
+        // The worker died without classifying the failure, e.g. it ran out of memory or never started
+        ':errorCode': tasks.DynamoAttributeValue.fromString('TASK_FAILED'),
+        ':errorCategory': tasks.DynamoAttributeValue.fromString('internal'),
+        ':errorRetryable': tasks.DynamoAttributeValue.fromBoolean(false),
+        ':errorRemediation': tasks.DynamoAttributeValue.fromString(
+          'The worker task stopped unexpectedly; check the worker logs, then submit the transfer again'
+        ),
       },
       resultPath: sfn.JsonPath.DISCARD,
     });
@@ -304,16 +531,56 @@ export class S3ZipDownloaderStack extends cdk.Stack {
       cause: 'Fargate task failed to complete transfer',
     });
 
-    // Chain: Run Fargate task -> Success or (Update DynamoDB -> Failure)
+    // The worker recorded the cancel itself, it must not be overwritten with failed
+    const cancelledState = new sfn.Succeed(this, 'TransferCancelled', {
+      comment: 'Transfer was cancelled by the user',
+    });
+
+    // The failure cause is the stopped task as JSON, with the worker's exit code
+    // (WorkerExitCode in backend/src/services/ShutdownCoordinator.ts)
+    const WORKER_EXIT_CANCELLED = 3;
+    const WORKER_EXIT_RETRY_SCHEDULED = 4;
+    const WORKER_EXIT_INTERRUPTED = 75;
+    const exitedWith = (...exitCodes: number[]) => sfn.Condition.and(
+      sfn.Condition.isString('$.errorInfo.Cause'),
+      sfn.Condition.or(
+        ...exitCodes.flatMap(exitCode => [
+          sfn.Condition.stringMatches('$.errorInfo.Cause', `*"ExitCode":${exitCode},*`),
+          sfn.Condition.stringMatches('$.errorInfo.Cause', `*"ExitCode":${exitCode}}*`),
+        ])
+      )
+    );
+    // A retryable failure or an interruption was recorded as a failed attempt with the time
+    // of the next one. Anything else (including a worker that died without recording its
+    // failure) fails the transfer.
+    const checkTaskFailure = new sfn.Choice(this, 'CheckTaskFailure')
+      .when(exitedWith(WORKER_EXIT_CANCELLED), cancelledState)
+      .when(exitedWith(WORKER_EXIT_RETRY_SCHEDULED, WORKER_EXIT_INTERRUPTED), getRetrySchedule)
+      .otherwise(updateDynamoDBOnFailure);
+
+    // No schedule on the record (the worker couldn't write it) fails the transfer
+    getRetrySchedule.addCatch(updateDynamoDBOnFailure, {
+      errors: ['States.ALL'],
+      resultPath: '$.retryError',
+    });
+    getRetrySchedule.next(waitForRetry);
+    waitForRetry.next(runFargateTask);
+
+    // Chain: Run Fargate task -> Success or (Cancelled or (Update DynamoDB -> Failure))
     // Requirements: 8.2 - Catch Fargate task failures and update DynamoDB
     // Requirements: 8.3, 8.4 - Handle network interruptions and report errors
     const definition = runFargateTask
-      .addCatch(updateDynamoDBOnFailure, {
+      .addCatch(checkTaskFailure, {
         errors: ['States.ALL'], // Catch all errors including task failures
         resultPath: '$.errorInfo', // Store error details in errorInfo field
       })
       .next(successState);
 
+    // The record already has its final status
+    updateDynamoDBOnFailure.addCatch(failureState, {
+      errors: ['DynamoDB.ConditionalCheckFailedException'],
+      resultPath: sfn.JsonPath.DISCARD,
+    });
     updateDynamoDBOnFailure.next(failureState);
 
     // CloudWatch log group for Step Functions
@@ -450,6 +717,7 @@ export class S3ZipDownloaderStack extends cdk.Stack {
       environment: {
         DYNAMODB_TABLE_NAME: transferTable.tableName,
         STATE_MACHINE_ARN: stateMachine.stateMachineArn,
+        ARCHIVE_PASSWORD_SECRET_PREFIX: archivePasswordSecretPrefixParam.valueAsString,
       },
       logRetention: logs.RetentionDays.ONE_WEEK,
       description: 'Lambda function for job submission',
@@ -486,6 +754,18 @@ export class S3ZipDownloaderStack extends cdk.Stack {
       description: 'Lambda function for listing all transfers',
     });
 
+    // Lambda function for inspecting remote archives
+    // Only reaches out to the source URL, so it needs no AWS permissions beyond logging
+    const inspectArchiveLambda = new lambda.Function(this, 'InspectArchiveFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'lambda/inspectArchiveHandler.handler',
+      code: lambda.Code.fromAsset('../backend/dist'),
+      timeout: cdk.Duration.seconds(29), // Two or three range requests to the source
+      memorySize: 512, // Holds a central directory of up to 64MB
+      logRetention: logs.RetentionDays.ONE_WEEK,
+      description: 'Lambda function for listing the entries of a remote ZIP archive',
+    });
+
     // Lambda execution role for cancel transfer
     const cancelTransferLambdaRole = new iam.Role(this, 'CancelTransferLambdaRole', {
       assumedBy: new iam.ServicePrincipal('lambda.amazonaws.com'),
@@ -516,11 +796,12 @@ export class S3ZipDownloaderStack extends cdk.Stack {
       })
     );
 
-    // Add ECS permissions for stopping tasks
+    // Add ECS permissions for stopping the transfer's task
+    // ListTasks/DescribeTasks find it by its TRANSFER_ID before the worker has recorded its ARN
     cancelTransferLambdaRole.addToPolicy(
       new iam.PolicyStatement({
         effect: iam.Effect.ALLOW,
-        actions: ['ecs:ListTasks', 'ecs:StopTask'],
+        actions: ['ecs:ListTasks', 'ecs:DescribeTasks', 'ecs:StopTask'],
         resources: ['*'], // ECS tasks don't support resource-level permissions
       })
     );
@@ -541,6 +822,126 @@ export class S3ZipDownloaderStack extends cdk.Stack {
       description: 'Lambda function for cancelling transfers',
     });
 
+    // Lambda execution role for the stale transfer reaper
+    const staleTransferReaperLambdaRole = new iam.Role(this, 'StaleTransferReaperLambdaRole', {
+      assumedBy: new iam.ServicePrincipal('lambda.amazonaws.com'),
+      description: 'Execution role for S3 ZIP Downloader stale transfer reaper Lambda',
+      managedPolicies: [
+        iam.ManagedPolicy.fromAwsManagedPolicyName('service-role/AWSLambdaBasicExecutionRole'),
+      ],
+    });
+
+    // Add DynamoDB permissions for finding and failing stalled transfers
+    staleTransferReaperLambdaRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: [
+          'dynamodb:Scan',
+          'dynamodb:UpdateItem',
+        ],
+        resources: [transferTable.tableArn],
+      })
+    );
+
+    // Add Step Functions permissions for stopping executions, which stops their ECS task
+    staleTransferReaperLambdaRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['states:StopExecution'],
+        resources: [`arn:aws:states:${this.region}:${this.account}:execution:${stateMachine.stateMachineName}:*`],
+      })
+    );
+
+    // Add S3 permissions for aborting the stalled transfers' multipart uploads
+    staleTransferReaperLambdaRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['s3:AbortMultipartUpload'],
+        resources: ['arn:aws:s3:::*/*'], // Same destinations the worker writes to
+      })
+    );
+
+    // Lambda function for failing transfers whose worker stopped sending heartbeats
+    const staleTransferReaperLambda = new lambda.Function(this, 'StaleTransferReaperFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'lambda/staleTransferReaperHandler.handler',
+      code: lambda.Code.fromAsset('../backend/dist'),
+      role: staleTransferReaperLambdaRole,
+      timeout: cdk.Duration.minutes(2),
+      memorySize: 256,
+      environment: {
+        DYNAMODB_TABLE_NAME: transferTable.tableName,
+        STALE_TRANSFER_MINUTES: staleTransferMinutesParam.valueAsString,
+      },
+      logRetention: logs.RetentionDays.ONE_WEEK,
+      description: 'Lambda function for failing stalled transfers',
+    });
+
+    // Run the reaper every 5 minutes
+    new events.Rule(this, 'StaleTransferReaperSchedule', {
+      schedule: events.Schedule.rate(cdk.Duration.minutes(5)),
+      targets: [new targets.LambdaFunction(staleTransferReaperLambda)],
+      description: 'Fails transfers whose worker stopped sending heartbeats',
+    });
+
+    // Lambda execution role for the multipart upload janitor
+    const multipartJanitorLambdaRole = new iam.Role(this, 'MultipartJanitorLambdaRole', {
+      assumedBy: new iam.ServicePrincipal('lambda.amazonaws.com'),
+      description: 'Execution role for S3 ZIP Downloader multipart upload janitor Lambda',
+      managedPolicies: [
+        iam.ManagedPolicy.fromAwsManagedPolicyName('service-role/AWSLambdaBasicExecutionRole'),
+      ],
+    });
+
+    // Add DynamoDB permissions for matching uploads to transfers
+    multipartJanitorLambdaRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['dynamodb:Scan'],
+        resources: [transferTable.tableArn],
+      })
+    );
+
+    // Add S3 permissions for listing, sizing and aborting multipart uploads
+    multipartJanitorLambdaRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['s3:ListBucketMultipartUploads'],
+        resources: ['arn:aws:s3:::*'],
+      })
+    );
+    multipartJanitorLambdaRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['s3:ListMultipartUploadParts', 's3:AbortMultipartUpload'],
+        resources: ['arn:aws:s3:::*/*'], // Same destinations the worker writes to
+      })
+    );
+
+    // Lambda function for aborting orphaned multipart uploads
+    const multipartJanitorLambda = new lambda.Function(this, 'MultipartJanitorFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'lambda/multipartUploadJanitorHandler.handler',
+      code: lambda.Code.fromAsset('../backend/dist'),
+      role: multipartJanitorLambdaRole,
+      timeout: cdk.Duration.minutes(15),
+      memorySize: 256,
+      environment: {
+        DYNAMODB_TABLE_NAME: transferTable.tableName,
+        ORPHANED_UPLOAD_MAX_AGE_HOURS: orphanedUploadMaxAgeHoursParam.valueAsString,
+        MULTIPART_JANITOR_DRY_RUN: multipartJanitorDryRunParam.valueAsString,
+      },
+      logRetention: logs.RetentionDays.ONE_WEEK,
+      description: 'Lambda function for aborting orphaned multipart uploads',
+    });
+
+    // Run the janitor once a day
+    new events.Rule(this, 'MultipartJanitorSchedule', {
+      schedule: events.Schedule.rate(cdk.Duration.days(1)),
+      targets: [new targets.LambdaFunction(multipartJanitorLambda)],
+      description: 'Aborts multipart uploads no transfer will complete',
+    });
+
     // API Gateway REST API
     // Requirements: 7.2, 7.5
     const api = new apigateway.RestApi(this, 'S3ZipDownloaderApi', {
@@ -582,6 +983,12 @@ export class S3ZipDownloaderStack extends cdk.Stack {
       proxy: true,
     });
 
+    // Lambda integration for archive inspection
+    const inspectArchiveIntegration = new apigateway.LambdaIntegration(inspectArchiveLambda, {
+      timeout: cdk.Duration.seconds(29),
+      proxy: true,
+    });
+
     // POST /transfers endpoint (job submission)
     // Requirements: 7.2, 7.5
     const transfersResource = api.root.addResource('transfers');
@@ -597,6 +1004,10 @@ export class S3ZipDownloaderStack extends cdk.Stack {
     transferIdResource.addMethod('GET', progressQueryIntegration);
     transferIdResource.addMethod('DELETE', cancelTransferIntegration);
 
+    // GET /inspect?url=... endpoint (list the entries of a remote ZIP archive)
+    const inspectResource = api.root.addResource('inspect');
+    inspectResource.addMethod('GET', inspectArchiveIntegration);
+
     // CloudWatch alarm for job submission Lambda errors
     // Requirements: 7.2
     jobSubmissionLambda.metricErrors({
@@ -800,5 +1211,11 @@ export class S3ZipDownloaderStack extends cdk.Stack {
       value: maxConcurrentUploadsParam.valueAsString,
       description: 'Maximum concurrent S3 multipart upload parts configured for worker tasks',
     });
+
+    // Output SOURCE_CONNECTIONS configuration
+    new cdk.CfnOutput(this, 'SourceConnections', {
+      value: sourceConnectionsParam.valueAsString,
+      description: 'Parallel ranged source connections configured for worker tasks',
+    });
   }
 }